@@ -1,52 +1,571 @@
 
-import React, { useState, useCallback, useRef } from 'react';
-import { DataPoint, VisualizationState, CategoryStyle, PointShape } from './types';
+import React, { useState, useCallback, useRef, useMemo, useEffect, useReducer, SetStateAction } from 'react';
+import { PointDataset, VisualizationState, CategoryStyle, PointShape, ImportReport, ImportProgress, ColorEncoding, SizeEncoding, SelectionMode, FilterState, AxisScale, ReductionSettings, ClusteringSettings, LabelSet, CameraPose, ImageExportSettings, ModelExportSettings, TimeSeriesSettings, CameraBookmark, TourStop, DatasetLayer, LayerDisplay, LayerComparison, NeighborQuery, CategoryOverlays } from './types';
+import { computeColorDomain, DEFAULT_COLOR_ENCODING, sortedFiniteValues } from './services/colormaps';
+import { columnExtent, DEFAULT_SIZE_ENCODING } from './services/sizeScale';
+import { combineSelection, complementSelection, EMPTY_SELECTION, selectionMask } from './services/selection';
+import { combineMasks, computeFilterMask, countVisible, EMPTY_FILTERS } from './services/filters';
+import { createSceneTransform, DEFAULT_AXIS_SCALES, transformPositions } from './services/axes';
+import { buildFeatureMatrix, componentNames, coordinateMatrix, DEFAULT_REDUCTION, REDUCTION_METHODS, resolveFeatures } from './services/reduction';
+import { ReductionTask, startReduction } from './services/reductionClient';
+import { DEFAULT_CLUSTERING } from './services/clustering';
+import { createTrajectories, DEFAULT_TIME_SERIES } from './services/timeSeries';
+import { createBookmarkId } from './services/cameraTour';
+import { alignToMatches, centeringOffset, createLayer, DEFAULT_COMPARISON, DEFAULT_LAYER_DISPLAY, LayerPlacement, matchLayer, shiftStats, updatePlacements } from './services/layers';
+import { DEFAULT_NEIGHBOR_QUERY, findNeighbors } from './services/neighbors';
+import { categoryStatistics, DEFAULT_CATEGORY_OVERLAYS } from './services/categoryStats';
+import { applyStyleSheet, Categories, invertVisibility, isolateCategory as isolateLabel, mergeCategories as mergeLabels, moveCategory as moveLabel, renameCategory as renameLabel, splitCategory as splitLabel, StyleSheet } from './services/categories';
+import { applyPalette } from './services/palettes';
+import { createHistory, createHistoryReducer, restoreView } from './services/history';
+import { ClusteringTask, startClustering } from './services/clusteringClient';
+import { defaultCategoryStyles, labelSetFromClusters, ORIGINAL_LABEL_SET, syncLabelSets } from './services/labelSets';
+import { createProject, createProjectId, parseProjectFile, Project, projectFileName, ProjectInfo, projectNameFromFile, projectState, serializeProject } from './services/project';
+import { loadRecentProject, saveRecentProject, StoredArrays } from './services/projectStore';
+import { downloadBlob } from './services/download';
+import { datasetFingerprint, decodeLinkData, decodeLinkView, encodeLinkData, encodeLinkView, formatLinkHash, LinkHash, LinkView, MAX_LINK_POINTS, readLinkHash } from './services/viewLink';
 import DataVisualizer, { DataVisualizerHandle } from './components/DataVisualizer';
 import FileUpload from './components/FileUpload';
 import Sidebar from './components/Sidebar';
+import ImportReportPanel from './components/ImportReportPanel';
+import RecentProjects from './components/RecentProjects';
+import DataTable from './components/DataTable';
+import { AutosaveStatus } from './components/ProjectPanel';
+
+// Quiet period after the last change before the project is autosaved
+const AUTOSAVE_DELAY_MS = 1500;
+// Quiet period before a view change becomes a new history entry
+const LINK_DELAY_MS = 500;
+
+const linkMatches = (view: LinkView, dataset: PointDataset) =>
+  view.count === dataset.count && view.fingerprint === datasetFingerprint(dataset);
+
+/**
+ * Makes a label set the dataset's categories. Expects the label sets to be in
+ * sync already, since the outgoing labels and styles are not saved here.
+ */
+const activate = (state: VisualizationState, index: number): VisualizationState => {
+  const set = state.labelSets[index];
+  if (!state.dataset || !set) return state;
+  return {
+    ...state,
+    dataset: { ...state.dataset, labels: set.labels, labelIndices: set.labelIndices },
+    categories: [...set.labels],
+    categoryStyles: set.categoryStyles,
+    activeLabelSet: index,
+  };
+};
+
+const EMPTY_STATE: VisualizationState = {
+  dataset: null,
+  categories: [],
+  categoryStyles: {},
+  showAxes: true,
+  useSourceColors: true,
+  colorEncoding: DEFAULT_COLOR_ENCODING,
+  sizeEncoding: DEFAULT_SIZE_ENCODING,
+  selection: EMPTY_SELECTION,
+  selectedIndex: null,
+  hiddenPoints: EMPTY_SELECTION,
+  filters: EMPTY_FILTERS,
+  axisScales: DEFAULT_AXIS_SCALES,
+  reduction: DEFAULT_REDUCTION,
+  reductionProgress: null,
+  reductionError: null,
+  labelSets: [],
+  activeLabelSet: 0,
+  clustering: DEFAULT_CLUSTERING,
+  clusteringProgress: null,
+  clusteringError: null,
+  timeSeries: DEFAULT_TIME_SERIES,
+  bookmarks: [],
+  tour: [],
+  mainLayer: DEFAULT_LAYER_DISPLAY,
+  layers: [],
+  comparison: DEFAULT_COMPARISON,
+  neighborQuery: DEFAULT_NEIGHBOR_QUERY,
+  categoryOverlays: DEFAULT_CATEGORY_OVERLAYS,
+  isLoading: false,
+  loadProgress: null,
+  error: null,
+  importReport: null,
+};
+
+const historyReducer = createHistoryReducer(restoreView);
+
+const isEditing = (e: KeyboardEvent) =>
+  e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(e.target.tagName));
 
 const App: React.FC = () => {
-  const [state, setState] = useState<VisualizationState>({
-    points: [],
-    categories: [],
-    categoryStyles: {},
-    showAxes: true,
-    isLoading: false,
-    error: null,
-  });
+  const [history, dispatch] = useReducer(historyReducer, EMPTY_STATE, createHistory);
+  const state = history.present;
+  // Changes that are not undo steps of their own, like task progress and results streaming in
+  const setState = useCallback((update: SetStateAction<VisualizationState>) => dispatch({ type: 'set', update }), []);
+  // A named undo step; repeats of it in quick succession, or within one group, merge
+  const record = useCallback((name: string, update: (prev: VisualizationState) => VisualizationState, group?: string) => {
+    dispatch({ type: 'record', name, time: Date.now(), group, update });
+  }, []);
+  const travel = useCallback((steps: number) => dispatch({ type: 'travel', steps }), []);
+
+  const [project, setProject] = useState<ProjectInfo | null>(null);
+  const [cameraPose, setCameraPose] = useState<CameraPose | null>(null);
+  // Bumped when the user moves the camera, which is not part of the state
+  const [cameraMoves, setCameraMoves] = useState(0);
+  const [autosave, setAutosave] = useState<AutosaveStatus>({ savedAt: null, error: null });
+  // Point count of a shared view that waits for its dataset to be imported
+  const [pendingLinkCount, setPendingLinkCount] = useState<number | null>(null);
+  const [tableOpen, setTableOpen] = useState(false);
 
   const visualizerRef = useRef<DataVisualizerHandle>(null);
+  const reductionRef = useRef<ReductionTask | null>(null);
+  const clusteringRef = useRef<ClusteringTask | null>(null);
+  // Latest state and project for saves that run outside a render
+  const latestRef = useRef({ state, project });
+  latestRef.current = { state, project };
+  // Datasets and label indices already in the browser store, so autosaves can skip rewriting them
+  const storedArraysRef = useRef<StoredArrays>(new Map());
+  const pendingLinkRef = useRef<LinkView | null>(null);
+  // Encoded data for the link, reused until the positions change
+  const linkDataRef = useRef<{ positions: Float32Array; data: string | null } | null>(null);
+  // Fingerprint of the dataset the address bar's view was made for; views of the same dataset add history entries
+  const linkFingerprintRef = useRef<string | null>(null);
+  // Set while the view comes from the address bar, so re-encoding it does not add an entry
+  const restoringLinkRef = useRef(false);
 
-  const handleDataLoaded = useCallback((points: DataPoint[]) => {
-    const categories = Array.from(new Set(points.map(p => p.label)));
-    const styles: Record<string, CategoryStyle> = {};
-    
-    // Default palette
-    const colorPalette = [
-      '#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', 
-      '#f472b6', '#2dd4bf', '#fb923c', '#818cf8', '#94a3b8'
-    ];
-
-    categories.forEach((cat, i) => {
-      styles[cat] = {
-        color: colorPalette[i % colorPalette.length],
-        shape: 'circle',
-        visible: true,
-      };
+  const { dataset, colorEncoding, sizeEncoding, hiddenPoints, filters, categoryStyles, axisScales, timeSeries, layers, comparison, neighborQuery } = state;
+
+  const sceneTransform = useMemo(
+    () => (dataset ? createSceneTransform(dataset, axisScales) : null),
+    [dataset, axisScales]
+  );
+  const scenePositions = useMemo(
+    () => (dataset && sceneTransform ? transformPositions(dataset, sceneTransform) : null),
+    [dataset, sceneTransform]
+  );
+  const colorColumn = dataset && colorEncoding.attribute ? dataset.attributes[colorEncoding.attribute] : undefined;
+  // Sorting is the expensive part, so it only reruns when the column changes
+  const sortedColorValues = useMemo(
+    () => (colorColumn instanceof Float32Array ? sortedFiniteValues(colorColumn) : null),
+    [colorColumn]
+  );
+  const colorDomain = useMemo(
+    () => (sortedColorValues ? computeColorDomain(sortedColorValues, colorEncoding) : null),
+    [sortedColorValues, colorEncoding]
+  );
+  const sizeColumn = dataset && sizeEncoding.attribute ? dataset.attributes[sizeEncoding.attribute] : undefined;
+  const sizeExtent = useMemo(
+    () => (sizeColumn instanceof Float32Array ? columnExtent(sizeColumn) : null),
+    [sizeColumn]
+  );
+
+  const filterResult = useMemo(
+    () => (dataset ? computeFilterMask(dataset, filters) : null),
+    [dataset, filters]
+  );
+  // Everything that removes individual points, on top of category visibility
+  const hiddenMask = useMemo(() => {
+    if (!dataset) return null;
+    const hidden = hiddenPoints.length > 0 ? selectionMask(hiddenPoints, dataset.count) : null;
+    return combineMasks(dataset.count, hidden, filterResult?.mask ?? null);
+  }, [dataset, hiddenPoints, filterResult]);
+  const trajectories = useMemo(
+    () => (dataset ? createTrajectories(dataset, timeSeries) : null),
+    [dataset, timeSeries.idColumn, timeSeries.timeColumn]
+  );
+  const placementsRef = useRef(new Map<string, LayerPlacement>());
+  const layerPlacements = useMemo(() => {
+    placementsRef.current = sceneTransform ? updatePlacements(placementsRef.current, layers, sceneTransform) : new Map();
+    return placementsRef.current;
+  }, [layers, sceneTransform]);
+  const comparedLayer = layers.find(layer => layer.id === comparison.layerId) ?? null;
+  const layerMatches = useMemo(
+    () => (dataset && comparedLayer && comparison.idColumn ? matchLayer(dataset, comparedLayer.dataset, comparison.idColumn) : null),
+    [dataset, comparedLayer?.dataset, comparison.idColumn]
+  );
+  const comparedPlacement = comparedLayer ? layerPlacements.get(comparedLayer.id) ?? null : null;
+  const layerShifts = useMemo(
+    () => (dataset && layerMatches && comparedPlacement ? shiftStats(dataset.positions, comparedPlacement.placed, layerMatches) : null),
+    [dataset, layerMatches, comparedPlacement]
+  );
+  const visibleCount = useMemo(
+    () => (dataset ? countVisible(dataset, hiddenMask, categoryStyles) : 0),
+    [dataset, hiddenMask, categoryStyles]
+  );
+  const categoryStats = useMemo(
+    () => (dataset ? categoryStatistics(dataset, dataset.positions, hiddenMask) : []),
+    [dataset, hiddenMask]
+  );
+  const neighborOrigin = state.selectedIndex;
+  const neighbors = useMemo(() => {
+    if (!dataset || !neighborQuery.enabled || neighborOrigin === null || neighborOrigin >= dataset.count) return null;
+    const accept = (i: number) => !hiddenMask?.[i] && categoryStyles[dataset.labels[dataset.labelIndices[i]]]?.visible !== false;
+    return findNeighbors(dataset, neighborOrigin, neighborQuery, accept);
+  }, [dataset, neighborQuery, neighborOrigin, hiddenMask, categoryStyles]);
+
+  /**
+   * Lays the points out from their numeric features in a worker. Intermediate
+   * layouts replace the positions as they arrive, as long as the same points
+   * are still loaded. Switching label sets swaps the labels but keeps the
+   * metadata column, so that is what identifies the points.
+   */
+  const runReduction = useCallback(async (source: PointDataset, settings: ReductionSettings) => {
+    reductionRef.current?.cancel();
+    reductionRef.current = null;
+
+    const features = resolveFeatures(source, settings.features);
+    if (features.length === 0) {
+      setState(prev => ({ ...prev, reductionProgress: null, reductionError: 'There are no numeric columns to use as features.' }));
+      return;
+    }
+
+    // The layouts of one run undo as a single step
+    const run = `reduction-${Date.now()}`;
+    const applyPositions = (positions: Float32Array, axisNames: [string, string, string]) => {
+      record(`${REDUCTION_METHODS.find(m => m.id === settings.method)!.name} layout`, prev => (prev.dataset?.metadata === source.metadata
+        ? { ...prev, dataset: { ...prev.dataset, positions, axisNames } }
+        : prev), run);
+    };
+
+    setState(prev => ({ ...prev, reductionProgress: { stage: 'Starting', done: 0, total: 1 }, reductionError: null }));
+    const task = startReduction(
+      buildFeatureMatrix(source, features, settings.standardize),
+      settings,
+      (reductionProgress) => setState(prev => ({ ...prev, reductionProgress })),
+      (positions) => applyPositions(positions, componentNames(settings.method))
+    );
+    reductionRef.current = task;
+
+    try {
+      const result = await task.promise;
+      if (result) applyPositions(result.positions, result.axisNames);
+      if (reductionRef.current === task) setState(prev => ({ ...prev, reductionProgress: null }));
+    } catch (err) {
+      const message = `Reduction failed. ${err instanceof Error ? err.message : String(err)}`;
+      setState(prev => ({ ...prev, reductionProgress: null, reductionError: message }));
+    } finally {
+      if (reductionRef.current === task) reductionRef.current = null;
+    }
+  }, []);
+
+  /**
+   * Clusters the current positions or numeric features in a worker and adds
+   * the result as a new label set, which becomes the active one.
+   */
+  const runClustering = useCallback(async (source: PointDataset, settings: ClusteringSettings) => {
+    clusteringRef.current?.cancel();
+    clusteringRef.current = null;
+
+    const features = settings.input === 'features' ? resolveFeatures(source, settings.features) : [];
+    if (settings.input === 'features' && features.length === 0) {
+      setState(prev => ({ ...prev, clusteringProgress: null, clusteringError: 'There are no numeric columns to use as features.' }));
+      return;
+    }
+    const matrix = settings.input === 'features'
+      ? buildFeatureMatrix(source, features, settings.standardize)
+      : coordinateMatrix(source);
+
+    setState(prev => ({ ...prev, clusteringProgress: { stage: 'Starting', done: 0, total: 1 }, clusteringError: null }));
+    const task = startClustering(matrix, settings, (clusteringProgress) => setState(prev => ({ ...prev, clusteringProgress })));
+    clusteringRef.current = task;
+
+    try {
+      const result = await task.promise;
+      if (result) {
+        const labelSet = labelSetFromClusters(result.name, result.assignments);
+        record(`Add label set ${result.name}`, prev => (prev.dataset?.metadata === source.metadata
+          ? activate({ ...prev, labelSets: [...syncLabelSets(prev), labelSet] }, prev.labelSets.length)
+          : prev));
+      }
+      if (clusteringRef.current === task) setState(prev => ({ ...prev, clusteringProgress: null }));
+    } catch (err) {
+      const message = `Clustering failed. ${err instanceof Error ? err.message : String(err)}`;
+      setState(prev => ({ ...prev, clusteringProgress: null, clusteringError: message }));
+    } finally {
+      if (clusteringRef.current === task) clusteringRef.current = null;
+    }
+  }, []);
+
+  // Category styles only apply to labels the dataset has
+  const applyLinkView = useCallback((view: LinkView) => {
+    record('Open shared view', prev => {
+      if (!prev.dataset) return prev;
+      const categoryStyles = { ...prev.categoryStyles };
+      prev.categories.forEach(label => {
+        if (view.categoryStyles[label]) categoryStyles[label] = view.categoryStyles[label];
+      });
+      return { ...prev, categoryStyles, axisScales: view.axisScales, showAxes: view.showAxes, selectedIndex: view.selectedIndex };
     });
+    if (view.camera) setCameraPose(view.camera);
+  }, []);
 
-    setState(prev => ({
+  const handleDataLoaded = useCallback((dataset: PointDataset, report: ImportReport, computeLayout: boolean) => {
+    reductionRef.current?.cancel();
+    reductionRef.current = null;
+    clusteringRef.current?.cancel();
+    clusteringRef.current = null;
+    const categories = [...dataset.labels];
+    const styles = defaultCategoryStyles(categories);
+    const original: LabelSet = { name: ORIGINAL_LABEL_SET, labels: dataset.labels, labelIndices: dataset.labelIndices, categoryStyles: styles };
+
+    record(`Import ${report.fileName}`, prev => ({
       ...prev,
-      points,
+      dataset,
       categories,
       categoryStyles: styles,
+      colorEncoding: { ...prev.colorEncoding, attribute: null },
+      sizeEncoding: { ...prev.sizeEncoding, attribute: null },
+      selection: EMPTY_SELECTION,
+      selectedIndex: null,
+      hiddenPoints: EMPTY_SELECTION,
+      filters: EMPTY_FILTERS,
+      axisScales: DEFAULT_AXIS_SCALES,
+      // Feature names and sensible parameters depend on the data
+      reduction: DEFAULT_REDUCTION,
+      reductionProgress: null,
+      reductionError: null,
+      labelSets: [original],
+      activeLabelSet: 0,
+      clusteringProgress: null,
+      clusteringError: null,
+      // Column names depend on the data; playback preferences carry over
+      timeSeries: { ...prev.timeSeries, idColumn: null, timeColumn: null },
+      // Poses are in the previous data's world units
+      bookmarks: [],
+      tour: [],
+      // Layers stay to compare against the new points, which may lack the id column
+      comparison: { ...prev.comparison, idColumn: null },
+      neighborQuery: { ...prev.neighborQuery, category: null },
+      isLoading: false,
+      loadProgress: null,
+      error: null,
+      importReport: report,
+    }));
+
+    setProject({ id: createProjectId(), name: projectNameFromFile(report.fileName) });
+    setCameraPose(null);
+    storedArraysRef.current.clear();
+
+    const pending = pendingLinkRef.current;
+    if (pending && linkMatches(pending, dataset)) {
+      pendingLinkRef.current = null;
+      setPendingLinkCount(null);
+      restoringLinkRef.current = true;
+      applyLinkView(pending);
+    }
+
+    if (computeLayout) runReduction(dataset, DEFAULT_REDUCTION);
+  }, [runReduction, applyLinkView]);
+
+  /**
+   * Replaces the current view with a project's. A project saved without its
+   * data applies to the dataset loaded now, which must have as many points.
+   */
+  const openProject = useCallback((opened: Project) => {
+    const dataset = opened.dataset ?? latestRef.current.state.dataset;
+    if (!dataset) throw new Error('This project was saved without its data. Import the data first, then open the project.');
+    if (dataset.count !== opened.count) {
+      throw new Error(`This project describes ${opened.count.toLocaleString()} points but ${dataset.count.toLocaleString()} are loaded.`);
+    }
+
+    reductionRef.current?.cancel();
+    reductionRef.current = null;
+    clusteringRef.current?.cancel();
+    clusteringRef.current = null;
+    record(`Open project ${opened.name}`, prev => ({
+      ...prev,
+      ...projectState(opened, dataset),
+      reductionProgress: null,
+      reductionError: null,
+      clusteringProgress: null,
+      clusteringError: null,
       isLoading: false,
+      loadProgress: null,
       error: null,
+      importReport: opened.dataset ? null : prev.importReport,
     }));
+    setProject({ id: opened.id, name: opened.name });
+    setCameraPose(opened.view.camera);
+    storedArraysRef.current.clear();
+  }, []);
+
+  const openProjectFile = useCallback(async (file: File) => {
+    openProject(await parseProjectFile(file));
+  }, [openProject]);
+
+  // The landing screen reports failures in its error box
+  const openFromLanding = useCallback((load: () => Promise<void>) => {
+    load().catch(err => {
+      const message = `Could not open the project. ${err instanceof Error ? err.message : String(err)}`;
+      setState(prev => ({ ...prev, error: message, importReport: null }));
+    });
+  }, []);
+
+  const saveProjectFile = async (includeData: boolean, compress: boolean) => {
+    if (!state.dataset || !project) return;
+    const saved = createProject(project, state, visualizerRef.current?.getCamera() ?? null, includeData);
+    downloadBlob(await serializeProject(saved, compress), projectFileName(saved, compress));
+  };
+
+  const autosaveNow = useCallback(async () => {
+    const { state: current, project: info } = latestRef.current;
+    if (!current.dataset || !info) return;
+    const saved = createProject(info, current, visualizerRef.current?.getCamera() ?? null, true);
+    try {
+      await saveRecentProject(saved, storedArraysRef.current);
+      setAutosave({ savedAt: saved.savedAt, error: null });
+    } catch (err) {
+      setAutosave(prev => ({ ...prev, error: err instanceof Error ? err.message : String(err) }));
+    }
+  }, []);
+
+  // Progress and errors are left out so a running task does not keep postponing the save
+  const { showAxes, useSourceColors, selection, selectedIndex, reduction, clustering, labelSets, activeLabelSet } = state;
+  useEffect(() => {
+    if (!dataset || !project) return;
+    const timer = window.setTimeout(autosaveNow, AUTOSAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [
+    autosaveNow, project, dataset, categoryStyles, showAxes, useSourceColors, colorEncoding, sizeEncoding, filters,
+    axisScales, reduction, clustering, labelSets, activeLabelSet, selection, selectedIndex, hiddenPoints, cameraMoves,
+  ]);
+
+  // Catches the last camera move when the tab is closed or hidden before the timer fires
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') autosaveNow();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [autosaveNow]);
+
+  const handleCameraChange = useCallback(() => setCameraMoves(n => n + 1), []);
+
+  // Project of every dataset seen, so undoing back to a dataset, even past clearing it, brings its project back
+  const projectsRef = useRef(new WeakMap<string[], ProjectInfo>());
+  useEffect(() => {
+    const current = latestRef.current.state.dataset;
+    if (current && project) projectsRef.current.set(current.metadata, project);
+  }, [project]);
+  useEffect(() => {
+    const known = dataset && projectsRef.current.get(dataset.metadata);
+    if (known) setProject(known);
+  }, [dataset?.metadata]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isEditing(e)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z') travel(e.shiftKey ? 1 : -1);
+      else if (key === 'y' && !e.shiftKey) travel(1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [travel]);
+
+  const renameProject = (name: string) => {
+    setProject(prev => prev && { ...prev, name });
+  };
+
+  /**
+   * Opens the view in a link. It applies straight away to a matching dataset,
+   * brings its own data along when the link embeds it, and otherwise waits
+   * until the matching dataset is imported.
+   */
+  const openLink = useCallback(async (hash: string) => {
+    const link = readLinkHash(hash);
+    if (!link.view && !link.data) return;
+    const view = link.view ? await decodeLinkView(link.view) : null;
+    const current = latestRef.current.state.dataset;
+    restoringLinkRef.current = true;
+
+    if (view && current && linkMatches(view, current)) {
+      applyLinkView(view);
+    } else if (link.data) {
+      const opened = await parseProjectFile(decodeLinkData(link.data));
+      linkDataRef.current = { positions: opened.dataset!.positions, data: link.data };
+      openProject(opened);
+      if (view) applyLinkView(view);
+    } else if (view) {
+      pendingLinkRef.current = view;
+      setPendingLinkCount(view.count);
+      restoringLinkRef.current = false;
+    }
+  }, [applyLinkView, openProject]);
+
+  // The view as a link; the data is only included for small datasets
+  const currentLink = useCallback(async (): Promise<LinkHash | null> => {
+    const { state: current, project: info } = latestRef.current;
+    if (!current.dataset) return null;
+    const view = await encodeLinkView({
+      count: current.dataset.count,
+      fingerprint: datasetFingerprint(current.dataset),
+      camera: visualizerRef.current?.getCamera() ?? null,
+      categoryStyles: current.categoryStyles,
+      axisScales: current.axisScales,
+      showAxes: current.showAxes,
+      selectedIndex: current.selectedIndex,
+    });
+
+    const { positions } = current.dataset;
+    if (linkDataRef.current?.positions !== positions) {
+      const small = info && current.dataset.count <= MAX_LINK_POINTS;
+      // Links carry the main points only
+      const data = small ? await encodeLinkData(await serializeProject(createProject(info, { ...current, layers: [] }, null, true), true)) : null;
+      linkDataRef.current = { positions, data };
+    }
+    return { view, data: linkDataRef.current.data };
+  }, []);
+
+  const updateAddressBar = useCallback(async () => {
+    const link = await currentLink();
+    const dataset = latestRef.current.state.dataset;
+    if (!link || !dataset) return;
+    const hash = formatLinkHash(link);
+    const fingerprint = datasetFingerprint(dataset);
+    const replace = restoringLinkRef.current || linkFingerprintRef.current !== fingerprint;
+    restoringLinkRef.current = false;
+    linkFingerprintRef.current = fingerprint;
+    if (hash === window.location.hash) return;
+    if (replace) window.history.replaceState(null, '', hash);
+    else window.history.pushState(null, '', hash);
+  }, [currentLink]);
+
+  useEffect(() => {
+    if (!dataset) return;
+    const timer = window.setTimeout(updateAddressBar, LINK_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [updateAddressBar, dataset, categoryStyles, axisScales, showAxes, selectedIndex, cameraMoves]);
+
+  // Opens the link the page was loaded with, and follows back/forward through view changes
+  useEffect(() => {
+    const open = () => openLink(window.location.hash).catch(err => {
+      const message = `Could not open the shared view. ${err instanceof Error ? err.message : String(err)}`;
+      setState(prev => ({ ...prev, error: message, importReport: null }));
+    });
+    open();
+    window.addEventListener('popstate', open);
+    return () => window.removeEventListener('popstate', open);
+  }, [openLink]);
+
+  const copyLink = async (): Promise<boolean> => {
+    const link = await currentLink();
+    if (!link) return false;
+    window.history.replaceState(null, '', formatLinkHash(link));
+    await navigator.clipboard.writeText(window.location.href);
+    return link.data !== null;
+  };
+
+  const handleLoadingChange = useCallback((isLoading: boolean, loadProgress: ImportProgress | null) => {
+    setState(prev => ({ ...prev, isLoading, loadProgress, error: isLoading ? null : prev.error }));
+  }, []);
+
+  const handleImportError = useCallback((message: string, report: ImportReport | null) => {
+    setState(prev => ({ ...prev, isLoading: false, loadProgress: null, error: message, importReport: report }));
   }, []);
 
   const updateCategoryStyle = (category: string, updates: Partial<CategoryStyle>) => {
-    setState(prev => ({
+    record(`Style ${category}`, prev => ({
       ...prev,
       categoryStyles: {
         ...prev.categoryStyles,
@@ -55,59 +574,433 @@ const App: React.FC = () => {
     }));
   };
 
+  // Applies an edit to the active labels; the neighbour search follows a renamed or merged category
+  const editCategories = (name: string, edit: (categories: Categories) => Categories, renamed: Record<string, string> = {}) => {
+    record(name, prev => {
+      if (!prev.dataset) return prev;
+      const { labels, labelIndices, categoryStyles } = edit({
+        labels: prev.dataset.labels,
+        labelIndices: prev.dataset.labelIndices,
+        categoryStyles: prev.categoryStyles,
+      });
+      const queried = prev.neighborQuery.category;
+      const category = queried === null ? null : renamed[queried] ?? queried;
+      return {
+        ...prev,
+        dataset: { ...prev.dataset, labels, labelIndices },
+        categories: [...labels],
+        categoryStyles,
+        neighborQuery: { ...prev.neighborQuery, category: category !== null && labels.includes(category) ? category : null },
+      };
+    });
+  };
+
+  const renameCategory = (from: string, to: string) => {
+    editCategories(`Rename ${from} to ${to.trim()}`, c => renameLabel(c, from, to), { [from]: to.trim() });
+  };
+
+  const mergeCategories = (sources: string[], target: string) => {
+    editCategories(`Merge into ${target.trim()}`, c => mergeLabels(c, sources, target), Object.fromEntries(sources.map(label => [label, target.trim()])));
+  };
+
+  const moveCategory = (category: string, offset: number) => {
+    editCategories(`Move ${category}`, c => moveLabel(c, category, offset));
+  };
+
+  // Moves the selected points of the category into a new one
+  const splitCategory = (category: string, name: string) => {
+    if (!state.dataset) return;
+    const l = state.dataset.labels.indexOf(category);
+    const indices = state.selection.filter(i => state.dataset!.labelIndices[i] === l);
+    if (l < 0 || indices.length === 0) return;
+    editCategories(`Split ${name.trim()} off ${category}`, c => splitLabel(c, indices, name));
+  };
+
+  const isolateCategory = (category: string) => {
+    record(`Show only ${category}`, prev => ({ ...prev, categoryStyles: isolateLabel(prev.categoryStyles, category) }));
+  };
+
+  const invertCategoryVisibility = () => {
+    record('Invert category visibility', prev => ({ ...prev, categoryStyles: invertVisibility(prev.categoryStyles) }));
+  };
+
+  const applyCategoryPalette = (colors: string[]) => {
+    record('Apply palette', prev => ({ ...prev, categoryStyles: applyPalette(prev.categoryStyles, prev.categories, colors) }));
+  };
+
+  const applyCategoryStyleSheet = (sheet: StyleSheet, reorder: boolean) => {
+    editCategories('Apply style sheet', c => applyStyleSheet(c, sheet, reorder).categories);
+  };
+
+  const updateColorEncoding = (updates: Partial<ColorEncoding>) => {
+    record('Color encoding', prev => ({ ...prev, colorEncoding: { ...prev.colorEncoding, ...updates } }));
+  };
+
+  const updateSizeEncoding = (updates: Partial<SizeEncoding>) => {
+    record('Size encoding', prev => ({ ...prev, sizeEncoding: { ...prev.sizeEncoding, ...updates } }));
+  };
+
+  const clearSelection = useCallback(() => {
+    record('Clear selection', prev => (prev.selection.length === 0 && prev.selectedIndex === null
+      ? prev
+      : { ...prev, selection: EMPTY_SELECTION, selectedIndex: null }));
+  }, []);
+
+  const selectPoint = useCallback((index: number | null, mode: SelectionMode) => {
+    if (index === null) {
+      // Clicking empty space clears everything unless a modifier is held
+      if (mode === 'replace') clearSelection();
+      return;
+    }
+    record(mode === 'subtract' ? 'Deselect point' : 'Select point', prev => ({
+      ...prev,
+      selection: combineSelection(prev.selection, Uint32Array.of(index), mode),
+      selectedIndex: mode === 'subtract' ? (prev.selectedIndex === index ? null : prev.selectedIndex) : index,
+    }));
+  }, [clearSelection]);
+
+  // Rows pick points like clicks in the scene, and the camera flies to a newly focused one
+  const showPointFromTable = useCallback((index: number, mode: SelectionMode) => {
+    selectPoint(index, mode);
+    if (mode !== 'subtract') visualizerRef.current?.flyToPoint(index);
+  }, [selectPoint]);
+
+  const selectRegion = useCallback((indices: Uint32Array, mode: SelectionMode) => {
+    record('Select points', prev => {
+      const selection = combineSelection(prev.selection, indices, mode);
+      const keepFocus = prev.selectedIndex !== null && selection.includes(prev.selectedIndex);
+      return { ...prev, selection, selectedIndex: keepFocus ? prev.selectedIndex : null };
+    });
+  }, []);
+
+  const focusPoint = useCallback((selectedIndex: number | null) => {
+    record('Focus point', prev => (prev.selectedIndex === selectedIndex ? prev : { ...prev, selectedIndex }));
+  }, []);
+
+  const hideSelection = () => {
+    record('Hide selection', prev => ({
+      ...prev,
+      hiddenPoints: combineSelection(prev.hiddenPoints, prev.selection, 'add'),
+      selection: EMPTY_SELECTION,
+      selectedIndex: null,
+    }));
+  };
+
+  const isolateSelection = () => {
+    record('Isolate selection', prev => prev.dataset ? {
+      ...prev,
+      hiddenPoints: complementSelection(prev.selection, prev.dataset.count),
+    } : prev);
+  };
+
+  const showAllPoints = () => {
+    record('Show all points', prev => ({ ...prev, hiddenPoints: EMPTY_SELECTION }));
+  };
+
+  const updateFilters = (updates: Partial<FilterState>) => {
+    record('Filters', prev => ({ ...prev, filters: { ...prev.filters, ...updates } }));
+  };
+
+  const setAxisScale = (axis: number, scale: AxisScale) => {
+    record('Axis scale', prev => {
+      const axisScales: [AxisScale, AxisScale, AxisScale] = [...prev.axisScales];
+      axisScales[axis] = scale;
+      return { ...prev, axisScales };
+    });
+  };
+
+  const updateReduction = (updates: Partial<ReductionSettings>) => {
+    record('Reduction settings', prev => ({ ...prev, reduction: { ...prev.reduction, ...updates } }));
+  };
+
+  const handleRunReduction = () => {
+    if (state.dataset) runReduction(state.dataset, state.reduction);
+  };
+
+  // Keeps whatever layout the reduction had reached
+  const cancelReduction = () => {
+    reductionRef.current?.cancel();
+    reductionRef.current = null;
+    setState(prev => ({ ...prev, reductionProgress: null }));
+  };
+
+  const updateClustering = (updates: Partial<ClusteringSettings>) => {
+    record('Clustering settings', prev => ({ ...prev, clustering: { ...prev.clustering, ...updates } }));
+  };
+
+  const updateTimeSeries = (updates: Partial<TimeSeriesSettings>) => {
+    record('Time series', prev => ({ ...prev, timeSeries: { ...prev.timeSeries, ...updates } }));
+  };
+
+  const addBookmark = (name: string) => {
+    const pose = visualizerRef.current?.getCamera();
+    if (!pose) return;
+    record(`Add bookmark ${name}`, prev => ({ ...prev, bookmarks: [...prev.bookmarks, { id: createBookmarkId(), name, pose }] }));
+  };
+
+  const updateBookmark = (id: string, updates: Partial<CameraBookmark>) => {
+    record('Edit bookmark', prev => ({ ...prev, bookmarks: prev.bookmarks.map(b => (b.id === id ? { ...b, ...updates } : b)) }));
+  };
+
+  // Moves the bookmark to where the camera is now
+  const retakeBookmark = (id: string) => {
+    const pose = visualizerRef.current?.getCamera();
+    if (pose) updateBookmark(id, { pose });
+  };
+
+  const removeBookmark = (id: string) => {
+    record('Remove bookmark', prev => ({
+      ...prev,
+      bookmarks: prev.bookmarks.filter(b => b.id !== id),
+      tour: prev.tour.filter(stop => stop.bookmarkId !== id),
+    }));
+  };
+
+  const flyToBookmark = (id: string) => {
+    const bookmark = state.bookmarks.find(b => b.id === id);
+    if (bookmark) visualizerRef.current?.flyTo(bookmark.pose);
+  };
+
+  const updateTour = (tour: TourStop[]) => {
+    record('Edit tour', prev => ({ ...prev, tour }));
+  };
+
+  const playTour = async () => {
+    await visualizerRef.current?.playTour(state.tour, state.bookmarks);
+  };
+
+  const stopTour = () => {
+    visualizerRef.current?.stopTour();
+  };
+
+  const recordTour = async (settings: ImageExportSettings, fps: number, onProgress: (done: number, total: number) => void) => {
+    await visualizerRef.current?.recordTour(state.tour, state.bookmarks, settings, fps, onProgress);
+  };
+
+  const updateMainLayer = (updates: Partial<LayerDisplay>) => {
+    record('Main layer display', prev => ({ ...prev, mainLayer: { ...prev.mainLayer, ...updates } }));
+  };
+
+  const addLayer = (layerData: PointDataset, name: string) => {
+    record(`Add layer ${name}`, prev => ({ ...prev, layers: [...prev.layers, createLayer(layerData, name)] }));
+  };
+
+  const updateLayer = (id: string, updates: Partial<DatasetLayer>) => {
+    record('Edit layer', prev => ({ ...prev, layers: prev.layers.map(layer => (layer.id === id ? { ...layer, ...updates } : layer)) }));
+  };
+
+  const removeLayer = (id: string) => {
+    record('Remove layer', prev => ({
+      ...prev,
+      layers: prev.layers.filter(layer => layer.id !== id),
+      comparison: prev.comparison.layerId === id ? { ...prev.comparison, layerId: null } : prev.comparison,
+    }));
+  };
+
+  const updateCategoryOverlays = (updates: Partial<CategoryOverlays>) => {
+    record('Category overlays', prev => ({ ...prev, categoryOverlays: { ...prev.categoryOverlays, ...updates } }));
+  };
+
+  const updateNeighborQuery = (updates: Partial<NeighborQuery>) => {
+    record('Neighbor search', prev => ({ ...prev, neighborQuery: { ...prev.neighborQuery, ...updates } }));
+  };
+
+  const updateComparison = (updates: Partial<LayerComparison>) => {
+    record('Layer comparison', prev => ({ ...prev, comparison: { ...prev.comparison, ...updates } }));
+  };
+
+  // Centres the layer on the main points, or fits it to its matched partners
+  const alignLayer = (id: string, mode: 'center' | 'matches') => {
+    const layer = layers.find(l => l.id === id);
+    if (!dataset || !layer) return;
+    if (mode === 'center') {
+      updateLayer(id, { offset: centeringOffset(dataset, layer) });
+      return;
+    }
+    const fit = layerMatches && layer === comparedLayer ? alignToMatches(dataset, layer, layerMatches) : null;
+    if (fit) updateLayer(id, fit);
+  };
+
+  const handleRunClustering = () => {
+    if (state.dataset) runClustering(state.dataset, state.clustering);
+  };
+
+  const cancelClustering = () => {
+    clusteringRef.current?.cancel();
+    clusteringRef.current = null;
+    setState(prev => ({ ...prev, clusteringProgress: null }));
+  };
+
+  const activateLabelSet = (index: number) => {
+    record('Switch label set', prev => (index === prev.activeLabelSet ? prev : activate({ ...prev, labelSets: syncLabelSets(prev) }, index)));
+  };
+
+  const removeLabelSet = (index: number) => {
+    // The original labels always stay
+    if (index === 0) return;
+    record('Remove label set', prev => {
+      const current = index === prev.activeLabelSet
+        ? activate({ ...prev, labelSets: syncLabelSets(prev) }, 0)
+        : { ...prev, labelSets: syncLabelSets(prev) };
+      const labelSets = current.labelSets.filter((_, i) => i !== index);
+      const activeLabelSet = current.activeLabelSet > index ? current.activeLabelSet - 1 : current.activeLabelSet;
+      return { ...current, labelSets, activeLabelSet };
+    });
+  };
+
   const toggleAxes = () => {
-    setState(prev => ({ ...prev, showAxes: !prev.showAxes }));
+    record('Toggle axes', prev => ({ ...prev, showAxes: !prev.showAxes }));
+  };
+
+  const toggleSourceColors = () => {
+    record('Toggle file colors', prev => ({ ...prev, useSourceColors: !prev.useSourceColors }));
   };
 
   const handleScreenshot = () => {
     visualizerRef.current?.takeScreenshot();
   };
 
+  const exportImage = async (settings: ImageExportSettings, format: 'png' | 'svg') => {
+    if (format === 'png') await visualizerRef.current?.exportImage(settings);
+    else visualizerRef.current?.exportSvg(settings);
+  };
+
+  const exportModel = async (settings: ModelExportSettings) => {
+    visualizerRef.current?.exportModel(settings);
+  };
+
+  const exportFrames = async (settings: ImageExportSettings, frames: number, onProgress: (done: number) => void) => {
+    await visualizerRef.current?.exportFrames(settings, frames, onProgress);
+  };
+
   const clearData = () => {
-    setState({
-      points: [],
-      categories: [],
-      categoryStyles: {},
-      showAxes: true,
-      isLoading: false,
-      error: null,
-    });
+    reductionRef.current?.cancel();
+    reductionRef.current = null;
+    clusteringRef.current?.cancel();
+    clusteringRef.current = null;
+    // The last autosave stays in the recent projects list
+    setProject(null);
+    setCameraPose(null);
+    setAutosave({ savedAt: null, error: null });
+    linkDataRef.current = null;
+    linkFingerprintRef.current = null;
+    if (window.location.hash) window.history.pushState(null, '', window.location.pathname + window.location.search);
+    record('Clear data', () => EMPTY_STATE);
   };
 
   return (
     <div className="relative w-screen h-screen bg-slate-950 overflow-hidden flex flex-col md:flex-row">
       {/* 3D Viewport */}
-      <div className="flex-grow h-full relative">
-        {state.points.length > 0 ? (
-          <DataVisualizer 
-            ref={visualizerRef}
-            points={state.points} 
-            categoryStyles={state.categoryStyles}
-            showAxes={state.showAxes}
-          />
-        ) : (
-          <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm z-10">
-            <div className="text-center p-8 bg-slate-800/80 rounded-2xl border border-slate-700 shadow-2xl max-w-md mx-4">
-              <div className="w-20 h-20 bg-blue-600/20 text-blue-400 rounded-full flex items-center justify-center mx-auto mb-6">
-                <i className="fa-solid fa-cube text-4xl animate-pulse"></i>
+      <div className="flex-grow h-full min-w-0 flex flex-col">
+        <div className="flex-1 min-h-0 relative">
+          {state.dataset && scenePositions && sceneTransform ? (
+            <DataVisualizer 
+              ref={visualizerRef}
+              dataset={state.dataset} 
+              positions={scenePositions}
+              sceneTransform={sceneTransform}
+              categoryStyles={state.categoryStyles}
+              showAxes={state.showAxes}
+              useSourceColors={state.useSourceColors}
+              colorEncoding={state.colorEncoding}
+              colorDomain={colorDomain}
+              sizeEncoding={state.sizeEncoding}
+              sizeExtent={sizeExtent}
+              selection={state.selection}
+              selectedIndex={state.selectedIndex}
+              hiddenMask={hiddenMask}
+              onSelectPoint={selectPoint}
+              onSelectRegion={selectRegion}
+              onFocusPoint={focusPoint}
+              cameraPose={cameraPose}
+              onCameraChange={handleCameraChange}
+              trajectories={trajectories}
+              timeSeries={timeSeries}
+              onUpdateTimeSeries={updateTimeSeries}
+              mainLayer={state.mainLayer}
+              layers={layers}
+              layerPlacements={layerPlacements}
+              comparison={comparison}
+              layerMatches={layerMatches}
+              neighborQuery={neighborQuery}
+              neighbors={neighbors}
+              onUpdateNeighborQuery={updateNeighborQuery}
+              categoryOverlays={state.categoryOverlays}
+              tableOpen={tableOpen}
+              onToggleTable={() => setTableOpen(open => !open)}
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center bg-slate-900/50 backdrop-blur-sm z-10">
+              <div className="text-center p-8 bg-slate-800/80 rounded-2xl border border-slate-700 shadow-2xl max-w-md mx-4">
+                <div className="w-20 h-20 bg-blue-600/20 text-blue-400 rounded-full flex items-center justify-center mx-auto mb-6">
+                  <i className="fa-solid fa-cube text-4xl animate-pulse"></i>
+                </div>
+                <h1 className="text-2xl font-bold mb-4 text-white">VoxNavigator 3D</h1>
+                <p className="text-slate-400 mb-8">
+                  Upload CSV or JSON data and map its columns to X, Y, Z, Label and Metadata or reduce its numeric features to 3D, or open a PLY, PCD or XYZ point cloud, to explore in 3D space.
+                </p>
+                {history.past.length > 0 && (
+                  <button
+                    onClick={() => travel(-1)}
+                    className="w-full mb-4 text-left text-xs text-slate-300 bg-slate-700/40 border border-slate-600 hover:border-slate-500 rounded-lg p-3 transition-colors"
+                  >
+                    <i className="fa-solid fa-rotate-left mr-2"></i>
+                    Undo: {history.past[history.past.length - 1].name}
+                  </button>
+                )}
+                {pendingLinkCount !== null && (
+                  <div className="mb-4 text-left text-xs text-blue-300 bg-blue-500/10 border border-blue-500/30 rounded-lg p-3">
+                    <i className="fa-solid fa-link mr-2"></i>
+                    The shared view applies once its dataset of {pendingLinkCount.toLocaleString()} points is imported.
+                  </div>
+                )}
+                <FileUpload
+                  onDataLoaded={handleDataLoaded}
+                  onLoadingChange={handleLoadingChange}
+                  onImportError={handleImportError}
+                />
+                <RecentProjects
+                  onOpen={(id) => openFromLanding(async () => openProject(await loadRecentProject(id)))}
+                  onOpenFile={(file) => openFromLanding(() => openProjectFile(file))}
+                />
+                {state.error && (
+                  <div className="mt-6 space-y-3">
+                    <div className="text-left text-xs text-red-300 bg-red-500/10 border border-red-500/30 rounded-lg p-3">
+                      <i className="fa-solid fa-triangle-exclamation mr-2"></i>
+                      {state.error}
+                    </div>
+                    {state.importReport && <ImportReportPanel report={state.importReport} />}
+                  </div>
+                )}
               </div>
-              <h1 className="text-2xl font-bold mb-4 text-white">VoxNavigator 3D</h1>
-              <p className="text-slate-400 mb-8">
-                Upload your CSV data (X, Y, Z, Label, Metadata) to explore in 3D space.
-              </p>
-              <FileUpload onDataLoaded={handleDataLoaded} />
             </div>
-          </div>
-        )}
+          )}
 
-        {/* HUD Info */}
-        {state.points.length > 0 && (
-          <div className="absolute top-6 left-6 z-20 pointer-events-none space-y-2">
-            <div className="bg-slate-900/60 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-lg">
-              <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-widest mb-1">Active Dataset</h2>
-              <p className="text-white text-lg font-mono leading-none">{state.points.length.toLocaleString()} Points</p>
+          {/* HUD Info */}
+          {state.dataset && (
+            <div className="absolute top-6 left-6 z-20 pointer-events-none space-y-2">
+              <div className="bg-slate-900/60 backdrop-blur-md p-4 rounded-xl border border-white/10 shadow-lg">
+                <h2 className="text-[10px] font-bold text-blue-400 uppercase tracking-widest mb-1">Active Dataset</h2>
+                <p className="text-white text-lg font-mono leading-none">
+                  {visibleCount < state.dataset.count && <span>{visibleCount.toLocaleString()} / </span>}
+                  {state.dataset.count.toLocaleString()} Points
+                </p>
+              </div>
             </div>
-          </div>
+          )}
+        </div>
+
+        {/* Data Table */}
+        {state.dataset && tableOpen && (
+          <DataTable
+            dataset={state.dataset}
+            hiddenMask={hiddenMask}
+            categoryStyles={state.categoryStyles}
+            selection={state.selection}
+            selectedIndex={state.selectedIndex}
+            onRowClick={showPointFromTable}
+            onClose={() => setTableOpen(false)}
+          />
         )}
       </div>
 
@@ -115,9 +1008,70 @@ const App: React.FC = () => {
       <div className="w-full md:w-96 bg-slate-900/90 backdrop-blur-xl border-l border-white/10 z-30 flex flex-col shadow-2xl">
         <Sidebar 
           state={state} 
+          project={project}
+          autosave={autosave}
+          onRenameProject={renameProject}
+          undoSteps={history.past}
+          redoSteps={history.future}
+          onTravel={travel}
+          onSaveProject={saveProjectFile}
+          onOpenProject={openProjectFile}
+          onCopyLink={copyLink}
+          colorDomain={colorDomain}
           onUpdateStyle={updateCategoryStyle}
+          onUpdateColorEncoding={updateColorEncoding}
+          onUpdateSizeEncoding={updateSizeEncoding}
+          onHideSelection={hideSelection}
+          onIsolateSelection={isolateSelection}
+          onClearSelection={clearSelection}
+          onShowAllPoints={showAllPoints}
+          filterErrors={{ search: filterResult?.searchError ?? null, expression: filterResult?.expressionError ?? null }}
+          onUpdateFilters={updateFilters}
+          sceneTransform={sceneTransform}
+          onSetAxisScale={setAxisScale}
+          onUpdateReduction={updateReduction}
+          onRunReduction={handleRunReduction}
+          onCancelReduction={cancelReduction}
+          onUpdateClustering={updateClustering}
+          onRunClustering={handleRunClustering}
+          onCancelClustering={cancelClustering}
+          onActivateLabelSet={activateLabelSet}
+          onRemoveLabelSet={removeLabelSet}
+          trajectories={trajectories}
+          onUpdateTimeSeries={updateTimeSeries}
+          onExportFrames={exportFrames}
+          onAddBookmark={addBookmark}
+          onUpdateBookmark={updateBookmark}
+          onRetakeBookmark={retakeBookmark}
+          onRemoveBookmark={removeBookmark}
+          onFlyToBookmark={flyToBookmark}
+          onUpdateTour={updateTour}
+          onPlayTour={playTour}
+          onStopTour={stopTour}
+          onRecordTour={recordTour}
+          layerMatches={layerMatches}
+          layerShifts={layerShifts}
+          onUpdateMainLayer={updateMainLayer}
+          onAddLayer={addLayer}
+          onUpdateLayer={updateLayer}
+          onRemoveLayer={removeLayer}
+          onUpdateComparison={updateComparison}
+          onAlignLayer={alignLayer}
+          categoryStats={categoryStats}
+          onUpdateCategoryOverlays={updateCategoryOverlays}
+          onRenameCategory={renameCategory}
+          onMergeCategories={mergeCategories}
+          onMoveCategory={moveCategory}
+          onSplitCategory={splitCategory}
+          onIsolateCategory={isolateCategory}
+          onInvertCategoryVisibility={invertCategoryVisibility}
+          onApplyPalette={applyCategoryPalette}
+          onApplyStyleSheet={applyCategoryStyleSheet}
           onToggleAxes={toggleAxes}
+          onToggleSourceColors={toggleSourceColors}
           onScreenshot={handleScreenshot}
+          onExportImage={exportImage}
+          onExportModel={exportModel}
           onClear={clearData}
         />
       </div>
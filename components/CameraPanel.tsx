@@ -0,0 +1,223 @@
+import React, { useState } from 'react';
+import { CameraBookmark, Easing, ImageExportSettings, TourStop } from '../types';
+import { createTourStop, EASINGS, nextBookmarkName, TOUR_FPS } from '../services/cameraTour';
+import { DEFAULT_IMAGE_EXPORT, EXPORT_HEIGHTS } from '../services/imageExport';
+
+interface CameraPanelProps {
+  bookmarks: CameraBookmark[];
+  tour: TourStop[];
+  onAddBookmark: (name: string) => void;
+  onUpdateBookmark: (id: string, updates: Partial<CameraBookmark>) => void;
+  onRetakeBookmark: (id: string) => void;
+  onRemoveBookmark: (id: string) => void;
+  onFlyTo: (id: string) => void;
+  onUpdateTour: (tour: TourStop[]) => void;
+  onPlayTour: () => Promise<void>;
+  onStopTour: () => void;
+  onRecordTour: (settings: ImageExportSettings, fps: number, onProgress: (done: number, total: number) => void) => Promise<void>;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+const iconClass = 'text-slate-500 hover:text-white disabled:opacity-30 transition-colors';
+
+const seconds = (value: string) => Math.min(600, Math.max(0, Number(value) || 0));
+
+/** Named viewpoints to fly back to, and a tour that chains them. */
+const CameraPanel: React.FC<CameraPanelProps> = ({
+  bookmarks,
+  tour,
+  onAddBookmark,
+  onUpdateBookmark,
+  onRetakeBookmark,
+  onRemoveBookmark,
+  onFlyTo,
+  onUpdateTour,
+  onPlayTour,
+  onStopTour,
+  onRecordTour,
+}) => {
+  const [name, setName] = useState('');
+  const [playing, setPlaying] = useState(false);
+  const [fps, setFps] = useState(30);
+  const [height, setHeight] = useState(1080);
+  const [progress, setProgress] = useState<[number, number] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const busy = playing || progress !== null;
+  const total = tour.reduce((sum, stop) => sum + stop.duration + stop.hold, 0);
+
+  const addBookmark = () => {
+    onAddBookmark(name.trim() || nextBookmarkName(bookmarks));
+    setName('');
+  };
+
+  const updateStop = (index: number, updates: Partial<TourStop>) =>
+    onUpdateTour(tour.map((stop, i) => (i === index ? { ...stop, ...updates } : stop)));
+
+  const moveStop = (index: number, offset: number) => {
+    const next = [...tour];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onUpdateTour(next);
+  };
+
+  const play = async () => {
+    setPlaying(true);
+    try {
+      await onPlayTour();
+    } finally {
+      setPlaying(false);
+    }
+  };
+
+  const record = async () => {
+    setProgress([0, 0]);
+    setError(null);
+    try {
+      // Frames keep the viewport's shape so the sequence matches what is on screen
+      await onRecordTour({ ...DEFAULT_IMAGE_EXPORT, height, aspect: null }, fps, (done, frames) => setProgress([done, frames]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && addBookmark()}
+          placeholder={nextBookmarkName(bookmarks)}
+          className={inputClass}
+        />
+        <button onClick={addBookmark} className={`${buttonClass} flex-grow-0 px-3`} title="Bookmark the current view">
+          <i className="fa-solid fa-bookmark"></i>
+        </button>
+      </div>
+
+      {bookmarks.length > 0 && (
+        <div className="space-y-1">
+          {bookmarks.map(bookmark => (
+            <div key={bookmark.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg bg-slate-800/30 border border-white/5">
+              <button onClick={() => onFlyTo(bookmark.id)} disabled={busy} className={iconClass} title="Fly here">
+                <i className="fa-solid fa-location-arrow text-xs"></i>
+              </button>
+              <input
+                value={bookmark.name}
+                onChange={(e) => onUpdateBookmark(bookmark.id, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-transparent text-xs text-slate-200 focus:outline-none"
+              />
+              <button onClick={() => onRetakeBookmark(bookmark.id)} disabled={busy} className={iconClass} title="Update to the current view">
+                <i className="fa-solid fa-camera-rotate text-xs"></i>
+              </button>
+              <button onClick={() => onUpdateTour([...tour, createTourStop(bookmark.id)])} className={iconClass} title="Add to tour">
+                <i className="fa-solid fa-route text-xs"></i>
+              </button>
+              <button onClick={() => onRemoveBookmark(bookmark.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove bookmark">
+                <i className="fa-solid fa-trash-can text-xs"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {tour.length > 0 ? (
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between">
+            <span className={labelClass}>Tour</span>
+            <span className="text-[10px] text-slate-500">{total.toFixed(1)} s</span>
+          </div>
+          {tour.map((stop, i) => (
+            <div key={i} className="p-2 rounded-lg bg-slate-800/30 border border-white/5 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-[10px] font-mono text-slate-600 w-4">{i + 1}</span>
+                <select value={stop.bookmarkId} onChange={(e) => updateStop(i, { bookmarkId: e.target.value })} className={inputClass}>
+                  {bookmarks.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+                <button onClick={() => moveStop(i, -1)} disabled={i === 0} className={iconClass} title="Move up">
+                  <i className="fa-solid fa-arrow-up text-xs"></i>
+                </button>
+                <button onClick={() => moveStop(i, 1)} disabled={i === tour.length - 1} className={iconClass} title="Move down">
+                  <i className="fa-solid fa-arrow-down text-xs"></i>
+                </button>
+                <button
+                  onClick={() => onUpdateTour(tour.filter((_, j) => j !== i))}
+                  className="text-slate-500 hover:text-red-400 transition-colors"
+                  title="Remove stop"
+                >
+                  <i className="fa-solid fa-xmark text-xs"></i>
+                </button>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className={labelClass}>Flight s</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={stop.duration}
+                    onChange={(e) => updateStop(i, { duration: seconds(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Hold s</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={stop.hold}
+                    onChange={(e) => updateStop(i, { hold: seconds(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Easing</label>
+                  <select value={stop.easing} onChange={(e) => updateStop(i, { easing: e.target.value as Easing })} className={inputClass}>
+                    {EASINGS.map(easing => <option key={easing.id} value={easing.id}>{easing.name}</option>)}
+                  </select>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <button
+            onClick={playing ? onStopTour : play}
+            disabled={progress !== null}
+            className={`${buttonClass} w-full`}
+          >
+            <i className={`fa-solid ${playing ? 'fa-stop' : 'fa-play'} mr-1`}></i>
+            {playing ? ' Stop Tour' : ' Play Tour'}
+          </button>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Frame Rate</label>
+              <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className={inputClass}>
+                {TOUR_FPS.map(f => <option key={f} value={f}>{f} fps</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Resolution</label>
+              <select value={height} onChange={(e) => setHeight(Number(e.target.value))} className={inputClass}>
+                {EXPORT_HEIGHTS.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <button onClick={record} disabled={busy} className={`${buttonClass} w-full`}>
+            <i className="fa-solid fa-film mr-1"></i>
+            {progress !== null ? ` Rendering ${progress[0]} / ${progress[1]}` : ' Record PNG Frames'}
+          </button>
+        </div>
+      ) : (
+        bookmarks.length > 0 && <p className="text-[10px] text-slate-600">Add bookmarks to a tour with the route button.</p>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default CameraPanel;
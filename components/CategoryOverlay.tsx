@@ -0,0 +1,101 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CategoryOverlays, CategoryStyle, PointDataset } from '../types';
+import { categoryStatistics, principalAxes } from '../services/categoryStats';
+import { convexHull } from '../services/convexHull';
+
+interface CategoryOverlayProps {
+  dataset: PointDataset;
+  // World positions, so the shapes follow the axis scales
+  positions: Float32Array;
+  hiddenMask: Uint8Array | null;
+  categoryStyles: Record<string, CategoryStyle>;
+  overlays: CategoryOverlays;
+}
+
+const CENTROID_SIZE = 0.3;
+// Keeps a flat category's ellipsoid visible edge-on
+const MIN_RADIUS = 0.01;
+
+const noRaycast = () => null;
+
+/**
+ * A marker at each visible category's centroid, the ellipsoid its covariance
+ * spans and the convex hull around its points. Hidden points are left out of
+ * all three.
+ */
+const CategoryOverlay: React.FC<CategoryOverlayProps> = ({ dataset, positions, hiddenMask, categoryStyles, overlays }) => {
+  const shapes = useMemo(() => {
+    if (!overlays.centroids && !overlays.ellipsoids) return [];
+    return categoryStatistics(dataset, positions, hiddenMask).map(stats => {
+      const { values, vectors } = principalAxes(stats.covariance);
+      const basis = new THREE.Matrix4().makeBasis(...vectors.map(v => new THREE.Vector3(...v)) as [THREE.Vector3, THREE.Vector3, THREE.Vector3]);
+      return {
+        label: stats.label,
+        center: stats.mean,
+        quaternion: new THREE.Quaternion().setFromRotationMatrix(basis),
+        radii: values.map(v => Math.max(Math.sqrt(Math.max(v, 0)), MIN_RADIUS)) as [number, number, number],
+        // A lone point has no spread to draw
+        spread: stats.count > 1,
+      };
+    });
+  }, [dataset, positions, hiddenMask, overlays.centroids, overlays.ellipsoids]);
+
+  // Hulls only depend on the points, so toggling a category's visibility reuses them
+  const hulls = useMemo(() => {
+    if (!overlays.hulls) return [];
+    const members: number[][] = dataset.labels.map(() => []);
+    for (let i = 0; i < dataset.count; i++) {
+      if (!hiddenMask?.[i]) members[dataset.labelIndices[i]].push(i);
+    }
+    return dataset.labels.flatMap((label, l) => {
+      const triangles = convexHull(positions, members[l]);
+      if (!triangles) return [];
+      const vertices = new Float32Array(triangles.length * 3);
+      triangles.forEach((p, k) => vertices.set(positions.subarray(p * 3, p * 3 + 3), k * 3));
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+      return [{ label, geometry }];
+    });
+  }, [dataset, positions, hiddenMask, overlays.hulls]);
+
+  useEffect(() => () => hulls.forEach(hull => hull.geometry.dispose()), [hulls]);
+
+  const isShown = (label: string) => categoryStyles[label]?.visible !== false;
+
+  return (
+    <group>
+      {shapes.filter(shape => isShown(shape.label)).map(shape => {
+        const color = categoryStyles[shape.label]?.color ?? '#ffffff';
+        return (
+          <React.Fragment key={shape.label}>
+            {overlays.centroids && (
+              <mesh position={shape.center} raycast={noRaycast}>
+                <octahedronGeometry args={[CENTROID_SIZE]} />
+                <meshBasicMaterial color={color} />
+              </mesh>
+            )}
+            {overlays.ellipsoids && shape.spread && (
+              <mesh
+                position={shape.center}
+                quaternion={shape.quaternion}
+                scale={shape.radii.map(r => r * overlays.sigma) as [number, number, number]}
+                raycast={noRaycast}
+              >
+                <sphereGeometry args={[1, 32, 16]} />
+                <meshBasicMaterial color={color} transparent opacity={0.18} depthWrite={false} />
+              </mesh>
+            )}
+          </React.Fragment>
+        );
+      })}
+      {hulls.filter(hull => isShown(hull.label)).map(hull => (
+        <mesh key={hull.label} geometry={hull.geometry} raycast={noRaycast}>
+          <meshBasicMaterial color={categoryStyles[hull.label]?.color ?? '#ffffff'} transparent opacity={0.12} depthWrite={false} side={THREE.DoubleSide} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
+
+export default CategoryOverlay;
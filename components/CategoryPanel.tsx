@@ -0,0 +1,461 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CategoryOverlays, CategoryStyle, PointDataset, PointShape } from '../types';
+import { CategoryStats, categoryStatsToCSV, centroidDistances } from '../services/categoryStats';
+import { categoryNameError, createStyleSheet, parseStyleSheet, StyleSheet } from '../services/categories';
+import { hexToHsl, hslToHex, parseColor, PALETTE_PRESETS } from '../services/palettes';
+import { downloadText } from '../services/download';
+import CategoryStatsPanel from './CategoryStatsPanel';
+
+interface CategoryPanelProps {
+  dataset: PointDataset;
+  // Display order
+  categories: string[];
+  categoryStyles: Record<string, CategoryStyle>;
+  // Statistics of the points not hidden, in data units
+  categoryStats: CategoryStats[];
+  overlays: CategoryOverlays;
+  selection: Uint32Array;
+  fileName: string;
+  onUpdateStyle: (category: string, updates: Partial<CategoryStyle>) => void;
+  onUpdateOverlays: (updates: Partial<CategoryOverlays>) => void;
+  onRename: (from: string, to: string) => void;
+  onMerge: (sources: string[], target: string) => void;
+  onMove: (category: string, offset: number) => void;
+  // Moves the selected points of the category into a new one
+  onSplit: (category: string, name: string) => void;
+  onIsolate: (category: string) => void;
+  onInvertVisibility: () => void;
+  onApplyPalette: (colors: string[]) => void;
+  onApplyStyleSheet: (sheet: StyleSheet, reorder: boolean) => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-2 font-bold uppercase';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+const SHAPES: PointShape[] = ['circle', 'square', 'diamond', 'cross'];
+const PALETTE = [
+  '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981',
+  '#06b6d4', '#3b82f6', '#6366f1', '#a855f7', '#ec4899',
+  '#64748b', '#ffffff'
+];
+
+/** A swatch grid, a typed hex or hsl() value and hue, saturation and lightness sliders. */
+const ColorPicker: React.FC<{ color: string; onChange: (color: string) => void }> = ({ color, onChange }) => {
+  const [text, setText] = useState(color);
+  useEffect(() => setText(color), [color]);
+  const hsl = hexToHsl(color);
+  const valid = parseColor(text) !== null;
+
+  const setChannel = (channel: number, value: number) => {
+    const next = [...hsl] as [number, number, number];
+    next[channel] = value;
+    onChange(hslToHex(...next));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-6 gap-2">
+        {PALETTE.map(swatch => (
+          <div
+            key={swatch}
+            onClick={() => onChange(swatch)}
+            className={`w-full aspect-square rounded cursor-pointer border-2 transition-transform hover:scale-110 ${color === swatch ? 'border-white' : 'border-transparent'}`}
+            style={{ backgroundColor: swatch }}
+          />
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input type="color" value={color} onChange={(e) => onChange(e.target.value)} className="w-8 h-8 bg-transparent border-0 p-0 cursor-pointer shrink-0" />
+        <input
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            const parsed = parseColor(e.target.value);
+            if (parsed) onChange(parsed);
+          }}
+          onBlur={() => setText(color)}
+          placeholder="#60a5fa or hsl(213, 94%, 68%)"
+          className={`${inputClass} font-mono ${valid ? '' : 'border-red-500/60'}`}
+        />
+      </div>
+      {(['H', 'S', 'L'] as const).map((name, channel) => (
+        <div key={name} className="flex items-center gap-2">
+          <span className="text-[10px] text-slate-500 w-3">{name}</span>
+          <input
+            type="range"
+            min={0}
+            max={channel === 0 ? 359 : 100}
+            value={hsl[channel]}
+            onChange={(e) => setChannel(channel, Number(e.target.value))}
+            className="flex-1 accent-blue-500"
+          />
+          <span className="text-[10px] font-mono text-slate-500 w-8 text-right">{hsl[channel]}{channel === 0 ? '°' : '%'}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * The categories in display order, each with its statistics and style, plus
+ * renaming, merging, reordering and splitting them, palette presets and style
+ * sheets to carry the styling over to other datasets with the same labels.
+ */
+const CategoryPanel: React.FC<CategoryPanelProps> = ({
+  dataset,
+  categories,
+  categoryStyles,
+  categoryStats,
+  overlays,
+  selection,
+  fileName,
+  onUpdateStyle,
+  onUpdateOverlays,
+  onRename,
+  onMerge,
+  onMove,
+  onSplit,
+  onIsolate,
+  onInvertVisibility,
+  onApplyPalette,
+  onApplyStyleSheet,
+}) => {
+  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
+  const [nameDraft, setNameDraft] = useState('');
+  const [splitName, setSplitName] = useState('');
+  // Categories ticked for merging; null when not merging
+  const [merging, setMerging] = useState<string[] | null>(null);
+  const [mergeName, setMergeName] = useState('');
+  const [reorderOnImport, setReorderOnImport] = useState(false);
+  const [note, setNote] = useState<{ text: string; error: boolean } | null>(null);
+
+  const statsByLabel = useMemo(() => {
+    const distances = centroidDistances(categoryStats);
+    return new Map(categoryStats.map((stats, k) => [stats.label, {
+      stats,
+      distances: categoryStats
+        .map((other, j) => ({ label: other.label, distance: distances[k][j] }))
+        .filter((_, j) => j !== k)
+        .sort((a, b) => a.distance - b.distance),
+    }]));
+  }, [categoryStats]);
+
+  // Selected points of the open category, which a split would move
+  const splitCount = useMemo(() => {
+    const l = expandedCategory === null ? -1 : dataset.labels.indexOf(expandedCategory);
+    if (l < 0) return 0;
+    let count = 0;
+    selection.forEach(i => { if (dataset.labelIndices[i] === l) count++; });
+    return count;
+  }, [expandedCategory, selection, dataset]);
+
+  useEffect(() => {
+    setNameDraft(expandedCategory ?? '');
+    setSplitName(expandedCategory ? `${expandedCategory} (split)` : '');
+  }, [expandedCategory]);
+
+  // Labels change under the panel when categories are merged or a label set is switched
+  useEffect(() => {
+    if (expandedCategory !== null && !categories.includes(expandedCategory)) setExpandedCategory(null);
+    setMerging(prev => prev && prev.filter(label => categories.includes(label)));
+  }, [categories]);
+
+  const renameError = expandedCategory !== null ? categoryNameError(categories, nameDraft, expandedCategory) : null;
+  const splitError = categoryNameError(categories, splitName);
+
+  const commitRename = () => {
+    if (expandedCategory === null || renameError || nameDraft.trim() === expandedCategory) {
+      setNameDraft(expandedCategory ?? '');
+      return;
+    }
+    const name = nameDraft.trim();
+    onRename(expandedCategory, name);
+    setExpandedCategory(name);
+  };
+
+  const toggleMerge = (label: string) => {
+    if (!merging) return;
+    // The first ticked category names the merge until it is edited
+    if (merging.length === 0) setMergeName(label);
+    setMerging(merging.includes(label) ? merging.filter(l => l !== label) : [...merging, label]);
+  };
+
+  const exportStyleSheet = () => {
+    const sheet = createStyleSheet(categories, categoryStyles);
+    downloadText(JSON.stringify(sheet, null, 2), `${fileName || 'categories'}-styles.json`, 'application/json');
+  };
+
+  const importStyleSheet = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const sheet = parseStyleSheet(await file.text());
+      const matched = sheet.categories.filter(c => categories.includes(c.label)).length;
+      if (matched > 0) onApplyStyleSheet(sheet, reorderOnImport);
+      setNote({
+        text: matched > 0
+          ? `Styled ${matched.toLocaleString()} of ${categories.length.toLocaleString()} categories from ${sheet.categories.length.toLocaleString()} in the sheet.`
+          : 'None of the sheet’s labels match these categories.',
+        error: matched === 0,
+      });
+    } catch (err) {
+      setNote({ text: err instanceof Error ? err.message : String(err), error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-400">
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={overlays.centroids}
+            onChange={(e) => onUpdateOverlays({ centroids: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Centroids
+        </label>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={overlays.ellipsoids}
+            onChange={(e) => onUpdateOverlays({ ellipsoids: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Ellipsoids
+        </label>
+        <select
+          value={overlays.sigma}
+          onChange={(e) => onUpdateOverlays({ sigma: Number(e.target.value) as CategoryOverlays['sigma'] })}
+          disabled={!overlays.ellipsoids}
+          className="bg-slate-800 border border-slate-700 rounded-lg px-2 py-1 text-xs text-slate-200 focus:outline-none focus:border-blue-500 disabled:opacity-40"
+        >
+          <option value={1}>1σ</option>
+          <option value={2}>2σ</option>
+        </select>
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={overlays.hulls}
+            onChange={(e) => onUpdateOverlays({ hulls: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Hulls
+        </label>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value=""
+          onChange={(e) => {
+            const preset = PALETTE_PRESETS.find(p => p.id === e.target.value);
+            if (preset) onApplyPalette(preset.colors);
+          }}
+          className={inputClass}
+        >
+          <option value="">Apply palette…</option>
+          {PALETTE_PRESETS.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button onClick={onInvertVisibility} className={buttonClass}>
+          <i className="fa-solid fa-eye-low-vision mr-1"></i> Invert Visibility
+        </button>
+        <button
+          onClick={() => setMerging(merging ? null : [])}
+          className={merging ? `${buttonClass} border-blue-500 text-white` : buttonClass}
+        >
+          <i className="fa-solid fa-object-group mr-1"></i> {merging ? 'Cancel Merge' : 'Merge…'}
+        </button>
+        <button
+          onClick={() => downloadText(categoryStatsToCSV(categoryStats, dataset.axisNames), `${fileName || 'categories'}-statistics.csv`, 'text/csv')}
+          disabled={categoryStats.length === 0}
+          className={buttonClass}
+          title="Counts, centroids, spreads and centroid distances of every category"
+        >
+          <i className="fa-solid fa-file-csv mr-1"></i> Statistics
+        </button>
+        <button onClick={exportStyleSheet} className={buttonClass}>
+          <i className="fa-solid fa-file-export mr-1"></i> Export Styles
+        </button>
+        <label className={`${buttonClass} text-center cursor-pointer`}>
+          <i className="fa-solid fa-file-import mr-1"></i> Import Styles
+          <input type="file" accept=".json,application/json" onChange={importStyleSheet} className="hidden" />
+        </label>
+      </div>
+      <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+        <input type="checkbox" checked={reorderOnImport} onChange={(e) => setReorderOnImport(e.target.checked)} className="accent-blue-500" />
+        Imported styles also set the category order
+      </label>
+      {note && <p className={`text-[10px] ${note.error ? 'text-red-400' : 'text-slate-500'}`}>{note.text}</p>}
+
+      {merging && (
+        <div className="p-3 rounded-xl border border-blue-500/40 bg-blue-500/5 space-y-2">
+          <p className="text-[10px] text-slate-400">
+            {merging.length < 2 ? 'Tick the categories to merge.' : `Merge ${merging.length} categories into:`}
+          </p>
+          <div className="flex gap-2">
+            <input value={mergeName} onChange={(e) => setMergeName(e.target.value)} placeholder="Merged name" className={inputClass} />
+            <button
+              onClick={() => {
+                onMerge(merging, mergeName.trim());
+                setMerging(null);
+              }}
+              disabled={merging.length < 2 || !mergeName.trim()}
+              className={`${buttonClass} flex-grow-0 px-3`}
+            >
+              Merge
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {categories.map((cat, position) => {
+          const style = categoryStyles[cat];
+          const isExpanded = expandedCategory === cat;
+          const summary = statsByLabel.get(cat);
+
+          return (
+            <div key={cat} className="rounded-xl border border-slate-800 overflow-hidden transition-all duration-200 bg-slate-900/40">
+              <div
+                className={`flex items-center justify-between p-3 cursor-pointer hover:bg-slate-800/50 ${isExpanded ? 'bg-slate-800/80' : ''}`}
+                onClick={() => (merging ? toggleMerge(cat) : setExpandedCategory(isExpanded ? null : cat))}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  {merging && (
+                    <input type="checkbox" checked={merging.includes(cat)} readOnly className="accent-blue-500 pointer-events-none" />
+                  )}
+                  <div
+                    className="w-4 h-4 rounded-sm shadow-inner shrink-0"
+                    style={{ backgroundColor: style.color }}
+                  />
+                  <span className="text-sm font-medium text-slate-200 truncate">{cat}</span>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-[10px] font-mono text-slate-500">{(summary?.stats.count ?? 0).toLocaleString()}</span>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onUpdateStyle(cat, { visible: !style.visible }); }}
+                    className={`text-xs ${style.visible ? 'text-blue-500' : 'text-slate-600'}`}
+                  >
+                    <i className={`fa-solid ${style.visible ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+                  </button>
+                  <i className={`fa-solid fa-chevron-down text-[10px] text-slate-600 transition-transform ${isExpanded ? 'rotate-180' : ''}`}></i>
+                </div>
+              </div>
+
+              {isExpanded && !merging && (
+                <div className="p-4 bg-slate-950/30 border-t border-slate-800 animate-in slide-in-from-top-2 duration-200">
+                  {/* Name and order */}
+                  <div className="mb-4">
+                    <label className={labelClass}>Name</label>
+                    <div className="flex gap-2">
+                      <input
+                        value={nameDraft}
+                        onChange={(e) => setNameDraft(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                        className={`${inputClass} ${renameError ? 'border-red-500/60' : ''}`}
+                      />
+                      <button onClick={() => onMove(cat, -1)} disabled={position === 0} className={`${buttonClass} flex-grow-0 px-2.5`} title="Move up">
+                        <i className="fa-solid fa-arrow-up"></i>
+                      </button>
+                      <button onClick={() => onMove(cat, 1)} disabled={position === categories.length - 1} className={`${buttonClass} flex-grow-0 px-2.5`} title="Move down">
+                        <i className="fa-solid fa-arrow-down"></i>
+                      </button>
+                    </div>
+                    {renameError && nameDraft.trim() !== cat && <p className="text-[10px] text-red-400 mt-1">{renameError}</p>}
+                  </div>
+
+                  <div className="flex gap-2 mb-4">
+                    <button onClick={() => onIsolate(cat)} className={buttonClass}>
+                      <i className="fa-solid fa-eye mr-1"></i> Show Only This
+                    </button>
+                  </div>
+
+                  {summary && (
+                    <div className="mb-4">
+                      <label className={labelClass}>Statistics</label>
+                      <CategoryStatsPanel
+                        stats={summary.stats}
+                        axisNames={dataset.axisNames}
+                        distances={summary.distances}
+                        categoryStyles={categoryStyles}
+                      />
+                    </div>
+                  )}
+
+                  {/* Color Picker */}
+                  <div className="mb-4">
+                    <label className={labelClass}>Color</label>
+                    <ColorPicker color={style.color} onChange={(color) => onUpdateStyle(cat, { color })} />
+                  </div>
+
+                  {/* Shape Selection */}
+                  <div className="mb-4">
+                    <label className={labelClass}>Marker Shape</label>
+                    <div className="flex gap-3">
+                      {SHAPES.map(shape => (
+                        <button
+                          key={shape}
+                          onClick={() => onUpdateStyle(cat, { shape })}
+                          className={`flex-grow p-2 rounded border text-xs transition-colors ${style.shape === shape ? 'bg-blue-600/20 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                        >
+                          <i className={`fa-solid ${
+                            shape === 'circle' ? 'fa-circle' :
+                            shape === 'square' ? 'fa-square' :
+                            shape === 'diamond' ? 'fa-diamond' : 'fa-plus'
+                          }`}></i>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+
+                  {/* Size Multiplier */}
+                  <div className="mb-4">
+                    <div className="flex justify-between mb-2">
+                      <label className="text-[10px] text-slate-500 block font-bold uppercase">Size Multiplier</label>
+                      <span className="text-[10px] font-mono text-slate-500">×{style.size.toFixed(2)}</span>
+                    </div>
+                    <input
+                      type="range"
+                      min={0.25}
+                      max={4}
+                      step={0.05}
+                      value={style.size}
+                      onChange={(e) => onUpdateStyle(cat, { size: Number(e.target.value) })}
+                      className="w-full accent-blue-500"
+                    />
+                  </div>
+
+                  {/* Split */}
+                  <div>
+                    <label className={labelClass}>Split Selection Off</label>
+                    <div className="flex gap-2">
+                      <input value={splitName} onChange={(e) => setSplitName(e.target.value)} className={inputClass} />
+                      <button
+                        onClick={() => onSplit(cat, splitName.trim())}
+                        disabled={splitCount === 0 || splitError !== null}
+                        className={`${buttonClass} flex-grow-0 px-3`}
+                        title={splitError ?? undefined}
+                      >
+                        Split
+                      </button>
+                    </div>
+                    <p className="text-[10px] text-slate-600 mt-1">
+                      {splitCount > 0
+                        ? `Moves the ${splitCount.toLocaleString()} selected points of this category into a new one.`
+                        : 'Select points of this category to move them into a new one.'}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryPanel;
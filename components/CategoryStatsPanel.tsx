@@ -0,0 +1,62 @@
+import React from 'react';
+import { CategoryStyle } from '../types';
+import { CategoryStats } from '../services/categoryStats';
+import { formatNumber } from '../services/axes';
+
+interface CategoryStatsPanelProps {
+  stats: CategoryStats;
+  axisNames: string[];
+  // Distances from this category's centroid to the others', nearest first
+  distances: { label: string; distance: number }[];
+  categoryStyles: Record<string, CategoryStyle>;
+}
+
+const ROWS: { name: string; key: 'mean' | 'std' | 'min' | 'max' }[] = [
+  { name: 'Mean', key: 'mean' },
+  { name: 'Std', key: 'std' },
+  { name: 'Min', key: 'min' },
+  { name: 'Max', key: 'max' },
+];
+
+/** One category's spread along each axis and how far its centroid lies from the others. */
+const CategoryStatsPanel: React.FC<CategoryStatsPanelProps> = ({ stats, axisNames, distances, categoryStyles }) => (
+  <div className="space-y-3">
+    <div className="overflow-x-auto">
+      <table className="w-full text-[10px]">
+        <thead>
+          <tr className="text-slate-600">
+            <th className="text-left font-normal pb-1"></th>
+            {axisNames.map(name => (
+              <th key={name} className="text-right font-normal pb-1 px-1 max-w-[4rem] truncate" title={name}>{name}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="font-mono text-slate-300">
+          {ROWS.map(row => (
+            <tr key={row.key}>
+              <td className="font-sans text-slate-500 pr-2">{row.name}</td>
+              {stats[row.key].map((v, a) => <td key={a} className="text-right px-1">{formatNumber(v)}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+
+    {distances.length > 0 && (
+      <div>
+        <label className="text-[10px] text-slate-500 block mb-1 font-bold uppercase">Centroid Distances</label>
+        <div className="max-h-32 overflow-y-auto space-y-1">
+          {distances.map(d => (
+            <div key={d.label} className="flex items-center gap-2 text-[10px]">
+              <span className="w-2 h-2 rounded-sm shrink-0" style={{ backgroundColor: categoryStyles[d.label]?.color }} />
+              <span className="flex-1 text-slate-400 truncate">{d.label}</span>
+              <span className="font-mono text-slate-300">{formatNumber(d.distance)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    )}
+  </div>
+);
+
+export default CategoryStatsPanel;
@@ -0,0 +1,158 @@
+import React from 'react';
+import { ClusteringMethod, ClusteringSettings, Linkage, PointDataset, TaskProgress } from '../types';
+import { getNumericAttributes } from '../services/dataset';
+import { CLUSTERING_METHODS, LINKAGES, MAX_HIERARCHICAL_POINTS } from '../services/clustering';
+import FeaturePicker from './FeaturePicker';
+import TaskProgressBar from './TaskProgressBar';
+
+interface ClusteringPanelProps {
+  dataset: PointDataset;
+  settings: ClusteringSettings;
+  progress: TaskProgress | null;
+  error: string | null;
+  onChange: (updates: Partial<ClusteringSettings>) => void;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+const count = (value: number, fallback: number) => (Number.isFinite(value) && value >= 1 ? Math.round(value) : fallback);
+
+const ClusteringPanel: React.FC<ClusteringPanelProps> = ({ dataset, settings, progress, error, onChange, onRun, onCancel }) => {
+  const hasFeatures = getNumericAttributes(dataset).length > 0;
+  const useFeatures = settings.input === 'features' && hasFeatures;
+  const tooLarge = settings.method === 'hierarchical' && dataset.count > MAX_HIERARCHICAL_POINTS;
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Method</label>
+          <select
+            value={settings.method}
+            onChange={(e) => onChange({ method: e.target.value as ClusteringMethod })}
+            className={inputClass}
+          >
+            {CLUSTERING_METHODS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Input</label>
+          <select
+            value={useFeatures ? 'features' : 'coordinates'}
+            onChange={(e) => onChange({ input: e.target.value as ClusteringSettings['input'] })}
+            className={inputClass}
+          >
+            <option value="coordinates">X / Y / Z</option>
+            {hasFeatures && <option value="features">Numeric columns</option>}
+          </select>
+        </div>
+      </div>
+
+      {useFeatures && (
+        <>
+          <FeaturePicker dataset={dataset} features={settings.features} onChange={(features) => onChange({ features })} />
+          <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.standardize}
+              onChange={(e) => onChange({ standardize: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Standardize features
+          </label>
+        </>
+      )}
+
+      {settings.method === 'dbscan' ? (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Eps</label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={settings.eps || ''}
+              placeholder="auto"
+              onChange={(e) => onChange({ eps: Math.max(0, Number(e.target.value) || 0) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Min Points</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.minPoints}
+              onChange={(e) => onChange({ minPoints: count(Number(e.target.value), 5) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Clusters</label>
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={settings.k}
+              onChange={(e) => onChange({ k: count(Number(e.target.value), 5) })}
+              className={inputClass}
+            />
+          </div>
+          {settings.method === 'hierarchical' ? (
+            <div>
+              <label className={labelClass}>Linkage</label>
+              <select
+                value={settings.linkage}
+                onChange={(e) => onChange({ linkage: e.target.value as Linkage })}
+                className={inputClass}
+              >
+                {LINKAGES.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+              </select>
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Seed</label>
+              <input
+                type="number"
+                step={1}
+                value={settings.seed}
+                onChange={(e) => onChange({ seed: Math.round(Number(e.target.value) || 0) })}
+                className={inputClass}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {tooLarge && (
+        <p className="text-[10px] text-amber-400">
+          Hierarchical clustering handles up to {MAX_HIERARCHICAL_POINTS.toLocaleString()} points.
+        </p>
+      )}
+
+      {progress ? (
+        <TaskProgressBar progress={progress} onCancel={onCancel} />
+      ) : (
+        <button
+          onClick={onRun}
+          disabled={tooLarge}
+          className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-xs font-medium transition-colors"
+        >
+          <i className="fa-solid fa-object-group mr-2"></i>
+          Find Clusters
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ClusteringPanel;
@@ -0,0 +1,166 @@
+import React from 'react';
+import { ColorDomainMode, ColorEncoding, ColormapName, PointDataset } from '../types';
+import { getNumericAttributes } from '../services/dataset';
+import { COLORMAP_OPTIONS, colormapGradient, getColormapStops } from '../services/colormaps';
+
+interface ColorEncodingPanelProps {
+  dataset: PointDataset;
+  encoding: ColorEncoding;
+  domain: [number, number] | null;
+  onChange: (updates: Partial<ColorEncoding>) => void;
+}
+
+const DOMAIN_MODES: { id: ColorDomainMode; name: string }[] = [
+  { id: 'extent', name: 'Min / Max' },
+  { id: 'percentile', name: 'Percentiles' },
+  { id: 'manual', name: 'Manual' },
+];
+
+const MAX_CUSTOM_STOPS = 6;
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+const ColorEncodingPanel: React.FC<ColorEncodingPanelProps> = ({ dataset, encoding, domain, onChange }) => {
+  const numericAttributes = getNumericAttributes(dataset);
+
+  const setCustomStop = (index: number, color: string) => {
+    const customStops = [...encoding.customStops];
+    customStops[index] = color;
+    onChange({ customStops });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Color By</label>
+        <select
+          value={encoding.attribute ?? ''}
+          onChange={(e) => onChange({ attribute: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">Category</option>
+          {numericAttributes.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        {numericAttributes.length === 0 && (
+          <p className="text-[10px] text-slate-600 mt-1">This dataset has no numeric columns to map.</p>
+        )}
+      </div>
+
+      {encoding.attribute && (
+        <>
+          <div>
+            <label className={labelClass}>Colormap</label>
+            <select
+              value={encoding.colormap}
+              onChange={(e) => onChange({ colormap: e.target.value as ColormapName })}
+              className={inputClass}
+            >
+              {COLORMAP_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.name}</option>)}
+            </select>
+            <div className="h-2 rounded-sm mt-2" style={{ background: colormapGradient(getColormapStops(encoding)) }} />
+          </div>
+
+          {encoding.colormap === 'custom' && (
+            <div>
+              <label className={labelClass}>Gradient Stops</label>
+              <div className="flex items-center gap-2">
+                {encoding.customStops.map((color, i) => (
+                  <input
+                    key={i}
+                    type="color"
+                    value={color}
+                    onChange={(e) => setCustomStop(i, e.target.value)}
+                    className="w-7 h-7 rounded bg-transparent border border-slate-700 cursor-pointer"
+                  />
+                ))}
+                <button
+                  onClick={() => onChange({ customStops: encoding.customStops.slice(0, -1) })}
+                  disabled={encoding.customStops.length <= 2}
+                  className="text-xs text-slate-500 hover:text-white disabled:opacity-30"
+                  title="Remove Stop"
+                >
+                  <i className="fa-solid fa-minus"></i>
+                </button>
+                <button
+                  onClick={() => onChange({ customStops: [...encoding.customStops, encoding.customStops[encoding.customStops.length - 1]] })}
+                  disabled={encoding.customStops.length >= MAX_CUSTOM_STOPS}
+                  className="text-xs text-slate-500 hover:text-white disabled:opacity-30"
+                  title="Add Stop"
+                >
+                  <i className="fa-solid fa-plus"></i>
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Domain</label>
+            <select
+              value={encoding.domainMode}
+              onChange={(e) => {
+                const domainMode = e.target.value as ColorDomainMode;
+                // Manual editing starts from the range currently on screen
+                onChange(domainMode === 'manual' && domain ? { domainMode, manualDomain: domain } : { domainMode });
+              }}
+              className={inputClass}
+            >
+              {DOMAIN_MODES.map(mode => <option key={mode.id} value={mode.id}>{mode.name}</option>)}
+            </select>
+          </div>
+
+          {encoding.domainMode === 'percentile' && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['Lower %', 'Upper %'] as const).map((label, i) => (
+                <div key={label}>
+                  <label className={labelClass}>{label}</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step={0.5}
+                    value={encoding.percentiles[i]}
+                    onChange={(e) => {
+                      const percentiles: [number, number] = [...encoding.percentiles];
+                      percentiles[i] = Number(e.target.value);
+                      onChange({ percentiles });
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {encoding.domainMode === 'manual' && (
+            <div className="grid grid-cols-2 gap-2">
+              {(['Min', 'Max'] as const).map((label, i) => (
+                <div key={label}>
+                  <label className={labelClass}>{label}</label>
+                  <input
+                    type="number"
+                    value={encoding.manualDomain[i]}
+                    onChange={(e) => {
+                      const manualDomain: [number, number] = [...encoding.manualDomain];
+                      manualDomain[i] = Number(e.target.value);
+                      onChange({ manualDomain });
+                    }}
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          {domain && encoding.domainMode !== 'manual' && (
+            <div className="text-[10px] font-mono text-slate-500">
+              {Number(domain[0].toPrecision(6))} – {Number(domain[1].toPrecision(6))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ColorEncodingPanel;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { ColorEncoding } from '../types';
+import { colormapGradient, getColormapStops, MISSING_VALUE_COLOR } from '../services/colormaps';
+import { formatNumber } from '../services/axes';
+
+interface ColorLegendProps {
+  encoding: ColorEncoding;
+  domain: [number, number];
+}
+
+const TICKS = 5;
+
+const ColorLegend: React.FC<ColorLegendProps> = ({ encoding, domain }) => {
+  const [low, high] = domain;
+  const ticks = Array.from({ length: TICKS }, (_, i) => low + ((high - low) * i) / (TICKS - 1));
+
+  return (
+    <div className="bg-slate-900/70 backdrop-blur-md p-3 rounded-xl border border-white/10 shadow-lg w-64 pointer-events-none">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">{encoding.attribute}</span>
+        {encoding.domainMode === 'percentile' && (
+          <span className="text-[9px] font-mono text-slate-500">
+            p{encoding.percentiles[0]}–p{encoding.percentiles[1]}
+          </span>
+        )}
+      </div>
+      <div className="h-3 rounded-sm" style={{ background: colormapGradient(getColormapStops(encoding)) }} />
+      <div className="relative h-4 mt-1">
+        {ticks.map((value, i) => (
+          <span
+            key={i}
+            className="absolute text-[9px] font-mono text-slate-400 -translate-x-1/2 first:translate-x-0 last:-translate-x-full"
+            style={{ left: `${(i / (TICKS - 1)) * 100}%` }}
+          >
+            {i === 0 ? '≤ ' : i === TICKS - 1 ? '≥ ' : ''}{formatNumber(value)}
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-1.5 mt-1 text-[9px] text-slate-500">
+        <div className="w-2 h-2 rounded-sm" style={{ backgroundColor: MISSING_VALUE_COLOR }} />
+        No value
+      </div>
+    </div>
+  );
+};
+
+export default ColorLegend;
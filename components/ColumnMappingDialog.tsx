@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ColumnMapping, InvalidValuePolicy } from '../types';
+import { ParsedCSV, CANDIDATE_DELIMITERS } from '../services/csvParser';
+import { guessColumnMapping } from '../services/columnMapping';
+
+interface ColumnMappingDialogProps {
+  fileName: string;
+  fileSize: number;
+  // Parsed from the beginning of the file only
+  parsed: ParsedCSV;
+  // Delimiter and header options only apply to delimited text
+  showParseOptions: boolean;
+  onChangeDelimiter: (delimiter: string) => void;
+  onChangeHeader: (hasHeader: boolean) => void;
+  onConfirm: (mapping: ColumnMapping, policy: InvalidValuePolicy) => void;
+  onCancel: () => void;
+}
+
+const DELIMITER_NAMES: Record<string, string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab',
+  '|': 'Pipe',
+};
+
+const FIELDS: { key: keyof ColumnMapping; name: string; required: boolean; axis?: boolean }[] = [
+  { key: 'x', name: 'X', required: true, axis: true },
+  { key: 'y', name: 'Y', required: true, axis: true },
+  { key: 'z', name: 'Z', required: true, axis: true },
+  { key: 'label', name: 'Category', required: false },
+  { key: 'metadata', name: 'Metadata', required: false },
+];
+
+const POLICIES: { value: InvalidValuePolicy; name: string }[] = [
+  { value: 'drop', name: 'Drop row' },
+  { value: 'impute', name: 'Impute column mean' },
+  { value: 'fail', name: 'Fail import' },
+];
+
+const PREVIEW_ROWS = 6;
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({
+  fileName, fileSize, parsed, showParseOptions, onChangeDelimiter, onChangeHeader, onConfirm, onCancel
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(parsed));
+  const [policy, setPolicy] = useState<InvalidValuePolicy>('drop');
+  // Leaves X/Y/Z unmapped; the numeric columns are reduced to coordinates after import
+  const [computeLayout, setComputeLayout] = useState(false);
+
+  // Column layout changes whenever the delimiter or header row changes
+  useEffect(() => {
+    setMapping(guessColumnMapping(parsed));
+  }, [parsed]);
+
+  const roleOf = (col: number) => FIELDS.find(f => mapping[f.key] === col && !(computeLayout && f.axis))?.name;
+
+  // Rendered into <body> so the overlay is not clipped by blurred ancestors
+  return createPortal(
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/80 backdrop-blur-sm p-4">
+      <div className="w-full max-w-3xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden text-left">
+        <div className="p-5 border-b border-white/5 flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-bold text-white">Map Columns</h2>
+            <p className="text-xs text-slate-500 font-mono truncate max-w-md">
+              {fileName} · {(fileSize / (1024 * 1024)).toFixed(1)} MB
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-500 hover:text-white transition-colors">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          {/* Parse options */}
+          <div className="flex flex-wrap gap-4 items-end">
+            {showParseOptions && (
+              <>
+                <div>
+                  <label className="text-[10px] text-slate-500 block mb-1 font-bold uppercase">Delimiter</label>
+                  <select
+                    value={parsed.delimiter}
+                    onChange={(e) => onChangeDelimiter(e.target.value)}
+                    className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200"
+                  >
+                    {CANDIDATE_DELIMITERS.map(d => (
+                      <option key={d} value={d}>{DELIMITER_NAMES[d]}</option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer pb-1.5">
+                  <input
+                    type="checkbox"
+                    checked={parsed.hasHeader}
+                    onChange={(e) => onChangeHeader(e.target.checked)}
+                    className="accent-blue-500"
+                  />
+                  First row is a header
+                </label>
+              </>
+            )}
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer pb-1.5">
+              <input
+                type="checkbox"
+                checked={computeLayout}
+                onChange={(e) => setComputeLayout(e.target.checked)}
+                className="accent-blue-500"
+              />
+              Compute X/Y/Z from numeric features
+            </label>
+            <div className="ml-auto">
+              <label className="text-[10px] text-slate-500 block mb-1 font-bold uppercase">Invalid Coordinates</label>
+              <select
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as InvalidValuePolicy)}
+                disabled={computeLayout}
+                className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-1.5 text-sm text-slate-200 disabled:opacity-40"
+              >
+                {POLICIES.map(p => (
+                  <option key={p.value} value={p.value}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Field assignment */}
+          <div className="grid grid-cols-5 gap-3">
+            {FIELDS.map(({ key, name, required, axis }) => (
+              <div key={key}>
+                <label className="text-[10px] text-slate-500 block mb-1 font-bold uppercase">{name}</label>
+                <select
+                  value={computeLayout && axis ? '' : mapping[key] ?? ''}
+                  disabled={computeLayout && axis}
+                  onChange={(e) => setMapping(prev => ({
+                    ...prev,
+                    [key]: e.target.value === '' ? null : Number(e.target.value),
+                  }))}
+                  className="w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 disabled:opacity-40"
+                >
+                  {!required && <option value="">(none)</option>}
+                  {computeLayout && axis && <option value="">(computed)</option>}
+                  {parsed.headers.map((h, i) => (
+                    <option key={i} value={i}>{h}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Preview */}
+          <div className="overflow-auto max-h-64 rounded-lg border border-slate-800">
+            <table className="w-full text-xs font-mono">
+              <thead className="bg-slate-800/80 sticky top-0">
+                <tr>
+                  {parsed.headers.map((h, i) => (
+                    <th key={i} className="px-3 py-2 text-left font-medium text-slate-300 whitespace-nowrap">
+                      <div>{h}</div>
+                      <div className="text-[9px] uppercase tracking-widest text-blue-400 h-3">{roleOf(i) ?? ''}</div>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {parsed.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                  <tr key={r} className="border-t border-slate-800">
+                    {parsed.headers.map((_, c) => (
+                      <td
+                        key={c}
+                        className={`px-3 py-1.5 whitespace-nowrap max-w-[200px] truncate ${roleOf(c) ? 'text-slate-200' : 'text-slate-600'}`}
+                      >
+                        {row[c] ?? ''}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="p-5 border-t border-white/5 flex justify-end gap-3">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-white text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(computeLayout ? { ...mapping, x: null, y: null, z: null } : mapping, policy)}
+            disabled={parsed.rows.length === 0}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white text-sm font-medium transition-colors"
+          >
+            Load Points
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ColumnMappingDialog;
@@ -0,0 +1,66 @@
+import React, { useEffect, useMemo } from 'react';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import {
+  AXIS_COLORS, AXIS_LABEL_OFFSET, AXIS_NAME_FONT, AXIS_OUTWARD, AXIS_TICK_FONT, axisSegments, formatNumber, SCALE_SUFFIX, SceneTransform, worldTicks
+} from '../services/axes';
+
+interface DataAxesProps {
+  transform: SceneTransform;
+  axisNames: [string, string, string];
+}
+
+/**
+ * Axes along the edges of the data's bounding box meeting at its minimum
+ * corner, with tick labels in raw data units.
+ */
+const DataAxes: React.FC<DataAxesProps> = ({ transform, axisNames }) => {
+  const { min, max, axes } = transform;
+
+  const ticks = useMemo(() => worldTicks(transform), [transform]);
+
+  const geometry = useMemo(() => {
+    const segments = axisSegments(transform, ticks);
+    const colors: number[] = [];
+    const color = new THREE.Color();
+    segments.axes.forEach(a => {
+      color.set(AXIS_COLORS[a]);
+      colors.push(color.r, color.g, color.b, color.r, color.g, color.b);
+    });
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.Float32BufferAttribute(segments.vertices, 3));
+    g.setAttribute('color', new THREE.Float32BufferAttribute(colors, 3));
+    return g;
+  }, [transform, ticks]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <group>
+      <lineSegments geometry={geometry}>
+        <lineBasicMaterial vertexColors />
+      </lineSegments>
+
+      {ticks.map((axisTicksList, a) => axisTicksList.map(({ value, position }) => (
+        <Billboard key={`${a}-${value}`} position={position.map((v, k) => v + AXIS_OUTWARD[a][k] * AXIS_LABEL_OFFSET) as [number, number, number]}>
+          <Text fontSize={AXIS_TICK_FONT} color="#94a3b8" anchorX="center" anchorY="middle">{formatNumber(value)}</Text>
+        </Billboard>
+      )))}
+
+      {axes.map((axis, a) => {
+        const position: [number, number, number] = [...min];
+        position[a] = max[a] + AXIS_LABEL_OFFSET * 2;
+        return (
+          <Billboard key={a} position={position}>
+            <Text fontSize={AXIS_NAME_FONT} color={AXIS_COLORS[a]} anchorX="center" anchorY="middle">
+              {axisNames[a] + SCALE_SUFFIX[axis.scale]}
+            </Text>
+          </Billboard>
+        );
+      })}
+    </group>
+  );
+};
+
+export default DataAxes;
@@ -0,0 +1,178 @@
+import React, { useDeferredValue, useEffect, useMemo, useRef, useState } from 'react';
+import { CategoryStyle, PointDataset, SelectionMode } from '../types';
+import { TableSort, tableColumns, tableRows } from '../services/dataTable';
+import { selectionMask } from '../services/selection';
+import { ID_CATEGORY } from '../services/dataset';
+
+interface DataTableProps {
+  dataset: PointDataset;
+  // Points removed by hide, isolate or a filter
+  hiddenMask: Uint8Array | null;
+  categoryStyles: Record<string, CategoryStyle>;
+  selection: Uint32Array;
+  selectedIndex: number | null;
+  onRowClick: (index: number, mode: SelectionMode) => void;
+  onClose: () => void;
+}
+
+const ROW_HEIGHT = 24;
+const OVERSCAN = 10;
+// Browsers cap element heights (Firefox at about 17.9M pixels), so longer tables scroll a shorter spacer at a faster rate
+const MAX_SCROLL_HEIGHT = 8_000_000;
+
+const formatCell = (value: number | string, numeric: boolean) => {
+  if (!numeric) return String(value ?? '') || '—';
+  return Number.isNaN(value) ? '—' : String(Number((value as number).toPrecision(7)));
+};
+
+/**
+ * Every point as a row, with per-column filters and sorting. Only the rows in
+ * view are rendered, so a million points scroll as quickly as a hundred.
+ * Clicking a row selects its point; a point selected elsewhere is scrolled
+ * into view.
+ */
+const DataTable: React.FC<DataTableProps> = ({ dataset, hiddenMask, categoryStyles, selection, selectedIndex, onRowClick, onClose }) => {
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [visibleOnly, setVisibleOnly] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(0);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const headerRef = useRef<HTMLDivElement>(null);
+
+  const columns = useMemo(() => tableColumns(dataset), [dataset]);
+  const width = columns.reduce((sum, c) => sum + c.width, 0);
+
+  // Filtering a million rows takes a moment, so typing stays responsive and the table catches up
+  const deferredFilters = useDeferredValue(filters);
+  const { rows, errors } = useMemo(() => {
+    const accept = visibleOnly
+      ? (i: number) => !hiddenMask?.[i] && categoryStyles[dataset.labels[dataset.labelIndices[i]]]?.visible !== false
+      : null;
+    return tableRows(dataset, columns, deferredFilters, sort, accept);
+  }, [dataset, columns, deferredFilters, sort, visibleOnly, visibleOnly ? hiddenMask : null, visibleOnly ? categoryStyles : null]);
+
+  const selectedMask = useMemo(
+    () => (selection.length > 0 ? selectionMask(selection, dataset.count) : null),
+    [selection, dataset]
+  );
+
+  useEffect(() => {
+    const element = bodyRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(() => setViewport(element.clientHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const contentHeight = rows.length * ROW_HEIGHT;
+  const spacerHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  // Content pixels per scrolled pixel
+  const ratio = spacerHeight > viewport ? (contentHeight - viewport) / (spacerHeight - viewport) : 1;
+  const offset = scrollTop * ratio;
+  const first = Math.max(0, Math.floor(offset / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((offset + viewport) / ROW_HEIGHT) + OVERSCAN);
+
+  // Brings the selected point's row into view when the selection or the row order changes
+  useEffect(() => {
+    const element = bodyRef.current;
+    if (selectedIndex === null || !element) return;
+    const position = rows.indexOf(selectedIndex);
+    if (position < 0) return;
+    const top = position * ROW_HEIGHT;
+    const current = element.scrollTop * ratio;
+    let next = current;
+    if (top < current) next = top;
+    else if (top + ROW_HEIGHT > current + element.clientHeight) next = top + ROW_HEIGHT - element.clientHeight;
+    if (next !== current) element.scrollTop = next / ratio;
+  }, [selectedIndex, rows]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+    if (headerRef.current) headerRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
+  const toggleSort = (column: string) =>
+    setSort(prev => (prev?.column !== column ? { column, descending: false } : prev.descending ? null : { column, descending: true }));
+
+  const template = columns.map(c => `${c.width}px`).join(' ');
+
+  return (
+    <div className="h-72 flex flex-col bg-slate-900/95 border-t border-white/10 text-xs">
+      <div className="flex items-center gap-4 px-4 py-2 border-b border-white/5">
+        <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Data Table</h3>
+        <span className="text-[10px] text-slate-500">
+          {rows.length.toLocaleString()} of {dataset.count.toLocaleString()} rows
+        </span>
+        <label className="flex items-center gap-2 text-[10px] text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={visibleOnly} onChange={(e) => setVisibleOnly(e.target.checked)} className="accent-blue-500" />
+          Visible points only
+        </label>
+        <div className="flex-1" />
+        <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors" title="Close table">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+
+      <div ref={headerRef} className="overflow-hidden border-b border-white/10 bg-slate-900">
+        <div className="grid" style={{ gridTemplateColumns: template, width }}>
+          {columns.map(column => (
+            <div key={column.id} className="px-2 py-1 space-y-1 border-r border-white/5">
+              <button
+                onClick={() => toggleSort(column.id)}
+                className="w-full flex items-center gap-1 text-left text-[10px] font-bold text-slate-400 uppercase hover:text-white transition-colors"
+                title={column.name}
+              >
+                <span className="truncate">{column.name}</span>
+                {sort?.column === column.id && (
+                  <i className={`fa-solid ${sort.descending ? 'fa-arrow-down-wide-short' : 'fa-arrow-up-short-wide'} text-blue-400`}></i>
+                )}
+              </button>
+              <input
+                value={filters[column.id] ?? ''}
+                onChange={(e) => setFilters(prev => ({ ...prev, [column.id]: e.target.value }))}
+                placeholder={column.numeric ? '>0, 1..5' : 'contains'}
+                title={errors[column.id] ?? undefined}
+                className={`w-full bg-slate-800 border rounded px-1.5 py-0.5 text-[10px] text-slate-200 focus:outline-none ${
+                  errors[column.id] ? 'border-red-500/60' : 'border-slate-700 focus:border-blue-500'
+                }`}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div ref={bodyRef} onScroll={handleScroll} className="flex-1 overflow-auto">
+        <div className="relative" style={{ height: spacerHeight, width }}>
+          {Array.from({ length: Math.max(0, last - first) }, (_, k) => {
+            const position = first + k;
+            const index = rows[position];
+            const label = dataset.labels[dataset.labelIndices[index]];
+            const rowClass = index === selectedIndex
+              ? 'bg-blue-600/30 text-white'
+              : selectedMask?.[index] ? 'bg-blue-500/10 text-slate-200' : 'text-slate-300 hover:bg-slate-800/60';
+            return (
+              <div
+                key={index}
+                onClick={(e) => onRowClick(index, e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace')}
+                className={`absolute left-0 grid items-center cursor-pointer ${rowClass}`}
+                style={{ top: scrollTop + position * ROW_HEIGHT - offset, height: ROW_HEIGHT, gridTemplateColumns: template, width }}
+              >
+                {columns.map(column => (
+                  <div key={column.id} className={`px-2 truncate ${column.numeric ? 'font-mono text-right' : ''}`}>
+                    {column.id === ID_CATEGORY && (
+                      <span className="inline-block w-2 h-2 rounded-sm mr-1.5" style={{ backgroundColor: categoryStyles[label]?.color }} />
+                    )}
+                    {formatCell(column.read(index), column.numeric)}
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DataTable;
@@ -1,120 +1,110 @@
 
-import React, { useRef, useMemo, useState, useCallback, useImperativeHandle, forwardRef } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, PerspectiveCamera, Stars, Text, Grid, Html } from '@react-three/drei';
+import React, { useRef, useMemo, useState, useCallback, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { Canvas, RootState, useFrame, useThree } from '@react-three/fiber';
+import { OrbitControls, PerspectiveCamera, Stars, Grid, Html } from '@react-three/drei';
 import * as THREE from 'three';
-import { DataPoint, CategoryStyle, PointShape } from '../types';
+import { DataPoint, CategoryStyle, PointDataset, ColorEncoding, SizeEncoding, SelectionMode, CameraPose, ImageExportSettings, ModelExportSettings, TimeSeriesSettings, CameraBookmark, TourStop, LayerDisplay, DatasetLayer, LayerComparison, NeighborQuery, CategoryOverlays } from '../types';
+import { getPoint } from '../services/dataset';
+import { pointsInPolygon, selectionMask } from '../services/selection';
+import { SceneTransform } from '../services/axes';
+import { canvasToBlob, createLegend, drawLegend, exportSize, renderScene } from '../services/imageExport';
+import { buildSvg } from '../services/svgExport';
+import { createModelScene, MODEL_FORMATS, modelPointCount, writeModel } from '../services/modelExport';
+import { downloadBlob, downloadText } from '../services/download';
+import { combineMasks } from '../services/filters';
+import { PLAYBACK_SECONDS, playbackFrame, Trajectories } from '../services/timeSeries';
+import { createZip, ZipEntry } from '../services/zip';
+import { CameraPath, flightPath, MAX_TOUR_FRAMES, poseAt, tourPath } from '../services/cameraTour';
+import { LayerMatches, LayerPlacement } from '../services/layers';
+import { NeighborResult, neighborsToCSV } from '../services/neighbors';
+import PointCloud from './PointCloud';
+import DataAxes from './DataAxes';
+import SelectionOverlay, { SelectionTool } from './SelectionOverlay';
+import ColorLegend from './ColorLegend';
+import SizeLegend from './SizeLegend';
+import Trails from './Trails';
+import PlaybackBar from './PlaybackBar';
+import DisplacementVectors from './DisplacementVectors';
+import NeighborLines from './NeighborLines';
+import NeighborPanel from './NeighborPanel';
+import CategoryOverlay from './CategoryOverlay';
 
 interface DataVisualizerProps {
-  points: DataPoint[];
+  dataset: PointDataset;
+  // World-space positions from sceneTransform
+  positions: Float32Array;
+  sceneTransform: SceneTransform;
   categoryStyles: Record<string, CategoryStyle>;
   showAxes: boolean;
+  useSourceColors: boolean;
+  colorEncoding: ColorEncoding;
+  colorDomain: [number, number] | null;
+  sizeEncoding: SizeEncoding;
+  sizeExtent: [number, number] | null;
+  selection: Uint32Array;
+  selectedIndex: number | null;
+  // One byte per point, 1 where hide, isolate or a filter removes the point
+  hiddenMask: Uint8Array | null;
+  // A click on a point, or on empty space when index is null
+  onSelectPoint: (index: number | null, mode: SelectionMode) => void;
+  // Points inside a box or lasso
+  onSelectRegion: (indices: Uint32Array, mode: SelectionMode) => void;
+  // Changes the point shown in the details panel without touching the selection
+  onFocusPoint: (index: number | null) => void;
+  // Moves the camera here instead of fitting the data; a new object applies it again
+  cameraPose: CameraPose | null;
+  // Called after the user has finished moving the camera
+  onCameraChange: () => void;
+  // Entities of the mapped time series, or null when playback is off
+  trajectories: Trajectories | null;
+  timeSeries: TimeSeriesSettings;
+  onUpdateTimeSeries: (updates: Partial<TimeSeriesSettings>) => void;
+  mainLayer: LayerDisplay;
+  layers: DatasetLayer[];
+  // World positions of each layer, by layer id
+  layerPlacements: Map<string, LayerPlacement>;
+  comparison: LayerComparison;
+  // Pairs between the main points and the compared layer, or null when nothing is compared
+  layerMatches: LayerMatches | null;
+  tableOpen: boolean;
+  onToggleTable: () => void;
+  neighborQuery: NeighborQuery;
+  // Points near the one in the details panel, or null while the query is off
+  neighbors: NeighborResult | null;
+  onUpdateNeighborQuery: (updates: Partial<NeighborQuery>) => void;
+  categoryOverlays: CategoryOverlays;
 }
 
 export interface DataVisualizerHandle {
   takeScreenshot: () => void;
+  getCamera: () => CameraPose | null;
+  // Renders the current view off-screen and downloads it; rejects when the browser cannot render the size
+  exportImage: (settings: ImageExportSettings) => Promise<void>;
+  exportSvg: (settings: ImageExportSettings) => void;
+  // Writes the visible points as a 3D file in world units; throws when nothing is visible
+  exportModel: (settings: ModelExportSettings) => void;
+  // Renders `frames` evenly spaced playback times and downloads them as a ZIP of PNGs
+  exportFrames: (settings: ImageExportSettings, frames: number, onProgress: (done: number) => void) => Promise<void>;
+  // Animates the camera to a pose
+  flyTo: (pose: CameraPose) => void;
+  // Flies up to a point, keeping the viewing direction
+  flyToPoint: (index: number) => void;
+  // Flies the tour from the current view; resolves when it ends or is stopped
+  playTour: (stops: TourStop[], bookmarks: CameraBookmark[]) => Promise<void>;
+  stopTour: () => void;
+  // Renders the tour at a fixed frame rate and downloads the frames as a ZIP of PNGs
+  recordTour: (
+    stops: TourStop[],
+    bookmarks: CameraBookmark[],
+    settings: ImageExportSettings,
+    fps: number,
+    onProgress: (done: number, total: number) => void
+  ) => Promise<void>;
 }
 
-const createShapeTexture = (shape: PointShape) => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 64;
-  canvas.height = 64;
-  const ctx = canvas.getContext('2d')!;
-  ctx.fillStyle = 'white';
-  
-  if (shape === 'circle') {
-    ctx.beginPath();
-    ctx.arc(32, 32, 28, 0, Math.PI * 2);
-    ctx.fill();
-  } else if (shape === 'square') {
-    ctx.fillRect(8, 8, 48, 48);
-  } else if (shape === 'diamond') {
-    ctx.beginPath();
-    ctx.moveTo(32, 8);
-    ctx.lineTo(56, 32);
-    ctx.lineTo(32, 56);
-    ctx.lineTo(8, 32);
-    ctx.closePath();
-    ctx.fill();
-  } else if (shape === 'cross') {
-    ctx.fillRect(24, 8, 16, 48);
-    ctx.fillRect(8, 24, 48, 16);
-  }
-  
-  const texture = new THREE.CanvasTexture(canvas);
-  return texture;
-};
-
-const CategoryPoints: React.FC<{ 
-  points: DataPoint[], 
-  style: CategoryStyle, 
-  onHover: (point: DataPoint | null) => void,
-  onSelect: (point: DataPoint | null) => void
-}> = ({ points, style, onHover, onSelect }) => {
-  const meshRef = useRef<THREE.Points>(null!);
-  const { raycaster, mouse, camera } = useThree();
-
-  const [positions] = useMemo(() => {
-    const posArr = new Float32Array(points.length * 3);
-    points.forEach((p, i) => {
-      posArr[i * 3] = p.x;
-      posArr[i * 3 + 1] = p.y;
-      posArr[i * 3 + 2] = p.z;
-    });
-    return [posArr];
-  }, [points]);
-
-  const texture = useMemo(() => createShapeTexture(style.shape), [style.shape]);
-
-  useFrame(() => {
-    if (!style.visible) return;
-    
-    raycaster.setFromCamera(mouse, camera);
-    const intersects = raycaster.intersectObject(meshRef.current);
-    
-    if (intersects.length > 0) {
-      const idx = intersects[0].index;
-      if (idx !== undefined) {
-        onHover(points[idx]);
-      }
-    } else {
-      onHover(null);
-    }
-  });
-
-  if (!style.visible) return null;
+const nextFrame = () => new Promise<void>(resolve => requestAnimationFrame(() => resolve()));
 
-  return (
-    <points 
-      ref={meshRef} 
-      onClick={(e) => {
-        e.stopPropagation();
-        if (e.index !== undefined) {
-          onSelect(points[e.index]);
-        }
-      }}
-    >
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={positions.length / 3}
-          array={positions}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      <pointsMaterial
-        size={0.4}
-        color={style.color}
-        map={texture}
-        transparent
-        alphaTest={0.5}
-        sizeAttenuation={true}
-      />
-    </points>
-  );
-};
-
-const SelectionHighlight: React.FC<{ point: DataPoint, color: string }> = ({ point, color }) => {
+const SelectionHighlight: React.FC<{ position: [number, number, number], color: string }> = ({ position, color }) => {
   const ringRef = useRef<THREE.Mesh>(null!);
   
   useFrame(({ clock }) => {
@@ -123,7 +113,7 @@ const SelectionHighlight: React.FC<{ point: DataPoint, color: string }> = ({ poi
   });
 
   return (
-    <group position={[point.x, point.y, point.z]}>
+    <group position={position}>
       <mesh ref={ringRef} rotation={[Math.PI / 2, 0, 0]}>
         <ringGeometry args={[0.6, 0.7, 32]} />
         <meshBasicMaterial color={color} transparent opacity={0.8} side={THREE.DoubleSide} />
@@ -133,6 +123,226 @@ const SelectionHighlight: React.FC<{ point: DataPoint, color: string }> = ({ poi
   );
 };
 
+const StateBridge: React.FC<{ stateRef: React.MutableRefObject<RootState['get'] | null> }> = ({ stateRef }) => {
+  const get = useThree(s => s.get);
+  stateRef.current = get;
+  return null;
+};
+
+interface OrbitTarget {
+  target: THREE.Vector3;
+  update: () => void;
+}
+
+// R3F types the default controls as a bare event dispatcher; drei's OrbitControls also carry a target
+const orbitControls = (controls: unknown): OrbitTarget | null => {
+  const candidate = controls as Partial<OrbitTarget> | null;
+  return candidate?.target instanceof THREE.Vector3 && typeof candidate.update === 'function' ? candidate as OrbitTarget : null;
+};
+
+interface CameraRigProps {
+  min: [number, number, number];
+  max: [number, number, number];
+  // Identity of the loaded points; stays the same while a reduction moves them
+  points: string[];
+  scales: string;
+  request: number;
+  pose: CameraPose | null;
+}
+
+/**
+ * Frames the data's world box when new points load, the axis scales change
+ * or a fit is requested. Live layout updates leave the camera where it is,
+ * except for the first one after an import whose points all sat at the origin.
+ * A new pose, e.g. from a restored project, takes the place of the next fit.
+ */
+const CameraRig: React.FC<CameraRigProps> = ({ min, max, points, scales, request, pose }) => {
+  const camera = useThree(s => s.camera) as THREE.PerspectiveCamera;
+  const collapsed = min.every((v, a) => v === max[a]);
+  const controls = orbitControls(useThree(s => s.controls));
+  const appliedPose = useRef<CameraPose | null>(null);
+
+  React.useEffect(() => {
+    const box = new THREE.Box3(new THREE.Vector3(...min), new THREE.Vector3(...max));
+    const radius = Math.max(box.getSize(new THREE.Vector3()).length() / 2, 1);
+    const distance = (radius / Math.sin(THREE.MathUtils.degToRad(camera.fov) / 2)) * 1.05;
+    let center = box.getCenter(new THREE.Vector3());
+
+    if (pose && pose !== appliedPose.current) {
+      center = new THREE.Vector3(...pose.target);
+      camera.position.set(...pose.position);
+      // The controls mount after the first run, which then has to be repeated for them
+      if (controls) appliedPose.current = pose;
+    } else {
+      camera.position.copy(center).add(new THREE.Vector3(1, 0.8, 1).normalize().multiplyScalar(distance));
+    }
+    camera.near = distance / 100;
+    // Far enough for the star field behind the data
+    camera.far = Math.max(1000, distance * 20);
+    camera.updateProjectionMatrix();
+    if (controls) {
+      controls.target.copy(center);
+      controls.update();
+    } else {
+      camera.lookAt(center);
+    }
+  }, [points, scales, collapsed, request, pose, camera, controls]);
+
+  return null;
+};
+
+const applyPose = (camera: THREE.Camera, controls: OrbitTarget | null, pose: CameraPose) => {
+  camera.position.set(...pose.position);
+  camera.lookAt(...pose.target);
+  controls?.target.set(...pose.target);
+};
+
+interface ActivePath {
+  path: CameraPath;
+  // Clock time the path started at, set on its first frame
+  start: number | null;
+  done: () => void;
+}
+
+/** Moves the camera along the active path, if any, and ends it when the path is over. */
+const CameraPathPlayer: React.FC<{ pathRef: React.MutableRefObject<ActivePath | null> }> = ({ pathRef }) => {
+  useFrame(({ camera, controls, clock }) => {
+    const active = pathRef.current;
+    if (!active) return;
+    if (active.start === null) active.start = clock.elapsedTime;
+    const elapsed = clock.elapsedTime - active.start;
+    applyPose(camera, orbitControls(controls), poseAt(active.path, elapsed));
+    if (elapsed >= active.path.duration) {
+      pathRef.current = null;
+      active.done();
+    }
+  });
+  return null;
+};
+
+// Key code to movement along [right, up, forward]
+const FLY_KEYS: Record<string, [number, number, number]> = {
+  KeyW: [0, 0, 1],
+  ArrowUp: [0, 0, 1],
+  KeyS: [0, 0, -1],
+  ArrowDown: [0, 0, -1],
+  KeyA: [-1, 0, 0],
+  ArrowLeft: [-1, 0, 0],
+  KeyD: [1, 0, 0],
+  ArrowRight: [1, 0, 0],
+  KeyE: [0, 1, 0],
+  KeyQ: [0, -1, 0],
+};
+// Radians of turn per pixel dragged
+const LOOK_SPEED = 0.004;
+const PITCH_LIMIT = Math.PI / 2 - 0.01;
+const FAST_FACTOR = 4;
+
+const isEditing = (e: KeyboardEvent) =>
+  e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(e.target.tagName));
+
+/**
+ * First-person navigation: WASD or the arrow keys move along the view, Q and
+ * E move down and up, Shift speeds up and dragging turns the view. The orbit
+ * target is kept ahead of the camera so orbiting resumes where flying ended.
+ */
+const FlyRig: React.FC<{ speed: number; onMove: () => void }> = ({ speed, onMove }) => {
+  const camera = useThree(s => s.camera);
+  const gl = useThree(s => s.gl);
+  const controls = orbitControls(useThree(s => s.controls));
+  const keys = useRef(new Set<string>());
+  const fast = useRef(false);
+  // Distance of the orbit target ahead of the camera
+  const reach = useRef(1);
+
+  useEffect(() => {
+    reach.current = controls ? Math.max(camera.position.distanceTo(controls.target), 1e-3) : speed;
+  }, [camera, controls, speed]);
+
+  useEffect(() => {
+    const handleDown = (e: KeyboardEvent) => {
+      fast.current = e.shiftKey;
+      if (isEditing(e) || e.ctrlKey || e.metaKey || e.altKey || !FLY_KEYS[e.code]) return;
+      keys.current.add(e.code);
+      e.preventDefault();
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      fast.current = e.shiftKey;
+      if (keys.current.delete(e.code) && keys.current.size === 0) onMove();
+    };
+    const handleBlur = () => keys.current.clear();
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+      keys.current.clear();
+    };
+  }, [onMove]);
+
+  useEffect(() => {
+    const element = gl.domElement;
+    const euler = new THREE.Euler(0, 0, 0, 'YXZ');
+    let last: [number, number] | null = null;
+    let turned = false;
+    const handleDown = (e: PointerEvent) => {
+      if (e.button === 0) last = [e.clientX, e.clientY];
+    };
+    const handleMove = (e: PointerEvent) => {
+      if (!last) return;
+      euler.setFromQuaternion(camera.quaternion);
+      euler.y -= (e.clientX - last[0]) * LOOK_SPEED;
+      euler.x = Math.max(-PITCH_LIMIT, Math.min(PITCH_LIMIT, euler.x - (e.clientY - last[1]) * LOOK_SPEED));
+      camera.quaternion.setFromEuler(euler);
+      last = [e.clientX, e.clientY];
+      turned = true;
+    };
+    const handleUp = () => {
+      if (turned) onMove();
+      last = null;
+      turned = false;
+    };
+    element.addEventListener('pointerdown', handleDown);
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      element.removeEventListener('pointerdown', handleDown);
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [gl, camera, onMove]);
+
+  const forward = useMemo(() => new THREE.Vector3(), []);
+  const right = useMemo(() => new THREE.Vector3(), []);
+  const move = useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((_, delta) => {
+    camera.getWorldDirection(forward);
+    if (keys.current.size > 0) {
+      right.crossVectors(forward, camera.up).normalize();
+      move.set(0, 0, 0);
+      keys.current.forEach(code => {
+        const [x, y, z] = FLY_KEYS[code];
+        move.addScaledVector(right, x).addScaledVector(camera.up, y).addScaledVector(forward, z);
+      });
+      if (move.lengthSq() > 0) {
+        camera.position.addScaledVector(move.normalize(), speed * delta * (fast.current ? FAST_FACTOR : 1));
+      }
+    }
+    controls?.target.copy(camera.position).addScaledVector(forward, reach.current);
+  });
+
+  return null;
+};
+
+const TOOLS: { id: SelectionTool | null; icon: string; title: string }[] = [
+  { id: null, icon: 'fa-arrows-rotate', title: 'Orbit' },
+  { id: 'box', icon: 'fa-vector-square', title: 'Box Select (Shift adds, Alt subtracts)' },
+  { id: 'lasso', icon: 'fa-draw-polygon', title: 'Lasso Select (Shift adds, Alt subtracts)' },
+];
+
 const SceneCapture: React.FC<{ onCapture: (gl: THREE.WebGLRenderer) => void, trigger: boolean }> = ({ onCapture, trigger }) => {
   const { gl } = useThree();
   React.useEffect(() => {
@@ -143,19 +353,283 @@ const SceneCapture: React.FC<{ onCapture: (gl: THREE.WebGLRenderer) => void, tri
   return null;
 };
 
-const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({ points, categoryStyles, showAxes }, ref) => {
-  const [hoveredPoint, setHoveredPoint] = useState<DataPoint | null>(null);
-  const [selectedPoint, setSelectedPoint] = useState<DataPoint | null>(null);
+const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
+  dataset,
+  positions,
+  sceneTransform,
+  categoryStyles,
+  showAxes,
+  useSourceColors,
+  colorEncoding,
+  colorDomain,
+  sizeEncoding,
+  sizeExtent,
+  selection,
+  selectedIndex,
+  hiddenMask,
+  onSelectPoint,
+  onSelectRegion,
+  onFocusPoint,
+  cameraPose,
+  onCameraChange,
+  trajectories,
+  timeSeries,
+  onUpdateTimeSeries,
+  mainLayer,
+  layers,
+  layerPlacements,
+  comparison,
+  layerMatches,
+  tableOpen,
+  onToggleTable,
+  neighborQuery,
+  neighbors,
+  onUpdateNeighborQuery,
+  categoryOverlays,
+}, ref) => {
+  const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
+  const [tool, setTool] = useState<SelectionTool | null>(null);
+  const [fitRequest, setFitRequest] = useState(0);
+  const stateRef = useRef<RootState['get'] | null>(null);
   const [screenshotTrigger, setScreenshotTrigger] = useState(false);
   const hoverTimeout = useRef<number | null>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const starsRef = useRef<THREE.Group>(null);
+  const gridRef = useRef<THREE.Group>(null);
+  const axesRef = useRef<THREE.Group>(null);
+
+  const [time, setTime] = useState<number | null>(null);
+  const [playing, setPlaying] = useState(false);
+
+  const [flying, setFlying] = useState(false);
+  // Set while the camera follows a path, which takes the controls away from the user
+  const [touring, setTouring] = useState(false);
+  const pathRef = useRef<ActivePath | null>(null);
+
+  const exportName = (extension: string) => `VoxNavigator-3D-${new Date().getTime()}.${extension}`;
+
+  // Playback starts over whenever the entities change
+  useEffect(() => {
+    setTime(null);
+    setPlaying(false);
+  }, [trajectories]);
+
+  const currentTime = trajectories ? Math.min(Math.max(time ?? trajectories.range[0], trajectories.range[0]), trajectories.range[1]) : null;
+  const timeRef = useRef(currentTime);
+  timeRef.current = currentTime;
+
+  useEffect(() => {
+    if (!playing || !trajectories) return;
+    const [start, end] = trajectories.range;
+    const { speed, loop } = timeSeries;
+    let last = performance.now();
+    let handle = 0;
+    const step = (now: number) => {
+      let t = (timeRef.current ?? start) + ((now - last) / 1000) * speed * ((end - start) / PLAYBACK_SECONDS);
+      last = now;
+      if (t > end) {
+        if (!loop) {
+          setTime(end);
+          setPlaying(false);
+          return;
+        }
+        t = start;
+      }
+      timeRef.current = t;
+      setTime(t);
+      handle = requestAnimationFrame(step);
+    };
+    handle = requestAnimationFrame(step);
+    return () => cancelAnimationFrame(handle);
+  }, [playing, trajectories, timeSeries.speed, timeSeries.loop]);
+
+  const togglePlay = () => {
+    if (!trajectories) return;
+    // Playing from the end starts over
+    if (!playing && currentTime !== null && currentTime >= trajectories.range[1]) setTime(trajectories.range[0]);
+    setPlaying(!playing);
+  };
+
+  const frame = useMemo(
+    () => (trajectories && currentTime !== null ? playbackFrame(trajectories, positions, dataset.count, currentTime) : null),
+    [trajectories, positions, dataset, currentTime]
+  );
+  // What is on screen: moving positions during playback, and everything playback does not show hidden
+  const drawnPositions = frame?.positions ?? positions;
+  const drawnHidden = useMemo(
+    () => (frame ? combineMasks(dataset.count, hiddenMask, frame.hidden) : hiddenMask),
+    [frame, hiddenMask, dataset]
+  );
+
+  const currentPose = (): CameraPose | null => {
+    const get = stateRef.current;
+    if (!get) return null;
+    const { camera, controls } = get();
+    const target = orbitControls(controls)?.target ?? new THREE.Vector3();
+    return { position: camera.position.toArray(), target: target.toArray() };
+  };
+
+  /** Hands the camera to a path; the promise settles when the path ends or another replaces it. */
+  const followPath = (path: CameraPath) => {
+    pathRef.current?.done();
+    setTouring(true);
+    return new Promise<void>(resolve => {
+      const active: ActivePath = {
+        path,
+        start: null,
+        done: () => {
+          if (pathRef.current === active) pathRef.current = null;
+          setTouring(false);
+          onCameraChange();
+          resolve();
+        },
+      };
+      pathRef.current = active;
+    });
+  };
+
+  const stopTour = () => pathRef.current?.done();
+
+  /**
+   * Renders `count` frames into a ZIP of PNGs. prepare(k) sets up frame k;
+   * two animation frames pass before each render so React and the scene
+   * catch up with it.
+   */
+  const renderFrames = async (
+    settings: ImageExportSettings,
+    count: number,
+    prepare: (k: number) => void,
+    onProgress: (done: number) => void
+  ) => {
+    const get = stateRef.current;
+    if (!get) return;
+    const legend = settings.showLegend ? createLegend(dataset, categoryStyles, useSourceColors, colorEncoding, colorDomain) : null;
+    const digits = String(count).length;
+    const entries: ZipEntry[] = [];
+    for (let k = 0; k < count; k++) {
+      prepare(k);
+      await nextFrame();
+      await nextFrame();
+      const { gl, scene, camera, size } = get();
+      const [width, height] = exportSize(settings, size);
+      const canvas = renderScene(gl, scene, camera, size.height, settings, [width, height], {
+        stars: starsRef.current,
+        grid: gridRef.current,
+        axes: axesRef.current,
+      });
+      if (legend) drawLegend(canvas.getContext('2d')!, legend, width, height);
+      const blob = await canvasToBlob(canvas);
+      entries.push({ name: `frame-${String(k + 1).padStart(digits, '0')}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+      onProgress(k + 1);
+    }
+    downloadBlob(createZip(entries), exportName('zip'));
+  };
 
   useImperativeHandle(ref, () => ({
     takeScreenshot: () => {
       setScreenshotTrigger(true);
       // Reset trigger shortly after
       setTimeout(() => setScreenshotTrigger(false), 100);
-    }
+    },
+    getCamera: currentPose,
+    exportImage: async (settings) => {
+      const get = stateRef.current;
+      if (!get) return;
+      const { gl, scene, camera, size } = get();
+      const [width, height] = exportSize(settings, size);
+      const canvas = renderScene(gl, scene, camera, size.height, settings, [width, height], {
+        stars: starsRef.current,
+        grid: gridRef.current,
+        axes: axesRef.current,
+      });
+      const legend = settings.showLegend ? createLegend(dataset, categoryStyles, useSourceColors, colorEncoding, colorDomain) : null;
+      if (legend) drawLegend(canvas.getContext('2d')!, legend, width, height);
+      downloadBlob(await canvasToBlob(canvas), exportName('png'));
+    },
+    exportSvg: (settings) => {
+      const get = stateRef.current;
+      if (!get) return;
+      const { camera, size } = get();
+      const svg = buildSvg({
+        dataset,
+        positions: drawnPositions,
+        sceneTransform,
+        categoryStyles,
+        useSourceColors,
+        colorEncoding,
+        colorDomain,
+        sizeEncoding,
+        sizeExtent,
+        hiddenMask: drawnHidden,
+        selectedMask,
+        legend: createLegend(dataset, categoryStyles, useSourceColors, colorEncoding, colorDomain),
+      }, camera, size.height, settings, exportSize(settings, size));
+      downloadText(svg, exportName('svg'), 'image/svg+xml');
+    },
+    exportModel: (settings) => {
+      const scene = createModelScene(dataset, drawnPositions, sceneTransform, categoryStyles, drawnHidden, selection, settings);
+      if (modelPointCount(scene) === 0) throw new Error('No visible points to export.');
+      const format = MODEL_FORMATS.find(f => f.id === settings.format)!;
+      downloadBlob(writeModel(scene, settings.format), exportName(format.extension));
+    },
+    exportFrames: async (settings, frames, onProgress) => {
+      if (!trajectories) return;
+      const [start, end] = trajectories.range;
+      const resume = timeRef.current;
+      setPlaying(false);
+      try {
+        await renderFrames(settings, frames, (k) => setTime(start + (end - start) * (frames > 1 ? k / (frames - 1) : 0)), onProgress);
+      } finally {
+        setTime(resume);
+      }
+    },
+    flyTo: (pose) => {
+      const from = currentPose();
+      if (from) followPath(flightPath(from, pose));
+    },
+    flyToPoint: (index) => {
+      const from = currentPose();
+      if (!from) return;
+      const target = worldPosition(index);
+      const away = from.position.map((v, a) => v - from.target[a]);
+      const length = Math.hypot(...away) || 1;
+      // Close enough to pick the point out, but never further away than now
+      const size = Math.hypot(...sceneTransform.max.map((v, a) => v - sceneTransform.min[a]));
+      const distance = Math.min(length, Math.max(size * 0.1, 1));
+      const position = target.map((v, a) => v + (away[a] / length) * distance) as [number, number, number];
+      followPath(flightPath(from, { position, target }));
+    },
+    playTour: async (stops, bookmarks) => {
+      const from = currentPose();
+      if (from) await followPath(tourPath(from, stops, bookmarks));
+    },
+    stopTour,
+    recordTour: async (stops, bookmarks, settings, fps, onProgress) => {
+      const get = stateRef.current;
+      const from = currentPose();
+      if (!get || !from) return;
+      const path = tourPath(from, stops, bookmarks);
+      if (path.keys.length < 2) throw new Error('The tour has no stops.');
+      const frames = Math.floor(path.duration * fps) + 1;
+      if (frames > MAX_TOUR_FRAMES) {
+        throw new Error(`The tour takes ${frames.toLocaleString()} frames at ${fps} fps; at most ${MAX_TOUR_FRAMES.toLocaleString()} can be recorded.`);
+      }
+      stopTour();
+      setTouring(true);
+      const { camera } = get();
+      const controls = orbitControls(get().controls);
+      try {
+        await renderFrames(
+          settings,
+          frames,
+          (k) => applyPose(camera, controls, poseAt(path, k / fps)),
+          (done) => onProgress(done, frames)
+        );
+      } finally {
+        applyPose(camera, controls, from);
+        setTouring(false);
+      }
+    },
   }));
 
   const handleCapture = useCallback((gl: THREE.WebGLRenderer) => {
@@ -165,24 +639,72 @@ const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
     link.click();
   }, []);
 
-  const handleHover = useCallback((point: DataPoint | null) => {
+  const handleHover = useCallback((index: number | null) => {
     if (hoverTimeout.current) window.clearTimeout(hoverTimeout.current);
     
-    if (point) {
-      setHoveredPoint(point);
+    if (index !== null) {
+      setHoveredIndex(index);
     } else {
-      hoverTimeout.current = window.setTimeout(() => setHoveredPoint(null), 50);
+      hoverTimeout.current = window.setTimeout(() => setHoveredIndex(null), 50);
     }
   }, []);
 
-  const pointsByCategory = useMemo(() => {
-    const groups: Record<string, DataPoint[]> = {};
-    points.forEach(p => {
-      if (!groups[p.label]) groups[p.label] = [];
-      groups[p.label].push(p);
-    });
-    return groups;
-  }, [points]);
+  const selectedMask = useMemo(
+    () => (selection.length > 0 ? selectionMask(selection, dataset.count) : null),
+    [selection, dataset]
+  );
+
+  const handleRegion = (polygon: [number, number][], mode: SelectionMode) => {
+    const get = stateRef.current;
+    if (!get || !mainLayer.visible) return;
+    const { camera, size } = get();
+    camera.updateMatrixWorld();
+    const viewProjection = new THREE.Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+    const indices = pointsInPolygon(
+      drawnPositions,
+      dataset.count,
+      viewProjection.elements,
+      size.width,
+      size.height,
+      polygon,
+      (i) => !drawnHidden?.[i] && categoryStyles[dataset.labels[dataset.labelIndices[i]]]?.visible !== false
+    );
+    onSelectRegion(indices, mode);
+  };
+
+  // Indices refer to the previous dataset until the effect below clears them
+  const hoveredPoint = useMemo(
+    () => (hoveredIndex !== null && hoveredIndex < dataset.count ? getPoint(dataset, hoveredIndex) : null),
+    [dataset, hoveredIndex]
+  );
+  const selectedPoint = useMemo(
+    () => (selectedIndex !== null && selectedIndex < dataset.count ? getPoint(dataset, selectedIndex) : null),
+    [dataset, selectedIndex]
+  );
+
+  React.useEffect(() => {
+    setHoveredIndex(null);
+  }, [dataset]);
+
+  const comparedLayer = layers.find(layer => layer.id === comparison.layerId);
+  const comparedPlacement = comparedLayer && layerPlacements.get(comparedLayer.id);
+  const acceptMain = useCallback(
+    (i: number) => !drawnHidden?.[i] && categoryStyles[dataset.labels[dataset.labelIndices[i]]]?.visible !== false,
+    [drawnHidden, categoryStyles, dataset]
+  );
+  const comparedStyles = comparedLayer?.categoryStyles;
+  const acceptCompared = useCallback(
+    (j: number) => !comparedLayer || comparedStyles?.[comparedLayer.dataset.labels[comparedLayer.dataset.labelIndices[j]]]?.visible !== false,
+    [comparedLayer?.dataset, comparedStyles]
+  );
+
+  // World units per second; crosses the data's box in about four seconds
+  const flySpeed = Math.max(Math.hypot(...sceneTransform.max.map((v, a) => v - sceneTransform.min[a])) / 4, 0.1);
+
+  const worldPosition = (index: number): [number, number, number] =>
+    [drawnPositions[index * 3], drawnPositions[index * 3 + 1], drawnPositions[index * 3 + 2]];
+  // Playback hides every observation but the one standing in for its entity
+  const isDrawn = useCallback((index: number) => !frame?.hidden[index], [frame]);
 
   return (
     <div className="w-full h-full cursor-crosshair relative">
@@ -191,56 +713,136 @@ const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
         shadows 
         dpr={[2, 2]} // High definition
         gl={{ preserveDrawingBuffer: true, antialias: true }}
-        onPointerMissed={() => setSelectedPoint(null)}
       >
         <color attach="background" args={['#020617']} />
         <PerspectiveCamera makeDefault position={[20, 20, 20]} fov={45} />
-        <OrbitControls enableDamping dampingFactor={0.05} />
+        <OrbitControls makeDefault enableDamping dampingFactor={0.05} enabled={tool === null && !flying && !touring} onEnd={onCameraChange} />
+        <CameraPathPlayer pathRef={pathRef} />
+        {flying && !touring && <FlyRig speed={flySpeed} onMove={onCameraChange} />}
+        <CameraRig
+          min={sceneTransform.min}
+          max={sceneTransform.max}
+          points={dataset.metadata}
+          scales={sceneTransform.axes.map(a => a.scale).join()}
+          request={fitRequest}
+          pose={cameraPose}
+        />
+        <StateBridge stateRef={stateRef} />
 
         <ambientLight intensity={0.6} />
         <pointLight position={[20, 20, 20]} intensity={1} />
-        <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
+        <group ref={starsRef}>
+          <Stars radius={100} depth={50} count={3000} factor={4} saturation={0} fade speed={1} />
+        </group>
         
-        <Grid 
-          infiniteGrid 
-          fadeDistance={50} 
-          fadeStrength={5} 
-          sectionSize={5} 
-          cellSize={1} 
-          sectionColor="#1e293b" 
-          cellColor="#0f172a" 
-        />
-
-        <group>
-          {Object.entries(pointsByCategory).map(([cat, pts]) => (
-            <CategoryPoints 
-              key={cat} 
-              points={pts} 
-              style={categoryStyles[cat]} 
-              onHover={handleHover} 
-              onSelect={setSelectedPoint}
-            />
-          ))}
+        <group ref={gridRef}>
+          <Grid 
+            position={[0, sceneTransform.min[1], 0]}
+            infiniteGrid 
+            fadeDistance={50} 
+            fadeStrength={5} 
+            sectionSize={5} 
+            cellSize={1} 
+            sectionColor="#1e293b" 
+            cellColor="#0f172a" 
+          />
         </group>
 
-        {selectedPoint && (
+        {mainLayer.visible && (
+          <PointCloud
+            dataset={dataset}
+            positions={positions}
+            framePositions={frame?.positions ?? null}
+            animating={playing}
+            categoryStyles={categoryStyles}
+            useSourceColors={useSourceColors}
+            colorEncoding={colorEncoding}
+            colorDomain={colorDomain}
+            sizeEncoding={sizeEncoding}
+            sizeExtent={sizeExtent}
+            hiddenMask={drawnHidden}
+            selectedMask={selectedMask}
+            opacity={mainLayer.opacity}
+            onHover={handleHover}
+            onSelect={onSelectPoint}
+          />
+        )}
+
+        {layers.map(layer => layer.visible && layerPlacements.has(layer.id) && (
+          <PointCloud
+            key={layer.id}
+            dataset={layer.dataset}
+            positions={layerPlacements.get(layer.id)!.world}
+            framePositions={null}
+            animating={false}
+            categoryStyles={layer.categoryStyles}
+            useSourceColors={useSourceColors}
+            colorEncoding={{ ...colorEncoding, attribute: null }}
+            colorDomain={null}
+            sizeEncoding={{ ...sizeEncoding, attribute: null }}
+            sizeExtent={null}
+            hiddenMask={null}
+            selectedMask={null}
+            opacity={layer.opacity}
+          />
+        ))}
+
+        {comparison.showVectors && layerMatches && mainLayer.visible && comparedLayer?.visible && comparedPlacement && (
+          <DisplacementVectors
+            matches={layerMatches}
+            from={drawnPositions}
+            to={comparedPlacement.world}
+            acceptFrom={acceptMain}
+            acceptTo={acceptCompared}
+          />
+        )}
+
+        {trajectories && frame && timeSeries.trails && (
+          <Trails
+            dataset={dataset}
+            trajectories={trajectories}
+            positions={positions}
+            frame={frame}
+            length={timeSeries.trailLength}
+            categoryStyles={categoryStyles}
+            hiddenMask={hiddenMask}
+          />
+        )}
+
+        {mainLayer.visible && (categoryOverlays.centroids || categoryOverlays.ellipsoids || categoryOverlays.hulls) && (
+          <CategoryOverlay
+            dataset={dataset}
+            positions={positions}
+            hiddenMask={hiddenMask}
+            categoryStyles={categoryStyles}
+            overlays={categoryOverlays}
+          />
+        )}
+
+        {neighbors && neighborQuery.showLines && mainLayer.visible && isDrawn(neighbors.origin) && (
+          <NeighborLines
+            dataset={dataset}
+            result={neighbors}
+            positions={drawnPositions}
+            categoryStyles={categoryStyles}
+            accept={isDrawn}
+          />
+        )}
+
+        {selectedPoint && isDrawn(selectedPoint.index) && (
           <SelectionHighlight 
-            point={selectedPoint} 
+            position={worldPosition(selectedPoint.index)} 
             color={categoryStyles[selectedPoint.label]?.color || '#fff'} 
           />
         )}
 
-        {showAxes && (
-          <group>
-            <axesHelper args={[15]} />
-            <Text position={[16, 0, 0]} fontSize={0.6} color="#ef4444">X</Text>
-            <Text position={[0, 16, 0]} fontSize={0.6} color="#22c55e">Y</Text>
-            <Text position={[0, 0, 16]} fontSize={0.6} color="#3b82f6" rotation={[0, -Math.PI / 2, 0]}>Z</Text>
-          </group>
-        )}
+        {/* Mounted while hidden so exports can show the axes without waiting for their labels to load */}
+        <group ref={axesRef} visible={showAxes}>
+          <DataAxes transform={sceneTransform} axisNames={dataset.axisNames} />
+        </group>
 
-        {hoveredPoint && !selectedPoint && !screenshotTrigger && (
-          <Html position={[hoveredPoint.x, hoveredPoint.y + 0.5, hoveredPoint.z]} center distanceFactor={15}>
+        {hoveredPoint && !selectedPoint && isDrawn(hoveredPoint.index) && !screenshotTrigger && (
+          <Html position={worldPosition(hoveredPoint.index).map((v, k) => (k === 1 ? v + 0.5 : v)) as [number, number, number]} center distanceFactor={15}>
             <div className="bg-slate-900/90 border border-blue-500/30 backdrop-blur-md p-2 rounded shadow-xl pointer-events-none whitespace-nowrap min-w-[100px]">
               <div className="text-[10px] text-slate-400 font-bold uppercase mb-1">{hoveredPoint.label}</div>
               <div className="text-white text-[11px] truncate max-w-[150px]">{hoveredPoint.metadata}</div>
@@ -251,10 +853,86 @@ const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
         <SceneCapture onCapture={handleCapture} trigger={screenshotTrigger} />
       </Canvas>
 
+      {tool && <SelectionOverlay tool={tool} onComplete={handleRegion} />}
+
+      {!screenshotTrigger && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 flex gap-1 p-1 bg-slate-900/70 backdrop-blur-md rounded-xl border border-white/10 shadow-lg">
+          {TOOLS.map(t => (
+            <button
+              key={t.title}
+              onClick={() => {
+                setTool(t.id);
+                if (t.id === null) setFlying(false);
+              }}
+              className={`w-8 h-8 rounded-lg text-xs transition-colors ${tool === t.id && !(t.id === null && flying) ? 'bg-blue-600/30 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+              title={t.title}
+            >
+              <i className={`fa-solid ${t.icon}`}></i>
+            </button>
+          ))}
+          <button
+            onClick={() => {
+              setTool(null);
+              setFlying(true);
+            }}
+            className={`w-8 h-8 rounded-lg text-xs transition-colors ${tool === null && flying ? 'bg-blue-600/30 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title="Fly (WASD or arrows to move, Q/E down/up, Shift faster, drag to look)"
+          >
+            <i className="fa-solid fa-plane"></i>
+          </button>
+          <div className="w-px bg-white/10 mx-1" />
+          {touring && (
+            <button
+              onClick={stopTour}
+              className="w-8 h-8 rounded-lg text-xs text-amber-300 hover:text-white hover:bg-slate-800 transition-colors"
+              title="Stop Camera Flight"
+            >
+              <i className="fa-solid fa-stop"></i>
+            </button>
+          )}
+          <button
+            onClick={() => setFitRequest(r => r + 1)}
+            className="w-8 h-8 rounded-lg text-xs text-slate-400 hover:text-white hover:bg-slate-800 transition-colors"
+            title="Fit View to Data"
+          >
+            <i className="fa-solid fa-expand"></i>
+          </button>
+          <button
+            onClick={onToggleTable}
+            className={`w-8 h-8 rounded-lg text-xs transition-colors ${tableOpen ? 'bg-blue-600/30 text-blue-300' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+            title="Data Table"
+          >
+            <i className="fa-solid fa-table"></i>
+          </button>
+        </div>
+      )}
+
+      {trajectories && currentTime !== null && !screenshotTrigger && (
+        <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20">
+          <PlaybackBar
+            range={trajectories.range}
+            time={currentTime}
+            playing={playing}
+            speed={timeSeries.speed}
+            loop={timeSeries.loop}
+            timeName={timeSeries.timeColumn ?? ''}
+            onTogglePlay={togglePlay}
+            onSeek={setTime}
+            onSpeedChange={(speed) => onUpdateTimeSeries({ speed })}
+            onLoopChange={(loop) => onUpdateTimeSeries({ loop })}
+          />
+        </div>
+      )}
+
+      <div className="absolute bottom-6 left-6 z-20 space-y-2">
+        {colorEncoding.attribute && colorDomain && <ColorLegend encoding={colorEncoding} domain={colorDomain} />}
+        {sizeEncoding.attribute && sizeExtent && <SizeLegend encoding={sizeEncoding} extent={sizeExtent} />}
+      </div>
+
       {/* Selected Point Overlay Panel */}
       {selectedPoint && !screenshotTrigger && (
-        <div className="absolute top-6 right-6 z-40 w-72 animate-in slide-in-from-right duration-300">
-          <div className="bg-slate-900/80 backdrop-blur-xl border border-blue-500/40 rounded-2xl overflow-hidden shadow-2xl">
+        <div className="absolute top-6 right-6 bottom-6 z-40 w-72 pointer-events-none animate-in slide-in-from-right duration-300">
+          <div className="max-h-full overflow-y-auto pointer-events-auto bg-slate-900/80 backdrop-blur-xl border border-blue-500/40 rounded-2xl shadow-2xl">
             <div className="p-4 border-b border-white/5 flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <div 
@@ -264,7 +942,7 @@ const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
                 <h3 className="text-sm font-bold text-white uppercase tracking-wider">Point Details</h3>
               </div>
               <button 
-                onClick={() => setSelectedPoint(null)}
+                onClick={() => onFocusPoint(null)}
                 className="text-slate-500 hover:text-white transition-colors"
               >
                 <i className="fa-solid fa-xmark"></i>
@@ -281,20 +959,50 @@ const DataVisualizer = forwardRef<DataVisualizerHandle, DataVisualizerProps>(({
                   {selectedPoint.metadata || 'No additional information'}
                 </div>
               </div>
+              {Object.keys(selectedPoint.attributes).length > 0 && (
+                <div>
+                  <label className="text-[10px] text-slate-500 font-bold uppercase block mb-1">Attributes</label>
+                  <div className="max-h-40 overflow-y-auto bg-slate-800/30 rounded-lg border border-white/5 divide-y divide-white/5">
+                    {Object.entries(selectedPoint.attributes).map(([name, value]) => (
+                      <div key={name} className="flex justify-between gap-3 px-3 py-1.5 text-xs">
+                        <span className="text-slate-500 truncate">{name}</span>
+                        <span className="font-mono text-slate-300 truncate">
+                          {typeof value === 'number' ? (Number.isNaN(value) ? '—' : Number(value.toPrecision(6))) : value || '—'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {selectedPoint.color && (
+                <div className="flex items-center gap-2 text-xs text-slate-400">
+                  <div className="w-3 h-3 rounded-sm" style={{ backgroundColor: selectedPoint.color }} />
+                  <span className="font-mono">{selectedPoint.color}</span>
+                </div>
+              )}
               <div className="grid grid-cols-3 gap-2">
                 <div className="bg-slate-800/30 p-2 rounded border border-white/5">
-                  <label className="text-[9px] text-slate-600 block mb-1">X Coord</label>
-                  <div className="text-xs font-mono text-slate-300">{selectedPoint.x.toFixed(3)}</div>
+                  <label className="text-[9px] text-slate-600 block mb-1 truncate">{dataset.axisNames[0]}</label>
+                  <div className="text-xs font-mono text-slate-300 truncate">{Number(selectedPoint.x.toPrecision(7))}</div>
                 </div>
                 <div className="bg-slate-800/30 p-2 rounded border border-white/5">
-                  <label className="text-[9px] text-slate-600 block mb-1">Y Coord</label>
-                  <div className="text-xs font-mono text-slate-300">{selectedPoint.y.toFixed(3)}</div>
+                  <label className="text-[9px] text-slate-600 block mb-1 truncate">{dataset.axisNames[1]}</label>
+                  <div className="text-xs font-mono text-slate-300 truncate">{Number(selectedPoint.y.toPrecision(7))}</div>
                 </div>
                 <div className="bg-slate-800/30 p-2 rounded border border-white/5">
-                  <label className="text-[9px] text-slate-600 block mb-1">Z Coord</label>
-                  <div className="text-xs font-mono text-slate-300">{selectedPoint.z.toFixed(3)}</div>
+                  <label className="text-[9px] text-slate-600 block mb-1 truncate">{dataset.axisNames[2]}</label>
+                  <div className="text-xs font-mono text-slate-300 truncate">{Number(selectedPoint.z.toPrecision(7))}</div>
                 </div>
               </div>
+              <NeighborPanel
+                dataset={dataset}
+                query={neighborQuery}
+                result={neighbors}
+                categoryStyles={categoryStyles}
+                onUpdate={onUpdateNeighborQuery}
+                onFocusPoint={onFocusPoint}
+                onExport={() => neighbors && downloadText(neighborsToCSV(dataset, neighbors), exportName('csv'), 'text/csv')}
+              />
             </div>
           </div>
         </div>
@@ -0,0 +1,49 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { LayerMatches } from '../services/layers';
+import { BACKGROUND_COLOR } from '../services/imageExport';
+
+interface DisplacementVectorsProps {
+  matches: LayerMatches;
+  // World positions of the main points and of the compared layer's points
+  from: Float32Array;
+  to: Float32Array;
+  // Whether each end is shown; pairs with a hidden end are left out
+  acceptFrom: (index: number) => boolean;
+  acceptTo: (index: number) => boolean;
+}
+
+const VECTOR_COLOR = '#f59e0b';
+
+/** A line from each matched main point to its partner, brightening towards the partner to show direction. */
+const DisplacementVectors: React.FC<DisplacementVectorsProps> = ({ matches, from, to, acceptFrom, acceptTo }) => {
+  const geometry = useMemo(() => {
+    const vertices: number[] = [];
+    for (let k = 0; k < matches.main.length; k++) {
+      const i = matches.main[k];
+      const j = matches.layer[k];
+      if (!acceptFrom(i) || !acceptTo(j)) continue;
+      vertices.push(from[i * 3], from[i * 3 + 1], from[i * 3 + 2], to[j * 3], to[j * 3 + 1], to[j * 3 + 2]);
+    }
+
+    const bright = new THREE.Color(VECTOR_COLOR);
+    const dim = bright.clone().lerp(new THREE.Color(BACKGROUND_COLOR), 0.7);
+    const colors = new Float32Array(vertices.length);
+    for (let v = 0; v < vertices.length / 3; v++) (v % 2 ? bright : dim).toArray(colors, v * 3);
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
+    g.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return g;
+  }, [matches, from, to, acceptFrom, acceptTo]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial vertexColors />
+    </lineSegments>
+  );
+};
+
+export default DisplacementVectors;
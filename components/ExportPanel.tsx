@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { ImageExportSettings, ModelExportSettings, ModelFormat } from '../types';
+import { DEFAULT_IMAGE_EXPORT, EXPORT_ASPECTS, EXPORT_HEIGHTS } from '../services/imageExport';
+import { LARGE_SVG_POINTS } from '../services/svgExport';
+import { DEFAULT_MODEL_EXPORT, MAX_HIGHLIGHT_RINGS, MODEL_FORMATS } from '../services/modelExport';
+
+interface ExportPanelProps {
+  pointCount: number;
+  selectionCount: number;
+  onExport: (settings: ImageExportSettings, format: 'png' | 'svg') => Promise<void>;
+  onExportModel: (settings: ModelExportSettings) => Promise<void>;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+const LAYERS: { key: 'transparent' | 'showStars' | 'showGrid' | 'showAxes' | 'showLegend'; name: string }[] = [
+  { key: 'transparent', name: 'Transparent' },
+  { key: 'showStars', name: 'Stars' },
+  { key: 'showGrid', name: 'Grid' },
+  { key: 'showAxes', name: 'Axes' },
+  { key: 'showLegend', name: 'Legend' },
+];
+
+/**
+ * PNG renders at a fixed output size and SVG documents of the current view,
+ * independent of the window's size and pixel density, and the visible points
+ * as 3D files for other tools.
+ */
+const ExportPanel: React.FC<ExportPanelProps> = ({ pointCount, selectionCount, onExport, onExportModel }) => {
+  const [settings, setSettings] = useState<ImageExportSettings>(DEFAULT_IMAGE_EXPORT);
+  const [model, setModel] = useState<ModelExportSettings>(DEFAULT_MODEL_EXPORT);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const update = (updates: Partial<ImageExportSettings>) => setSettings(prev => ({ ...prev, ...updates }));
+  const aspectId = EXPORT_ASPECTS.find(a => a.ratio === settings.aspect)?.id ?? 'viewport';
+
+  const updateModel = (updates: Partial<ModelExportSettings>) => setModel(prev => ({ ...prev, ...updates }));
+  // PLY holds vertices only
+  const modelLines = model.format !== 'ply';
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Resolution</label>
+          <select value={settings.height} onChange={(e) => update({ height: Number(e.target.value) })} className={inputClass}>
+            {EXPORT_HEIGHTS.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Aspect</label>
+          <select
+            value={aspectId}
+            onChange={(e) => update({ aspect: EXPORT_ASPECTS.find(a => a.id === e.target.value)?.ratio ?? null })}
+            className={inputClass}
+          >
+            {EXPORT_ASPECTS.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        </div>
+      </div>
+      {settings.aspect !== null && (
+        <p className="text-[10px] text-slate-600">{Math.round(settings.height * settings.aspect)} × {settings.height} px</p>
+      )}
+
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {LAYERS.map(layer => (
+          <label key={layer.key} className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings[layer.key]}
+              onChange={(e) => update({ [layer.key]: e.target.checked })}
+              className="accent-blue-500"
+            />
+            {layer.name}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => run(() => onExport(settings, 'png'))} disabled={busy} className={buttonClass}>
+          <i className="fa-solid fa-image mr-1"></i> PNG
+        </button>
+        <button onClick={() => run(() => onExport(settings, 'svg'))} disabled={busy} className={buttonClass} title="Vector markers, axes and legend; stars and grid are left out">
+          <i className="fa-solid fa-bezier-curve mr-1"></i> SVG
+        </button>
+      </div>
+
+      {pointCount > LARGE_SVG_POINTS && (
+        <p className="text-[10px] text-amber-400">
+          {pointCount.toLocaleString()} points make a very large SVG; hiding or filtering points keeps it manageable.
+        </p>
+      )}
+
+      <div className="pt-3 border-t border-white/5 space-y-3">
+        <div>
+          <label className={labelClass}>3D Model</label>
+          <select value={model.format} onChange={(e) => updateModel({ format: e.target.value as ModelFormat })} className={inputClass}>
+            {MODEL_FORMATS.map(f => <option key={f.id} value={f.id}>{f.name}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-4">
+          <label className={`flex items-center gap-2 text-xs text-slate-400 cursor-pointer ${modelLines ? '' : 'opacity-40'}`}>
+            <input
+              type="checkbox"
+              checked={model.includeAxes}
+              disabled={!modelLines}
+              onChange={(e) => updateModel({ includeAxes: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Axes
+          </label>
+          <label className={`flex items-center gap-2 text-xs text-slate-400 cursor-pointer ${modelLines && selectionCount > 0 ? '' : 'opacity-40'}`}>
+            <input
+              type="checkbox"
+              checked={model.includeSelection}
+              disabled={!modelLines || selectionCount === 0}
+              onChange={(e) => updateModel({ includeSelection: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Selection rings
+          </label>
+        </div>
+        <button
+          onClick={() => run(() => onExportModel({ ...model, includeAxes: modelLines && model.includeAxes, includeSelection: modelLines && model.includeSelection }))}
+          disabled={busy}
+          className={`${buttonClass} w-full`}
+        >
+          <i className="fa-solid fa-cube mr-1"></i> Export Visible Points
+        </button>
+        {!modelLines && <p className="text-[10px] text-slate-600">PLY holds points only; axes and rings need GLB or OBJ.</p>}
+        {modelLines && model.includeSelection && selectionCount > MAX_HIGHLIGHT_RINGS && (
+          <p className="text-[10px] text-amber-400">Only the first {MAX_HIGHLIGHT_RINGS.toLocaleString()} selected points get a ring.</p>
+        )}
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
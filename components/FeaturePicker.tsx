@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { PointDataset } from '../types';
+import { getNumericAttributes } from '../services/dataset';
+import { resolveFeatures } from '../services/reduction';
+
+interface FeaturePickerProps {
+  dataset: PointDataset;
+  // Empty means every numeric column, which also covers columns added later
+  features: string[];
+  onChange: (features: string[]) => void;
+}
+
+/** Collapsible checklist of the numeric columns used as features; at least one stays checked. */
+const FeaturePicker: React.FC<FeaturePickerProps> = ({ dataset, features, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const numericAttributes = getNumericAttributes(dataset);
+  const selected = new Set(resolveFeatures(dataset, features));
+
+  const toggle = (name: string) => {
+    const next = numericAttributes.filter(n => (n === name ? !selected.has(n) : selected.has(n)));
+    onChange(next.length === numericAttributes.length ? [] : next);
+  };
+
+  return (
+    <div>
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        <span>{selected.size} of {numericAttributes.length} numeric columns</span>
+        <i className={`fa-solid fa-chevron-${open ? 'up' : 'down'} text-[10px]`}></i>
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2">
+          <button onClick={() => onChange([])} className="text-[10px] text-blue-400 hover:text-blue-300">
+            Select all
+          </button>
+          <div className="max-h-40 overflow-y-auto bg-slate-800/30 rounded-lg border border-white/5 p-2 space-y-1">
+            {numericAttributes.map(name => (
+              <label key={name} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(name)}
+                  onChange={() => toggle(name)}
+                  disabled={selected.size === 1 && selected.has(name)}
+                  className="accent-blue-500"
+                />
+                <span className="truncate">{name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FeaturePicker;
@@ -1,91 +1,192 @@
-
-import React, { useState } from 'react';
-import { DataPoint } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { ColumnMapping, ImportProgress, ImportReport, InvalidValuePolicy, PointDataset } from '../types';
+import { ParsedCSV } from '../services/csvParser';
+import { getExtraColumns } from '../services/columnMapping';
+import { ImportTask, startImport } from '../services/importClient';
+import { ACCEPTED_EXTENSIONS, detectImporter, Importer, ImportOptions } from '../services/importers';
+import ColumnMappingDialog from './ColumnMappingDialog';
 
 interface FileUploadProps {
-  onDataLoaded: (points: DataPoint[]) => void;
+  // computeLayout is set when X/Y/Z were left unmapped and must come from a reduction
+  onDataLoaded: (dataset: PointDataset, report: ImportReport, computeLayout: boolean) => void;
+  onLoadingChange: (isLoading: boolean, progress: ImportProgress | null) => void;
+  onImportError: (message: string, report: ImportReport | null) => void;
+  // A slimmer drop zone for the sidebar
+  compact?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded }) => {
-  const [isDragging, setIsDragging] = useState(false);
+interface PendingImport {
+  file: File;
+  importer: Importer;
+  parsed: ParsedCSV;
+}
 
-  const processCSV = (text: string) => {
-    const lines = text.split('\n').filter(line => line.trim().length > 0);
-    const categoryColors: Record<string, string> = {};
-    const colorPalette = [
-      '#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa', 
-      '#f472b6', '#2dd4bf', '#fb923c', '#818cf8', '#94a3b8'
-    ];
-    let colorIndex = 0;
+const FileUpload: React.FC<FileUploadProps> = ({ onDataLoaded, onLoadingChange, onImportError, compact = false }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+  const taskRef = useRef<ImportTask | null>(null);
 
-    const points: DataPoint[] = lines.map((line, idx) => {
-      const cols = line.split(',').map(c => c.trim());
-      
-      // We expect 5 columns: X, Y, Z, Label, Metadata/Misc
-      const x = parseFloat(cols[0]) || 0;
-      const y = parseFloat(cols[1]) || 0;
-      const z = parseFloat(cols[2]) || 0;
-      const label = cols[3] || 'Unlabeled';
-      const metadata = cols[4] || '';
+  useEffect(() => () => taskRef.current?.cancel(), []);
 
-      if (!categoryColors[label]) {
-        categoryColors[label] = colorPalette[colorIndex % colorPalette.length];
-        colorIndex++;
+  const readFile = async (file: File) => {
+    try {
+      const importer = await detectImporter(file);
+      if (importer.preview) {
+        setPending({ file, importer, parsed: await importer.preview(file) });
+      } else {
+        // Point-cloud formats have fixed fields and skip the mapping step
+        runImport(file, importer, { fileName: file.name, policy: 'drop' });
       }
+    } catch (err) {
+      onImportError(`Could not read ${file.name}. ${err instanceof Error ? err.message : ''}`.trim(), null);
+    }
+  };
 
-      return {
-        x, y, z, 
-        label, 
-        metadata,
-        color: categoryColors[label]
-      };
+  const reparse = async (options: { delimiter?: string; hasHeader?: boolean }) => {
+    if (!pending?.importer.preview) return;
+    const parsed = await pending.importer.preview(pending.file, {
+      delimiter: options.delimiter ?? pending.parsed.delimiter,
+      // A new delimiter changes the columns, so header detection runs again
+      hasHeader: options.delimiter !== undefined ? undefined : options.hasHeader,
     });
+    setPending(prev => prev && { ...prev, parsed });
+  };
 
-    onDataLoaded(points);
+  const handleConfirm = (mapping: ColumnMapping, policy: InvalidValuePolicy) => {
+    if (!pending) return;
+    const { file, importer, parsed } = pending;
+    setPending(null);
+    runImport(file, importer, {
+      fileName: file.name,
+      policy,
+      table: {
+        mapping,
+        extraColumns: getExtraColumns(parsed, mapping),
+        delimiter: parsed.delimiter,
+        hasHeader: parsed.hasHeader,
+        keys: parsed.headers,
+      },
+    });
+  };
+
+  const runImport = async (file: File, importer: Importer, options: ImportOptions) => {
+    const initial: ImportProgress = { bytesRead: 0, totalBytes: file.size, rows: 0 };
+    setProgress(initial);
+    onLoadingChange(true, initial);
+
+    const task = startImport(
+      file,
+      importer.id,
+      options,
+      (p) => {
+        setProgress(p);
+        onLoadingChange(true, p);
+      }
+    );
+    taskRef.current = task;
+
+    try {
+      const result = await task.promise;
+      if (!result) {
+        onLoadingChange(false, null);
+      } else if (result.report.error) {
+        onImportError(`Import failed. ${result.report.error}`, result.report);
+      } else if (result.dataset.count === 0) {
+        onImportError('Import failed. No rows with usable coordinates were found.', result.report);
+      } else {
+        onDataLoaded(result.dataset, result.report, options.table?.mapping.x === null);
+      }
+    } catch (err) {
+      onImportError(`Import failed. ${err instanceof Error ? err.message : String(err)}`, null);
+    } finally {
+      taskRef.current = null;
+      setProgress(null);
+    }
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onload = (event) => {
-        const text = event.target?.result as string;
-        processCSV(text);
-      };
-      reader.readAsText(file);
-    }
+    if (file) readFile(file);
+    // Allow re-selecting the same file after cancelling the mapping step
+    e.target.value = '';
   };
 
+  if (progress) {
+    const percent = progress.totalBytes > 0 ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0;
+    return (
+      <div className="rounded-xl border border-slate-700 p-6 space-y-4">
+        <div className="flex items-center justify-between text-sm text-slate-300">
+          <span className="flex items-center gap-2">
+            <i className="fa-solid fa-circle-notch fa-spin text-blue-400"></i>
+            Importing…
+          </span>
+          <span className="font-mono text-xs text-slate-500">{progress.rows.toLocaleString()} rows</span>
+        </div>
+        <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-500 transition-all duration-150" style={{ width: `${percent}%` }} />
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="font-mono text-[10px] text-slate-500">{percent}%</span>
+          <button
+            onClick={() => taskRef.current?.cancel()}
+            className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 text-xs transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
-    <div 
-      className={`relative group border-2 border-dashed rounded-xl p-8 transition-all duration-300 ${
-        isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-500'
-      }`}
-      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
-      onDragLeave={() => setIsDragging(false)}
-      onDrop={(e) => {
-        e.preventDefault();
-        setIsDragging(false);
-        const file = e.dataTransfer.files?.[0];
-        if (file) {
-          const reader = new FileReader();
-          reader.onload = (event) => processCSV(event.target?.result as string);
-          reader.readAsText(file);
-        }
-      }}
-    >
-      <input 
-        type="file" 
-        accept=".csv" 
-        onChange={handleFileChange}
-        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-      />
-      <div className="flex flex-col items-center">
-        <i className="fa-solid fa-file-csv text-3xl text-slate-400 group-hover:text-blue-400 mb-2 transition-colors"></i>
-        <span className="text-slate-300 font-medium">Select or Drop CSV</span>
-        <span className="text-slate-500 text-xs mt-1">Format: X, Y, Z, Category, Info</span>
+    <>
+      <div
+        className={`relative group border-2 border-dashed rounded-xl ${compact ? 'p-3' : 'p-8'} transition-all duration-300 ${
+          isDragging ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-500'
+        }`}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files?.[0];
+          if (file) readFile(file);
+        }}
+      >
+        <input
+          type="file"
+          accept={ACCEPTED_EXTENSIONS}
+          onChange={handleFileChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        />
+        {compact ? (
+          <div className="flex items-center justify-center gap-2 text-xs text-slate-400 group-hover:text-blue-400 transition-colors">
+            <i className="fa-solid fa-file-import"></i>
+            Select or Drop a File
+          </div>
+        ) : (
+          <div className="flex flex-col items-center">
+            <i className="fa-solid fa-file-import text-3xl text-slate-400 group-hover:text-blue-400 mb-2 transition-colors"></i>
+            <span className="text-slate-300 font-medium">Select or Drop a File</span>
+            <span className="text-slate-500 text-xs mt-1">CSV · JSON · NDJSON · PLY · PCD · XYZ</span>
+          </div>
+        )}
       </div>
-    </div>
+
+      {pending && (
+        <ColumnMappingDialog
+          fileName={pending.file.name}
+          fileSize={pending.file.size}
+          parsed={pending.parsed}
+          showParseOptions={pending.importer.id === 'csv'}
+          onChangeDelimiter={(delimiter) => reparse({ delimiter })}
+          onChangeHeader={(hasHeader) => reparse({ hasHeader })}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </>
   );
 };
 
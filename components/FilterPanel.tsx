@@ -0,0 +1,189 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FilterState, PointDataset, RangeFilter } from '../types';
+import { getFilterableColumns, numericColumnExtent } from '../services/filters';
+
+interface FilterPanelProps {
+  dataset: PointDataset;
+  filters: FilterState;
+  searchError: string | null;
+  expressionError: string | null;
+  onChange: (updates: Partial<FilterState>) => void;
+}
+
+const SLIDER_STEPS = 1000;
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+const formatBound = (v: number) => String(Number(v.toPrecision(6)));
+
+const RangeRow: React.FC<{
+  range: RangeFilter;
+  extent: [number, number];
+  onChange: (range: RangeFilter) => void;
+  onRemove: () => void;
+}> = ({ range, extent, onChange, onRemove }) => {
+  const [low, high] = extent;
+  const step = (high - low) / SLIDER_STEPS || 1;
+
+  return (
+    <div className="rounded-lg border border-slate-800 bg-slate-900/40 p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-medium text-slate-300 truncate">{range.column}</span>
+        <button onClick={onRemove} className="text-xs text-slate-500 hover:text-red-400" title="Remove Filter">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+      {/* Two overlaid sliders make a dual-thumb range */}
+      <div className="relative h-4">
+        <input
+          type="range"
+          min={low}
+          max={high}
+          step={step}
+          value={range.min}
+          onChange={(e) => onChange({ ...range, min: Math.min(Number(e.target.value), range.max) })}
+          className="absolute inset-0 w-full accent-blue-500 pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto bg-transparent"
+        />
+        <input
+          type="range"
+          min={low}
+          max={high}
+          step={step}
+          value={range.max}
+          onChange={(e) => onChange({ ...range, max: Math.max(Number(e.target.value), range.min) })}
+          className="absolute inset-0 w-full accent-blue-500 pointer-events-none [&::-webkit-slider-thumb]:pointer-events-auto [&::-moz-range-thumb]:pointer-events-auto bg-transparent"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <input
+          type="number"
+          value={formatBound(range.min)}
+          step={step}
+          onChange={(e) => e.target.value !== '' && onChange({ ...range, min: Number(e.target.value) })}
+          className={inputClass}
+        />
+        <input
+          type="number"
+          value={formatBound(range.max)}
+          step={step}
+          onChange={(e) => e.target.value !== '' && onChange({ ...range, max: Number(e.target.value) })}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  );
+};
+
+const FilterPanel: React.FC<FilterPanelProps> = ({ dataset, filters, searchError, expressionError, onChange }) => {
+  const [draft, setDraft] = useState(filters.expression);
+  const columns = getFilterableColumns(dataset);
+  const available = columns.filter(c => !filters.ranges.some(r => r.column === c));
+
+  // Keep the draft in step when filters are reset from outside
+  useEffect(() => setDraft(filters.expression), [filters.expression]);
+
+  const extents = useMemo(() => {
+    const out: Record<string, [number, number] | null> = {};
+    filters.ranges.forEach(r => { out[r.column] = numericColumnExtent(dataset, r.column); });
+    return out;
+  }, [dataset, filters.ranges.map(r => r.column).join('|')]);
+
+  const addRange = (column: string) => {
+    const extent = numericColumnExtent(dataset, column);
+    if (!extent) return;
+    onChange({ ranges: [...filters.ranges, { column, min: extent[0], max: extent[1] }] });
+  };
+
+  const updateRange = (index: number, range: RangeFilter) => {
+    onChange({ ranges: filters.ranges.map((r, i) => (i === index ? range : r)) });
+  };
+
+  const isActive = filters.ranges.length > 0 || filters.search !== '' || filters.expression !== '';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className={labelClass}>Metadata Search</label>
+          <button
+            onClick={() => onChange({ searchMode: filters.searchMode === 'regex' ? 'text' : 'regex' })}
+            className={`text-[10px] font-mono px-1.5 rounded border ${filters.searchMode === 'regex' ? 'border-blue-500/50 text-blue-400' : 'border-slate-700 text-slate-500'}`}
+            title="Toggle Regular Expression"
+          >
+            .*
+          </button>
+        </div>
+        <input
+          type="text"
+          value={filters.search}
+          placeholder={filters.searchMode === 'regex' ? '^sensor-\\d+' : 'Search metadata…'}
+          onChange={(e) => onChange({ search: e.target.value })}
+          className={inputClass}
+        />
+        {searchError && <p className="text-[10px] text-red-400 mt-1">{searchError}</p>}
+      </div>
+
+      <div className="space-y-2">
+        <label className={labelClass}>Ranges</label>
+        {filters.ranges.map((range, i) => extents[range.column] && (
+          <RangeRow
+            key={range.column}
+            range={range}
+            extent={extents[range.column]!}
+            onChange={(next) => updateRange(i, next)}
+            onRemove={() => onChange({ ranges: filters.ranges.filter((_, j) => j !== i) })}
+          />
+        ))}
+        {available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && addRange(e.target.value)}
+            className={inputClass}
+          >
+            <option value="">Add range filter…</option>
+            {available.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        )}
+      </div>
+
+      <div>
+        <label className={labelClass}>Expression</label>
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            placeholder={'x > 2 && label in ("A", "B")'}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && onChange({ expression: draft.trim() })}
+            className={`${inputClass} font-mono`}
+          />
+          <button
+            onClick={() => onChange({ expression: draft.trim() })}
+            className="px-3 rounded-lg bg-blue-600/20 border border-blue-500/40 text-blue-400 text-xs hover:bg-blue-600/30"
+          >
+            Apply
+          </button>
+        </div>
+        {expressionError ? (
+          <p className="text-[10px] text-red-400 mt-1">{expressionError}</p>
+        ) : (
+          <p className="text-[10px] text-slate-600 mt-1">
+            Columns: x, y, z, label, metadata, index and attributes (`quote names` with spaces). Use && || ! == != &lt; &gt; in (…) ~ /regex/.
+          </p>
+        )}
+      </div>
+
+      {isActive && (
+        <button
+          onClick={() => onChange({ ranges: [], search: '', expression: '' })}
+          className="w-full p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white transition-colors"
+        >
+          Reset Filters
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
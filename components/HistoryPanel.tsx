@@ -0,0 +1,60 @@
+import React, { useEffect, useRef } from 'react';
+import { HistoryEntry, MAX_HISTORY } from '../services/history';
+
+interface HistoryPanelProps {
+  past: HistoryEntry<unknown>[];
+  future: HistoryEntry<unknown>[];
+  // Negative undoes, positive redoes
+  onTravel: (steps: number) => void;
+}
+
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * The steps taken so far and the ones undone, oldest first. Clicking a step
+ * goes to the state right after it, or before everything with the first row.
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ past, future, onTravel }) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [past.length]);
+
+  const row = (key: string, name: string, time: number | null, steps: number, undone: boolean) => (
+    <button
+      key={key}
+      ref={steps === 0 ? currentRef : undefined}
+      onClick={() => onTravel(steps)}
+      disabled={steps === 0}
+      className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-lg border text-left transition-all ${
+        steps === 0 ? 'bg-blue-600/20 border-blue-500/40' : 'bg-slate-800/30 border-white/5 hover:bg-slate-800/60'
+      }`}
+    >
+      <span className={`flex-1 text-xs truncate ${undone ? 'text-slate-500 italic' : 'text-slate-200'}`} title={name}>{name}</span>
+      {time !== null && <span className="text-[10px] font-mono text-slate-600">{formatTime(time)}</span>}
+    </button>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button onClick={() => onTravel(-1)} disabled={past.length === 0} className={buttonClass} title="Undo (Ctrl+Z)">
+          <i className="fa-solid fa-rotate-left mr-1"></i> Undo
+        </button>
+        <button onClick={() => onTravel(1)} disabled={future.length === 0} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+          <i className="fa-solid fa-rotate-right mr-1"></i> Redo
+        </button>
+      </div>
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {row('start', past.length === MAX_HISTORY ? 'Earliest kept step' : 'Start', null, -past.length, false)}
+        {past.map((entry, i) => row(`past-${i}`, entry.name, entry.time, i + 1 - past.length, false))}
+        {future.map((entry, j) => row(`future-${j}`, entry.name, entry.time, j + 1, true))}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { ImportReport } from '../types';
+import { formatCSVRow } from '../services/csvParser';
+import { downloadText } from '../services/download';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const VISIBLE_ISSUES = 100;
+
+const POLICY_NAMES: Record<ImportReport['policy'], string> = {
+  drop: 'drop row',
+  fail: 'fail import',
+  impute: 'impute mean',
+};
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report }) => {
+  const [showIssues, setShowIssues] = useState(false);
+  const rejected = report.issues.filter(i => i.status === 'skipped');
+
+  const downloadRejected = () => {
+    const rows = [
+      formatCSVRow(['line', 'reason', 'fields']),
+      ...rejected.map(i => formatCSVRow([String(i.line), i.reason, formatCSVRow(i.fields)])),
+    ];
+    const base = report.fileName.replace(/\.[^.]+$/, '');
+    downloadText(rows.join('\r\n'), `${base}-rejected.csv`, 'text/csv');
+  };
+
+  const stats = [
+    { name: 'Valid', value: report.valid, className: 'text-emerald-400' },
+    { name: 'Repaired', value: report.repaired, className: 'text-amber-400' },
+    { name: 'Skipped', value: report.skipped, className: 'text-red-400' },
+  ];
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-slate-400 font-mono truncate">{report.fileName}</span>
+        <span className="text-[10px] text-slate-600 uppercase">{POLICY_NAMES[report.policy]}</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {stats.map(s => (
+          <div key={s.name} className="bg-slate-800/30 p-2 rounded border border-white/5">
+            <label className="text-[9px] text-slate-600 block mb-1 uppercase">{s.name}</label>
+            <div className={`text-sm font-mono ${s.className}`}>{s.value.toLocaleString()}</div>
+          </div>
+        ))}
+      </div>
+
+      {report.issues.length > 0 && (
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowIssues(!showIssues)}
+            className="flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 transition-colors"
+          >
+            {showIssues ? 'Hide' : 'Show'} issues
+          </button>
+          {rejected.length > 0 && (
+            <button
+              onClick={downloadRejected}
+              className="p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:text-emerald-400 transition-colors"
+              title="Download rejected lines"
+            >
+              <i className="fa-solid fa-download"></i>
+            </button>
+          )}
+        </div>
+      )}
+
+      {showIssues && (
+        <ul className="max-h-48 overflow-y-auto space-y-1 text-[11px] font-mono">
+          {report.issues.slice(0, VISIBLE_ISSUES).map((issue, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="text-slate-600 shrink-0">L{issue.line}</span>
+              <span className={issue.status === 'skipped' ? 'text-red-400' : 'text-amber-400'}>{issue.reason}</span>
+            </li>
+          ))}
+          {report.issues.length > VISIBLE_ISSUES && (
+            <li className="text-slate-600">…and {(report.repaired + report.skipped - VISIBLE_ISSUES).toLocaleString()} more</li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImportReportPanel;
@@ -0,0 +1,142 @@
+import React, { useMemo, useState } from 'react';
+import { LabelSet } from '../types';
+import { adjustedRandIndex, contingencyTable } from '../services/labelSets';
+
+interface LabelSetPanelProps {
+  labelSets: LabelSet[];
+  active: number;
+  onActivate: (index: number) => void;
+  onRemove: (index: number) => void;
+}
+
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+
+// Larger tables are cut to their biggest rows and columns
+const MAX_TABLE_SIZE = 10;
+// The full table is dense, so label sets with thousands of categories are skipped
+const MAX_TABLE_CELLS = 1_000_000;
+
+const largest = (sums: number[]) =>
+  sums.map((_, i) => i).sort((a, b) => sums[b] - sums[a]).slice(0, MAX_TABLE_SIZE).sort((a, b) => a - b);
+
+const LabelSetPanel: React.FC<LabelSetPanelProps> = ({ labelSets, active, onActivate, onRemove }) => {
+  const [compareA, setCompareA] = useState(0);
+  // Null follows the newest set, so a fresh clustering is compared straight away
+  const [compareB, setCompareB] = useState<number | null>(null);
+  const a = labelSets[Math.min(compareA, labelSets.length - 1)];
+  const b = labelSets[Math.min(compareB ?? labelSets.length - 1, labelSets.length - 1)];
+
+  const comparison = useMemo(() => {
+    if (labelSets.length < 2 || a === b || a.labels.length * b.labels.length > MAX_TABLE_CELLS) return null;
+    const table = contingencyTable(a, b);
+    const rowSums = table.counts.map(row => row.reduce((s, v) => s + v, 0));
+    const columnSums = table.columns.map((_, j) => table.counts.reduce((s, row) => s + row[j], 0));
+    const peak = table.counts.reduce((m, row) => row.reduce((r, v) => Math.max(r, v), m), 1);
+    return { table, ari: adjustedRandIndex(table), rows: largest(rowSums), columns: largest(columnSums), peak };
+  }, [a, b, labelSets.length]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1">
+        {labelSets.map((set, i) => (
+          <div
+            key={`${i}-${set.name}`}
+            className={`flex items-center gap-2 px-3 py-2 rounded-lg border transition-all ${
+              i === active ? 'bg-blue-600/20 border-blue-500/40' : 'bg-slate-800/30 border-white/5 hover:bg-slate-800/60'
+            }`}
+          >
+            <button onClick={() => onActivate(i)} className="flex-1 min-w-0 text-left" title={set.name}>
+              <div className="text-xs text-slate-200 truncate">{set.name}</div>
+              <div className="text-[10px] text-slate-500">{set.labels.length} categories</div>
+            </button>
+            {i > 0 && (
+              <button
+                onClick={() => onRemove(i)}
+                className="text-slate-500 hover:text-red-400 transition-colors"
+                title="Remove label set"
+              >
+                <i className="fa-solid fa-trash-can text-xs"></i>
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {labelSets.length > 1 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Rows</label>
+              <select value={labelSets.indexOf(a)} onChange={(e) => setCompareA(Number(e.target.value))} className={inputClass}>
+                {labelSets.map((set, i) => <option key={i} value={i}>{set.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Columns</label>
+              <select value={labelSets.indexOf(b)} onChange={(e) => setCompareB(Number(e.target.value))} className={inputClass}>
+                {labelSets.map((set, i) => <option key={i} value={i}>{set.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {comparison ? (
+            <>
+              <div className="flex items-baseline justify-between">
+                <span className="text-xs text-slate-400">Adjusted Rand index</span>
+                <span className="text-sm font-mono text-white">{comparison.ari.toFixed(3)}</span>
+              </div>
+              <div className="overflow-x-auto bg-slate-800/30 rounded-lg border border-white/5">
+                <table className="text-[10px] font-mono">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      {comparison.columns.map(j => (
+                        <th key={j} className="px-1.5 py-1 text-slate-400 font-normal max-w-[4rem] truncate" title={comparison.table.columns[j]}>
+                          {comparison.table.columns[j]}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {comparison.rows.map(i => (
+                      <tr key={i}>
+                        <th className="px-1.5 py-1 text-slate-400 font-normal text-left max-w-[5rem] truncate" title={comparison.table.rows[i]}>
+                          {comparison.table.rows[i]}
+                        </th>
+                        {comparison.columns.map(j => {
+                          const value = comparison.table.counts[i][j];
+                          return (
+                            <td
+                              key={j}
+                              className="px-1.5 py-1 text-right text-slate-200"
+                              style={{ backgroundColor: `rgba(59, 130, 246, ${(0.6 * value) / comparison.peak})` }}
+                            >
+                              {value || ''}
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {(comparison.rows.length < comparison.table.rows.length ||
+                comparison.columns.length < comparison.table.columns.length) && (
+                <p className="text-[10px] text-slate-500">
+                  Showing the {MAX_TABLE_SIZE} largest categories of each set.
+                </p>
+              )}
+            </>
+          ) : (
+            <p className="text-[10px] text-slate-500">
+              {a === b ? 'Pick two different label sets to compare.' : 'These label sets have too many categories to compare.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LabelSetPanel;
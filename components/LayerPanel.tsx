@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import { CategoryStyle, DatasetLayer, LayerComparison, LayerDisplay, PointDataset } from '../types';
+import { LayerMatches, sharedIdColumns, ShiftStats } from '../services/layers';
+import { projectNameFromFile } from '../services/project';
+import { formatNumber } from '../services/axes';
+import FileUpload from './FileUpload';
+
+interface LayerPanelProps {
+  dataset: PointDataset;
+  mainLayer: LayerDisplay;
+  layers: DatasetLayer[];
+  comparison: LayerComparison;
+  matches: LayerMatches | null;
+  shifts: ShiftStats | null;
+  onUpdateMainLayer: (updates: Partial<LayerDisplay>) => void;
+  onAddLayer: (dataset: PointDataset, name: string) => void;
+  onUpdateLayer: (id: string, updates: Partial<DatasetLayer>) => void;
+  onRemoveLayer: (id: string) => void;
+  onUpdateComparison: (updates: Partial<LayerComparison>) => void;
+  onAlignLayer: (id: string, mode: 'center' | 'matches') => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+// Longer category lists are cut; the rest keep their default colours
+const MAX_LAYER_CATEGORIES = 50;
+
+const LayerHeader: React.FC<{
+  name: React.ReactNode;
+  detail: string;
+  display: LayerDisplay;
+  onChange: (updates: Partial<LayerDisplay>) => void;
+  children?: React.ReactNode;
+}> = ({ name, detail, display, onChange, children }) => (
+  <div className="space-y-2">
+    <div className="flex items-center gap-2">
+      <button
+        onClick={() => onChange({ visible: !display.visible })}
+        className={`text-xs ${display.visible ? 'text-blue-500' : 'text-slate-600'}`}
+        title={display.visible ? 'Hide layer' : 'Show layer'}
+      >
+        <i className={`fa-solid ${display.visible ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+      </button>
+      <div className="flex-1 min-w-0">{name}</div>
+      <span className="text-[10px] text-slate-500 shrink-0">{detail}</span>
+      {children}
+    </div>
+    <div className="flex items-center gap-2">
+      <span className="text-[10px] text-slate-500 w-12">Opacity</span>
+      <input
+        type="range"
+        min={0.05}
+        max={1}
+        step={0.05}
+        value={display.opacity}
+        onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+        className="flex-1 accent-blue-500"
+      />
+      <span className="text-[10px] font-mono text-slate-500 w-8 text-right">{Math.round(display.opacity * 100)}%</span>
+    </div>
+  </div>
+);
+
+/**
+ * The main dataset plus further datasets drawn over it on the same axes,
+ * each placed with a scale and offset, and a comparison that pairs the main
+ * points with one layer's by a shared id.
+ */
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  dataset,
+  mainLayer,
+  layers,
+  comparison,
+  matches,
+  shifts,
+  onUpdateMainLayer,
+  onAddLayer,
+  onUpdateLayer,
+  onRemoveLayer,
+  onUpdateComparison,
+  onAlignLayer,
+}) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const compared = layers.find(layer => layer.id === comparison.layerId) ?? null;
+  const axisNames = dataset.axisNames;
+
+  const handleLoaded = (layerData: PointDataset, report: { fileName: string }, computeLayout: boolean) => {
+    if (computeLayout) {
+      setError('Layers need X, Y and Z columns; reductions only lay out the main dataset.');
+      return;
+    }
+    setError(null);
+    onAddLayer(layerData, projectNameFromFile(report.fileName));
+  };
+
+  const updateStyle = (layer: DatasetLayer, label: string, updates: Partial<CategoryStyle>) =>
+    onUpdateLayer(layer.id, { categoryStyles: { ...layer.categoryStyles, [label]: { ...layer.categoryStyles[label], ...updates } } });
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 rounded-xl border border-slate-800 bg-slate-900/40">
+        <LayerHeader
+          name={<span className="text-xs text-slate-200">Main dataset</span>}
+          detail={`${dataset.count.toLocaleString()} pts`}
+          display={mainLayer}
+          onChange={onUpdateMainLayer}
+        />
+      </div>
+
+      {layers.map(layer => {
+        const isExpanded = expanded === layer.id;
+        return (
+          <div key={layer.id} className="p-3 rounded-xl border border-slate-800 bg-slate-900/40 space-y-3">
+            <LayerHeader
+              name={
+                <input
+                  value={layer.name}
+                  onChange={(e) => onUpdateLayer(layer.id, { name: e.target.value })}
+                  className="w-full bg-transparent text-xs text-slate-200 focus:outline-none"
+                />
+              }
+              detail={`${layer.dataset.count.toLocaleString()} pts`}
+              display={layer}
+              onChange={(updates) => onUpdateLayer(layer.id, updates)}
+            >
+              <button
+                onClick={() => setExpanded(isExpanded ? null : layer.id)}
+                className="text-slate-500 hover:text-white transition-colors"
+                title="Placement and categories"
+              >
+                <i className={`fa-solid fa-chevron-down text-[10px] transition-transform ${isExpanded ? 'rotate-180' : ''}`}></i>
+              </button>
+              <button onClick={() => onRemoveLayer(layer.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Remove layer">
+                <i className="fa-solid fa-trash-can text-xs"></i>
+              </button>
+            </LayerHeader>
+
+            {isExpanded && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-4 gap-2">
+                  <div>
+                    <label className={labelClass}>Scale</label>
+                    <input
+                      type="number"
+                      step={0.1}
+                      value={layer.scale}
+                      onChange={(e) => onUpdateLayer(layer.id, { scale: Number(e.target.value) || 1 })}
+                      className={inputClass}
+                    />
+                  </div>
+                  {layer.offset.map((value, a) => (
+                    <div key={a}>
+                      <label className={`${labelClass} truncate`} title={`Offset along ${axisNames[a]}`}>Δ {axisNames[a]}</label>
+                      <input
+                        type="number"
+                        value={value}
+                        onChange={(e) => {
+                          const offset = [...layer.offset] as [number, number, number];
+                          offset[a] = Number(e.target.value) || 0;
+                          onUpdateLayer(layer.id, { offset });
+                        }}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <button onClick={() => onAlignLayer(layer.id, 'center')} className={buttonClass}>
+                    <i className="fa-solid fa-crosshairs mr-1"></i> Centre on Main
+                  </button>
+                  <button onClick={() => onUpdateLayer(layer.id, { scale: 1, offset: [0, 0, 0] })} className={buttonClass}>
+                    <i className="fa-solid fa-rotate-left mr-1"></i> Reset
+                  </button>
+                </div>
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {layer.dataset.labels.slice(0, MAX_LAYER_CATEGORIES).map(label => {
+                    const style = layer.categoryStyles[label];
+                    return (
+                      <div key={label} className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={style.color}
+                          onChange={(e) => updateStyle(layer, label, { color: e.target.value })}
+                          className="w-5 h-5 bg-transparent border-0 p-0 cursor-pointer"
+                        />
+                        <span className="flex-1 text-xs text-slate-300 truncate">{label}</span>
+                        <button
+                          onClick={() => updateStyle(layer, label, { visible: !style.visible })}
+                          className={`text-xs ${style.visible ? 'text-blue-500' : 'text-slate-600'}`}
+                        >
+                          <i className={`fa-solid ${style.visible ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+                        </button>
+                      </div>
+                    );
+                  })}
+                  {layer.dataset.labels.length > MAX_LAYER_CATEGORIES && (
+                    <p className="text-[10px] text-slate-600">
+                      and {(layer.dataset.labels.length - MAX_LAYER_CATEGORIES).toLocaleString()} more categories
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div>
+        <label className={labelClass}>Add Layer</label>
+        <FileUpload compact onDataLoaded={handleLoaded} onLoadingChange={() => setError(null)} onImportError={(message) => setError(message)} />
+      </div>
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+
+      {layers.length > 0 && (
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Compare With</label>
+              <select
+                value={comparison.layerId ?? ''}
+                onChange={(e) => onUpdateComparison({ layerId: e.target.value || null })}
+                className={inputClass}
+              >
+                <option value="">None</option>
+                {layers.map(layer => <option key={layer.id} value={layer.id}>{layer.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Match By</label>
+              <select
+                value={comparison.idColumn ?? ''}
+                onChange={(e) => onUpdateComparison({ idColumn: e.target.value || null })}
+                disabled={!compared}
+                className={`${inputClass} disabled:opacity-40`}
+              >
+                <option value="">None</option>
+                {compared && sharedIdColumns(dataset, compared.dataset).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {compared && matches && (
+            <>
+              <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={comparison.showVectors}
+                  onChange={(e) => onUpdateComparison({ showVectors: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                Displacement vectors
+              </label>
+              <div className="text-[10px] text-slate-500 space-y-0.5">
+                <p>{matches.main.length.toLocaleString()} matched pairs</p>
+                <p>
+                  {matches.unmatchedMain.toLocaleString()} main and {matches.unmatchedLayer.toLocaleString()} layer points unmatched
+                  {matches.duplicates > 0 && `, ${matches.duplicates.toLocaleString()} repeated ids`}
+                </p>
+              </div>
+              {shifts && (
+                <>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([['Mean', shifts.mean], ['Median', shifts.median], ['95th pct', shifts.p95], ['Max', shifts.max], ['RMS', shifts.rms]] as [string, number][]).map(([name, value]) => (
+                      <div key={name} className="bg-slate-800/30 p-2 rounded border border-white/5">
+                        <div className="text-[9px] text-slate-600 uppercase">{name}</div>
+                        <div className="text-xs font-mono text-slate-300 truncate">{formatNumber(value)}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-slate-500">
+                    Mean shift {shifts.meanVector.map((v, a) => `${axisNames[a]} ${formatNumber(v)}`).join(', ')}
+                  </p>
+                  <button onClick={() => onAlignLayer(compared.id, 'matches')} className={`${buttonClass} w-full`}>
+                    <i className="fa-solid fa-object-group mr-1"></i> Fit Layer to Matches
+                  </button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,48 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CategoryStyle, PointDataset } from '../types';
+import { NeighborResult } from '../services/neighbors';
+import { BACKGROUND_COLOR } from '../services/imageExport';
+
+interface NeighborLinesProps {
+  dataset: PointDataset;
+  result: NeighborResult;
+  // World positions of the dataset's points
+  positions: Float32Array;
+  categoryStyles: Record<string, CategoryStyle>;
+  // Whether a neighbour is on screen; lines to the others are left out
+  accept: (index: number) => boolean;
+}
+
+/** A line from the queried point to each neighbour, fading from the neighbour's category colour towards the origin. */
+const NeighborLines: React.FC<NeighborLinesProps> = ({ dataset, result, positions, categoryStyles, accept }) => {
+  const geometry = useMemo(() => {
+    const o = result.origin * 3;
+    const background = new THREE.Color(BACKGROUND_COLOR);
+    const vertices: number[] = [];
+    const colors: number[] = [];
+    const color = new THREE.Color();
+    result.indices.forEach(j => {
+      if (!accept(j)) return;
+      vertices.push(positions[o], positions[o + 1], positions[o + 2], positions[j * 3], positions[j * 3 + 1], positions[j * 3 + 2]);
+      color.set(categoryStyles[dataset.labels[dataset.labelIndices[j]]]?.color ?? '#ffffff');
+      const far = color.toArray();
+      colors.push(...color.lerp(background, 0.6).toArray(), ...far);
+    });
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(vertices), 3));
+    g.setAttribute('color', new THREE.BufferAttribute(new Float32Array(colors), 3));
+    return g;
+  }, [dataset, result, positions, categoryStyles, accept]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial vertexColors transparent opacity={0.8} />
+    </lineSegments>
+  );
+};
+
+export default NeighborLines;
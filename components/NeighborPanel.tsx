@@ -0,0 +1,166 @@
+import React from 'react';
+import { CategoryStyle, NeighborQuery, PointDataset } from '../types';
+import { DISTANCE_METRICS, MAX_NEIGHBORS, NeighborResult } from '../services/neighbors';
+
+interface NeighborPanelProps {
+  dataset: PointDataset;
+  query: NeighborQuery;
+  // Null while the query is off
+  result: NeighborResult | null;
+  categoryStyles: Record<string, CategoryStyle>;
+  onUpdate: (updates: Partial<NeighborQuery>) => void;
+  // Shows a neighbour in the details panel
+  onFocusPoint: (index: number) => void;
+  onExport: () => void;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+// Longer lists scroll; the CSV has every listed neighbour
+const MAX_LISTED = 200;
+
+const formatDistance = (value: number) => String(Number(value.toPrecision(4)));
+
+/** The details panel's neighbour search around its point, with the results nearest first. */
+const NeighborPanel: React.FC<NeighborPanelProps> = ({ dataset, query, result, categoryStyles, onUpdate, onFocusPoint, onExport }) => {
+  if (!query.enabled) {
+    return (
+      <button
+        onClick={() => onUpdate({ enabled: true })}
+        className="w-full p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white transition-colors"
+      >
+        <i className="fa-solid fa-circle-nodes mr-1"></i> Find Neighbors
+      </button>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-slate-500 font-bold uppercase">Neighbors</label>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => onUpdate({ showLines: !query.showLines })}
+            className={`text-xs ${query.showLines ? 'text-blue-500' : 'text-slate-600'}`}
+            title={query.showLines ? 'Hide lines' : 'Show lines'}
+          >
+            <i className="fa-solid fa-share-nodes"></i>
+          </button>
+          <button
+            onClick={onExport}
+            disabled={!result || result.indices.length === 0}
+            className="text-xs text-slate-500 hover:text-white disabled:opacity-40 transition-colors"
+            title="Export CSV"
+          >
+            <i className="fa-solid fa-file-csv"></i>
+          </button>
+          <button onClick={() => onUpdate({ enabled: false })} className="text-xs text-slate-500 hover:text-white transition-colors" title="Stop searching">
+            <i className="fa-solid fa-xmark"></i>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Find</label>
+          <select value={query.mode} onChange={(e) => onUpdate({ mode: e.target.value as NeighborQuery['mode'] })} className={inputClass}>
+            <option value="knn">Nearest k</option>
+            <option value="radius">Within radius</option>
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>{query.mode === 'knn' ? 'k' : 'Radius'}</label>
+          {query.mode === 'knn' ? (
+            <input
+              type="number"
+              min={1}
+              max={MAX_NEIGHBORS}
+              value={query.k}
+              onChange={(e) => onUpdate({ k: Math.min(Math.max(Math.floor(Number(e.target.value)) || 1, 1), MAX_NEIGHBORS) })}
+              className={inputClass}
+            />
+          ) : (
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={query.radius}
+              onChange={(e) => onUpdate({ radius: Math.max(Number(e.target.value) || 0, 0) })}
+              className={inputClass}
+            />
+          )}
+        </div>
+        <div>
+          <label className={labelClass}>Metric</label>
+          <select value={query.metric} onChange={(e) => onUpdate({ metric: e.target.value as NeighborQuery['metric'] })} className={inputClass}>
+            {DISTANCE_METRICS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Category</label>
+          <select value={query.category ?? ''} onChange={(e) => onUpdate({ category: e.target.value || null })} className={inputClass}>
+            <option value="">All</option>
+            {dataset.labels.map(label => <option key={label} value={label}>{label}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {result && (
+        <>
+          <p className="text-[10px] text-slate-500">
+            {result.total === 0
+              ? 'No visible points match.'
+              : result.total > result.indices.length
+                ? `${result.total.toLocaleString()} points, the nearest ${result.indices.length.toLocaleString()} listed`
+                : `${result.total.toLocaleString()} points`}
+          </p>
+
+          {result.perCategory.length > 0 && (
+            <div className="space-y-1">
+              {result.perCategory.slice(0, 8).map(c => (
+                <div key={c.label} className="flex items-center gap-2 text-[10px]">
+                  <span className="w-2 h-2 rounded-sm shrink-0" style={{ backgroundColor: categoryStyles[c.label]?.color }} />
+                  <span className="flex-1 text-slate-300 truncate">{c.label}</span>
+                  <span className="font-mono text-slate-400">{c.count.toLocaleString()}</span>
+                  <span className="font-mono text-slate-600 w-14 text-right" title="Mean distance">{formatDistance(c.meanDistance)}</span>
+                </div>
+              ))}
+              {result.perCategory.length > 8 && (
+                <p className="text-[10px] text-slate-600">and {result.perCategory.length - 8} more categories</p>
+              )}
+            </div>
+          )}
+
+          {result.indices.length > 0 && (
+            <div className="max-h-48 overflow-y-auto bg-slate-800/30 rounded-lg border border-white/5 divide-y divide-white/5">
+              {Array.from(result.indices.subarray(0, MAX_LISTED), (j, n) => {
+                const label = dataset.labels[dataset.labelIndices[j]];
+                return (
+                  <button
+                    key={j}
+                    onClick={() => onFocusPoint(j)}
+                    className="w-full flex items-center gap-2 px-3 py-1.5 text-xs text-left hover:bg-slate-800/60 transition-colors"
+                  >
+                    <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: categoryStyles[label]?.color }} />
+                    <span className="flex-1 min-w-0 truncate text-slate-300" title={dataset.metadata[j] || label}>
+                      {dataset.metadata[j] || label}
+                    </span>
+                    <span className="font-mono text-slate-400">{formatDistance(result.distances[n])}</span>
+                  </button>
+                );
+              })}
+              {result.indices.length > MAX_LISTED && (
+                <p className="px-3 py-1.5 text-[10px] text-slate-600">
+                  {(result.indices.length - MAX_LISTED).toLocaleString()} more in the CSV
+                </p>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NeighborPanel;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { formatNumber } from '../services/axes';
+import { PLAYBACK_SPEEDS } from '../services/timeSeries';
+
+interface PlaybackBarProps {
+  range: [number, number];
+  time: number;
+  playing: boolean;
+  speed: number;
+  loop: boolean;
+  timeName: string;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onSpeedChange: (speed: number) => void;
+  onLoopChange: (loop: boolean) => void;
+}
+
+// Scrubber resolution across the time range
+const STEPS = 1000;
+
+const PlaybackBar: React.FC<PlaybackBarProps> = ({
+  range,
+  time,
+  playing,
+  speed,
+  loop,
+  timeName,
+  onTogglePlay,
+  onSeek,
+  onSpeedChange,
+  onLoopChange,
+}) => {
+  const [start, end] = range;
+  const span = end - start;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-slate-900/80 backdrop-blur-md rounded-xl border border-white/10 shadow-lg w-[36rem] max-w-[90vw]">
+      <button
+        onClick={onTogglePlay}
+        disabled={span <= 0}
+        className="w-8 h-8 shrink-0 rounded-lg text-xs text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-40 transition-colors"
+        title={playing ? 'Pause' : 'Play'}
+      >
+        <i className={`fa-solid ${playing ? 'fa-pause' : 'fa-play'}`}></i>
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={STEPS}
+        value={span > 0 ? Math.round(((time - start) / span) * STEPS) : 0}
+        onChange={(e) => onSeek(start + (Number(e.target.value) / STEPS) * span)}
+        disabled={span <= 0}
+        className="flex-1 accent-blue-500"
+      />
+      <span className="w-24 shrink-0 text-[10px] font-mono text-slate-400 truncate text-right" title={timeName}>
+        {formatNumber(time)}
+      </span>
+      <select
+        value={speed}
+        onChange={(e) => onSpeedChange(Number(e.target.value))}
+        className="shrink-0 bg-slate-800 border border-slate-700 rounded-lg px-1 py-1 text-[10px] text-slate-200 focus:outline-none focus:border-blue-500"
+        title="Speed"
+      >
+        {PLAYBACK_SPEEDS.map(s => <option key={s} value={s}>{s}×</option>)}
+      </select>
+      <button
+        onClick={() => onLoopChange(!loop)}
+        className={`w-8 h-8 shrink-0 rounded-lg text-xs transition-colors ${loop ? 'bg-blue-600/30 text-blue-300' : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+        title="Loop"
+      >
+        <i className="fa-solid fa-repeat"></i>
+      </button>
+    </div>
+  );
+};
+
+export default PlaybackBar;
@@ -0,0 +1,410 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { CategoryStyle, ColorEncoding, PointDataset, PointShape, SelectionMode, SizeEncoding } from '../types';
+import { createSpatialIndex, SpatialIndex } from '../services/spatialIndex';
+import { createColormapLUT, getColormapStops, hexToRgb, MISSING_VALUE_COLOR } from '../services/colormaps';
+import { createSizeScale, SIZE_REFERENCE_DISTANCE } from '../services/sizeScale';
+
+interface PointCloudProps {
+  dataset: PointDataset;
+  // World-space positions; the dataset's own positions stay in raw units
+  positions: Float32Array;
+  // Drawn instead of positions during time-series playback
+  framePositions: Float32Array | null;
+  // Set while playback moves the points; hover picking pauses meanwhile
+  animating: boolean;
+  categoryStyles: Record<string, CategoryStyle>;
+  useSourceColors: boolean;
+  colorEncoding: ColorEncoding;
+  // Null unless a numeric attribute drives colour
+  colorDomain: [number, number] | null;
+  sizeEncoding: SizeEncoding;
+  // Null unless a numeric attribute drives size
+  sizeExtent: [number, number] | null;
+  // One byte per point, 1 where the point is hidden regardless of its category
+  hiddenMask: Uint8Array | null;
+  // One byte per point, 1 where the point is selected
+  selectedMask: Uint8Array | null;
+  // 0 to 1; below 1 the points blend with what is behind them
+  opacity?: number;
+  // Without these the cloud is display-only and skips picking, as for overlay layers
+  onHover?: (index: number | null) => void;
+  onSelect?: (index: number | null, mode: SelectionMode) => void;
+}
+
+// How far from the cursor, in CSS pixels, a point's edge may be and still be picked
+const PICK_PIXELS = 4;
+// Further than this between pointer down and up is a camera drag, not a click
+const CLICK_SLOP = 4;
+
+// Shape ids as read by the fragment shader
+const SHAPE_IDS: Record<PointShape, number> = { circle: 0, square: 1, diamond: 2, cross: 3 };
+
+const vertexShader = /* glsl */ `
+  attribute float aCategory;
+  attribute vec3 aColor;
+  attribute float aSize;
+  attribute float aShape;
+  // 1 = hidden, 2 = selected
+  attribute float aFlags;
+
+  uniform sampler2D uCategoryVisible;
+  uniform float uCategoryCount;
+  uniform float uPixelRatio;
+  uniform float uAttenuate;
+  uniform float uReferenceDistance;
+  uniform float uHasSelection;
+  uniform vec3 uDimColor;
+
+  varying vec3 vColor;
+  varying float vShape;
+
+  void main() {
+    float visible = texture2D(uCategoryVisible, vec2((aCategory + 0.5) / uCategoryCount, 0.5)).r;
+    bool hidden = mod(aFlags, 2.0) >= 1.0;
+    bool selected = aFlags >= 2.0;
+    if (visible < 0.5 || hidden) {
+      // Outside the clip volume, so hidden points are never rasterised
+      gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      gl_PointSize = 0.0;
+      return;
+    }
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    // aSize is a CSS pixel diameter; attenuated markers keep it at the reference distance
+    float attenuation = uAttenuate > 0.5 ? uReferenceDistance / -mvPosition.z : 1.0;
+    gl_PointSize = aSize * uPixelRatio * attenuation * (selected ? 1.3 : 1.0);
+    // While a selection exists everything outside it fades towards the background
+    vColor = uHasSelection > 0.5 && !selected ? mix(aColor, uDimColor, 0.75) : aColor;
+    vShape = aShape;
+  }
+`;
+
+// Shapes fill the same area as the 64px canvas textures they replace
+const fragmentShader = /* glsl */ `
+  uniform float uOpacity;
+  varying vec3 vColor;
+  varying float vShape;
+
+  void main() {
+    vec2 p = gl_PointCoord * 2.0 - 1.0;
+    vec2 a = abs(p);
+    float shape = floor(vShape + 0.5);
+    bool inside;
+    if (shape < 0.5) inside = dot(p, p) <= 0.765625;
+    else if (shape < 1.5) inside = max(a.x, a.y) <= 0.75;
+    else if (shape < 2.5) inside = a.x + a.y <= 0.75;
+    else inside = max(a.x, a.y) <= 0.75 && min(a.x, a.y) <= 0.25;
+    if (!inside) discard;
+
+    gl_FragColor = vec4(vColor, uOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+const srgbToLinear = (c: number) => (c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4));
+
+/** Linear-space rgb for each category colour, as the shader expects. */
+const categoryColors = (labels: string[], styles: Record<string, CategoryStyle>) => {
+  const out = new Float32Array(labels.length * 3);
+  const color = new THREE.Color();
+  labels.forEach((label, l) => {
+    color.set(styles[label]?.color ?? '#ffffff');
+    out[l * 3] = color.r;
+    out[l * 3 + 1] = color.g;
+    out[l * 3 + 2] = color.b;
+  });
+  return out;
+};
+
+/**
+ * Every point of a dataset in one draw call. Geometry is built once per
+ * dataset from its columnar buffers; style changes only rewrite the colour,
+ * size and shape attributes, and visibility lives in a per-category texture.
+ * Colour comes from the colormap when a numeric attribute is encoded, then
+ * from the file's own colours, then from the category.
+ * Hover and click picking query an octree on pointer events only.
+ */
+const PointCloud: React.FC<PointCloudProps> = ({
+  dataset,
+  positions,
+  framePositions,
+  animating,
+  categoryStyles,
+  useSourceColors,
+  colorEncoding,
+  colorDomain,
+  sizeEncoding,
+  sizeExtent,
+  hiddenMask,
+  selectedMask,
+  opacity = 1,
+  onHover,
+  onSelect,
+}) => {
+  const { gl, get } = useThree();
+  const { labels, count } = dataset;
+
+  // Built once per dataset; later position changes (axis scaling) swap the attribute below
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    g.setAttribute('aCategory', new THREE.BufferAttribute(dataset.labelIndices, 1));
+    g.setAttribute('aColor', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    g.setAttribute('aSize', new THREE.BufferAttribute(new Float32Array(count), 1));
+    g.setAttribute('aShape', new THREE.BufferAttribute(new Float32Array(count), 1));
+    g.setAttribute('aFlags', new THREE.BufferAttribute(new Float32Array(count), 1));
+    g.computeBoundingSphere();
+    return g;
+  }, [dataset, count]);
+
+  useEffect(() => {
+    const shown = framePositions ?? positions;
+    if (geometry.getAttribute('position').array === shown) return;
+    geometry.setAttribute('position', new THREE.BufferAttribute(shown, 3));
+  }, [geometry, positions, framePositions]);
+
+  // Playback only moves points between their own observations, so bounds from the static positions hold throughout
+  useEffect(() => {
+    const bounds = new THREE.Box3().setFromBufferAttribute(new THREE.BufferAttribute(positions, 3));
+    geometry.boundingSphere = bounds.getBoundingSphere(new THREE.Sphere());
+  }, [geometry, positions]);
+
+  const visibility = useMemo(() => {
+    const width = Math.max(1, labels.length);
+    const texture = new THREE.DataTexture(new Uint8Array(width).fill(255), width, 1, THREE.RedFormat, THREE.UnsignedByteType);
+    texture.needsUpdate = true;
+    return texture;
+  }, [labels]);
+
+  const material = useMemo(() => new THREE.ShaderMaterial({
+    vertexShader,
+    fragmentShader,
+    uniforms: {
+      uCategoryVisible: { value: null },
+      uCategoryCount: { value: 1 },
+      uPixelRatio: { value: 1 },
+      uAttenuate: { value: 1 },
+      uReferenceDistance: { value: SIZE_REFERENCE_DISTANCE },
+      uHasSelection: { value: 0 },
+      uOpacity: { value: 1 },
+      // Scene background, linear
+      uDimColor: { value: new THREE.Color('#020617') },
+    },
+  }), []);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  useEffect(() => () => visibility.dispose(), [visibility]);
+  useEffect(() => () => material.dispose(), [material]);
+
+  useEffect(() => {
+    material.uniforms.uCategoryVisible.value = visibility;
+    material.uniforms.uCategoryCount.value = visibility.image.width;
+  }, [material, visibility]);
+
+  const colorColumn = colorEncoding.attribute ? dataset.attributes[colorEncoding.attribute] : undefined;
+  const colormapStops = getColormapStops(colorEncoding);
+
+  // Only colour and shape feed the attributes, so visibility toggles skip this pass
+  const appearanceKey = [
+    ...labels.map(l => `${categoryStyles[l]?.color}:${categoryStyles[l]?.shape}`),
+    colorEncoding.attribute,
+    colormapStops.join(),
+    colorDomain?.join(),
+  ].join('|');
+
+  useEffect(() => {
+    const colorAttr = geometry.getAttribute('aColor') as THREE.BufferAttribute;
+    const shapeAttr = geometry.getAttribute('aShape') as THREE.BufferAttribute;
+    const colors = colorAttr.array as Float32Array;
+    const shapes = shapeAttr.array as Float32Array;
+    const { labelIndices } = dataset;
+
+    const byCategory = categoryColors(labels, categoryStyles);
+    const shapeByCategory = labels.map(l => SHAPE_IDS[categoryStyles[l]?.shape ?? 'circle']);
+    const source = useSourceColors ? dataset.colors : null;
+    const values = colorColumn instanceof Float32Array && colorDomain ? colorColumn : null;
+    const lut = createColormapLUT(colormapStops).map(srgbToLinear);
+    const missing = hexToRgb(MISSING_VALUE_COLOR).map(srgbToLinear);
+    const lutMax = lut.length / 3 - 1;
+    const [low, high] = colorDomain ?? [0, 1];
+    const span = high - low || 1;
+
+    for (let i = 0; i < count; i++) {
+      const l = labelIndices[i];
+      shapes[i] = shapeByCategory[l];
+      if (values) {
+        const v = values[i];
+        if (Number.isFinite(v)) {
+          const entry = Math.round(Math.min(1, Math.max(0, (v - low) / span)) * lutMax) * 3;
+          colors[i * 3] = lut[entry];
+          colors[i * 3 + 1] = lut[entry + 1];
+          colors[i * 3 + 2] = lut[entry + 2];
+        } else {
+          colors.set(missing, i * 3);
+        }
+      } else if (source) {
+        colors[i * 3] = srgbToLinear(source[i * 3]);
+        colors[i * 3 + 1] = srgbToLinear(source[i * 3 + 1]);
+        colors[i * 3 + 2] = srgbToLinear(source[i * 3 + 2]);
+      } else {
+        colors[i * 3] = byCategory[l * 3];
+        colors[i * 3 + 1] = byCategory[l * 3 + 1];
+        colors[i * 3 + 2] = byCategory[l * 3 + 2];
+      }
+    }
+    colorAttr.needsUpdate = true;
+    shapeAttr.needsUpdate = true;
+  }, [geometry, appearanceKey, useSourceColors]);
+
+  const sizeColumn = sizeEncoding.attribute ? dataset.attributes[sizeEncoding.attribute] : undefined;
+  const sizeKey = [
+    ...labels.map(l => categoryStyles[l]?.size),
+    sizeEncoding.attribute,
+    sizeEncoding.scale,
+    sizeEncoding.minPixels,
+    sizeEncoding.maxPixels,
+    sizeEncoding.basePixels,
+    sizeExtent?.join(),
+  ].join('|');
+
+  useEffect(() => {
+    const sizeAttr = geometry.getAttribute('aSize') as THREE.BufferAttribute;
+    const sizes = sizeAttr.array as Float32Array;
+    const { labelIndices } = dataset;
+    const multipliers = labels.map(l => categoryStyles[l]?.size ?? 1);
+    const values = sizeColumn instanceof Float32Array && sizeExtent ? sizeColumn : null;
+    const scale = values ? createSizeScale(sizeEncoding, sizeExtent!) : null;
+
+    for (let i = 0; i < count; i++) {
+      const pixels = scale ? scale(values![i]) : sizeEncoding.basePixels;
+      sizes[i] = pixels * multipliers[labelIndices[i]];
+    }
+    sizeAttr.needsUpdate = true;
+  }, [geometry, sizeKey]);
+
+  useEffect(() => {
+    material.uniforms.uAttenuate.value = sizeEncoding.attenuate ? 1 : 0;
+  }, [material, sizeEncoding.attenuate]);
+
+  // Translucent points are drawn after opaque ones and leave the depth buffer alone so layers behind show through
+  const translucent = opacity < 1;
+  useEffect(() => {
+    material.uniforms.uOpacity.value = opacity;
+    if (material.transparent !== translucent) {
+      material.transparent = translucent;
+      material.depthWrite = !translucent;
+      material.needsUpdate = true;
+    }
+  }, [material, opacity, translucent]);
+
+  // Largest marker radius in CSS pixels, which bounds how far a hit can reach
+  const maxRadius = useMemo(() => {
+    const largest = sizeColumn instanceof Float32Array && sizeExtent
+      ? Math.max(sizeEncoding.minPixels, sizeEncoding.maxPixels)
+      : sizeEncoding.basePixels;
+    return (largest * Math.max(1, ...labels.map(l => categoryStyles[l]?.size ?? 1))) / 2;
+  }, [sizeKey]);
+
+  useEffect(() => {
+    const data = visibility.image.data as Uint8Array;
+    labels.forEach((label, l) => { data[l] = categoryStyles[label]?.visible === false ? 0 : 255; });
+    visibility.needsUpdate = true;
+  }, [visibility, labels, categoryStyles]);
+
+  useEffect(() => {
+    const flagAttr = geometry.getAttribute('aFlags') as THREE.BufferAttribute;
+    const flags = flagAttr.array as Float32Array;
+    let anySelected = false;
+    for (let i = 0; i < count; i++) {
+      const selected = selectedMask ? selectedMask[i] : 0;
+      if (selected) anySelected = true;
+      flags[i] = (hiddenMask ? hiddenMask[i] : 0) + 2 * selected;
+    }
+    flagAttr.needsUpdate = true;
+    material.uniforms.uHasSelection.value = anySelected ? 1 : 0;
+  }, [geometry, material, count, hiddenMask, selectedMask]);
+
+  const interactive = Boolean(onHover || onSelect);
+  const spatialIndex = useMemo(() => (interactive ? createSpatialIndex(positions, count) : null), [interactive, positions, count]);
+  // Playback frames get their own index, built on the first pick after they change
+  const frameIndex = useRef<{ positions: Float32Array; index: SpatialIndex } | null>(null);
+
+  // Pointer listeners outlive renders, so they read styles and callbacks from here
+  const latest = useRef({ categoryStyles, hiddenMask, onHover, onSelect, maxRadius, attenuate: sizeEncoding.attenuate, framePositions, animating });
+  latest.current = { categoryStyles, hiddenMask, onHover, onSelect, maxRadius, attenuate: sizeEncoding.attenuate, framePositions, animating };
+
+  useEffect(() => {
+    if (!spatialIndex) return;
+    const element = gl.domElement;
+    const raycaster = new THREE.Raycaster();
+    const ndc = new THREE.Vector2();
+    let downAt: { x: number; y: number } | null = null;
+
+    const pick = (e: PointerEvent) => {
+      const { camera, size } = get();
+      const rect = element.getBoundingClientRect();
+      ndc.set(((e.clientX - rect.left) / rect.width) * 2 - 1, -((e.clientY - rect.top) / rect.height) * 2 + 1);
+      raycaster.setFromCamera(ndc, camera);
+
+      // World units per CSS pixel at unit distance from a perspective camera
+      const fov = camera instanceof THREE.PerspectiveCamera ? camera.fov : 45;
+      const perPixel = (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2)) / size.height;
+      const { categoryStyles: styles, hiddenMask: hidden, maxRadius: radius, attenuate } = latest.current;
+      // Attenuated markers have a fixed world size; constant ones grow with distance
+      const tolerance = attenuate
+        ? { base: radius * SIZE_REFERENCE_DISTANCE * perPixel, perDistance: PICK_PIXELS * perPixel }
+        : { base: 0, perDistance: (radius + PICK_PIXELS) * perPixel };
+      let index = spatialIndex;
+      const { framePositions: frame } = latest.current;
+      if (frame) {
+        if (frameIndex.current?.positions !== frame) frameIndex.current = { positions: frame, index: createSpatialIndex(frame, count) };
+        index = frameIndex.current.index;
+      }
+      const hit = index.pick(
+        raycaster.ray,
+        tolerance,
+        (index) => !hidden?.[index] && styles[labels[dataset.labelIndices[index]]]?.visible !== false
+      );
+      return hit ? hit.index : null;
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      // No hover while orbiting or while the points move
+      if (e.buttons !== 0 || latest.current.animating) return;
+      latest.current.onHover?.(pick(e));
+    };
+    const handleLeave = () => latest.current.onHover?.(null);
+    const handleDown = (e: PointerEvent) => {
+      downAt = e.button === 0 ? { x: e.clientX, y: e.clientY } : null;
+    };
+    const handleUp = (e: PointerEvent) => {
+      if (!downAt || e.button !== 0) return;
+      const moved = Math.hypot(e.clientX - downAt.x, e.clientY - downAt.y);
+      downAt = null;
+      if (moved <= CLICK_SLOP) latest.current.onSelect?.(pick(e), e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace');
+    };
+
+    element.addEventListener('pointermove', handleMove);
+    element.addEventListener('pointerleave', handleLeave);
+    element.addEventListener('pointerdown', handleDown);
+    element.addEventListener('pointerup', handleUp);
+    return () => {
+      element.removeEventListener('pointermove', handleMove);
+      element.removeEventListener('pointerleave', handleLeave);
+      element.removeEventListener('pointerdown', handleDown);
+      element.removeEventListener('pointerup', handleUp);
+    };
+  }, [gl, get, spatialIndex, count, dataset, labels]);
+
+  // Picking goes through the octree, so three's per-point raycast is switched off
+  // Read at draw time rather than per frame, so off-screen exports at another pixel ratio size markers correctly
+  const syncPixelRatio = (renderer: THREE.WebGLRenderer) => {
+    material.uniforms.uPixelRatio.value = renderer.getPixelRatio();
+  };
+
+  return <points geometry={geometry} material={material} raycast={() => null} onBeforeRender={syncPixelRatio} />;
+};
+
+export default PointCloud;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { PROJECT_ACCEPT, ProjectInfo } from '../services/project';
+
+export interface AutosaveStatus {
+  savedAt: number | null;
+  error: string | null;
+}
+
+interface ProjectPanelProps {
+  project: ProjectInfo;
+  autosave: AutosaveStatus;
+  onRename: (name: string) => void;
+  onSave: (includeData: boolean, compress: boolean) => Promise<void>;
+  onOpen: (file: File) => Promise<void>;
+  // Resolves to whether the link carries the data itself
+  onCopyLink: () => Promise<boolean>;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+const ProjectPanel: React.FC<ProjectPanelProps> = ({ project, autosave, onRename, onSave, onOpen, onCopyLink }) => {
+  const [includeData, setIncludeData] = useState(true);
+  const [compress, setCompress] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [linkNote, setLinkNote] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    setLinkNote(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) run(() => onOpen(file));
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        value={project.name}
+        onChange={(e) => onRename(e.target.value)}
+        className={inputClass}
+        placeholder="Project name"
+      />
+
+      <div className="flex gap-4">
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer" title="Without the data, the project applies to the same file imported again">
+          <input type="checkbox" checked={includeData} onChange={(e) => setIncludeData(e.target.checked)} className="accent-blue-500" />
+          Include data
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={compress} onChange={(e) => setCompress(e.target.checked)} className="accent-blue-500" />
+          Compress
+        </label>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => run(() => onSave(includeData, compress))} disabled={busy} className={buttonClass}>
+          <i className="fa-solid fa-floppy-disk mr-1"></i> Save
+        </button>
+        <label className={`${buttonClass} text-center cursor-pointer ${busy ? 'opacity-40 pointer-events-none' : ''}`}>
+          <i className="fa-solid fa-folder-open mr-1"></i> Open
+          <input type="file" accept={PROJECT_ACCEPT} onChange={handleFileChange} className="hidden" />
+        </label>
+        <button
+          onClick={() => run(async () => {
+            const withData = await onCopyLink();
+            setLinkNote(withData ? 'Link copied.' : 'Link copied. The dataset is too large to include, so recipients need to import the same file.');
+          })}
+          disabled={busy}
+          className={buttonClass}
+        >
+          <i className="fa-solid fa-link mr-1"></i> Link
+        </button>
+      </div>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+      {linkNote && <p className="text-[10px] text-slate-400">{linkNote}</p>}
+      {autosave.error ? (
+        <p className="text-[10px] text-amber-400">Autosave failed. {autosave.error}</p>
+      ) : autosave.savedAt !== null && (
+        <p className="text-[10px] text-slate-600">Autosaved at {new Date(autosave.savedAt).toLocaleTimeString()}</p>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { deleteRecentProject, listRecentProjects, RecentProject } from '../services/projectStore';
+import { PROJECT_ACCEPT } from '../services/project';
+
+interface RecentProjectsProps {
+  onOpen: (id: string) => void;
+  onOpenFile: (file: File) => void;
+}
+
+/** Autosaved projects kept in this browser, plus a way to open a saved project file. */
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen, onOpenFile }) => {
+  const [projects, setProjects] = useState<RecentProject[]>([]);
+
+  useEffect(() => {
+    let active = true;
+    // Storage can be unavailable, e.g. in private windows; the list then stays empty
+    listRecentProjects().then(list => active && setProjects(list), () => {});
+    return () => { active = false; };
+  }, []);
+
+  const remove = async (id: string) => {
+    await deleteRecentProject(id).catch(() => {});
+    setProjects(prev => prev.filter(p => p.id !== id));
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onOpenFile(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="mt-6 text-left space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Recent Projects</h3>
+        <label className="text-[10px] text-blue-400 hover:text-blue-300 cursor-pointer">
+          <i className="fa-solid fa-folder-open mr-1"></i> Open Project File
+          <input type="file" accept={PROJECT_ACCEPT} onChange={handleFileChange} className="hidden" />
+        </label>
+      </div>
+      {projects.length === 0 ? (
+        <p className="text-xs text-slate-600">Projects are saved in this browser as you work.</p>
+      ) : (
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {projects.map(p => (
+            <div key={p.id} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-900/40 border border-white/5 hover:bg-slate-900/80 transition-colors">
+              <button onClick={() => onOpen(p.id)} className="flex-1 min-w-0 text-left" title={p.name}>
+                <div className="text-xs text-slate-200 truncate">{p.name}</div>
+                <div className="text-[10px] text-slate-500">
+                  {p.count.toLocaleString()} points · {new Date(p.savedAt).toLocaleString()}
+                </div>
+              </button>
+              <button onClick={() => remove(p.id)} className="text-slate-500 hover:text-red-400 transition-colors" title="Forget Project">
+                <i className="fa-solid fa-xmark text-xs"></i>
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecentProjects;
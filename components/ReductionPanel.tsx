@@ -0,0 +1,165 @@
+import React from 'react';
+import { PointDataset, ReductionMethod, ReductionSettings, TaskProgress } from '../types';
+import { getNumericAttributes } from '../services/dataset';
+import { EXACT_NEIGHBOR_ROWS, REDUCTION_METHODS } from '../services/reduction';
+import FeaturePicker from './FeaturePicker';
+import TaskProgressBar from './TaskProgressBar';
+
+interface ReductionPanelProps {
+  dataset: PointDataset;
+  settings: ReductionSettings;
+  progress: TaskProgress | null;
+  error: string | null;
+  onChange: (updates: Partial<ReductionSettings>) => void;
+  onRun: () => void;
+  onCancel: () => void;
+}
+
+// Above this many points t-SNE and UMAP take minutes
+const SLOW_POINT_COUNT = 20000;
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+const positive = (value: number, fallback: number) => (Number.isFinite(value) && value > 0 ? value : fallback);
+
+const ReductionPanel: React.FC<ReductionPanelProps> = ({ dataset, settings, progress, error, onChange, onRun, onCancel }) => {
+  if (getNumericAttributes(dataset).length === 0) {
+    return <p className="text-xs text-slate-500">Needs numeric attribute columns to use as features.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Method</label>
+        <select
+          value={settings.method}
+          onChange={(e) => onChange({ method: e.target.value as ReductionMethod })}
+          disabled={progress !== null}
+          className={inputClass}
+        >
+          {REDUCTION_METHODS.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+      </div>
+
+      <FeaturePicker dataset={dataset} features={settings.features} onChange={(features) => onChange({ features })} />
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={settings.standardize}
+          onChange={(e) => onChange({ standardize: e.target.checked })}
+          className="accent-blue-500"
+        />
+        Standardize features
+      </label>
+
+      {settings.method === 'tsne' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Perplexity</label>
+            <input
+              type="number"
+              min={2}
+              step={1}
+              value={settings.perplexity}
+              onChange={(e) => onChange({ perplexity: positive(Number(e.target.value), 30) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Iterations</label>
+            <input
+              type="number"
+              min={250}
+              step={50}
+              value={settings.iterations}
+              onChange={(e) => onChange({ iterations: Math.round(positive(Number(e.target.value), 1000)) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.method === 'umap' && (
+        <div className="grid grid-cols-3 gap-2">
+          <div>
+            <label className={labelClass}>Neighbors</label>
+            <input
+              type="number"
+              min={2}
+              step={1}
+              value={settings.neighbors}
+              onChange={(e) => onChange({ neighbors: Math.round(positive(Number(e.target.value), 15)) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Min Dist</label>
+            <input
+              type="number"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.minDist}
+              onChange={(e) => onChange({ minDist: Math.min(1, Math.max(0, Number(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Epochs</label>
+            <input
+              type="number"
+              min={0}
+              step={50}
+              value={settings.epochs || ''}
+              placeholder="auto"
+              onChange={(e) => onChange({ epochs: Math.max(0, Math.round(Number(e.target.value) || 0)) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+      )}
+
+      {settings.method !== 'pca' && (
+        <div>
+          <label className={labelClass}>Seed</label>
+          <input
+            type="number"
+            step={1}
+            value={settings.seed}
+            onChange={(e) => onChange({ seed: Math.round(Number(e.target.value) || 0) })}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {settings.method !== 'pca' && dataset.count > SLOW_POINT_COUNT && (
+        <p className="text-[10px] text-amber-400">
+          {dataset.count.toLocaleString()} points: expect this to take several minutes.
+        </p>
+      )}
+      {settings.method !== 'pca' && dataset.count > EXACT_NEIGHBOR_ROWS && (
+        <p className="text-[10px] text-slate-500">
+          Above {EXACT_NEIGHBOR_ROWS.toLocaleString()} points the nearest neighbours are approximated, so the layout may differ slightly from an exact run.
+        </p>
+      )}
+
+      {progress ? (
+        <TaskProgressBar progress={progress} onCancel={onCancel} />
+      ) : (
+        <button
+          onClick={onRun}
+          className="w-full py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-xs font-medium transition-colors"
+        >
+          <i className="fa-solid fa-diagram-project mr-2"></i>
+          Compute Layout
+        </button>
+      )}
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default ReductionPanel;
@@ -0,0 +1,91 @@
+import React, { useRef, useState } from 'react';
+import { SelectionMode } from '../types';
+
+export type SelectionTool = 'box' | 'lasso';
+
+interface SelectionOverlayProps {
+  tool: SelectionTool;
+  // Polygon in CSS pixels relative to the overlay's top-left corner
+  onComplete: (polygon: [number, number][], mode: SelectionMode) => void;
+}
+
+// Lasso vertices closer together than this are dropped
+const LASSO_STEP = 3;
+
+/**
+ * Captures pointer drags over the canvas while a selection tool is active and
+ * draws the box or lasso being traced. Shift adds to the selection and alt
+ * subtracts from it.
+ */
+const SelectionOverlay: React.FC<SelectionOverlayProps> = ({ tool, onComplete }) => {
+  const [path, setPath] = useState<[number, number][] | null>(null);
+  const pathRef = useRef<[number, number][] | null>(null);
+
+  const local = (e: React.PointerEvent<HTMLDivElement>): [number, number] => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const update = (next: [number, number][] | null) => {
+    pathRef.current = next;
+    setPath(next);
+  };
+
+  const polygonOf = (points: [number, number][]): [number, number][] => {
+    if (tool === 'lasso') return points;
+    const [[x0, y0], [x1, y1]] = [points[0], points[points.length - 1]];
+    return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]];
+  };
+
+  const handleDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const start = local(e);
+    update([start, start]);
+  };
+
+  const handleMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = pathRef.current;
+    if (!current) return;
+    const point = local(e);
+    if (tool === 'box') {
+      update([current[0], point]);
+      return;
+    }
+    const [lx, ly] = current[current.length - 1];
+    if (Math.hypot(point[0] - lx, point[1] - ly) >= LASSO_STEP) update([...current, point]);
+  };
+
+  const handleUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = pathRef.current;
+    if (!current) return;
+    update(null);
+    const mode: SelectionMode = e.shiftKey ? 'add' : e.altKey ? 'subtract' : 'replace';
+    onComplete(polygonOf(current), mode);
+  };
+
+  const polygon = path ? polygonOf(path) : null;
+
+  return (
+    <div
+      className="absolute inset-0 z-10 cursor-crosshair touch-none"
+      onPointerDown={handleDown}
+      onPointerMove={handleMove}
+      onPointerUp={handleUp}
+      onPointerCancel={() => update(null)}
+    >
+      {polygon && (
+        <svg className="absolute inset-0 w-full h-full pointer-events-none">
+          <polygon
+            points={polygon.map(([x, y]) => `${x},${y}`).join(' ')}
+            className="fill-blue-500/10 stroke-blue-400"
+            strokeWidth={1.5}
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default SelectionOverlay;
@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { CategoryStyle, PointDataset } from '../types';
+import { rowsToCSV, rowsToJSON, summarizeSelection } from '../services/selection';
+import { downloadText } from '../services/download';
+
+interface SelectionPanelProps {
+  dataset: PointDataset;
+  selection: Uint32Array;
+  categoryStyles: Record<string, CategoryStyle>;
+  // Base for export file names
+  fileName: string;
+  onHide: () => void;
+  onIsolate: () => void;
+  onClear: () => void;
+}
+
+const VISIBLE_CATEGORIES = 8;
+
+const formatCoord = (v: number) => (Number.isFinite(v) ? v.toFixed(3) : '—');
+
+const SelectionPanel: React.FC<SelectionPanelProps> = ({ dataset, selection, categoryStyles, fileName, onHide, onIsolate, onClear }) => {
+  const summary = useMemo(() => summarizeSelection(dataset, selection), [dataset, selection]);
+  const base = `${fileName.replace(/\.[^.]+$/, '') || 'points'}-selection`;
+
+  const axes = ['X', 'Y', 'Z'];
+  const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white transition-colors';
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-900/40 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-mono text-white">{summary.count.toLocaleString()} selected</span>
+        <button onClick={onClear} className="text-xs text-slate-500 hover:text-white transition-colors" title="Clear Selection">
+          <i className="fa-solid fa-xmark"></i>
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        {summary.perCategory.slice(0, VISIBLE_CATEGORIES).map(c => (
+          <div key={c.label} className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-2 text-slate-300 truncate">
+              <span className="w-2 h-2 rounded-sm flex-shrink-0" style={{ backgroundColor: categoryStyles[c.label]?.color }} />
+              {c.label}
+            </span>
+            <span className="font-mono text-slate-500">{c.count.toLocaleString()}</span>
+          </div>
+        ))}
+        {summary.perCategory.length > VISIBLE_CATEGORIES && (
+          <div className="text-[10px] text-slate-600">+{summary.perCategory.length - VISIBLE_CATEGORIES} more categories</div>
+        )}
+      </div>
+
+      <div className="bg-slate-800/30 rounded border border-white/5 text-[10px] font-mono">
+        <div className="grid grid-cols-4 gap-1 px-2 py-1 text-slate-600 uppercase">
+          <span></span><span>Centroid</span><span>Min</span><span>Max</span>
+        </div>
+        {axes.map((axis, i) => (
+          <div key={axis} className="grid grid-cols-4 gap-1 px-2 py-1 text-slate-300 border-t border-white/5">
+            <span className="text-slate-600">{axis}</span>
+            <span>{formatCoord(summary.centroid[i])}</span>
+            <span>{formatCoord(summary.min[i])}</span>
+            <span>{formatCoord(summary.max[i])}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onHide} className={buttonClass}>
+          <i className="fa-solid fa-eye-slash mr-1"></i> Hide
+        </button>
+        <button onClick={onIsolate} className={buttonClass}>
+          <i className="fa-solid fa-filter mr-1"></i> Isolate
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={() => downloadText(rowsToCSV(dataset, selection), `${base}.csv`, 'text/csv')} className={buttonClass}>
+          <i className="fa-solid fa-file-csv mr-1"></i> CSV
+        </button>
+        <button onClick={() => downloadText(rowsToJSON(dataset, selection), `${base}.json`, 'application/json')} className={buttonClass}>
+          <i className="fa-solid fa-file-code mr-1"></i> JSON
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionPanel;
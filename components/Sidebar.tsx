@@ -1,27 +1,173 @@
 
-import React, { useState } from 'react';
-import { VisualizationState, CategoryStyle, PointShape } from '../types';
+import React, { useMemo } from 'react';
+import { VisualizationState, CategoryStyle, ColorEncoding, SizeEncoding, FilterState, AxisScale, ReductionSettings, ClusteringSettings, ImageExportSettings, ModelExportSettings, TimeSeriesSettings, CameraBookmark, TourStop, DatasetLayer, LayerComparison, LayerDisplay, PointDataset, CategoryOverlays } from '../types';
+import { syncLabelSets } from '../services/labelSets';
+import { ProjectInfo } from '../services/project';
+import { AXIS_SCALES, SceneTransform } from '../services/axes';
+import ImportReportPanel from './ImportReportPanel';
+import ColorEncodingPanel from './ColorEncodingPanel';
+import SizeEncodingPanel from './SizeEncodingPanel';
+import SelectionPanel from './SelectionPanel';
+import FilterPanel from './FilterPanel';
+import ReductionPanel from './ReductionPanel';
+import ClusteringPanel from './ClusteringPanel';
+import LabelSetPanel from './LabelSetPanel';
+import ProjectPanel, { AutosaveStatus } from './ProjectPanel';
+import ExportPanel from './ExportPanel';
+import TimeSeriesPanel from './TimeSeriesPanel';
+import CameraPanel from './CameraPanel';
+import LayerPanel from './LayerPanel';
+import { LayerMatches, ShiftStats } from '../services/layers';
+import { Trajectories } from '../services/timeSeries';
+import { CategoryStats } from '../services/categoryStats';
+import { StyleSheet } from '../services/categories';
+import CategoryPanel from './CategoryPanel';
+import HistoryPanel from './HistoryPanel';
+import { HistoryEntry } from '../services/history';
 
 interface SidebarProps {
   state: VisualizationState;
+  project: ProjectInfo | null;
+  autosave: AutosaveStatus;
+  onRenameProject: (name: string) => void;
+  undoSteps: HistoryEntry<VisualizationState>[];
+  redoSteps: HistoryEntry<VisualizationState>[];
+  onTravel: (steps: number) => void;
+  onSaveProject: (includeData: boolean, compress: boolean) => Promise<void>;
+  onOpenProject: (file: File) => Promise<void>;
+  onCopyLink: () => Promise<boolean>;
+  colorDomain: [number, number] | null;
   onUpdateStyle: (category: string, updates: Partial<CategoryStyle>) => void;
+  onUpdateColorEncoding: (updates: Partial<ColorEncoding>) => void;
+  onUpdateSizeEncoding: (updates: Partial<SizeEncoding>) => void;
+  onHideSelection: () => void;
+  onIsolateSelection: () => void;
+  onClearSelection: () => void;
+  onShowAllPoints: () => void;
+  filterErrors: { search: string | null; expression: string | null };
+  onUpdateFilters: (updates: Partial<FilterState>) => void;
+  sceneTransform: SceneTransform | null;
+  onSetAxisScale: (axis: number, scale: AxisScale) => void;
+  onUpdateReduction: (updates: Partial<ReductionSettings>) => void;
+  onRunReduction: () => void;
+  onCancelReduction: () => void;
+  onUpdateClustering: (updates: Partial<ClusteringSettings>) => void;
+  onRunClustering: () => void;
+  onCancelClustering: () => void;
+  onActivateLabelSet: (index: number) => void;
+  onRemoveLabelSet: (index: number) => void;
+  trajectories: Trajectories | null;
+  onUpdateTimeSeries: (updates: Partial<TimeSeriesSettings>) => void;
+  onExportFrames: (settings: ImageExportSettings, frames: number, onProgress: (done: number) => void) => Promise<void>;
+  onAddBookmark: (name: string) => void;
+  onUpdateBookmark: (id: string, updates: Partial<CameraBookmark>) => void;
+  onRetakeBookmark: (id: string) => void;
+  onRemoveBookmark: (id: string) => void;
+  onFlyToBookmark: (id: string) => void;
+  onUpdateTour: (tour: TourStop[]) => void;
+  onPlayTour: () => Promise<void>;
+  onStopTour: () => void;
+  onRecordTour: (settings: ImageExportSettings, fps: number, onProgress: (done: number, total: number) => void) => Promise<void>;
+  layerMatches: LayerMatches | null;
+  layerShifts: ShiftStats | null;
+  onUpdateMainLayer: (updates: Partial<LayerDisplay>) => void;
+  onAddLayer: (dataset: PointDataset, name: string) => void;
+  onUpdateLayer: (id: string, updates: Partial<DatasetLayer>) => void;
+  onRemoveLayer: (id: string) => void;
+  onUpdateComparison: (updates: Partial<LayerComparison>) => void;
+  onAlignLayer: (id: string, mode: 'center' | 'matches') => void;
+  // Statistics of the points not hidden, in data units
+  categoryStats: CategoryStats[];
+  onUpdateCategoryOverlays: (updates: Partial<CategoryOverlays>) => void;
+  onRenameCategory: (from: string, to: string) => void;
+  onMergeCategories: (sources: string[], target: string) => void;
+  onMoveCategory: (category: string, offset: number) => void;
+  onSplitCategory: (category: string, name: string) => void;
+  onIsolateCategory: (category: string) => void;
+  onInvertCategoryVisibility: () => void;
+  onApplyPalette: (colors: string[]) => void;
+  onApplyStyleSheet: (sheet: StyleSheet, reorder: boolean) => void;
   onToggleAxes: () => void;
+  onToggleSourceColors: () => void;
   onScreenshot: () => void;
+  onExportImage: (settings: ImageExportSettings, format: 'png' | 'svg') => Promise<void>;
+  onExportModel: (settings: ModelExportSettings) => Promise<void>;
   onClear: () => void;
 }
 
-const SHAPES: PointShape[] = ['circle', 'square', 'diamond', 'cross'];
-const PALETTE = [
-  '#ef4444', '#f97316', '#f59e0b', '#84cc16', '#10b981', 
-  '#06b6d4', '#3b82f6', '#6366f1', '#a855f7', '#ec4899',
-  '#64748b', '#ffffff'
-];
+const Sidebar: React.FC<SidebarProps> = ({
+  state,
+  project,
+  autosave,
+  onRenameProject,
+  undoSteps,
+  redoSteps,
+  onTravel,
+  onSaveProject,
+  onOpenProject,
+  onCopyLink,
+  colorDomain,
+  onUpdateStyle,
+  onUpdateColorEncoding,
+  onUpdateSizeEncoding,
+  onHideSelection,
+  onIsolateSelection,
+  onClearSelection,
+  onShowAllPoints,
+  filterErrors,
+  onUpdateFilters,
+  sceneTransform,
+  onSetAxisScale,
+  onUpdateReduction,
+  onRunReduction,
+  onCancelReduction,
+  onUpdateClustering,
+  onRunClustering,
+  onCancelClustering,
+  onActivateLabelSet,
+  onRemoveLabelSet,
+  trajectories,
+  onUpdateTimeSeries,
+  onExportFrames,
+  onAddBookmark,
+  onUpdateBookmark,
+  onRetakeBookmark,
+  onRemoveBookmark,
+  onFlyToBookmark,
+  onUpdateTour,
+  onPlayTour,
+  onStopTour,
+  onRecordTour,
+  layerMatches,
+  layerShifts,
+  onUpdateMainLayer,
+  onAddLayer,
+  onUpdateLayer,
+  onRemoveLayer,
+  onUpdateComparison,
+  onAlignLayer,
+  categoryStats,
+  onUpdateCategoryOverlays,
+  onRenameCategory,
+  onMergeCategories,
+  onMoveCategory,
+  onSplitCategory,
+  onIsolateCategory,
+  onInvertCategoryVisibility,
+  onApplyPalette,
+  onApplyStyleSheet,
+  onToggleAxes,
+  onToggleSourceColors,
+  onScreenshot,
+  onExportImage,
+  onExportModel,
+  onClear,
+}) => {
+  const { dataset, categories, categoryStyles, showAxes, useSourceColors, colorEncoding, sizeEncoding, selection, hiddenPoints, filters, axisScales, reduction, reductionProgress, reductionError, clustering, clusteringProgress, clusteringError, timeSeries, bookmarks, tour, mainLayer, layers, comparison, categoryOverlays, labelSets, activeLabelSet, importReport } = state;
+  // The stored copy of the active set can lag behind its styles
+  const syncedLabelSets = useMemo(() => syncLabelSets(state), [labelSets, activeLabelSet, dataset, categoryStyles]);
 
-const Sidebar: React.FC<SidebarProps> = ({ state, onUpdateStyle, onToggleAxes, onScreenshot, onClear }) => {
-  const { points, categories, categoryStyles, showAxes } = state;
-  const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
-
-  if (points.length === 0) {
+  if (!dataset) {
     return (
       <div className="p-12 h-full flex flex-col justify-center items-center text-center opacity-40">
         <i className="fa-solid fa-database text-4xl mb-4 text-slate-700"></i>
@@ -46,6 +192,15 @@ const Sidebar: React.FC<SidebarProps> = ({ state, onUpdateStyle, onToggleAxes, o
           >
             <i className="fa-solid fa-arrows-up-down-left-right"></i>
           </button>
+          {dataset.colors && (
+            <button 
+              onClick={onToggleSourceColors}
+              className={`p-2 rounded-lg transition-colors border ${useSourceColors ? 'bg-blue-600/20 border-blue-500/40 text-blue-400' : 'bg-slate-800 border-slate-700 text-slate-500'}`}
+              title="Use Colours From File"
+            >
+              <i className="fa-solid fa-palette"></i>
+            </button>
+          )}
           <button 
             onClick={onScreenshot}
             className="p-2 bg-slate-800 border border-slate-700 text-slate-400 hover:text-emerald-400 hover:bg-emerald-400/10 rounded-lg transition-colors"
@@ -65,80 +220,227 @@ const Sidebar: React.FC<SidebarProps> = ({ state, onUpdateStyle, onToggleAxes, o
 
       {/* Main List */}
       <div className="flex-grow overflow-y-auto p-6 space-y-6">
+        {project && (
+          <section>
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Project</h3>
+            <ProjectPanel
+              project={project}
+              autosave={autosave}
+              onRename={onRenameProject}
+              onSave={onSaveProject}
+              onOpen={onOpenProject}
+              onCopyLink={onCopyLink}
+            />
+          </section>
+        )}
+
         <section>
-          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Categories & Styling</h3>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">History</h3>
+          <HistoryPanel past={undoSteps} future={redoSteps} onTravel={onTravel} />
+        </section>
+
+        {(selection.length > 0 || hiddenPoints.length > 0) && (
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Selection</h3>
+              {hiddenPoints.length > 0 && (
+                <button onClick={onShowAllPoints} className="text-[10px] text-blue-400 hover:text-blue-300">
+                  Show {hiddenPoints.length.toLocaleString()} hidden
+                </button>
+              )}
+            </div>
+            {selection.length > 0 && (
+              <SelectionPanel
+                dataset={dataset}
+                selection={selection}
+                categoryStyles={categoryStyles}
+                fileName={project?.name ?? importReport?.fileName ?? ''}
+                onHide={onHideSelection}
+                onIsolate={onIsolateSelection}
+                onClear={onClearSelection}
+              />
+            )}
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Filters</h3>
+          <FilterPanel
+            dataset={dataset}
+            filters={filters}
+            searchError={filterErrors.search}
+            expressionError={filterErrors.expression}
+            onChange={onUpdateFilters}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Dimensionality Reduction</h3>
+          <ReductionPanel
+            dataset={dataset}
+            settings={reduction}
+            progress={reductionProgress}
+            error={reductionError}
+            onChange={onUpdateReduction}
+            onRun={onRunReduction}
+            onCancel={onCancelReduction}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Clustering</h3>
+          <ClusteringPanel
+            dataset={dataset}
+            settings={clustering}
+            progress={clusteringProgress}
+            error={clusteringError}
+            onChange={onUpdateClustering}
+            onRun={onRunClustering}
+            onCancel={onCancelClustering}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Label Sets</h3>
+          <LabelSetPanel
+            labelSets={syncedLabelSets}
+            active={activeLabelSet}
+            onActivate={onActivateLabelSet}
+            onRemove={onRemoveLabelSet}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Layers</h3>
+          <LayerPanel
+            dataset={dataset}
+            mainLayer={mainLayer}
+            layers={layers}
+            comparison={comparison}
+            matches={layerMatches}
+            shifts={layerShifts}
+            onUpdateMainLayer={onUpdateMainLayer}
+            onAddLayer={onAddLayer}
+            onUpdateLayer={onUpdateLayer}
+            onRemoveLayer={onRemoveLayer}
+            onUpdateComparison={onUpdateComparison}
+            onAlignLayer={onAlignLayer}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Time Series</h3>
+          <TimeSeriesPanel
+            dataset={dataset}
+            settings={timeSeries}
+            trajectories={trajectories}
+            onChange={onUpdateTimeSeries}
+            onExportFrames={onExportFrames}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Camera</h3>
+          <CameraPanel
+            bookmarks={bookmarks}
+            tour={tour}
+            onAddBookmark={onAddBookmark}
+            onUpdateBookmark={onUpdateBookmark}
+            onRetakeBookmark={onRetakeBookmark}
+            onRemoveBookmark={onRemoveBookmark}
+            onFlyTo={onFlyToBookmark}
+            onUpdateTour={onUpdateTour}
+            onPlayTour={onPlayTour}
+            onStopTour={onStopTour}
+            onRecordTour={onRecordTour}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Axes</h3>
           <div className="space-y-2">
-            {categories.map((cat) => {
-              const style = categoryStyles[cat];
-              const isExpanded = expandedCategory === cat;
-              
+            {dataset.axisNames.map((name, a) => {
+              const axis = sceneTransform?.axes[a];
               return (
-                <div key={cat} className="rounded-xl border border-slate-800 overflow-hidden transition-all duration-200 bg-slate-900/40">
-                  <div 
-                    className={`flex items-center justify-between p-3 cursor-pointer hover:bg-slate-800/50 ${isExpanded ? 'bg-slate-800/80' : ''}`}
-                    onClick={() => setExpandedCategory(isExpanded ? null : cat)}
-                  >
-                    <div className="flex items-center gap-3">
-                      <div 
-                        className="w-4 h-4 rounded-sm shadow-inner" 
-                        style={{ backgroundColor: style.color }}
-                      />
-                      <span className="text-sm font-medium text-slate-200">{cat}</span>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <button 
-                        onClick={(e) => { e.stopPropagation(); onUpdateStyle(cat, { visible: !style.visible }); }}
-                        className={`text-xs ${style.visible ? 'text-blue-500' : 'text-slate-600'}`}
-                      >
-                        <i className={`fa-solid ${style.visible ? 'fa-eye' : 'fa-eye-slash'}`}></i>
-                      </button>
-                      <i className={`fa-solid fa-chevron-down text-[10px] text-slate-600 transition-transform ${isExpanded ? 'rotate-180' : ''}`}></i>
-                    </div>
+                <div key={a}>
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 text-xs text-slate-300 truncate" title={name}>{name}</span>
+                    <select
+                      value={axisScales[a]}
+                      onChange={(e) => onSetAxisScale(a, e.target.value as AxisScale)}
+                      className="w-28 bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500"
+                    >
+                      {AXIS_SCALES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
                   </div>
-
-                  {isExpanded && (
-                    <div className="p-4 bg-slate-950/30 border-t border-slate-800 animate-in slide-in-from-top-2 duration-200">
-                      {/* Color Picker */}
-                      <div className="mb-4">
-                        <label className="text-[10px] text-slate-500 block mb-2 font-bold uppercase">Color</label>
-                        <div className="grid grid-cols-6 gap-2">
-                          {PALETTE.map(color => (
-                            <div 
-                              key={color} 
-                              onClick={() => onUpdateStyle(cat, { color })}
-                              className={`w-full aspect-square rounded cursor-pointer border-2 transition-transform hover:scale-110 ${style.color === color ? 'border-white' : 'border-transparent'}`}
-                              style={{ backgroundColor: color }}
-                            />
-                          ))}
-                        </div>
-                      </div>
-
-                      {/* Shape Selection */}
-                      <div>
-                        <label className="text-[10px] text-slate-500 block mb-2 font-bold uppercase">Marker Shape</label>
-                        <div className="flex gap-3">
-                          {SHAPES.map(shape => (
-                            <button
-                              key={shape}
-                              onClick={() => onUpdateStyle(cat, { shape })}
-                              className={`flex-grow p-2 rounded border text-xs transition-colors ${style.shape === shape ? 'bg-blue-600/20 border-blue-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500'}`}
-                            >
-                              <i className={`fa-solid ${
-                                shape === 'circle' ? 'fa-circle' : 
-                                shape === 'square' ? 'fa-square' : 
-                                shape === 'diamond' ? 'fa-diamond' : 'fa-plus'
-                              }`}></i>
-                            </button>
-                          ))}
-                        </div>
-                      </div>
-                    </div>
+                  {axisScales[a] === 'log' && axis?.scale !== 'log' && (
+                    <p className="text-[10px] text-amber-400 mt-1">No positive values; drawn linear.</p>
+                  )}
+                  {axis?.scale === 'log' && axis.clamped > 0 && (
+                    <p className="text-[10px] text-amber-400 mt-1">
+                      {axis.clamped.toLocaleString()} values ≤ 0 pinned to the smallest positive value.
+                    </p>
                   )}
                 </div>
               );
             })}
           </div>
         </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Color Encoding</h3>
+          <ColorEncodingPanel
+            dataset={dataset}
+            encoding={colorEncoding}
+            domain={colorDomain}
+            onChange={onUpdateColorEncoding}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Size Encoding</h3>
+          <SizeEncodingPanel dataset={dataset} encoding={sizeEncoding} onChange={onUpdateSizeEncoding} />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Categories & Styling</h3>
+          <CategoryPanel
+            dataset={dataset}
+            categories={categories}
+            categoryStyles={categoryStyles}
+            categoryStats={categoryStats}
+            overlays={categoryOverlays}
+            selection={selection}
+            fileName={project?.name ?? ''}
+            onUpdateStyle={onUpdateStyle}
+            onUpdateOverlays={onUpdateCategoryOverlays}
+            onRename={onRenameCategory}
+            onMerge={onMergeCategories}
+            onMove={onMoveCategory}
+            onSplit={onSplitCategory}
+            onIsolate={onIsolateCategory}
+            onInvertVisibility={onInvertCategoryVisibility}
+            onApplyPalette={onApplyPalette}
+            onApplyStyleSheet={onApplyStyleSheet}
+          />
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Export</h3>
+          <ExportPanel
+            pointCount={dataset.count}
+            selectionCount={selection.length}
+            onExport={onExportImage}
+            onExportModel={onExportModel}
+          />
+        </section>
+
+        {importReport && (
+          <section>
+            <h3 className="text-[10px] font-bold text-slate-500 uppercase tracking-widest mb-4">Import Report</h3>
+            <ImportReportPanel report={importReport} />
+          </section>
+        )}
       </div>
 
       {/* Footer Info */}
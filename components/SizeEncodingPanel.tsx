@@ -0,0 +1,106 @@
+import React from 'react';
+import { PointDataset, SizeEncoding, SizeScale } from '../types';
+import { getNumericAttributes } from '../services/dataset';
+import { SIZE_SCALES } from '../services/sizeScale';
+
+interface SizeEncodingPanelProps {
+  dataset: PointDataset;
+  encoding: SizeEncoding;
+  onChange: (updates: Partial<SizeEncoding>) => void;
+}
+
+const MAX_PIXELS = 64;
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+
+const clampPixels = (value: number) => Math.min(MAX_PIXELS, Math.max(0.5, Number.isFinite(value) ? value : 1));
+
+const SizeEncodingPanel: React.FC<SizeEncodingPanelProps> = ({ dataset, encoding, onChange }) => {
+  const numericAttributes = getNumericAttributes(dataset);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Size By</label>
+        <select
+          value={encoding.attribute ?? ''}
+          onChange={(e) => onChange({ attribute: e.target.value || null })}
+          className={inputClass}
+        >
+          <option value="">Uniform</option>
+          {numericAttributes.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+      </div>
+
+      {encoding.attribute ? (
+        <>
+          <div>
+            <label className={labelClass}>Scale</label>
+            <select
+              value={encoding.scale}
+              onChange={(e) => onChange({ scale: e.target.value as SizeScale })}
+              className={inputClass}
+            >
+              {SIZE_SCALES.map(scale => <option key={scale.id} value={scale.id}>{scale.name}</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Min px</label>
+              <input
+                type="number"
+                min={0.5}
+                max={MAX_PIXELS}
+                step={0.5}
+                value={encoding.minPixels}
+                onChange={(e) => onChange({ minPixels: clampPixels(Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Max px</label>
+              <input
+                type="number"
+                min={0.5}
+                max={MAX_PIXELS}
+                step={0.5}
+                value={encoding.maxPixels}
+                onChange={(e) => onChange({ maxPixels: clampPixels(Number(e.target.value)) })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </>
+      ) : (
+        <div>
+          <div className="flex justify-between">
+            <label className={labelClass}>Marker Size</label>
+            <span className="text-[10px] font-mono text-slate-500">{encoding.basePixels}px</span>
+          </div>
+          <input
+            type="range"
+            min={1}
+            max={24}
+            step={0.5}
+            value={encoding.basePixels}
+            onChange={(e) => onChange({ basePixels: Number(e.target.value) })}
+            className="w-full accent-blue-500"
+          />
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={encoding.attenuate}
+          onChange={(e) => onChange({ attenuate: e.target.checked })}
+          className="accent-blue-500"
+        />
+        Shrink with distance
+      </label>
+    </div>
+  );
+};
+
+export default SizeEncodingPanel;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { SizeEncoding } from '../types';
+import { createSizeScale } from '../services/sizeScale';
+import { formatNumber } from '../services/axes';
+
+interface SizeLegendProps {
+  encoding: SizeEncoding;
+  extent: [number, number];
+}
+
+/** Sample markers for the low end, middle and high end of the size attribute. */
+const SizeLegend: React.FC<SizeLegendProps> = ({ encoding, extent }) => {
+  const [min, max] = extent;
+  const scale = createSizeScale(encoding, extent);
+  // Log scales sample the geometric middle so the samples look evenly spaced
+  const middle = encoding.scale === 'log' && min > 0 ? Math.sqrt(min * max) : (min + max) / 2;
+  const samples = min === max ? [min] : [min, middle, max];
+  const largest = Math.max(...samples.map(scale));
+
+  return (
+    <div className="bg-slate-900/70 backdrop-blur-md p-3 rounded-xl border border-white/10 shadow-lg w-64 pointer-events-none">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">{encoding.attribute}</span>
+        <span className="text-[9px] font-mono text-slate-500">
+          {encoding.scale}{encoding.attenuate ? '' : ' · fixed px'}
+        </span>
+      </div>
+      <div className="flex items-end justify-around">
+        {samples.map((value, i) => (
+          <div key={i} className="flex flex-col items-center gap-1">
+            <div className="flex items-center justify-center" style={{ height: largest }}>
+              <div className="rounded-full bg-slate-300" style={{ width: scale(value), height: scale(value) }} />
+            </div>
+            <span className="text-[9px] font-mono text-slate-400">{formatNumber(value)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SizeLegend;
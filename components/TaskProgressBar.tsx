@@ -0,0 +1,34 @@
+import React from 'react';
+import { TaskProgress } from '../types';
+
+interface TaskProgressBarProps {
+  progress: TaskProgress;
+  onCancel: () => void;
+}
+
+/** Stage, counter and bar for a computation running in a worker, with a stop button. */
+const TaskProgressBar: React.FC<TaskProgressBarProps> = ({ progress, onCancel }) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between text-[10px] text-slate-400">
+      <span className="flex items-center gap-2">
+        <i className="fa-solid fa-circle-notch fa-spin text-blue-400"></i>
+        {progress.stage}
+      </span>
+      <span className="font-mono">{progress.done.toLocaleString()} / {progress.total.toLocaleString()}</span>
+    </div>
+    <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+      <div
+        className="h-full bg-blue-500 transition-all duration-150"
+        style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+      />
+    </div>
+    <button
+      onClick={onCancel}
+      className="w-full py-1.5 rounded-lg bg-slate-800 border border-slate-700 text-slate-400 hover:text-red-400 text-xs transition-colors"
+    >
+      Stop
+    </button>
+  </div>
+);
+
+export default TaskProgressBar;
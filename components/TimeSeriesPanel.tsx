@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ImageExportSettings, PointDataset, TimeSeriesSettings } from '../types';
+import { getNumericAttributes, ID_CATEGORY, ID_METADATA } from '../services/dataset';
+import { DEFAULT_IMAGE_EXPORT, EXPORT_HEIGHTS } from '../services/imageExport';
+import { Trajectories } from '../services/timeSeries';
+import { formatNumber } from '../services/axes';
+
+interface TimeSeriesPanelProps {
+  dataset: PointDataset;
+  settings: TimeSeriesSettings;
+  trajectories: Trajectories | null;
+  onChange: (updates: Partial<TimeSeriesSettings>) => void;
+  onExportFrames: (settings: ImageExportSettings, frames: number, onProgress: (done: number) => void) => Promise<void>;
+}
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded-lg px-2 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-blue-500';
+const labelClass = 'text-[10px] text-slate-500 block mb-1 font-bold uppercase';
+const buttonClass = 'flex-grow p-2 rounded border text-xs bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white disabled:opacity-40 transition-colors';
+
+const MAX_FRAMES = 600;
+
+const TimeSeriesPanel: React.FC<TimeSeriesPanelProps> = ({ dataset, settings, trajectories, onChange, onExportFrames }) => {
+  const [frames, setFrames] = useState(120);
+  const [height, setHeight] = useState(1080);
+  const [done, setDone] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const numeric = getNumericAttributes(dataset);
+  const mapped = settings.idColumn !== null && settings.timeColumn !== null;
+
+  const exportFrames = async () => {
+    setDone(0);
+    setError(null);
+    try {
+      // Frames keep the viewport's shape so the sequence matches what is on screen
+      await onExportFrames({ ...DEFAULT_IMAGE_EXPORT, height, aspect: null }, frames, setDone);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setDone(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className={labelClass}>Entity Id</label>
+          <select
+            value={settings.idColumn ?? ''}
+            onChange={(e) => onChange({ idColumn: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            <option value={ID_CATEGORY}>Category</option>
+            <option value={ID_METADATA}>Metadata</option>
+            {Object.keys(dataset.attributes).map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Time</label>
+          <select
+            value={settings.timeColumn ?? ''}
+            onChange={(e) => onChange({ timeColumn: e.target.value || null })}
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {numeric.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {numeric.length === 0 && <p className="text-[10px] text-slate-600">Playback needs a numeric time column.</p>}
+      {mapped && !trajectories && <p className="text-[10px] text-amber-400">No point has both an id and a time.</p>}
+      {trajectories && (
+        <p className="text-[10px] text-slate-500">
+          {trajectories.entityCount.toLocaleString()} entities from {formatNumber(trajectories.range[0])} to {formatNumber(trajectories.range[1])}
+        </p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.trails}
+            onChange={(e) => onChange({ trails: e.target.checked })}
+            className="accent-blue-500"
+          />
+          Trails
+        </label>
+        <input
+          type="number"
+          min={1}
+          max={1000}
+          value={settings.trailLength}
+          disabled={!settings.trails}
+          onChange={(e) => onChange({ trailLength: Math.min(1000, Math.max(1, Math.round(Number(e.target.value)) || 1)) })}
+          className={`${inputClass} w-20 disabled:opacity-40`}
+          title="Observations each trail reaches back"
+        />
+        <span className="text-[10px] text-slate-600">steps</span>
+      </div>
+
+      {trajectories && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Frames</label>
+              <input
+                type="number"
+                min={2}
+                max={MAX_FRAMES}
+                value={frames}
+                onChange={(e) => setFrames(Math.min(MAX_FRAMES, Math.max(2, Math.round(Number(e.target.value)) || 2)))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Resolution</label>
+              <select value={height} onChange={(e) => setHeight(Number(e.target.value))} className={inputClass}>
+                {EXPORT_HEIGHTS.map(h => <option key={h.id} value={h.id}>{h.name}</option>)}
+              </select>
+            </div>
+          </div>
+          <button onClick={exportFrames} disabled={done !== null} className={`${buttonClass} w-full`}>
+            <i className="fa-solid fa-film mr-1"></i>
+            {done !== null ? ` Rendering ${done} / ${frames}` : ' Export PNG Frames'}
+          </button>
+        </>
+      )}
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default TimeSeriesPanel;
@@ -0,0 +1,57 @@
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { CategoryStyle, PointDataset } from '../types';
+import { PlaybackFrame, trailSegments, Trajectories } from '../services/timeSeries';
+import { BACKGROUND_COLOR } from '../services/imageExport';
+
+interface TrailsProps {
+  dataset: PointDataset;
+  trajectories: Trajectories;
+  // World-space positions of every observation
+  positions: Float32Array;
+  frame: PlaybackFrame;
+  length: number;
+  categoryStyles: Record<string, CategoryStyle>;
+  // Points removed by hide, isolate or a filter, regardless of playback
+  hiddenMask: Uint8Array | null;
+}
+
+/** Each shown entity's recent path, fading into the background with age. */
+const Trails: React.FC<TrailsProps> = ({ dataset, trajectories, positions, frame, length, categoryStyles, hiddenMask }) => {
+  const geometry = useMemo(() => {
+    const visibleCategory = dataset.labels.map(label => categoryStyles[label]?.visible !== false);
+    const { vertices, fades, owners } = trailSegments(
+      trajectories,
+      positions,
+      frame,
+      length,
+      (i) => visibleCategory[dataset.labelIndices[i]] && !hiddenMask?.[i]
+    );
+
+    const background = new THREE.Color(BACKGROUND_COLOR);
+    const base = dataset.labels.map(label => new THREE.Color(categoryStyles[label]?.color ?? '#ffffff'));
+    const color = new THREE.Color();
+    const colors = new Float32Array(vertices.length);
+    for (let v = 0; v < fades.length; v++) {
+      color.copy(base[dataset.labelIndices[owners[v >> 1]]]).lerp(background, fades[v]);
+      colors[v * 3] = color.r;
+      colors[v * 3 + 1] = color.g;
+      colors[v * 3 + 2] = color.b;
+    }
+
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(vertices, 3));
+    g.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return g;
+  }, [dataset, trajectories, positions, frame, length, categoryStyles, hiddenMask]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry} raycast={() => null}>
+      <lineBasicMaterial vertexColors />
+    </lineSegments>
+  );
+};
+
+export default Trails;
@@ -0,0 +1,199 @@
+import { AxisScale, PointDataset } from '../types';
+
+// Edge length of the world box the data is fitted into
+export const WORLD_SIZE = 24;
+
+export const AXIS_SCALES: { id: AxisScale; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'log', name: 'Log' },
+  { id: 'normalized', name: 'Min-max' },
+];
+
+export const DEFAULT_AXIS_SCALES: [AxisScale, AxisScale, AxisScale] = ['linear', 'linear', 'linear'];
+
+/**
+ * Maps one raw coordinate to world space: world = (f(raw) - offset) * factor,
+ * where f is log10 for log axes and the identity otherwise.
+ */
+export interface AxisTransform {
+  // Scale actually applied; log falls back to linear without positive values
+  scale: AxisScale;
+  // Raw extent of the axis
+  domain: [number, number];
+  // Smallest positive raw value; log axes clamp anything below it to this
+  minPositive: number;
+  // Count of raw values a log axis had to clamp
+  clamped: number;
+  offset: number;
+  factor: number;
+}
+
+export interface SceneTransform {
+  axes: [AxisTransform, AxisTransform, AxisTransform];
+  // World-space box around the data, centred on the origin
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+const forward = (axis: AxisTransform, raw: number) =>
+  axis.scale === 'log' ? Math.log10(Math.max(raw, axis.minPositive)) : raw;
+
+export const toWorld = (axis: AxisTransform, raw: number) => (forward(axis, raw) - axis.offset) * axis.factor;
+
+export const toRaw = (axis: AxisTransform, world: number) => {
+  const value = world / axis.factor + axis.offset;
+  return axis.scale === 'log' ? Math.pow(10, value) : value;
+};
+
+/**
+ * Fits the dataset's bounding box into a WORLD_SIZE box centred on the
+ * origin. Linear axes share one factor so their proportions survive; log
+ * and min-max normalised axes each stretch over the full box edge.
+ */
+export const createSceneTransform = (dataset: PointDataset, scales: AxisScale[]): SceneTransform => {
+  const { positions, count } = dataset;
+  const stats = [0, 1, 2].map(a => {
+    let min = Infinity, max = -Infinity, minPositive = Infinity;
+    for (let i = 0; i < count; i++) {
+      const v = positions[i * 3 + a];
+      if (v < min) min = v;
+      if (v > max) max = v;
+      if (v > 0 && v < minPositive) minPositive = v;
+    }
+    if (!Number.isFinite(min)) min = max = 0;
+    return { min, max, minPositive };
+  });
+
+  const partial = stats.map((s, a) => {
+    const scale: AxisScale = scales[a] === 'log' && !Number.isFinite(s.minPositive) ? 'linear' : scales[a];
+    const low = scale === 'log' ? Math.log10(s.minPositive) : s.min;
+    const high = scale === 'log' ? Math.log10(Math.max(s.max, s.minPositive)) : s.max;
+    let clamped = 0;
+    if (scale === 'log') {
+      for (let i = 0; i < count; i++) if (!(positions[i * 3 + a] > 0)) clamped++;
+    }
+    return { scale, low, high, clamped, stats: s };
+  });
+
+  const linearSpan = Math.max(0, ...partial.filter(p => p.scale === 'linear').map(p => p.high - p.low));
+  const sharedFactor = linearSpan > 0 ? WORLD_SIZE / linearSpan : 1;
+
+  const axes = partial.map((p): AxisTransform => {
+    const span = p.high - p.low;
+    return {
+      scale: p.scale,
+      domain: [p.stats.min, p.stats.max],
+      minPositive: Number.isFinite(p.stats.minPositive) ? p.stats.minPositive : 1,
+      clamped: p.clamped,
+      offset: (p.low + p.high) / 2,
+      factor: p.scale === 'linear' ? sharedFactor : span > 0 ? WORLD_SIZE / span : 1,
+    };
+  }) as SceneTransform['axes'];
+
+  const half = axes.map((axis, a) => ((partial[a].high - partial[a].low) * axis.factor) / 2);
+  return {
+    axes,
+    min: [-half[0], -half[1], -half[2]],
+    max: [half[0], half[1], half[2]],
+  };
+};
+
+/** World-space positions for rendering; the dataset keeps the raw values. */
+export const transformPositions = (dataset: PointDataset, transform: SceneTransform): Float32Array => {
+  const out = new Float32Array(dataset.count * 3);
+  const { positions } = dataset;
+  for (let a = 0; a < 3; a++) {
+    const axis = transform.axes[a];
+    for (let i = 0; i < dataset.count; i++) out[i * 3 + a] = toWorld(axis, positions[i * 3 + a]);
+  }
+  return out;
+};
+
+/** Round tick values (1, 2 or 5 times a power of ten) covering [min, max]. */
+export const niceTicks = (min: number, max: number, target = 5): number[] => {
+  if (!Number.isFinite(min) || !Number.isFinite(max)) return [];
+  if (min === max) return [min];
+  const raw = (max - min) / target;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const step = [1, 2, 5, 10].map(m => m * magnitude).find(s => s >= raw)!;
+  const ticks: number[] = [];
+  for (let v = Math.ceil(min / step) * step; v <= max + step * 1e-9; v += step) {
+    // Snap away floating point noise such as 0.30000000000000004
+    ticks.push(Number(v.toPrecision(12)));
+  }
+  return ticks;
+};
+
+/** Powers of ten within [min, max], thinned out when there are many decades. */
+export const logTicks = (min: number, max: number, target = 6): number[] => {
+  // The tolerance keeps float32 data such as 0.001f from skipping its own decade
+  const low = Math.ceil(Math.log10(min) - 1e-6);
+  const high = Math.floor(Math.log10(max) + 1e-6);
+  if (high < low) return niceTicks(min, max, target);
+  const every = Math.max(1, Math.ceil((high - low + 1) / target));
+  const ticks: number[] = [];
+  for (let e = low; e <= high; e += every) ticks.push(Math.pow(10, e));
+  return ticks;
+};
+
+export const axisTicks = (axis: AxisTransform): number[] =>
+  axis.scale === 'log'
+    ? logTicks(axis.minPositive, Math.max(axis.domain[1], axis.minPositive))
+    : niceTicks(axis.domain[0], axis.domain[1]);
+
+export const AXIS_COLORS = ['#ef4444', '#22c55e', '#3b82f6'];
+export const AXIS_TICK_LENGTH = 0.3;
+export const AXIS_LABEL_OFFSET = 0.9;
+// Label heights in world units
+export const AXIS_TICK_FONT = 0.45;
+export const AXIS_NAME_FONT = 0.7;
+export const SCALE_SUFFIX: Record<AxisScale, string> = { linear: '', log: ' (log)', normalized: ' (min-max)' };
+
+// For each axis, the direction its tick marks and labels are pushed away from the box
+export const AXIS_OUTWARD: [number, number, number][] = [[0, -1, 0], [-1, 0, 0], [0, -1, 0]];
+
+export interface AxisTick {
+  value: number;
+  // World position on the axis line along the box's minimum edge
+  position: [number, number, number];
+}
+
+/** Ticks of each axis that fall within the world box. */
+export const worldTicks = (transform: SceneTransform): AxisTick[][] => {
+  const { axes, min, max } = transform;
+  return axes.map((axis, a) => axisTicks(axis).map(value => {
+    const position: [number, number, number] = [...min];
+    position[a] = toWorld(axis, value);
+    return { value, position };
+  }).filter(t => t.position[a] >= min[a] - 1e-6 && t.position[a] <= max[a] + 1e-6));
+};
+
+/**
+ * Line segments of the axes and their tick marks, as pairs of world
+ * positions, with the axis each segment belongs to.
+ */
+export const axisSegments = (transform: SceneTransform, ticks = worldTicks(transform)) => {
+  const { axes, min, max } = transform;
+  const vertices: number[] = [];
+  const segmentAxes: number[] = [];
+  const segment = (a: number, from: number[], to: number[]) => {
+    vertices.push(...from, ...to);
+    segmentAxes.push(a);
+  };
+  axes.forEach((_, a) => {
+    const end = [...min];
+    end[a] = max[a];
+    segment(a, min, end);
+    ticks[a].forEach(({ position }) => {
+      segment(a, position, position.map((v, k) => v + AXIS_OUTWARD[a][k] * AXIS_TICK_LENGTH));
+    });
+  });
+  return { vertices, axes: segmentAxes };
+};
+
+/** Short labels for ticks and legends: exponents for very large or small values. */
+export const formatNumber = (value: number) => {
+  const abs = Math.abs(value);
+  if (abs !== 0 && (abs >= 1e5 || abs < 1e-3)) return value.toExponential(1);
+  return String(Number(value.toPrecision(4)));
+};
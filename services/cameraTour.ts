@@ -0,0 +1,115 @@
+import { CameraBookmark, CameraPose, Easing, TourStop } from '../types';
+
+export const EASINGS: { id: Easing; name: string }[] = [
+  { id: 'easeInOut', name: 'Ease In-Out' },
+  { id: 'easeIn', name: 'Ease In' },
+  { id: 'easeOut', name: 'Ease Out' },
+  { id: 'linear', name: 'Linear' },
+];
+
+// Length of the flight to a single bookmark
+export const FLIGHT_SECONDS = 1.5;
+
+export const TOUR_FPS = [24, 30, 60];
+// Longest frame sequence a tour records, e.g. two minutes at 30 fps
+export const MAX_TOUR_FRAMES = 3600;
+
+export const createBookmarkId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** First "View N" name not taken yet. */
+export const nextBookmarkName = (bookmarks: CameraBookmark[]) => {
+  const names = new Set(bookmarks.map(b => b.name));
+  let n = bookmarks.length + 1;
+  while (names.has(`View ${n}`)) n++;
+  return `View ${n}`;
+};
+
+export const createTourStop = (bookmarkId: string): TourStop => ({ bookmarkId, duration: 3, hold: 1, easing: 'easeInOut' });
+
+const ease = (easing: Easing, t: number) => {
+  switch (easing) {
+    case 'easeIn': return t * t * t;
+    case 'easeOut': return 1 - (1 - t) ** 3;
+    case 'easeInOut': return t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2;
+    default: return t;
+  }
+};
+
+interface PathKey {
+  pose: CameraPose;
+  // Seconds from the start of the path at which the camera reaches pose
+  at: number;
+  // Easing of the move from the previous key
+  easing: Easing;
+}
+
+/** Poses the camera passes through over time, starting where it stands. */
+export interface CameraPath {
+  keys: PathKey[];
+  duration: number;
+}
+
+/** A flight from one pose to another. */
+export const flightPath = (from: CameraPose, to: CameraPose, seconds = FLIGHT_SECONDS): CameraPath => ({
+  keys: [{ pose: from, at: 0, easing: 'linear' }, { pose: to, at: seconds, easing: 'easeInOut' }],
+  duration: seconds,
+});
+
+/** A tour from the current pose through every stop whose bookmark still exists. */
+export const tourPath = (from: CameraPose, stops: TourStop[], bookmarks: CameraBookmark[]): CameraPath => {
+  const keys: PathKey[] = [{ pose: from, at: 0, easing: 'linear' }];
+  let at = 0;
+  stops.forEach(stop => {
+    const bookmark = bookmarks.find(b => b.id === stop.bookmarkId);
+    if (!bookmark) return;
+    at += Math.max(0, stop.duration);
+    keys.push({ pose: bookmark.pose, at, easing: stop.easing });
+    if (stop.hold > 0) {
+      at += stop.hold;
+      keys.push({ pose: bookmark.pose, at, easing: 'linear' });
+    }
+  });
+  return { keys, duration: at };
+};
+
+// Position relative to the target as radius, azimuth around y and polar angle from y
+const toSpherical = (pose: CameraPose) => {
+  const [x, y, z] = pose.position.map((v, a) => v - pose.target[a]);
+  const radius = Math.hypot(x, y, z) || 1e-6;
+  return { radius, azimuth: Math.atan2(x, z), polar: Math.acos(Math.min(1, Math.max(-1, y / radius))) };
+};
+
+/**
+ * Moves the target in a straight line and swings the camera around it, so a
+ * flight to the far side of the data goes around the points rather than
+ * through them.
+ */
+const interpolate = (a: CameraPose, b: CameraPose, f: number): CameraPose => {
+  const from = toSpherical(a);
+  const to = toSpherical(b);
+  let turn = to.azimuth - from.azimuth;
+  if (turn > Math.PI) turn -= 2 * Math.PI;
+  if (turn < -Math.PI) turn += 2 * Math.PI;
+  const radius = from.radius * (to.radius / from.radius) ** f;
+  const azimuth = from.azimuth + turn * f;
+  const polar = from.polar + (to.polar - from.polar) * f;
+  const target = a.target.map((v, k) => v + (b.target[k] - v) * f) as [number, number, number];
+  return {
+    position: [
+      target[0] + radius * Math.sin(polar) * Math.sin(azimuth),
+      target[1] + radius * Math.cos(polar),
+      target[2] + radius * Math.sin(polar) * Math.cos(azimuth),
+    ],
+    target,
+  };
+};
+
+export const poseAt = (path: CameraPath, time: number): CameraPose => {
+  const { keys } = path;
+  const k = keys.findIndex(key => key.at > time);
+  if (k === -1) return keys[keys.length - 1].pose;
+  if (k === 0) return keys[0].pose;
+  const previous = keys[k - 1];
+  const next = keys[k];
+  return interpolate(previous.pose, next.pose, ease(next.easing, (time - previous.at) / (next.at - previous.at)));
+};
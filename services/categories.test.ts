@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyStyleSheet,
+  Categories,
+  categoryNameError,
+  createStyleSheet,
+  mergeCategories,
+  moveCategory,
+  parseStyleSheet,
+  renameCategory,
+  splitCategory,
+} from './categories';
+import { defaultCategoryStyles } from './labelSets';
+
+const styles = defaultCategoryStyles(['a', 'b', 'c']);
+
+const categories: Categories = {
+  labels: ['a', 'b', 'c'],
+  labelIndices: Uint32Array.of(0, 1, 2, 1, 0),
+  categoryStyles: styles,
+};
+
+// Each point's label, which is what the edits must keep consistent
+const pointLabels = ({ labels, labelIndices }: Categories) => Array.from(labelIndices, l => labels[l]);
+
+describe('categoryNameError', () => {
+  it('rejects empty and taken names but allows keeping the current one', () => {
+    expect(categoryNameError(categories.labels, '  ')).toBe('Category names cannot be empty.');
+    expect(categoryNameError(categories.labels, ' b ')).toBe('There is already a category called "b".');
+    expect(categoryNameError(categories.labels, 'b', 'b')).toBeNull();
+    expect(categoryNameError(categories.labels, 'd')).toBeNull();
+  });
+});
+
+describe('category edits', () => {
+  it('renames a category and carries its style over', () => {
+    const renamed = renameCategory(categories, 'b', ' beta ');
+    expect(renamed.labels).toEqual(['a', 'beta', 'c']);
+    expect(renamed.labelIndices).toBe(categories.labelIndices);
+    expect(renamed.categoryStyles).toEqual({ a: styles.a, beta: styles.b, c: styles.c });
+    expect(() => renameCategory(categories, 'b', 'c')).toThrow('There is already a category called "c".');
+  });
+
+  it('merges categories where the first of them sat, with its style', () => {
+    const merged = mergeCategories(categories, ['c', 'a'], 'ac');
+    expect(merged.labels).toEqual(['ac', 'b']);
+    expect(pointLabels(merged)).toEqual(['ac', 'b', 'ac', 'b', 'ac']);
+    expect(merged.categoryStyles).toEqual({ ac: styles.a, b: styles.b });
+  });
+
+  it('merges into an existing category of the target name and keeps its style', () => {
+    const merged = mergeCategories(categories, ['c'], 'b');
+    expect(merged.labels).toEqual(['a', 'b']);
+    expect(pointLabels(merged)).toEqual(['a', 'b', 'b', 'b', 'a']);
+    expect(merged.categoryStyles.b).toEqual(styles.b);
+    expect(mergeCategories(categories, ['z'], 'b')).toBe(categories);
+  });
+
+  it('splits points into a new category after their old one', () => {
+    const split = splitCategory(categories, [1], 'd');
+    expect(split.labels).toEqual(['a', 'b', 'd', 'c']);
+    expect(pointLabels(split)).toEqual(['a', 'd', 'c', 'b', 'a']);
+    expect(split.categoryStyles.d).toEqual(defaultCategoryStyles(split.labels).d);
+    expect(() => splitCategory(categories, [1], 'a')).toThrow('There is already a category called "a".');
+  });
+
+  it('drops a category the split leaves without points', () => {
+    const split = splitCategory(categories, [2], 'e');
+    expect(split.labels).toEqual(['a', 'b', 'e']);
+    expect(pointLabels(split)).toEqual(['a', 'b', 'e', 'b', 'a']);
+    expect(Object.keys(split.categoryStyles)).toEqual(['a', 'b', 'e']);
+  });
+
+  it('moves a category within the order without changing any point', () => {
+    const moved = moveCategory(categories, 'c', -1);
+    expect(moved.labels).toEqual(['a', 'c', 'b']);
+    expect(pointLabels(moved)).toEqual(pointLabels(categories));
+    expect(moveCategory(categories, 'a', -1)).toBe(categories);
+  });
+});
+
+describe('style sheets', () => {
+  it('round-trips the styles in category order', () => {
+    const sheet = createStyleSheet(categories.labels, styles);
+    expect(parseStyleSheet(JSON.stringify(sheet))).toEqual(sheet);
+    expect(sheet.categories.map(c => c.label)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('rejects files that are not style sheets', () => {
+    expect(() => parseStyleSheet('{')).toThrow('The file is not valid JSON.');
+    expect(() => parseStyleSheet('[]')).toThrow('The file is not a VoxNavigator style sheet.');
+    expect(() => parseStyleSheet('{"format":"voxnavigator-styles","categories":{}}')).toThrow('The file is not a VoxNavigator style sheet.');
+    expect(() => parseStyleSheet('{"format":"voxnavigator-styles","categories":[{"label":"a"},{"color":"#000000"}]}'))
+      .toThrow('Entry 2 of the style sheet has no category label.');
+  });
+
+  it('keeps only the valid fields of each entry', () => {
+    const sheet = parseStyleSheet(JSON.stringify({
+      format: 'voxnavigator-styles',
+      categories: [{ label: 'a', color: 'red', shape: 'star', size: -1, visible: false }, { label: 'b', color: '#00FF00', size: 2 }],
+    }));
+    expect(sheet.categories).toEqual([{ label: 'a', visible: false }, { label: 'b', color: '#00FF00', size: 2 }]);
+  });
+
+  it('applies matching styles and optionally moves them into the sheet order', () => {
+    const sheet = parseStyleSheet(JSON.stringify({
+      format: 'voxnavigator-styles',
+      categories: [{ label: 'c', shape: 'cross' }, { label: 'x', size: 3 }, { label: 'a', visible: false }],
+    }));
+    const styled = applyStyleSheet(categories, sheet, false);
+    expect(styled.matched).toBe(2);
+    expect(styled.categories.labels).toEqual(['a', 'b', 'c']);
+    expect(styled.categories.categoryStyles.c).toEqual({ ...styles.c, shape: 'cross' });
+    expect(styled.categories.categoryStyles.a).toEqual({ ...styles.a, visible: false });
+
+    const reordered = applyStyleSheet(categories, sheet, true).categories;
+    expect(reordered.labels).toEqual(['c', 'a', 'b']);
+    expect(pointLabels(reordered)).toEqual(pointLabels(categories));
+  });
+});
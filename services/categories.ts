@@ -0,0 +1,169 @@
+import { CategoryStyle, LabelSet } from '../types';
+import { defaultCategoryStyles, parseCategoryStyle } from './labelSets';
+import { asRecord } from './validation';
+
+/** The active labels: the dataset's labels and label indices along with their styles. */
+export type Categories = Omit<LabelSet, 'name'>;
+
+/** Why a category cannot be given this name, or null when it can. */
+export const categoryNameError = (labels: string[], name: string, current?: string): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Category names cannot be empty.';
+  if (trimmed !== current && labels.includes(trimmed)) return `There is already a category called "${trimmed}".`;
+  return null;
+};
+
+/**
+ * Gives every point the label labels[mapping[old label index]]. Labels
+ * nothing maps to are dropped and the rest keep the order of `labels`; -1
+ * drops a label no point has.
+ */
+const relabel = (categories: Categories, labels: string[], mapping: ArrayLike<number>, styles: Record<string, CategoryStyle>): Categories => {
+  const targets = new Set(Array.from(mapping));
+  const { labelIndices } = categories;
+  const kept = labels.filter((_, l) => targets.has(l));
+  const position = new Int32Array(labels.length).fill(-1);
+  kept.forEach((label, k) => { position[labels.indexOf(label)] = k; });
+
+  const next = new Uint32Array(labelIndices.length);
+  for (let i = 0; i < labelIndices.length; i++) next[i] = position[mapping[labelIndices[i]]];
+  const categoryStyles: Record<string, CategoryStyle> = {};
+  kept.forEach(label => { categoryStyles[label] = styles[label]; });
+  return { labels: kept, labelIndices: next, categoryStyles };
+};
+
+export const renameCategory = (categories: Categories, from: string, to: string): Categories => {
+  const name = to.trim();
+  const error = categoryNameError(categories.labels, name, from);
+  if (error) throw new Error(error);
+  if (!categories.labels.includes(from)) return categories;
+  const { [from]: style, ...others } = categories.categoryStyles;
+  return {
+    labels: categories.labels.map(label => (label === from ? name : label)),
+    labelIndices: categories.labelIndices,
+    categoryStyles: { ...others, [name]: style },
+  };
+};
+
+/**
+ * Puts every point of the sources, and of any category already called
+ * `target`, into one category with that name. It sits where the first of
+ * them did and keeps the existing category's style or else the first source's.
+ */
+export const mergeCategories = (categories: Categories, sources: string[], target: string): Categories => {
+  const name = target.trim();
+  if (!name) throw new Error('Category names cannot be empty.');
+  const { labels, categoryStyles } = categories;
+  const merged = new Set(sources);
+  const first = labels.findIndex(label => merged.has(label));
+  if (first < 0) return categories;
+  if (labels.includes(name) && !merged.has(name)) merged.add(name);
+
+  const into = labels.findIndex(label => merged.has(label));
+  const nextLabels = labels.map((label, l) => (l === into ? name : label));
+  const mapping = labels.map((label, l) => (merged.has(label) ? into : l));
+  const style = categoryStyles[name] ?? categoryStyles[labels[first]];
+  return relabel(categories, nextLabels, mapping, { ...categoryStyles, [name]: style });
+};
+
+/** Moves a category `offset` places up or down the order. */
+export const moveCategory = (categories: Categories, label: string, offset: number): Categories => {
+  const { labels } = categories;
+  const from = labels.indexOf(label);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= labels.length) return categories;
+  const order = [...labels];
+  order.splice(to, 0, ...order.splice(from, 1));
+  const mapping = labels.map(l => order.indexOf(l));
+  return relabel(categories, order, mapping, categories.categoryStyles);
+};
+
+/**
+ * Moves the given points into a new category placed after the one the first
+ * of them came from. Categories left without points are dropped.
+ */
+export const splitCategory = (categories: Categories, indices: ArrayLike<number>, name: string): Categories => {
+  const label = name.trim();
+  const error = categoryNameError(categories.labels, label);
+  if (error) throw new Error(error);
+  if (indices.length === 0) return categories;
+  const { labels, labelIndices, categoryStyles } = categories;
+
+  const after = labelIndices[indices[0]];
+  const withNew = [...labels.slice(0, after + 1), label, ...labels.slice(after + 1)];
+  const shifted = new Uint32Array(labelIndices.length);
+  for (let i = 0; i < labelIndices.length; i++) shifted[i] = labelIndices[i] > after ? labelIndices[i] + 1 : labelIndices[i];
+  for (let k = 0; k < indices.length; k++) shifted[indices[k]] = after + 1;
+
+  const used = new Uint8Array(withNew.length);
+  for (let i = 0; i < shifted.length; i++) used[shifted[i]] = 1;
+  const mapping = withNew.map((_, l) => (used[l] ? l : -1));
+
+  // The new category's default colour follows its position, like a fresh import's would
+  const style = defaultCategoryStyles(withNew)[label];
+  return relabel({ ...categories, labelIndices: shifted }, withNew, mapping, { ...categoryStyles, [label]: style });
+};
+
+/** Shows one category and hides the rest. */
+export const isolateCategory = (styles: Record<string, CategoryStyle>, label: string): Record<string, CategoryStyle> =>
+  Object.fromEntries(Object.entries(styles).map(([l, style]) => [l, { ...style, visible: l === label }]));
+
+export const invertVisibility = (styles: Record<string, CategoryStyle>): Record<string, CategoryStyle> =>
+  Object.fromEntries(Object.entries(styles).map(([l, style]) => [l, { ...style, visible: !style.visible }]));
+
+const STYLE_SHEET_FORMAT = 'voxnavigator-styles';
+
+/** Category styles by label, in category order, as saved to a file. A read sheet may lack some fields. */
+export interface StyleSheet {
+  format: typeof STYLE_SHEET_FORMAT;
+  version: 1;
+  categories: ({ label: string } & Partial<CategoryStyle>)[];
+}
+
+export const createStyleSheet = (labels: string[], styles: Record<string, CategoryStyle>): StyleSheet => ({
+  format: STYLE_SHEET_FORMAT,
+  version: 1,
+  categories: labels.filter(label => styles[label]).map(label => ({ label, ...styles[label] })),
+});
+
+/** Reads a style sheet file, keeping each entry's valid fields; throws when it is not one. */
+export const parseStyleSheet = (text: string): StyleSheet => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const raw = asRecord(parsed);
+  if (raw.format !== STYLE_SHEET_FORMAT || !Array.isArray(raw.categories)) {
+    throw new Error('The file is not a VoxNavigator style sheet.');
+  }
+  const categories = raw.categories.map((entry: unknown, i) => {
+    const { label } = asRecord(entry);
+    if (typeof label !== 'string') throw new Error(`Entry ${i + 1} of the style sheet has no category label.`);
+    return { label, ...parseCategoryStyle(entry) };
+  });
+  return { format: STYLE_SHEET_FORMAT, version: 1, categories };
+};
+
+/**
+ * Applies a sheet's styles to the categories with the same labels and, when
+ * `reorder` is set, moves them into the sheet's order ahead of the others.
+ * Also says how many of the sheet's labels matched.
+ */
+export const applyStyleSheet = (categories: Categories, sheet: StyleSheet, reorder: boolean): { categories: Categories; matched: number } => {
+  const categoryStyles = { ...categories.categoryStyles };
+  let matched = 0;
+  sheet.categories.forEach(({ label, ...style }) => {
+    if (!categoryStyles[label]) return;
+    matched++;
+    categoryStyles[label] = { ...categoryStyles[label], ...style };
+  });
+  const styled = { ...categories, categoryStyles };
+  if (!reorder || matched === 0) return { categories: styled, matched };
+
+  const listed = sheet.categories.map(c => c.label).filter(label => categories.labels.includes(label));
+  const order = [...new Set(listed), ...categories.labels.filter(label => !listed.includes(label))];
+  const mapping = categories.labels.map(label => order.indexOf(label));
+  return { categories: relabel(styled, order, mapping, categoryStyles), matched };
+};
@@ -0,0 +1,119 @@
+import { CategoryOverlays, PointDataset } from '../types';
+import { formatCSVRow } from './csvParser';
+import { symmetricEigen } from './reduction/pca';
+
+export const DEFAULT_CATEGORY_OVERLAYS: CategoryOverlays = { centroids: false, ellipsoids: false, sigma: 1, hulls: false };
+
+type Vector3 = [number, number, number];
+
+export interface CategoryStats {
+  label: string;
+  // Points counted; hidden points and those with a missing coordinate are left out
+  count: number;
+  mean: Vector3;
+  // Sample standard deviation, 0 for a single point
+  std: Vector3;
+  min: Vector3;
+  max: Vector3;
+  // Row-major 3×3 sample covariance
+  covariance: number[];
+}
+
+/**
+ * Count, centroid, spread and covariance of every category's points, in the
+ * units of the positions given. Categories without a counted point are left
+ * out. Two passes, so the covariance does not suffer from cancellation far
+ * from the origin.
+ */
+export const categoryStatistics = (
+  dataset: PointDataset,
+  positions: Float32Array,
+  hiddenMask: Uint8Array | null
+): CategoryStats[] => {
+  const { labels, labelIndices, count } = dataset;
+  const n = labels.length;
+  const counts = new Float64Array(n);
+  const sums = new Float64Array(n * 3);
+  const mins = new Float64Array(n * 3).fill(Infinity);
+  const maxs = new Float64Array(n * 3).fill(-Infinity);
+  const counted = (i: number) =>
+    !hiddenMask?.[i] && !Number.isNaN(positions[i * 3]) && !Number.isNaN(positions[i * 3 + 1]) && !Number.isNaN(positions[i * 3 + 2]);
+
+  for (let i = 0; i < count; i++) {
+    if (!counted(i)) continue;
+    const l = labelIndices[i];
+    counts[l]++;
+    for (let a = 0; a < 3; a++) {
+      const v = positions[i * 3 + a];
+      sums[l * 3 + a] += v;
+      if (v < mins[l * 3 + a]) mins[l * 3 + a] = v;
+      if (v > maxs[l * 3 + a]) maxs[l * 3 + a] = v;
+    }
+  }
+
+  const means = sums.map((s, k) => s / (counts[Math.floor(k / 3)] || 1));
+  const products = new Float64Array(n * 9);
+  for (let i = 0; i < count; i++) {
+    if (!counted(i)) continue;
+    const l = labelIndices[i];
+    const d = [0, 1, 2].map(a => positions[i * 3 + a] - means[l * 3 + a]);
+    for (let r = 0; r < 3; r++) {
+      for (let c = r; c < 3; c++) products[l * 9 + r * 3 + c] += d[r] * d[c];
+    }
+  }
+
+  const stats: CategoryStats[] = [];
+  labels.forEach((label, l) => {
+    if (counts[l] === 0) return;
+    const divisor = counts[l] > 1 ? counts[l] - 1 : 1;
+    const covariance = new Array<number>(9);
+    for (let r = 0; r < 3; r++) {
+      for (let c = r; c < 3; c++) covariance[r * 3 + c] = covariance[c * 3 + r] = products[l * 9 + r * 3 + c] / divisor;
+    }
+    const pick = (values: Float64Array) => [values[l * 3], values[l * 3 + 1], values[l * 3 + 2]] as Vector3;
+    stats.push({
+      label,
+      count: counts[l],
+      mean: pick(means),
+      std: [0, 4, 8].map(k => Math.sqrt(covariance[k])) as Vector3,
+      min: pick(mins),
+      max: pick(maxs),
+      covariance,
+    });
+  });
+  return stats;
+};
+
+/** Euclidean distances between the centroids, as a symmetric matrix in the order of stats. */
+export const centroidDistances = (stats: CategoryStats[]): number[][] =>
+  stats.map(a => stats.map(b => Math.hypot(a.mean[0] - b.mean[0], a.mean[1] - b.mean[1], a.mean[2] - b.mean[2])));
+
+/**
+ * Axes of a covariance ellipsoid: the eigenvalues of a symmetric 3×3 matrix,
+ * largest first, and their unit eigenvectors as a right-handed basis.
+ */
+export const principalAxes = (matrix: number[]): { values: Vector3; vectors: [Vector3, Vector3, Vector3] } => {
+  // The solver stops at a fixed off-diagonal size, so it works on the matrix scaled to unit entries
+  const scale = Math.max(...matrix.map(Math.abs)) || 1;
+  const eigen = symmetricEigen(Float64Array.from(matrix, v => v / scale), 3);
+  const vectors = eigen.vectors as [Vector3, Vector3, Vector3];
+  const [x, y, z] = vectors;
+  const determinant = x[0] * (y[1] * z[2] - y[2] * z[1]) - x[1] * (y[0] * z[2] - y[2] * z[0]) + x[2] * (y[0] * z[1] - y[1] * z[0]);
+  if (determinant < 0) vectors[2] = z.map(c => -c) as Vector3;
+  return { values: eigen.values.map(v => v * scale) as Vector3, vectors };
+};
+
+/** Every category's statistics and its distance to each other centroid, one row per category. */
+export const categoryStatsToCSV = (stats: CategoryStats[], axisNames: string[]): string => {
+  const distances = centroidDistances(stats);
+  const per = (prefix: string) => axisNames.map(name => `${prefix} ${name}`);
+  const header = [
+    'label', 'count', ...per('mean'), ...per('std'), ...per('min'), ...per('max'),
+    ...stats.map(s => `distance to ${s.label}`),
+  ];
+  const lines = [formatCSVRow(header)];
+  stats.forEach((s, k) => {
+    lines.push(formatCSVRow([s.label, s.count, ...s.mean, ...s.std, ...s.min, ...s.max, ...distances[k]].map(String)));
+  });
+  return lines.join('\r\n');
+};
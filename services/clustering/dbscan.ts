@@ -0,0 +1,138 @@
+import { Random } from '../reduction/random';
+
+export const NOISE = -1;
+const UNVISITED = -2;
+// Points sampled when estimating eps
+const EPS_SAMPLE = 500;
+
+const distanceSquared = (data: Float32Array, a: number, b: number, dims: number) => {
+  let d = 0;
+  for (let c = 0; c < dims; c++) {
+    const diff = data[a * dims + c] - data[b * dims + c];
+    d += diff * diff;
+  }
+  return d;
+};
+
+/**
+ * Neighbourhood queries within eps. Up to three dimensions a uniform grid
+ * with eps-sized cells limits each query to the surrounding cells; wider
+ * inputs fall back to scanning every point.
+ */
+const createRegionQuery = (data: Float32Array, rows: number, dims: number, eps: number) => {
+  const eps2 = eps * eps;
+  if (dims > 3) {
+    return (i: number) => {
+      const found: number[] = [];
+      for (let j = 0; j < rows; j++) if (distanceSquared(data, i, j, dims) <= eps2) found.push(j);
+      return found;
+    };
+  }
+
+  const cellOf = (i: number, c: number) => (c < dims ? Math.floor(data[i * dims + c] / eps) : 0);
+  const key = (x: number, y: number, z: number) => `${x},${y},${z}`;
+  const cells = new Map<string, number[]>();
+  for (let i = 0; i < rows; i++) {
+    const k = key(cellOf(i, 0), cellOf(i, 1), cellOf(i, 2));
+    const cell = cells.get(k);
+    if (cell) cell.push(i);
+    else cells.set(k, [i]);
+  }
+  const reach = [0, 1, 2].map(c => (c < dims ? 1 : 0));
+
+  return (i: number) => {
+    const found: number[] = [];
+    const cx = cellOf(i, 0), cy = cellOf(i, 1), cz = cellOf(i, 2);
+    for (let x = cx - reach[0]; x <= cx + reach[0]; x++) {
+      for (let y = cy - reach[1]; y <= cy + reach[1]; y++) {
+        for (let z = cz - reach[2]; z <= cz + reach[2]; z++) {
+          const cell = cells.get(key(x, y, z));
+          if (!cell) continue;
+          for (const j of cell) if (distanceSquared(data, i, j, dims) <= eps2) found.push(j);
+        }
+      }
+    }
+    return found;
+  };
+};
+
+/**
+ * Estimates eps from the distances of a sample of points to their
+ * minPoints-th nearest neighbour: the radius at which nine in ten points
+ * would be core points, leaving the sparsest tenth to the cluster edges and noise.
+ */
+export const estimateEps = (data: Float32Array, rows: number, dims: number, minPoints: number, random: Random) => {
+  const k = Math.max(1, Math.min(minPoints, rows - 1));
+  const sample = Math.min(EPS_SAMPLE, rows);
+  const kth: number[] = [];
+  const nearest = new Float64Array(k);
+
+  for (let s = 0; s < sample; s++) {
+    const i = sample === rows ? s : random.integer(rows);
+    nearest.fill(Infinity);
+    for (let j = 0; j < rows; j++) {
+      if (j === i) continue;
+      const d = distanceSquared(data, i, j, dims);
+      if (d >= nearest[k - 1]) continue;
+      let slot = k - 1;
+      while (slot > 0 && nearest[slot - 1] > d) {
+        nearest[slot] = nearest[slot - 1];
+        slot--;
+      }
+      nearest[slot] = d;
+    }
+    kth.push(Math.sqrt(nearest[k - 1]));
+  }
+
+  kth.sort((a, b) => a - b);
+  return kth[Math.floor(kth.length * 0.9)] || 1;
+};
+
+/**
+ * Density-based clustering: points with at least minPoints neighbours within
+ * eps (counting themselves) are core points, clusters grow through chains of
+ * core points, and everything unreachable is NOISE.
+ */
+export const dbscan = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  eps: number,
+  minPoints: number,
+  onProgress: (done: number, total: number) => void
+): Int32Array => {
+  const query = createRegionQuery(data, rows, dims, eps);
+  const assignments = new Int32Array(rows).fill(UNVISITED);
+  let cluster = 0;
+  let visited = 0;
+
+  for (let i = 0; i < rows; i++) {
+    if (assignments[i] !== UNVISITED) continue;
+    const neighbours = query(i);
+    visited++;
+    if (neighbours.length < minPoints) {
+      assignments[i] = NOISE;
+      continue;
+    }
+
+    assignments[i] = cluster;
+    const queue = neighbours;
+    for (let q = 0; q < queue.length; q++) {
+      const j = queue[q];
+      // Border points first marked as noise join the cluster but do not expand it
+      if (assignments[j] === NOISE) assignments[j] = cluster;
+      if (assignments[j] !== UNVISITED) continue;
+      assignments[j] = cluster;
+      visited++;
+      const reachable = query(j);
+      if (reachable.length >= minPoints) {
+        for (const r of reachable) if (assignments[r] === UNVISITED || assignments[r] === NOISE) queue.push(r);
+      }
+      if ((visited & 1023) === 0) onProgress(visited, rows);
+    }
+    cluster++;
+    onProgress(visited, rows);
+  }
+
+  return assignments;
+};
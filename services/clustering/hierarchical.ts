@@ -0,0 +1,114 @@
+import { Linkage } from '../../types';
+
+// The condensed distance matrix holds n(n - 1)/2 floats: about 50 MB here
+export const MAX_HIERARCHICAL_POINTS = 5000;
+
+/**
+ * Agglomerative clustering cut into k clusters. Uses the nearest-neighbour
+ * chain algorithm over a condensed distance matrix, updated with the
+ * Lance-Williams formula for the linkage; ward works on squared distances.
+ */
+export const hierarchical = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  requested: number,
+  linkage: Linkage,
+  onProgress: (done: number, total: number) => void
+): Int32Array => {
+  if (rows > MAX_HIERARCHICAL_POINTS) {
+    throw new Error(`Hierarchical clustering is limited to ${MAX_HIERARCHICAL_POINTS.toLocaleString()} points; use k-means or DBSCAN.`);
+  }
+  const k = Math.max(1, Math.min(requested, rows));
+  const n = rows;
+  const index = (i: number, j: number) => {
+    const a = Math.min(i, j);
+    const b = Math.max(i, j);
+    return a * n - (a * (a + 1)) / 2 + b - a - 1;
+  };
+
+  const distances = new Float32Array((n * (n - 1)) / 2);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      let d = 0;
+      for (let c = 0; c < dims; c++) {
+        const diff = data[i * dims + c] - data[j * dims + c];
+        d += diff * diff;
+      }
+      distances[index(i, j)] = linkage === 'ward' ? d : Math.sqrt(d);
+    }
+  }
+
+  const sizes = new Int32Array(n).fill(1);
+  const active = new Uint8Array(n).fill(1);
+  const merges: { a: number; b: number; distance: number }[] = [];
+  const chain: number[] = [];
+
+  while (merges.length < n - 1) {
+    if (chain.length === 0) chain.push(active.indexOf(1));
+    const a = chain[chain.length - 1];
+    const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+    // Ties go to the previous chain element so the chain is guaranteed to close
+    let b = previous;
+    let best = previous >= 0 ? distances[index(a, previous)] : Infinity;
+    for (let j = 0; j < n; j++) {
+      if (!active[j] || j === a) continue;
+      const d = distances[index(a, j)];
+      if (d < best) {
+        best = d;
+        b = j;
+      }
+    }
+
+    if (b !== previous) {
+      chain.push(b);
+      continue;
+    }
+
+    chain.pop();
+    chain.pop();
+    merges.push({ a, b, distance: best });
+    const na = sizes[a], nb = sizes[b];
+    for (let j = 0; j < n; j++) {
+      if (!active[j] || j === a || j === b) continue;
+      const da = distances[index(a, j)];
+      const db = distances[index(b, j)];
+      let merged: number;
+      if (linkage === 'single') merged = Math.min(da, db);
+      else if (linkage === 'complete') merged = Math.max(da, db);
+      else if (linkage === 'average') merged = (na * da + nb * db) / (na + nb);
+      else {
+        const nj = sizes[j];
+        merged = ((na + nj) * da + (nb + nj) * db - nj * best) / (na + nb + nj);
+      }
+      // The merged cluster takes over b's slot
+      distances[index(b, j)] = merged;
+    }
+    active[a] = 0;
+    sizes[b] = na + nb;
+    if ((merges.length & 63) === 0) onProgress(merges.length, n - 1);
+  }
+  onProgress(n - 1, n - 1);
+
+  // Replaying the n - k cheapest merges leaves k clusters
+  merges.sort((x, y) => x.distance - y.distance);
+  const parent = Int32Array.from({ length: n }, (_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  for (let m = 0; m < n - k; m++) parent[find(merges[m].a)] = find(merges[m].b);
+
+  const roots = new Map<number, number>();
+  const assignments = new Int32Array(n);
+  for (let i = 0; i < n; i++) {
+    const root = find(i);
+    if (!roots.has(root)) roots.set(root, roots.size);
+    assignments[i] = roots.get(root)!;
+  }
+  return assignments;
+};
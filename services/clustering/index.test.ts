@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom } from '../reduction/random';
+import { DEFAULT_CLUSTERING, NOISE, runClustering } from './index';
+import { dbscan } from './dbscan';
+import { kMeans } from './kmeans';
+
+const CENTRES = [[0, 0], [10, 0], [0, 10]];
+const PER_BLOB = 40;
+
+// Three tight, well-separated blobs in the plane, listed blob by blob
+const blobs = () => {
+  const random = createRandom(7);
+  const data = new Float32Array(CENTRES.length * PER_BLOB * 2);
+  CENTRES.forEach(([cx, cy], b) => {
+    for (let i = 0; i < PER_BLOB; i++) {
+      data[(b * PER_BLOB + i) * 2] = cx + random.gaussian() * 0.5;
+      data[(b * PER_BLOB + i) * 2 + 1] = cy + random.gaussian() * 0.5;
+    }
+  });
+  return data;
+};
+
+const rows = CENTRES.length * PER_BLOB;
+const ignore = () => {};
+
+// Every blob in one cluster of its own, apart from any points left as noise
+const expectBlobs = (assignments: Int32Array) => {
+  const clusters = CENTRES.map((_, b) => new Set(assignments.subarray(b * PER_BLOB, (b + 1) * PER_BLOB).filter(c => c !== NOISE)));
+  clusters.forEach(cluster => expect(cluster.size).toBe(1));
+  expect(new Set(clusters.map(cluster => [...cluster][0])).size).toBe(CENTRES.length);
+};
+
+describe('kMeans', () => {
+  it('separates the blobs', () => {
+    expectBlobs(kMeans(blobs(), rows, 2, 3, createRandom(1), ignore));
+  });
+
+  it('never asks for more clusters than points', () => {
+    const assignments = kMeans(Float32Array.of(0, 0, 1, 1), 2, 2, 5, createRandom(1), ignore);
+    expect(new Set(assignments).size).toBe(2);
+  });
+});
+
+describe('dbscan', () => {
+  it('separates the blobs and marks isolated points as noise', () => {
+    const data = new Float32Array(rows * 2 + 2);
+    data.set(blobs());
+    data.set([50, 50], rows * 2);
+    const assignments = dbscan(data, rows + 1, 2, 1.5, 4, ignore);
+    expect(assignments.subarray(0, rows)).not.toContain(NOISE);
+    expectBlobs(assignments.subarray(0, rows));
+    expect(assignments[rows]).toBe(NOISE);
+  });
+
+  it('estimates eps when none is given', () => {
+    const result = runClustering({ data: blobs(), rows, dims: 2, names: ['x', 'y'] }, { ...DEFAULT_CLUSTERING, method: 'dbscan', eps: 0 }, ignore);
+    expect(result.name).toMatch(/^DBSCAN \(eps=[\d.]+, min \d+\)$/);
+    expectBlobs(result.assignments);
+  });
+});
+
+describe('runClustering', () => {
+  it('separates the blobs with hierarchical clustering', () => {
+    const result = runClustering({ data: blobs(), rows, dims: 2, names: ['x', 'y'] }, { ...DEFAULT_CLUSTERING, method: 'hierarchical', k: 3 }, ignore);
+    expectBlobs(result.assignments);
+    expect(result.name).toBe('Ward linkage (k=3)');
+  });
+});
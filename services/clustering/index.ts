@@ -0,0 +1,71 @@
+import { ClusteringMethod, ClusteringSettings, Linkage, TaskProgress } from '../../types';
+import { FeatureMatrix } from '../reduction/features';
+import { createRandom } from '../reduction/random';
+import { dbscan, estimateEps } from './dbscan';
+import { hierarchical } from './hierarchical';
+import { kMeans } from './kmeans';
+
+export { NOISE } from './dbscan';
+export { MAX_HIERARCHICAL_POINTS } from './hierarchical';
+
+export const CLUSTERING_METHODS: { id: ClusteringMethod; name: string }[] = [
+  { id: 'kmeans', name: 'k-means' },
+  { id: 'dbscan', name: 'DBSCAN' },
+  { id: 'hierarchical', name: 'Hierarchical' },
+];
+
+export const LINKAGES: { id: Linkage; name: string }[] = [
+  { id: 'ward', name: 'Ward' },
+  { id: 'average', name: 'Average' },
+  { id: 'complete', name: 'Complete' },
+  { id: 'single', name: 'Single' },
+];
+
+export const DEFAULT_CLUSTERING: ClusteringSettings = {
+  method: 'kmeans',
+  input: 'coordinates',
+  features: [],
+  standardize: true,
+  k: 5,
+  eps: 0,
+  minPoints: 5,
+  linkage: 'ward',
+  seed: 42,
+};
+
+export interface ClusteringResult {
+  // Cluster per point, NOISE for DBSCAN outliers
+  assignments: Int32Array;
+  // Describes the run, used as the label set name
+  name: string;
+}
+
+/** Runs the configured clustering synchronously; meant for a worker. */
+export const runClustering = (
+  matrix: FeatureMatrix,
+  settings: ClusteringSettings,
+  onProgress: (progress: TaskProgress) => void
+): ClusteringResult => {
+  const { data, rows, dims } = matrix;
+  const random = createRandom(settings.seed);
+  const progress = (stage: string) => (done: number, total: number) => onProgress({ stage, done, total });
+
+  if (settings.method === 'kmeans') {
+    const assignments = kMeans(data, rows, dims, settings.k, random, progress('Iterating'));
+    return { assignments, name: `k-means (k=${settings.k})` };
+  }
+
+  if (settings.method === 'dbscan') {
+    let eps = settings.eps;
+    if (!(eps > 0)) {
+      onProgress({ stage: 'Estimating eps', done: 0, total: 1 });
+      eps = estimateEps(data, rows, dims, settings.minPoints, random);
+    }
+    const assignments = dbscan(data, rows, dims, eps, settings.minPoints, progress('Expanding clusters'));
+    return { assignments, name: `DBSCAN (eps=${Number(eps.toPrecision(3))}, min ${settings.minPoints})` };
+  }
+
+  const assignments = hierarchical(data, rows, dims, settings.k, settings.linkage, progress('Merging'));
+  const linkage = LINKAGES.find(l => l.id === settings.linkage)!.name;
+  return { assignments, name: `${linkage} linkage (k=${settings.k})` };
+};
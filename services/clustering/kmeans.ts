@@ -0,0 +1,97 @@
+import { Random } from '../reduction/random';
+
+const MAX_ITERATIONS = 300;
+
+const squaredDistance = (data: Float32Array, row: number, centres: Float64Array, centre: number, dims: number) => {
+  let d = 0;
+  for (let c = 0; c < dims; c++) {
+    const diff = data[row * dims + c] - centres[centre * dims + c];
+    d += diff * diff;
+  }
+  return d;
+};
+
+/**
+ * Lloyd's k-means with k-means++ seeding. Iterates until no point changes
+ * cluster; a cluster that empties is reseeded with the point farthest from
+ * its centre.
+ */
+export const kMeans = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  requested: number,
+  random: Random,
+  onProgress: (done: number, total: number) => void
+): Int32Array => {
+  const k = Math.max(1, Math.min(requested, rows));
+  const centres = new Float64Array(k * dims);
+  const setCentre = (centre: number, row: number) => {
+    for (let c = 0; c < dims; c++) centres[centre * dims + c] = data[row * dims + c];
+  };
+
+  // k-means++: each further centre is drawn with probability proportional to D²
+  const nearest = new Float64Array(rows).fill(Infinity);
+  setCentre(0, random.integer(rows));
+  for (let centre = 1; centre < k; centre++) {
+    let total = 0;
+    for (let i = 0; i < rows; i++) {
+      nearest[i] = Math.min(nearest[i], squaredDistance(data, i, centres, centre - 1, dims));
+      total += nearest[i];
+    }
+    let target = random.next() * total;
+    let pick = rows - 1;
+    for (let i = 0; i < rows; i++) {
+      target -= nearest[i];
+      if (target <= 0) {
+        pick = i;
+        break;
+      }
+    }
+    setCentre(centre, pick);
+  }
+
+  const assignments = new Int32Array(rows).fill(-1);
+  const distances = new Float64Array(rows);
+  const sizes = new Int32Array(k);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = 0;
+    for (let i = 0; i < rows; i++) {
+      let best = 0;
+      let bestDistance = Infinity;
+      for (let centre = 0; centre < k; centre++) {
+        const d = squaredDistance(data, i, centres, centre, dims);
+        if (d < bestDistance) {
+          bestDistance = d;
+          best = centre;
+        }
+      }
+      if (assignments[i] !== best) changed++;
+      assignments[i] = best;
+      distances[i] = bestDistance;
+    }
+    onProgress(iteration + 1, MAX_ITERATIONS);
+    if (changed === 0) break;
+
+    centres.fill(0);
+    sizes.fill(0);
+    for (let i = 0; i < rows; i++) {
+      const centre = assignments[i];
+      sizes[centre]++;
+      for (let c = 0; c < dims; c++) centres[centre * dims + c] += data[i * dims + c];
+    }
+    for (let centre = 0; centre < k; centre++) {
+      if (sizes[centre] > 0) {
+        for (let c = 0; c < dims; c++) centres[centre * dims + c] /= sizes[centre];
+        continue;
+      }
+      let farthest = 0;
+      for (let i = 1; i < rows; i++) if (distances[i] > distances[farthest]) farthest = i;
+      setCentre(centre, farthest);
+      distances[farthest] = 0;
+    }
+  }
+
+  return assignments;
+};
@@ -0,0 +1,55 @@
+import { ClusteringSettings, TaskProgress } from '../types';
+import { ClusteringResult } from './clustering';
+import { FeatureMatrix } from './reduction';
+
+export type ClusteringWorkerRequest = { matrix: FeatureMatrix; settings: ClusteringSettings };
+
+export type ClusteringWorkerResponse =
+  | { type: 'progress'; progress: TaskProgress }
+  | { type: 'done'; result: ClusteringResult }
+  | { type: 'error'; message: string };
+
+export interface ClusteringTask {
+  // Resolves to null when the clustering was cancelled
+  promise: Promise<ClusteringResult | null>;
+  cancel: () => void;
+}
+
+/** Runs a clustering in a dedicated worker; cancelling terminates it. */
+export const startClustering = (
+  matrix: FeatureMatrix,
+  settings: ClusteringSettings,
+  onProgress: (progress: TaskProgress) => void
+): ClusteringTask => {
+  const worker = new Worker(new URL('../workers/clusteringWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: ClusteringResult | null) => void = () => {};
+
+  const promise = new Promise<ClusteringResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<ClusteringWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Clustering worker failed'));
+    };
+  });
+
+  const request: ClusteringWorkerRequest = { matrix, settings };
+  worker.postMessage(request, [matrix.data.buffer]);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
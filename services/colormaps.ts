@@ -0,0 +1,100 @@
+import { ColorEncoding, ColormapName } from '../types';
+
+/** Evenly spaced sRGB stops, sampled from the matplotlib definitions. */
+const COLORMAP_STOPS: Record<Exclude<ColormapName, 'custom'>, string[]> = {
+  viridis: [
+    '#440154', '#482475', '#414487', '#355f8d', '#2a788e', '#21918c',
+    '#22a884', '#44bf70', '#7ad151', '#bddf26', '#fde725',
+  ],
+  magma: [
+    '#000004', '#140e36', '#3b0f70', '#641a80', '#8c2981', '#b73779',
+    '#de4968', '#f7705c', '#fe9f6d', '#fecf92', '#fcfdbf',
+  ],
+  turbo: [
+    '#30123b', '#4145ab', '#4675ed', '#39a2fc', '#1bcfd4', '#24eca6', '#61fc6c', '#a4fc3b',
+    '#d1e834', '#f3c63a', '#fe9b2d', '#f36315', '#d93806', '#b11901', '#7a0403',
+  ],
+  rdbu: [
+    '#67001f', '#b2182b', '#d6604d', '#f4a582', '#fddbc7', '#f7f7f7',
+    '#d1e5f0', '#92c5de', '#4393c3', '#2166ac', '#053061',
+  ],
+};
+
+export const COLORMAP_OPTIONS: { id: ColormapName; name: string }[] = [
+  { id: 'viridis', name: 'Viridis' },
+  { id: 'magma', name: 'Magma' },
+  { id: 'turbo', name: 'Turbo' },
+  { id: 'rdbu', name: 'RdBu (diverging)' },
+  { id: 'custom', name: 'Custom gradient' },
+];
+
+// Points whose value is missing are drawn in this colour
+export const MISSING_VALUE_COLOR = '#475569';
+
+export const DEFAULT_COLOR_ENCODING: ColorEncoding = {
+  attribute: null,
+  colormap: 'viridis',
+  customStops: ['#1e3a8a', '#f8fafc', '#dc2626'],
+  domainMode: 'extent',
+  percentiles: [2, 98],
+  manualDomain: [0, 1],
+};
+
+export const getColormapStops = (encoding: ColorEncoding): string[] =>
+  encoding.colormap === 'custom'
+    ? (encoding.customStops.length >= 2 ? encoding.customStops : DEFAULT_COLOR_ENCODING.customStops)
+    : COLORMAP_STOPS[encoding.colormap];
+
+export const hexToRgb = (hex: string): [number, number, number] => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+};
+
+/**
+ * Samples a gradient into `size` sRGB entries (0..1), interpolating between
+ * neighbouring stops. Renderers index it with round(t * (size - 1)).
+ */
+export const createColormapLUT = (stops: string[], size = 256): Float32Array => {
+  const rgb = stops.map(hexToRgb);
+  const lut = new Float32Array(size * 3);
+  for (let i = 0; i < size; i++) {
+    const position = (i / (size - 1)) * (rgb.length - 1);
+    const low = Math.min(Math.floor(position), rgb.length - 2);
+    const f = position - low;
+    for (let c = 0; c < 3; c++) lut[i * 3 + c] = rgb[low][c] * (1 - f) + rgb[low + 1][c] * f;
+  }
+  return lut;
+};
+
+/** CSS gradient for legends and previews. */
+export const colormapGradient = (stops: string[], direction = 'to right') =>
+  `linear-gradient(${direction}, ${stops.join(', ')})`;
+
+/** Finite values of a column in ascending order, for extents and percentiles. */
+export const sortedFiniteValues = (column: Float32Array): Float32Array => {
+  let n = 0;
+  const values = new Float32Array(column.length);
+  for (let i = 0; i < column.length; i++) {
+    if (Number.isFinite(column[i])) values[n++] = column[i];
+  }
+  return values.subarray(0, n).sort();
+};
+
+/**
+ * Value range the colormap is stretched over. Values outside it clamp to the
+ * ends of the gradient. Returns null when the column has no finite values.
+ */
+export const computeColorDomain = (sorted: Float32Array, encoding: ColorEncoding): [number, number] | null => {
+  if (encoding.domainMode === 'manual') return encoding.manualDomain;
+  if (sorted.length === 0) return null;
+  if (encoding.domainMode === 'extent') return [sorted[0], sorted[sorted.length - 1]];
+
+  const at = (percent: number) => {
+    const position = (Math.min(100, Math.max(0, percent)) / 100) * (sorted.length - 1);
+    const low = Math.floor(position);
+    const high = Math.min(low + 1, sorted.length - 1);
+    return sorted[low] + (sorted[high] - sorted[low]) * (position - low);
+  };
+  const [lower, upper] = encoding.percentiles;
+  return [at(Math.min(lower, upper)), at(Math.max(lower, upper))];
+};
@@ -0,0 +1,74 @@
+import { ColumnMapping, ExtraColumn } from '../types';
+import { ParsedCSV, isNumericCell } from './csvParser';
+
+const HEADER_HINTS: Record<keyof ColumnMapping, RegExp> = {
+  x: /^(x|x[\s_-]?coord(inate)?|pos[\s_-]?x|lon(gitude)?)$/i,
+  y: /^(y|y[\s_-]?coord(inate)?|pos[\s_-]?y|lat(itude)?)$/i,
+  z: /^(z|z[\s_-]?coord(inate)?|pos[\s_-]?z|alt(itude)?|height|depth)$/i,
+  label: /^(label|category|class|cluster|group|type)$/i,
+  metadata: /^(metadata|meta|info|description|desc|notes?|comment|name)$/i,
+};
+
+/** Flags columns whose previewed cells are at least 80% numeric. */
+const numericColumns = (parsed: ParsedCSV) => {
+  const sample = parsed.rows.slice(0, 50);
+  return parsed.headers.map((_, c) => {
+    const cells = sample.map(r => r[c] ?? '').filter(v => v.trim().length > 0);
+    return cells.length > 0 && cells.filter(isNumericCell).length / cells.length >= 0.8;
+  });
+};
+
+/**
+ * Proposes a mapping from header names where they are recognisable, otherwise
+ * from column contents: the first three numeric columns become coordinates and
+ * the remaining text columns become label and metadata.
+ */
+export const guessColumnMapping = (parsed: ParsedCSV): ColumnMapping => {
+  const { headers } = parsed;
+  const numeric = numericColumns(parsed);
+
+  const used = new Set<number>();
+  const byHeader = (key: keyof ColumnMapping) => {
+    if (!parsed.hasHeader) return null;
+    const idx = headers.findIndex((h, i) => !used.has(i) && HEADER_HINTS[key].test(h.trim()));
+    if (idx >= 0) used.add(idx);
+    return idx >= 0 ? idx : null;
+  };
+  const next = (predicate: (c: number) => boolean) => {
+    const idx = headers.findIndex((_, i) => !used.has(i) && predicate(i));
+    if (idx >= 0) used.add(idx);
+    return idx >= 0 ? idx : null;
+  };
+
+  const x = byHeader('x');
+  const y = byHeader('y');
+  const z = byHeader('z');
+  const label = byHeader('label');
+  const metadata = byHeader('metadata');
+
+  const mapping: ColumnMapping = {
+    x: x ?? next(c => numeric[c]) ?? next(() => true) ?? 0,
+    y: y ?? next(c => numeric[c]) ?? next(() => true) ?? 0,
+    z: z ?? next(c => numeric[c]) ?? next(() => true) ?? 0,
+    label: label,
+    metadata: metadata,
+  };
+  if (mapping.label === null) mapping.label = next(c => !numeric[c]) ?? next(() => true);
+  if (mapping.metadata === null) mapping.metadata = next(() => true);
+  return mapping;
+};
+
+/** Columns left out of the mapping, kept on every point as attributes. */
+export const getExtraColumns = (parsed: ParsedCSV, mapping: ColumnMapping): ExtraColumn[] => {
+  const mapped = new Set(Object.values(mapping).filter((v): v is number => v !== null));
+  const numeric = numericColumns(parsed);
+  const seen = new Set<string>();
+  return parsed.headers
+    .map((header, index) => {
+      // Attribute names must be unique even when headers repeat
+      const name = seen.has(header) ? `${header} (${index + 1})` : header;
+      seen.add(name);
+      return { index, name, numeric: numeric[index] };
+    })
+    .filter(c => !mapped.has(c.index));
+};
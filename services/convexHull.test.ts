@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { convexHull } from './convexHull';
+import { createRandom } from './reduction/random';
+
+const CUBE = [
+  [0, 0, 0], [1, 0, 0], [0, 1, 0], [1, 1, 0],
+  [0, 0, 1], [1, 0, 1], [0, 1, 1], [1, 1, 1],
+];
+
+const all = (count: number) => Array.from({ length: count }, (_, i) => i);
+
+// Every point lies on or behind every triangle's plane, seen with the triangle counter-clockwise
+const expectEnclosing = (positions: Float32Array, triangles: Uint32Array, points: number[]) => {
+  const p = (i: number) => [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+  let farthest = -Infinity;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const [a, b, c] = [p(triangles[t]), p(triangles[t + 1]), p(triangles[t + 2])];
+    const u = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const v = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = [u[1] * v[2] - u[2] * v[1], u[2] * v[0] - u[0] * v[2], u[0] * v[1] - u[1] * v[0]];
+    points.forEach(i => {
+      const q = p(i);
+      farthest = Math.max(farthest, normal[0] * (q[0] - a[0]) + normal[1] * (q[1] - a[1]) + normal[2] * (q[2] - a[2]));
+    });
+  }
+  expect(farthest).toBeLessThanOrEqual(1e-6);
+};
+
+describe('convexHull', () => {
+  it('wraps a cube around its interior points with outward triangles', () => {
+    const interior = [[0.5, 0.5, 0.5], [0.2, 0.8, 0.3], [0.9, 0.1, 0.6]];
+    const positions = Float32Array.from([...interior, ...CUBE].flat());
+    const hull = convexHull(positions, all(11))!;
+
+    expect(hull.length).toBe(12 * 3);
+    expect(new Set(hull)).toEqual(new Set(all(11).slice(3)));
+    expectEnclosing(positions, hull, all(11));
+  });
+
+  it('only uses the listed points and skips missing coordinates', () => {
+    const positions = Float32Array.from([...CUBE, [5, 5, 5], [NaN, 0, 0]].flat());
+    const hull = convexHull(positions, [...all(8), 9])!;
+    expect(new Set(hull)).toEqual(new Set(all(8)));
+  });
+
+  it('wraps a random cloud', () => {
+    const random = createRandom(3);
+    const positions = new Float32Array(300 * 3).map(() => random.gaussian());
+    const hull = convexHull(positions, all(300))!;
+    expectEnclosing(positions, hull, all(300));
+    // A closed triangle mesh has V - E + F = 2
+    const vertices = new Set(hull).size;
+    const faces = hull.length / 3;
+    expect(vertices - (faces * 3) / 2 + faces).toBe(2);
+  });
+
+  it('gives up on flat or too few points', () => {
+    expect(convexHull(Float32Array.from([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]), all(4))).toBeNull();
+    expect(convexHull(Float32Array.from([0, 0, 0, 1, 0, 0, 0, 1, 0]), all(3))).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+interface HullFace {
+  a: number;
+  b: number;
+  c: number;
+  // Outward unit normal and its plane's offset: a point p is outside when normal · p > offset
+  nx: number;
+  ny: number;
+  nz: number;
+  offset: number;
+  // Points outside this face that no earlier face claimed
+  outside: number[];
+  alive: boolean;
+}
+
+/**
+ * Convex hull of the given points by quickhull: start from a tetrahedron,
+ * then repeatedly push out the face whose outside set holds the farthest
+ * point. Returns triangles as triples of point indices, counter-clockwise
+ * seen from outside, or null when the points are all on one plane.
+ */
+export const convexHull = (positions: Float32Array, indices: ArrayLike<number>): Uint32Array | null => {
+  const x = (p: number) => positions[p * 3];
+  const y = (p: number) => positions[p * 3 + 1];
+  const z = (p: number) => positions[p * 3 + 2];
+
+  const points: number[] = [];
+  for (let k = 0; k < indices.length; k++) {
+    const p = indices[k];
+    if (!Number.isNaN(x(p) + y(p) + z(p))) points.push(p);
+  }
+  if (points.length < 4) return null;
+
+  // Extremes along each axis seed the tetrahedron and set the tolerance
+  const extremes: number[] = [];
+  let extent = 0;
+  for (const read of [x, y, z]) {
+    let lo = points[0];
+    let hi = points[0];
+    points.forEach(p => {
+      if (read(p) < read(lo)) lo = p;
+      if (read(p) > read(hi)) hi = p;
+    });
+    extremes.push(lo, hi);
+    extent = Math.max(extent, read(hi) - read(lo), Math.abs(read(hi)), Math.abs(read(lo)));
+  }
+  // Positions are single precision, so points this close to a face count as on it
+  const epsilon = extent * 1e-6;
+
+  const distance2 = (p: number, q: number) => (x(p) - x(q)) ** 2 + (y(p) - y(q)) ** 2 + (z(p) - z(q)) ** 2;
+  let v0 = extremes[0];
+  let v1 = extremes[1];
+  extremes.forEach(p => extremes.forEach(q => {
+    if (distance2(p, q) > distance2(v0, v1)) {
+      v0 = p;
+      v1 = q;
+    }
+  }));
+  if (distance2(v0, v1) <= epsilon * epsilon) return null;
+
+  // Farthest from the line v0–v1
+  const lineDistance2 = (p: number) => {
+    const dx = x(v1) - x(v0), dy = y(v1) - y(v0), dz = z(v1) - z(v0);
+    const px = x(p) - x(v0), py = y(p) - y(v0), pz = z(p) - z(v0);
+    const cx = dy * pz - dz * py, cy = dz * px - dx * pz, cz = dx * py - dy * px;
+    return (cx * cx + cy * cy + cz * cz) / (dx * dx + dy * dy + dz * dz);
+  };
+  let v2 = points[0];
+  points.forEach(p => {
+    if (lineDistance2(p) > lineDistance2(v2)) v2 = p;
+  });
+  if (lineDistance2(v2) <= epsilon * epsilon) return null;
+
+  const makeFace = (a: number, b: number, c: number): HullFace => {
+    const ux = x(b) - x(a), uy = y(b) - y(a), uz = z(b) - z(a);
+    const wx = x(c) - x(a), wy = y(c) - y(a), wz = z(c) - z(a);
+    let nx = uy * wz - uz * wy, ny = uz * wx - ux * wz, nz = ux * wy - uy * wx;
+    const length = Math.hypot(nx, ny, nz) || 1;
+    nx /= length;
+    ny /= length;
+    nz /= length;
+    return { a, b, c, nx, ny, nz, offset: nx * x(a) + ny * y(a) + nz * z(a), outside: [], alive: true };
+  };
+  const height = (face: HullFace, p: number) => face.nx * x(p) + face.ny * y(p) + face.nz * z(p) - face.offset;
+
+  // Farthest from the plane of the first three
+  const base = makeFace(v0, v1, v2);
+  let v3 = points[0];
+  points.forEach(p => {
+    if (Math.abs(height(base, p)) > Math.abs(height(base, v3))) v3 = p;
+  });
+  if (Math.abs(height(base, v3)) <= epsilon) return null;
+
+  // Wound so each face's normal points away from the vertex opposite it
+  const tetrahedron = height(base, v3) > 0
+    ? [makeFace(v0, v2, v1), makeFace(v0, v1, v3), makeFace(v1, v2, v3), makeFace(v2, v0, v3)]
+    : [makeFace(v0, v1, v2), makeFace(v0, v3, v1), makeFace(v1, v3, v2), makeFace(v2, v3, v0)];
+
+  const faces: HullFace[] = [];
+  // Each directed edge of the surface to the live face it bounds
+  const edgeFaces = new Map<string, HullFace>();
+  const edgesOf = (f: HullFace) => [[f.a, f.b], [f.b, f.c], [f.c, f.a]];
+  // Faces that may still have points outside them
+  const pending: HullFace[] = [];
+  const addFace = (f: HullFace) => {
+    faces.push(f);
+    edgesOf(f).forEach(([p, q]) => edgeFaces.set(`${p},${q}`, f));
+  };
+  const assign = (candidates: number[], targets: HullFace[]) => {
+    candidates.forEach(p => {
+      for (const face of targets) {
+        if (height(face, p) > epsilon) {
+          face.outside.push(p);
+          return;
+        }
+      }
+    });
+    targets.forEach(f => {
+      if (f.outside.length > 0) pending.push(f);
+    });
+  };
+
+  tetrahedron.forEach(addFace);
+  const seeds = new Set([v0, v1, v2, v3]);
+  assign(points.filter(p => !seeds.has(p)), tetrahedron);
+
+  while (pending.length > 0) {
+    const face = pending.pop()!;
+    if (!face.alive || face.outside.length === 0) continue;
+    let eye = face.outside[0];
+    face.outside.forEach(p => {
+      if (height(face, p) > height(face, eye)) eye = p;
+    });
+
+    // Spreads from the face across every neighbour the eye also sees; the edges to unseen faces form the horizon
+    const visible = [face];
+    const seen = new Set([face]);
+    const horizon: [number, number][] = [];
+    for (let k = 0; k < visible.length; k++) {
+      edgesOf(visible[k]).forEach(([p, q]) => {
+        const neighbor = edgeFaces.get(`${q},${p}`)!;
+        if (seen.has(neighbor)) return;
+        if (height(neighbor, eye) > epsilon) {
+          seen.add(neighbor);
+          visible.push(neighbor);
+        } else {
+          horizon.push([p, q]);
+        }
+      });
+    }
+
+    const orphans: number[] = [];
+    visible.forEach(f => {
+      f.alive = false;
+      f.outside.forEach(p => {
+        if (p !== eye) orphans.push(p);
+      });
+      f.outside = [];
+      edgesOf(f).forEach(([p, q]) => edgeFaces.delete(`${p},${q}`));
+    });
+    const created = horizon.map(([p, q]) => makeFace(p, q, eye));
+    created.forEach(addFace);
+    assign(orphans, created);
+  }
+
+  const alive = faces.filter(f => f.alive);
+  const triangles = new Uint32Array(alive.length * 3);
+  alive.forEach((f, k) => triangles.set([f.a, f.b, f.c], k * 3));
+  return triangles;
+};
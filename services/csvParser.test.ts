@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createCsvParser, detectDelimiter, detectHeader, formatCSVRow, parseCSV } from './csvParser';
+
+const collect = (delimiter: string, chunks: string[]) => {
+  const records: { fields: string[]; line: number }[] = [];
+  const parser = createCsvParser(delimiter, (fields, line) => records.push({ fields, line }));
+  chunks.forEach(parser.push);
+  parser.finish();
+  return records;
+};
+
+describe('createCsvParser', () => {
+  it('handles quoted delimiters, escaped quotes and line breaks inside fields', () => {
+    const records = collect(',', ['a,"b,c","say ""hi"""\n1,"two\nlines",3\n']);
+    expect(records).toEqual([
+      { fields: ['a', 'b,c', 'say "hi"'], line: 1 },
+      { fields: ['1', 'two\nlines', '3'], line: 2 },
+    ]);
+  });
+
+  it('gives the same records however the text is chunked', () => {
+    const text = 'x;y\r\n"1;5";2\r\n\r\n3;"4"\r\n';
+    const whole = collect(';', [text]);
+    const split = collect(';', text.split(''));
+    expect(split).toEqual(whole);
+    expect(whole.map(r => r.fields)).toEqual([['x', 'y'], ['1;5', '2'], ['3', '4']]);
+    expect(whole.map(r => r.line)).toEqual([1, 2, 4]);
+  });
+
+  it('strips a byte order mark and accepts lone CR line endings', () => {
+    expect(collect(',', ['\uFEFFa,b\rc,d']).map(r => r.fields)).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('emits a last record without a trailing line break', () => {
+    expect(collect(',', ['1,2\n3,4']).map(r => r.fields)).toEqual([['1', '2'], ['3', '4']]);
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that splits lines consistently', () => {
+    expect(detectDelimiter('a;b;c\n1;2;3\n4;5;6')).toBe(';');
+    expect(detectDelimiter('a\tb\n1,5\t2\n3,5\t4')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b";c\n"1,2";3\n"4,5";6')).toBe(';');
+  });
+
+  it('falls back to a comma', () => {
+    expect(detectDelimiter('')).toBe(',');
+    expect(detectDelimiter('single\ncolumn')).toBe(',');
+  });
+});
+
+describe('detectHeader', () => {
+  it('spots a text row above numeric columns', () => {
+    expect(detectHeader([['x', 'y'], ['1', '2'], ['3', '4']])).toBe(true);
+    expect(detectHeader([['0', '1'], ['1', '2'], ['3', '4']])).toBe(false);
+  });
+
+  it('spots a header over text columns when its values do not recur', () => {
+    expect(detectHeader([['name', 'kind'], ['a', 'cat'], ['b', 'dog']])).toBe(true);
+    expect(detectHeader([['a', 'cat'], ['b', 'cat'], ['c', 'dog']])).toBe(false);
+  });
+});
+
+describe('parseCSV', () => {
+  it('names columns from the header and numbers rows by source line', () => {
+    const parsed = parseCSV('x,y,\n1,2,3\n\n4,5,6\n');
+    expect(parsed.delimiter).toBe(',');
+    expect(parsed.hasHeader).toBe(true);
+    expect(parsed.headers).toEqual(['x', 'y', 'Column 3']);
+    expect(parsed.rows).toEqual([['1', '2', '3'], ['4', '5', '6']]);
+    expect(parsed.lines).toEqual([2, 4]);
+  });
+
+  it('honours explicit options', () => {
+    const parsed = parseCSV('1|2\n3|4', { delimiter: '|', hasHeader: false });
+    expect(parsed.headers).toEqual(['Column 1', 'Column 2']);
+    expect(parsed.rows).toHaveLength(2);
+  });
+});
+
+describe('formatCSVRow', () => {
+  it('quotes only the fields that need it and round-trips through the parser', () => {
+    const fields = ['plain', 'with,comma', 'with "quote"', 'two\nlines'];
+    const row = formatCSVRow(fields);
+    expect(row).toBe('plain,"with,comma","with ""quote""","two\nlines"');
+    expect(collect(',', [row]).map(r => r.fields)).toEqual([fields]);
+  });
+});
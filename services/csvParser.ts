@@ -0,0 +1,231 @@
+// RFC 4180 style CSV parsing with delimiter and header detection.
+
+export const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+export interface ParsedCSV {
+  delimiter: string;
+  hasHeader: boolean;
+  headers: string[];
+  rows: string[][];
+  // 1-based source line on which each row starts (quoted fields may span lines)
+  lines: number[];
+}
+
+export interface CsvParser {
+  push: (chunk: string) => void;
+  finish: () => void;
+}
+
+/**
+ * Incremental parser: text can be fed in arbitrary chunks and complete records
+ * are emitted as soon as their terminating line break has been seen.
+ * Quoted fields may contain delimiters, doubled quotes and line breaks; CRLF,
+ * LF and lone CR all end a record. Blank lines are skipped.
+ */
+export const createCsvParser = (
+  delimiter: string,
+  onRecord: (fields: string[], line: number) => void
+): CsvParser => {
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotePending = false; // saw a quote inside a quoted field, may be an escape
+  let fieldStarted = false;
+  let pendingCR = false;
+  let line = 1;
+  let recordLine = 1;
+  let first = true;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    fieldStarted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    const blank = fields.length === 1 && fields[0].trim().length === 0;
+    if (!blank) onRecord(fields, recordLine);
+    fields = [];
+  };
+
+  const push = (chunk: string) => {
+    let i = 0;
+    if (first && chunk.length > 0) {
+      first = false;
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (pendingCR) {
+        pendingCR = false;
+        if (ch === '\n') continue;
+      }
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          inQuotes = false;
+          // fall through: the quote closed the field, handle ch normally
+        } else if (ch === '"') {
+          quotePending = true;
+          continue;
+        } else if (ch === '\r') {
+          line++;
+          pendingCR = true;
+          field += '\n';
+          continue;
+        } else {
+          if (ch === '\n') line++;
+          field += ch;
+          continue;
+        }
+      }
+
+      if (ch === '"' && !fieldStarted) {
+        inQuotes = true;
+        fieldStarted = true;
+        field = '';
+      } else if (ch === delimiter) {
+        endField();
+      } else if (ch === '\n' || ch === '\r') {
+        endRecord();
+        line++;
+        recordLine = line;
+        if (ch === '\r') pendingCR = true;
+      } else {
+        field += ch;
+        if (ch !== ' ' && ch !== '\t') fieldStarted = true;
+      }
+    }
+  };
+
+  const finish = () => {
+    if (inQuotes && quotePending) inQuotes = false;
+    if (field.length > 0 || fields.length > 0) endRecord();
+    fields = [];
+    field = '';
+  };
+
+  return { push, finish };
+};
+
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let inQuotes = false;
+  for (const ch of line) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+/**
+ * Picks the candidate delimiter that splits the sample lines most consistently.
+ * Ties are broken by the number of fields produced, then by candidate order.
+ */
+export const detectDelimiter = (sample: string): string => {
+  const lines = sample
+    .split(/\r\n|\n|\r/)
+    .filter(l => l.trim().length > 0)
+    .slice(0, 20);
+  if (lines.length === 0) return ',';
+
+  let best = ',';
+  let bestScore = -1;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(l => countOutsideQuotes(l, delimiter));
+    const nonZero = counts.filter(c => c > 0);
+    if (nonZero.length === 0) continue;
+
+    const mode = counts.reduce<Record<number, number>>((acc, c) => {
+      acc[c] = (acc[c] || 0) + 1;
+      return acc;
+    }, {});
+    const [modeCount, modeFreq] = Object.entries(mode)
+      .map(([c, f]) => [Number(c), f] as const)
+      .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+    if (modeCount === 0) continue;
+
+    const score = (modeFreq / lines.length) * 1000 + modeCount;
+    if (score > bestScore) {
+      bestScore = score;
+      best = delimiter;
+    }
+  }
+  return best;
+};
+
+export const isNumericCell = (value: string) => {
+  const v = value.trim();
+  return v.length > 0 && Number.isFinite(Number(v));
+};
+
+/**
+ * A first row is treated as a header when some column is numeric in the body
+ * but not in the first row, or when nothing is numeric and the first row's
+ * values never recur in their columns.
+ */
+export const detectHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return false;
+  const [first, ...body] = rows;
+  const sample = body.slice(0, 50);
+
+  let sawNumericColumn = false;
+  for (let c = 0; c < first.length; c++) {
+    const cells = sample.map(r => r[c] ?? '').filter(v => v.trim().length > 0);
+    if (cells.length === 0) continue;
+    const numeric = cells.filter(isNumericCell).length / cells.length;
+    if (numeric >= 0.8) {
+      sawNumericColumn = true;
+      if (!isNumericCell(first[c] ?? '')) return true;
+    }
+  }
+  if (sawNumericColumn) return false;
+
+  return first.every((value, c) => {
+    const v = value.trim();
+    return v.length > 0 && !sample.some(r => (r[c] ?? '').trim() === v);
+  });
+};
+
+export const parseCSV = (
+  text: string,
+  options: { delimiter?: string; hasHeader?: boolean } = {}
+): ParsedCSV => {
+  const delimiter = options.delimiter ?? detectDelimiter(text.slice(0, 64 * 1024));
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  const parser = createCsvParser(delimiter, (fields, line) => {
+    rows.push(fields);
+    lines.push(line);
+  });
+  parser.push(text);
+  parser.finish();
+
+  const hasHeader = options.hasHeader ?? detectHeader(rows);
+  const width = rows.reduce((max, r) => Math.max(max, r.length), 0);
+  const headers = hasHeader && rows.length > 0
+    ? Array.from({ length: width }, (_, i) => rows[0][i]?.trim() || `Column ${i + 1}`)
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+
+  return {
+    delimiter,
+    hasHeader,
+    headers,
+    rows: hasHeader ? rows.slice(1) : rows,
+    lines: hasHeader ? lines.slice(1) : lines,
+  };
+};
+
+/** Encodes one record, quoting fields that contain the delimiter, quotes or line breaks. */
+export const formatCSVRow = (fields: string[], delimiter = ',') =>
+  fields
+    .map(f => (f.includes(delimiter) || /["\r\n]/.test(f) ? `"${f.replace(/"/g, '""')}"` : f))
+    .join(delimiter);
@@ -0,0 +1,142 @@
+import { PointDataset } from '../types';
+import { ID_CATEGORY, ID_METADATA } from './dataset';
+
+export interface TableColumn {
+  id: string;
+  name: string;
+  numeric: boolean;
+  // Pixel width in the table
+  width: number;
+  read: (index: number) => number | string;
+}
+
+export interface TableSort {
+  column: string;
+  descending: boolean;
+}
+
+/** The point number, the raw coordinates, label, metadata and every attribute column. */
+export const tableColumns = (dataset: PointDataset): TableColumn[] => {
+  const { positions, labels, labelIndices, metadata, axisNames } = dataset;
+  return [
+    { id: '@index', name: '#', numeric: true, width: 72, read: (i) => i },
+    ...axisNames.map((name, a) => ({ id: `@${'xyz'[a]}`, name, numeric: true, width: 96, read: (i: number) => positions[i * 3 + a] })),
+    { id: ID_CATEGORY, name: 'Label', numeric: false, width: 128, read: (i) => labels[labelIndices[i]] },
+    { id: ID_METADATA, name: 'Metadata', numeric: false, width: 200, read: (i) => metadata[i] ?? '' },
+    ...Object.entries(dataset.attributes).map(([name, values]) => ({
+      id: name,
+      name,
+      numeric: values instanceof Float32Array,
+      width: values instanceof Float32Array ? 96 : 128,
+      read: (i: number) => values[i],
+    })),
+  ];
+};
+
+const COMPARISON = /^(<=|>=|<|>|=|!=)\s*(.+)$/;
+const RANGE = /^(.+?)\s*\.\.\s*(.+)$/;
+
+const toNumber = (text: string) => {
+  const value = Number(text.trim());
+  if (text.trim() === '' || Number.isNaN(value)) throw new Error(`"${text.trim()}" is not a number.`);
+  return value;
+};
+
+/**
+ * Compiles a column filter. Numeric columns take a number, a comparison such
+ * as ">= 2" or a range "1..5"; text columns keep values containing the text,
+ * ignoring case. Returns null for an empty filter and throws on a bad one.
+ */
+export const parseColumnFilter = (text: string, numeric: boolean): ((value: number | string) => boolean) | null => {
+  const source = text.trim();
+  if (!source) return null;
+  if (!numeric) {
+    const needle = source.toLowerCase();
+    return (value) => String(value ?? '').toLowerCase().includes(needle);
+  }
+
+  const range = source.match(RANGE);
+  if (range) {
+    const low = toNumber(range[1]);
+    const high = toNumber(range[2]);
+    return (value) => (value as number) >= low && (value as number) <= high;
+  }
+  const comparison = source.match(COMPARISON);
+  const operator = comparison ? comparison[1] : '=';
+  const bound = toNumber(comparison ? comparison[2] : source);
+  switch (operator) {
+    case '<': return (value) => (value as number) < bound;
+    case '<=': return (value) => (value as number) <= bound;
+    case '>': return (value) => (value as number) > bound;
+    case '>=': return (value) => (value as number) >= bound;
+    case '!=': return (value) => (value as number) !== bound;
+    // Float32 columns cannot hold most decimals exactly
+    default: return (value) => Math.fround(value as number) === Math.fround(bound);
+  }
+};
+
+export interface TableRows {
+  // Point indices in display order
+  rows: Uint32Array;
+  // Column id to the problem with its filter; such filters are skipped
+  errors: Record<string, string>;
+}
+
+/**
+ * The points passing every column filter and accept, sorted by one column.
+ * Missing values (NaN and empty text) sort last either way; ties keep point
+ * order.
+ */
+export const tableRows = (
+  dataset: PointDataset,
+  columns: TableColumn[],
+  filters: Record<string, string>,
+  sort: TableSort | null,
+  accept: ((index: number) => boolean) | null
+): TableRows => {
+  const errors: Record<string, string> = {};
+  const tests: { read: TableColumn['read']; test: (value: number | string) => boolean }[] = [];
+  columns.forEach(column => {
+    try {
+      const test = parseColumnFilter(filters[column.id] ?? '', column.numeric);
+      if (test) tests.push({ read: column.read, test });
+    } catch (err) {
+      errors[column.id] = err instanceof Error ? err.message : String(err);
+    }
+  });
+
+  const kept: number[] = [];
+  for (let i = 0; i < dataset.count; i++) {
+    if (accept && !accept(i)) continue;
+    if (tests.every(({ read, test }) => test(read(i)))) kept.push(i);
+  }
+  const rows = Uint32Array.from(kept);
+
+  const column = sort && columns.find(c => c.id === sort.column);
+  if (!column || column.id === '@index') {
+    if (sort?.descending) rows.reverse();
+    return { rows, errors };
+  }
+
+  const direction = sort.descending ? -1 : 1;
+  if (column.numeric) {
+    const keys = new Float64Array(dataset.count);
+    rows.forEach(i => { keys[i] = column.read(i) as number; });
+    rows.sort((a, b) => {
+      const ka = keys[a];
+      const kb = keys[b];
+      if (Number.isNaN(ka) || Number.isNaN(kb)) return Number.isNaN(ka) ? (Number.isNaN(kb) ? a - b : 1) : -1;
+      return ka === kb ? a - b : (ka < kb ? -direction : direction);
+    });
+  } else {
+    const keys = new Array<string>(dataset.count);
+    rows.forEach(i => { keys[i] = String(column.read(i) ?? ''); });
+    rows.sort((a, b) => {
+      const ka = keys[a];
+      const kb = keys[b];
+      if (!ka || !kb) return !ka ? (!kb ? a - b : 1) : -1;
+      return ka === kb ? a - b : (ka < kb ? -direction : direction);
+    });
+  }
+  return { rows, errors };
+};
@@ -0,0 +1,172 @@
+import { DataPoint, PointDataset } from '../types';
+
+export const EMPTY_DATASET: PointDataset = {
+  count: 0,
+  positions: new Float32Array(0),
+  labelIndices: new Uint32Array(0),
+  labels: [],
+  metadata: [],
+  colors: null,
+  attributes: {},
+  axisNames: ['x', 'y', 'z'],
+};
+
+const toHex = (v: number) => Math.round(Math.min(1, Math.max(0, v)) * 255).toString(16).padStart(2, '0');
+
+export const rgbToHex = (r: number, g: number, b: number) => `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+
+/** Materialises a single point from the columnar buffers. */
+export const getPoint = (dataset: PointDataset, index: number): DataPoint => {
+  const { colors } = dataset;
+  const attributes: Record<string, number | string> = {};
+  Object.entries(dataset.attributes).forEach(([name, column]) => {
+    attributes[name] = column[index];
+  });
+
+  return {
+    index,
+    x: dataset.positions[index * 3],
+    y: dataset.positions[index * 3 + 1],
+    z: dataset.positions[index * 3 + 2],
+    label: dataset.labels[dataset.labelIndices[index]],
+    metadata: dataset.metadata[index] ?? '',
+    color: colors ? rgbToHex(colors[index * 3], colors[index * 3 + 1], colors[index * 3 + 2]) : '',
+    attributes,
+  };
+};
+
+// Id column choices besides the attribute columns
+export const ID_CATEGORY = '@category';
+export const ID_METADATA = '@metadata';
+
+/** Reads a point's id from an attribute, ID_CATEGORY or ID_METADATA; null where it has none. */
+export const pointIdReader = (dataset: PointDataset, column: string): ((i: number) => string | null) => {
+  if (column === ID_CATEGORY) return (i) => dataset.labels[dataset.labelIndices[i]];
+  if (column === ID_METADATA) return (i) => dataset.metadata[i] || null;
+  const values = dataset.attributes[column];
+  if (!values) return () => null;
+  if (values instanceof Float32Array) return (i) => (Number.isNaN(values[i]) ? null : String(values[i]));
+  return (i) => values[i] || null;
+};
+
+/** Names of the attribute columns that hold numbers. */
+export const getNumericAttributes = (dataset: PointDataset): string[] =>
+  Object.keys(dataset.attributes).filter(name => dataset.attributes[name] instanceof Float32Array);
+
+export interface AttributeSpec {
+  name: string;
+  numeric: boolean;
+}
+
+export interface DatasetBuilder {
+  // Returns the index of the new point
+  push: (x: number, y: number, z: number, label: string, metadata: string) => number;
+  setColor: (index: number, r: number, g: number, b: number) => void;
+  // attribute is the position of the column in the builder's AttributeSpec list
+  setAttribute: (attribute: number, index: number, value: number | string) => void;
+  build: () => PointDataset;
+  readonly count: number;
+}
+
+/**
+ * Accumulates points into growable typed arrays. build() trims the buffers to
+ * the final size so they can be transferred out of a worker without waste.
+ * Attribute columns are declared up front; unset numeric values read as NaN.
+ */
+export const createDatasetBuilder = (
+  options: { attributes?: AttributeSpec[]; colors?: boolean; axisNames?: [string, string, string] } = {},
+  initialCapacity = 1 << 16
+): DatasetBuilder => {
+  const specs = options.attributes ?? [];
+  let capacity = initialCapacity;
+  let count = 0;
+  let positions = new Float32Array(capacity * 3);
+  let labelIndices = new Uint32Array(capacity);
+  let colors = options.colors ? new Float32Array(capacity * 3) : null;
+  let numericColumns = specs.map(s => (s.numeric ? new Float32Array(capacity).fill(NaN) : null));
+  const textColumns = specs.map(s => (s.numeric ? null : [] as string[]));
+  const labels: string[] = [];
+  const labelLookup = new Map<string, number>();
+  const metadata: string[] = [];
+
+  const grown = <T extends Float32Array | Uint32Array>(array: T, size: number, fill?: number): T => {
+    const next = new (array.constructor as { new(n: number): T })(size);
+    if (fill !== undefined) next.fill(fill);
+    next.set(array);
+    return next;
+  };
+
+  const grow = () => {
+    capacity *= 2;
+    positions = grown(positions, capacity * 3);
+    labelIndices = grown(labelIndices, capacity);
+    if (colors) colors = grown(colors, capacity * 3);
+    numericColumns = numericColumns.map(c => c && grown(c, capacity, NaN));
+  };
+
+  const push = (x: number, y: number, z: number, label: string, meta: string) => {
+    if (count === capacity) grow();
+    positions[count * 3] = x;
+    positions[count * 3 + 1] = y;
+    positions[count * 3 + 2] = z;
+
+    let labelIndex = labelLookup.get(label);
+    if (labelIndex === undefined) {
+      labelIndex = labels.length;
+      labels.push(label);
+      labelLookup.set(label, labelIndex);
+    }
+    labelIndices[count] = labelIndex;
+    metadata.push(meta);
+    textColumns.forEach(c => c?.push(''));
+    return count++;
+  };
+
+  const setColor = (index: number, r: number, g: number, b: number) => {
+    if (!colors) return;
+    colors[index * 3] = r;
+    colors[index * 3 + 1] = g;
+    colors[index * 3 + 2] = b;
+  };
+
+  const setAttribute = (attribute: number, index: number, value: number | string) => {
+    const numeric = numericColumns[attribute];
+    if (numeric) numeric[index] = typeof value === 'number' ? value : Number(value);
+    else textColumns[attribute]![index] = String(value);
+  };
+
+  const build = (): PointDataset => {
+    const attributes: Record<string, Float32Array | string[]> = {};
+    specs.forEach((spec, i) => {
+      attributes[spec.name] = numericColumns[i]?.slice(0, count) ?? textColumns[i]!;
+    });
+    return {
+      count,
+      positions: positions.slice(0, count * 3),
+      labelIndices: labelIndices.slice(0, count),
+      labels,
+      metadata,
+      colors: colors ? colors.slice(0, count * 3) : null,
+      attributes,
+      axisNames: options.axisNames ?? ['x', 'y', 'z'],
+    };
+  };
+
+  return {
+    push,
+    setColor,
+    setAttribute,
+    build,
+    get count() { return count; },
+  };
+};
+
+/** Buffers to list as transferables when posting a dataset between threads. */
+export const datasetTransferables = (dataset: PointDataset): Transferable[] => {
+  const buffers: Transferable[] = [dataset.positions.buffer, dataset.labelIndices.buffer];
+  if (dataset.colors) buffers.push(dataset.colors.buffer);
+  Object.values(dataset.attributes).forEach(column => {
+    if (column instanceof Float32Array) buffers.push(column.buffer);
+  });
+  return buffers;
+};
@@ -0,0 +1,120 @@
+import { CategoryStyle, FilterState, PointDataset } from '../types';
+import { getNumericAttributes } from './dataset';
+import { compileQuery } from './queryLanguage';
+
+export const EMPTY_FILTERS: FilterState = {
+  ranges: [],
+  search: '',
+  searchMode: 'text',
+  expression: '',
+};
+
+export const AXIS_COLUMNS = ['x', 'y', 'z'];
+
+/** Columns a range filter can apply to: the axes, then numeric attributes. */
+export const getFilterableColumns = (dataset: PointDataset): string[] => [
+  ...AXIS_COLUMNS,
+  ...getNumericAttributes(dataset).filter(name => !AXIS_COLUMNS.includes(name)),
+];
+
+/** Reads one numeric column, whether it is an axis or an attribute. */
+export const numericColumnReader = (dataset: PointDataset, column: string): ((index: number) => number) => {
+  const axis = AXIS_COLUMNS.indexOf(column);
+  if (axis >= 0) return (i) => dataset.positions[i * 3 + axis];
+  const values = dataset.attributes[column];
+  return values instanceof Float32Array ? (i) => values[i] : () => NaN;
+};
+
+export const numericColumnExtent = (dataset: PointDataset, column: string): [number, number] | null => {
+  const read = numericColumnReader(dataset, column);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < dataset.count; i++) {
+    const v = read(i);
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : null;
+};
+
+export interface FilterResult {
+  // One byte per point, 1 where a filter rejects it; null when no filter is active
+  mask: Uint8Array | null;
+  // Problems with the search pattern or expression; those filters are skipped
+  searchError: string | null;
+  expressionError: string | null;
+}
+
+/**
+ * Applies range, metadata search and expression filters. A filter that fails
+ * to compile is reported and left out rather than hiding everything.
+ */
+export const computeFilterMask = (dataset: PointDataset, filters: FilterState): FilterResult => {
+  const tests: ((index: number) => boolean)[] = [];
+  let searchError: string | null = null;
+  let expressionError: string | null = null;
+
+  filters.ranges.forEach(range => {
+    const read = numericColumnReader(dataset, range.column);
+    tests.push((i) => {
+      const v = read(i);
+      return v >= range.min && v <= range.max;
+    });
+  });
+
+  if (filters.search) {
+    if (filters.searchMode === 'regex') {
+      try {
+        const regex = new RegExp(filters.search, 'i');
+        tests.push((i) => regex.test(dataset.metadata[i] ?? ''));
+      } catch (err) {
+        searchError = err instanceof Error ? err.message : String(err);
+      }
+    } else {
+      const needle = filters.search.toLowerCase();
+      tests.push((i) => (dataset.metadata[i] ?? '').toLowerCase().includes(needle));
+    }
+  }
+
+  if (filters.expression.trim()) {
+    try {
+      tests.push(compileQuery(filters.expression, dataset));
+    } catch (err) {
+      expressionError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  if (tests.length === 0) return { mask: null, searchError, expressionError };
+
+  const mask = new Uint8Array(dataset.count);
+  for (let i = 0; i < dataset.count; i++) {
+    if (!tests.every(test => test(i))) mask[i] = 1;
+  }
+  return { mask, searchError, expressionError };
+};
+
+/** ORs any number of hidden masks, skipping the nulls. */
+export const combineMasks = (count: number, ...masks: (Uint8Array | null)[]): Uint8Array | null => {
+  const present = masks.filter((m): m is Uint8Array => m !== null);
+  if (present.length === 0) return null;
+  if (present.length === 1) return present[0];
+  const out = new Uint8Array(count);
+  present.forEach(m => {
+    for (let i = 0; i < count; i++) out[i] |= m[i];
+  });
+  return out;
+};
+
+/** Points that pass every filter and whose category is visible. */
+export const countVisible = (
+  dataset: PointDataset,
+  hiddenMask: Uint8Array | null,
+  categoryStyles: Record<string, CategoryStyle>
+): number => {
+  const categoryVisible = dataset.labels.map(l => categoryStyles[l]?.visible !== false);
+  let visible = 0;
+  for (let i = 0; i < dataset.count; i++) {
+    if (categoryVisible[dataset.labelIndices[i]] && !hiddenMask?.[i]) visible++;
+  }
+  return visible;
+};
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ImportReport, PointDataset, VisualizationState } from '../types';
+import { createHistory, createHistoryReducer, History, MAX_HISTORY, MERGE_WINDOW_MS, restoreView } from './history';
+
+// Each state is a number, and restoring keeps the target as it is
+const reduce = createHistoryReducer<number>((target) => target);
+
+const record = (history: History<number>, name: string, value: number, time = 0, group?: string) =>
+  reduce(history, { type: 'record', name, time, group, update: () => value });
+
+const timeline = (history: History<number>) => ({
+  past: history.past.map(e => `${e.name}:${e.state}`),
+  present: history.present,
+  future: history.future.map(e => `${e.name}:${e.state}`),
+});
+
+describe('history reducer', () => {
+  it('records named steps and skips updates that change nothing', () => {
+    let history = createHistory(0);
+    history = record(history, 'Color', 1);
+    history = record(history, 'Size', 2);
+    expect(timeline(history)).toEqual({ past: ['Color:0', 'Size:1'], present: 2, future: [] });
+    expect(record(history, 'Size', 2)).toBe(history);
+  });
+
+  it('changes the present without a step on set', () => {
+    const history = reduce(record(createHistory(0), 'Color', 1), { type: 'set', update: prev => prev + 10 });
+    expect(timeline(history)).toEqual({ past: ['Color:0'], present: 11, future: [] });
+  });
+
+  it('merges repeats of a step within the time window', () => {
+    let history = record(createHistory(0), 'Opacity', 1, 0);
+    history = record(history, 'Opacity', 2, MERGE_WINDOW_MS - 1);
+    history = record(history, 'Opacity', 3, 2 * MERGE_WINDOW_MS - 2);
+    expect(timeline(history)).toEqual({ past: ['Opacity:0'], present: 3, future: [] });
+
+    history = record(history, 'Opacity', 4, 3 * MERGE_WINDOW_MS);
+    history = record(history, 'Size', 5, 3 * MERGE_WINDOW_MS);
+    expect(timeline(history).past).toEqual(['Opacity:0', 'Opacity:3', 'Size:4']);
+  });
+
+  it('merges steps of one group however far apart', () => {
+    let history = record(createHistory(0), 'Reduce', 1, 0, 'run-1');
+    history = record(history, 'Reduce', 2, 10 * MERGE_WINDOW_MS, 'run-1');
+    history = record(history, 'Reduce', 3, 10 * MERGE_WINDOW_MS, 'run-2');
+    expect(timeline(history).past).toEqual(['Reduce:0', 'Reduce:2']);
+  });
+
+  it('undoes and redoes, and a new step drops the redo stack', () => {
+    let history = createHistory(0);
+    [1, 2, 3].forEach(v => { history = record(history, `Step ${v}`, v); });
+
+    history = reduce(history, { type: 'travel', steps: -2 });
+    expect(timeline(history)).toEqual({ past: ['Step 1:0'], present: 1, future: ['Step 2:2', 'Step 3:3'] });
+    history = reduce(history, { type: 'travel', steps: 1 });
+    expect(timeline(history)).toEqual({ past: ['Step 1:0', 'Step 2:1'], present: 2, future: ['Step 3:3'] });
+
+    // A repeat of the last step does not merge while there is something to redo
+    history = record(history, 'Step 2', 9);
+    expect(timeline(history)).toEqual({ past: ['Step 1:0', 'Step 2:1', 'Step 2:2'], present: 9, future: [] });
+  });
+
+  it('stops travelling at either end', () => {
+    const history = record(createHistory(0), 'Color', 1);
+    const start = reduce(history, { type: 'travel', steps: -5 });
+    expect(timeline(start)).toEqual({ past: [], present: 0, future: ['Color:1'] });
+    expect(reduce(start, { type: 'travel', steps: -1 })).toBe(start);
+    expect(reduce(start, { type: 'travel', steps: 5 }).present).toBe(1);
+  });
+
+  it(`keeps the last ${MAX_HISTORY} steps`, () => {
+    let history = createHistory(0);
+    for (let v = 1; v <= MAX_HISTORY + 5; v++) history = record(history, `Step ${v}`, v);
+    expect(history.past).toHaveLength(MAX_HISTORY);
+    expect(history.past[0].state).toBe(5);
+  });
+
+  it('lets the restore function carry over the current state', () => {
+    const carry = createHistoryReducer<{ value: number; busy: boolean }>((target, current) => ({ ...target, busy: current.busy }));
+    let history = carry(createHistory({ value: 0, busy: false }), { type: 'record', name: 'Value', time: 0, update: prev => ({ ...prev, value: 1 }) });
+    history = carry(history, { type: 'set', update: prev => ({ ...prev, busy: true }) });
+    history = carry(history, { type: 'travel', steps: -1 });
+    expect(history.present).toEqual({ value: 0, busy: true });
+  });
+});
+
+describe('restoreView', () => {
+  const dataset = { count: 0 } as PointDataset;
+  const report = { fileName: 'a.csv' } as ImportReport;
+  const view = (fields: Partial<VisualizationState>) => ({ showAxes: true, ...fields }) as VisualizationState;
+
+  it('keeps progress, errors and loading from the present', () => {
+    const current = view({
+      showAxes: false,
+      reductionProgress: { stage: 'Embedding', done: 1, total: 2 },
+      reductionError: 'r',
+      clusteringProgress: { stage: 'Assigning', done: 3, total: 4 },
+      clusteringError: 'c',
+      isLoading: true,
+      loadProgress: { bytesRead: 1, totalBytes: 2, rows: 3 },
+      error: 'e',
+    });
+    const restored = restoreView(view({ reductionProgress: null, reductionError: null, error: null, isLoading: false }), current);
+    expect(restored).toEqual({ ...current, showAxes: true });
+  });
+
+  it('keeps the import report only while the dataset stays', () => {
+    expect(restoreView(view({ dataset, importReport: null }), view({ dataset, importReport: report })).importReport).toBe(report);
+    // Undoing past an import must not show its report, nor bring back an older one
+    const older = { fileName: 'old.csv' } as ImportReport;
+    expect(restoreView(view({ dataset: null, importReport: older }), view({ dataset, importReport: report })).importReport).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+import { VisualizationState } from '../types';
+
+// Steps kept for undo; older ones are forgotten
+export const MAX_HISTORY = 100;
+// Repeats of the same action this close together are one step, so a slider drag undoes at once
+export const MERGE_WINDOW_MS = 1000;
+
+/** A named step and the state on its far side: before it while undoable, after it while redoable. */
+export interface HistoryEntry<T> {
+  name: string;
+  // When the step was last extended
+  time: number;
+  // Steps of one group merge regardless of time, like the layouts a running reduction streams in
+  group?: string;
+  state: T;
+}
+
+export interface History<T> {
+  present: T;
+  // Oldest first
+  past: HistoryEntry<T>[];
+  // Next to redo first
+  future: HistoryEntry<T>[];
+}
+
+export type HistoryAction<T> =
+  // Changes that are not steps of their own, like task progress
+  | { type: 'set'; update: T | ((prev: T) => T) }
+  | { type: 'record'; name: string; time: number; group?: string; update: (prev: T) => T }
+  // Undoes that many steps when negative and redoes them when positive
+  | { type: 'travel'; steps: number };
+
+export const createHistory = <T>(present: T): History<T> => ({ present, past: [], future: [] });
+
+/**
+ * A reducer keeping a bounded undo and redo stack. `restore` turns a stored
+ * state into the present one, so it can carry over what no step owns.
+ */
+export const createHistoryReducer = <T>(restore: (target: T, current: T) => T) =>
+  (history: History<T>, action: HistoryAction<T>): History<T> => {
+    switch (action.type) {
+      case 'set': {
+        const present = typeof action.update === 'function'
+          ? (action.update as (prev: T) => T)(history.present)
+          : action.update;
+        return present === history.present ? history : { ...history, present };
+      }
+      case 'record': {
+        const present = action.update(history.present);
+        if (present === history.present) return history;
+        const last = history.past[history.past.length - 1];
+        const merges = last !== undefined && history.future.length === 0 && last.name === action.name && (
+          action.group !== undefined ? last.group === action.group : action.time - last.time < MERGE_WINDOW_MS
+        );
+        if (merges) return { ...history, present, past: [...history.past.slice(0, -1), { ...last, time: action.time }] };
+        const entry: HistoryEntry<T> = { name: action.name, time: action.time, group: action.group, state: history.present };
+        return { present, past: [...history.past, entry].slice(-MAX_HISTORY), future: [] };
+      }
+      case 'travel': {
+        let { present, past, future } = history;
+        for (let k = 0; k < action.steps && future.length > 0; k++) {
+          const [step, ...rest] = future;
+          past = [...past, { ...step, state: present }];
+          present = restore(step.state, present);
+          future = rest;
+        }
+        for (let k = 0; k > action.steps && past.length > 0; k--) {
+          const step = past[past.length - 1];
+          future = [{ ...step, state: present }, ...future];
+          present = restore(step.state, present);
+          past = past.slice(0, -1);
+        }
+        return present === history.present ? history : { present, past, future };
+      }
+    }
+  };
+
+/**
+ * Progress, errors and loading belong to whatever runs now, not to the step
+ * being undone or redone. The import report describes the loaded dataset, so
+ * it stays while the dataset does and goes once a step swaps the data.
+ */
+export const restoreView = (target: VisualizationState, current: VisualizationState): VisualizationState => ({
+  ...target,
+  reductionProgress: current.reductionProgress,
+  reductionError: current.reductionError,
+  clusteringProgress: current.clusteringProgress,
+  clusteringError: current.clusteringError,
+  isLoading: current.isLoading,
+  loadProgress: current.loadProgress,
+  error: current.error,
+  importReport: target.dataset === current.dataset ? current.importReport : null,
+});
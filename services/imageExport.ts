@@ -0,0 +1,217 @@
+import * as THREE from 'three';
+import { CategoryStyle, ColorEncoding, ImageExportSettings, PointDataset, PointShape } from '../types';
+import { getColormapStops } from './colormaps';
+import { formatNumber } from './axes';
+
+export const EXPORT_HEIGHTS: { id: number; name: string }[] = [
+  { id: 1080, name: 'Full HD (1080 px)' },
+  { id: 2160, name: '4K (2160 px)' },
+  { id: 4320, name: '8K (4320 px)' },
+];
+
+export const EXPORT_ASPECTS: { id: string; name: string; ratio: number | null }[] = [
+  { id: 'viewport', name: 'Viewport', ratio: null },
+  { id: '16:9', name: '16:9', ratio: 16 / 9 },
+  { id: '3:2', name: '3:2', ratio: 3 / 2 },
+  { id: '4:3', name: '4:3', ratio: 4 / 3 },
+  { id: '1:1', name: '1:1', ratio: 1 },
+];
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportSettings = {
+  height: 2160,
+  aspect: 16 / 9,
+  transparent: false,
+  showStars: false,
+  showGrid: false,
+  showAxes: true,
+  showLegend: true,
+};
+
+export const BACKGROUND_COLOR = '#020617';
+// Legend text and marker sizes are laid out for this output height and scaled from it
+const LEGEND_REFERENCE_HEIGHT = 1080;
+const MAX_LEGEND_ITEMS = 16;
+
+/** Output size in pixels for a viewport of the given CSS size. */
+export const exportSize = (settings: ImageExportSettings, viewport: { width: number; height: number }): [number, number] => {
+  const aspect = settings.aspect ?? viewport.width / Math.max(1, viewport.height);
+  return [Math.max(1, Math.round(settings.height * aspect)), settings.height];
+};
+
+/** A copy of the camera framing the same view at another aspect ratio. */
+export const exportCamera = (camera: THREE.Camera, width: number, height: number) => {
+  const copy = camera.clone();
+  if (copy instanceof THREE.PerspectiveCamera) {
+    copy.aspect = width / height;
+    copy.updateProjectionMatrix();
+  }
+  copy.updateMatrixWorld();
+  return copy;
+};
+
+export type Legend =
+  | { kind: 'categories'; items: { label: string; color: string; shape: PointShape }[]; more: number }
+  | { kind: 'colormap'; title: string; stops: string[]; domain: [number, number] };
+
+/**
+ * What the points' colours mean: the colormap when a numeric attribute is
+ * encoded, otherwise the visible categories. Colours from the file have no
+ * legend.
+ */
+export const createLegend = (
+  dataset: PointDataset,
+  categoryStyles: Record<string, CategoryStyle>,
+  useSourceColors: boolean,
+  colorEncoding: ColorEncoding,
+  colorDomain: [number, number] | null
+): Legend | null => {
+  if (colorEncoding.attribute && colorDomain) {
+    return { kind: 'colormap', title: colorEncoding.attribute, stops: getColormapStops(colorEncoding), domain: colorDomain };
+  }
+  if (useSourceColors && dataset.colors) return null;
+  const visible = dataset.labels.filter(label => categoryStyles[label]?.visible !== false);
+  if (visible.length === 0) return null;
+  return {
+    kind: 'categories',
+    items: visible.slice(0, MAX_LEGEND_ITEMS).map(label => ({
+      label,
+      color: categoryStyles[label]?.color ?? '#ffffff',
+      shape: categoryStyles[label]?.shape ?? 'circle',
+    })),
+    more: Math.max(0, visible.length - MAX_LEGEND_ITEMS),
+  };
+};
+
+/** Legend box geometry in output pixels, shared by the PNG and SVG renderers. */
+export const legendLayout = (legend: Legend, width: number, height: number) => {
+  const unit = height / LEGEND_REFERENCE_HEIGHT;
+  const font = 15 * unit;
+  const padding = 14 * unit;
+  const row = 24 * unit;
+  const boxWidth = 260 * unit;
+  const rows = legend.kind === 'categories' ? legend.items.length + (legend.more > 0 ? 1 : 0) : 3;
+  const boxHeight = padding * 2 + rows * row;
+  return { unit, font, padding, row, boxWidth, boxHeight, x: width - boxWidth - padding * 2, y: padding * 2 };
+};
+
+// Marker outlines match the point shader: the shape spans 0.75 of the sprite's half-size, circles 0.875
+const traceMarker = (ctx: CanvasRenderingContext2D, shape: PointShape, x: number, y: number, half: number) => {
+  const e = half * 0.75;
+  const t = half * 0.25;
+  ctx.beginPath();
+  if (shape === 'circle') ctx.arc(x, y, half * 0.875, 0, Math.PI * 2);
+  else if (shape === 'square') ctx.rect(x - e, y - e, e * 2, e * 2);
+  else if (shape === 'diamond') {
+    ctx.moveTo(x, y - e); ctx.lineTo(x + e, y); ctx.lineTo(x, y + e); ctx.lineTo(x - e, y); ctx.closePath();
+  } else {
+    ctx.rect(x - e, y - t, e * 2, t * 2);
+    ctx.rect(x - t, y - e, t * 2, e * 2);
+  }
+};
+
+export const drawLegend = (ctx: CanvasRenderingContext2D, legend: Legend, width: number, height: number) => {
+  const { unit, font, padding, row, boxWidth, boxHeight, x, y } = legendLayout(legend, width, height);
+  ctx.save();
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.8)';
+  ctx.beginPath();
+  ctx.roundRect(x, y, boxWidth, boxHeight, 10 * unit);
+  ctx.fill();
+  ctx.font = `${font}px Inter, -apple-system, "Segoe UI", Roboto, sans-serif`;
+  ctx.textBaseline = 'middle';
+
+  if (legend.kind === 'categories') {
+    legend.items.forEach((item, i) => {
+      const cy = y + padding + row * (i + 0.5);
+      ctx.fillStyle = item.color;
+      traceMarker(ctx, item.shape, x + padding + 8 * unit, cy, 9 * unit);
+      ctx.fill();
+      ctx.fillStyle = '#e2e8f0';
+      ctx.fillText(item.label, x + padding + 24 * unit, cy, boxWidth - padding * 2 - 24 * unit);
+    });
+    if (legend.more > 0) {
+      ctx.fillStyle = '#64748b';
+      ctx.fillText(`+${legend.more} more`, x + padding, y + padding + row * (legend.items.length + 0.5));
+    }
+  } else {
+    const barWidth = boxWidth - padding * 2;
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillText(legend.title, x + padding, y + padding + row * 0.5, barWidth);
+    const gradient = ctx.createLinearGradient(x + padding, 0, x + padding + barWidth, 0);
+    legend.stops.forEach((stop, i) => gradient.addColorStop(i / Math.max(1, legend.stops.length - 1), stop));
+    ctx.fillStyle = gradient;
+    ctx.fillRect(x + padding, y + padding + row * 1.2, barWidth, row * 0.6);
+    ctx.fillStyle = '#94a3b8';
+    ctx.fillText(formatNumber(legend.domain[0]), x + padding, y + padding + row * 2.5);
+    ctx.textAlign = 'right';
+    ctx.fillText(formatNumber(legend.domain[1]), x + padding + barWidth, y + padding + row * 2.5);
+  }
+  ctx.restore();
+};
+
+export interface ExportLayers {
+  stars: THREE.Object3D | null;
+  grid: THREE.Object3D | null;
+  axes: THREE.Object3D | null;
+}
+
+/**
+ * Renders the scene at the export size through the on-screen renderer and
+ * copies the result into a new 2D canvas. The renderer's pixel ratio is set
+ * to the output's scale over the viewport, so markers and lines keep their
+ * on-screen proportions; everything is restored before the next frame.
+ */
+export const renderScene = (
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.Camera,
+  viewportHeight: number,
+  settings: ImageExportSettings,
+  [width, height]: [number, number],
+  layers: ExportLayers
+): HTMLCanvasElement => {
+  const scale = height / Math.max(1, viewportHeight);
+  const previous = {
+    pixelRatio: gl.getPixelRatio(),
+    size: gl.getSize(new THREE.Vector2()),
+    background: scene.background,
+    clearColor: gl.getClearColor(new THREE.Color()),
+    clearAlpha: gl.getClearAlpha(),
+    visible: [layers.stars?.visible, layers.grid?.visible, layers.axes?.visible],
+  };
+
+  try {
+    if (layers.stars) layers.stars.visible = settings.showStars;
+    if (layers.grid) layers.grid.visible = settings.showGrid;
+    if (layers.axes) layers.axes.visible = settings.showAxes;
+    if (settings.transparent) {
+      scene.background = null;
+      gl.setClearColor(0x000000, 0);
+    }
+    gl.setPixelRatio(scale);
+    // The half pixel keeps the drawing buffer from flooring one short of the target
+    gl.setSize((width + 0.5) / scale, (height + 0.5) / scale, false);
+    const context = gl.getContext();
+    if (context.drawingBufferWidth < width || context.drawingBufferHeight < height) {
+      throw new Error(`This browser can only render ${context.drawingBufferWidth} × ${context.drawingBufferHeight} pixels.`);
+    }
+    gl.render(scene, exportCamera(camera, width, height));
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    output.getContext('2d')!.drawImage(gl.domElement, 0, 0);
+    return output;
+  } finally {
+    if (layers.stars) layers.stars.visible = previous.visible[0]!;
+    if (layers.grid) layers.grid.visible = previous.visible[1]!;
+    if (layers.axes) layers.axes.visible = previous.visible[2]!;
+    scene.background = previous.background;
+    gl.setClearColor(previous.clearColor, previous.clearAlpha);
+    gl.setPixelRatio(previous.pixelRatio);
+    gl.setSize(previous.size.x, previous.size.y, false);
+  }
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) => new Promise<Blob>((resolve, reject) => {
+  canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image is too large to encode.'))), 'image/png');
+});
@@ -0,0 +1,59 @@
+import { ImportProgress } from '../types';
+import { ImporterId, ImportOptions, ImportResult } from './importers';
+
+export type ImportWorkerRequest = { file: File; format: ImporterId; options: ImportOptions };
+
+export type ImportWorkerResponse =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; result: ImportResult }
+  | { type: 'error'; message: string };
+
+export interface ImportTask {
+  // Resolves to null when the import was cancelled
+  promise: Promise<ImportResult | null>;
+  cancel: () => void;
+}
+
+/**
+ * Runs a streaming import in a dedicated worker, one worker per file. Some
+ * importers parse in one synchronous pass, so cancelling terminates the
+ * worker outright.
+ */
+export const startImport = (
+  file: File,
+  format: ImporterId,
+  options: ImportOptions,
+  onProgress: (progress: ImportProgress) => void
+): ImportTask => {
+  const worker = new Worker(new URL('../workers/importWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: ImportResult | null) => void = () => {};
+
+  const promise = new Promise<ImportResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<ImportWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Import worker failed'));
+    };
+  });
+
+  const request: ImportWorkerRequest = { file, format, options };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
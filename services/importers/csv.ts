@@ -0,0 +1,44 @@
+import { createCsvParser, parseCSV } from '../csvParser';
+import { readTextChunks } from './streams';
+import { createTableSink } from './tabular';
+import { Importer } from './types';
+
+// Only the head of the file is parsed on the main thread, for the mapping step
+export const PREVIEW_BYTES = 256 * 1024;
+
+export const csvImporter: Importer = {
+  id: 'csv',
+  name: 'CSV / TSV',
+  extensions: ['csv', 'tsv', 'txt'],
+
+  preview: async (file, options) => {
+    const parsed = parseCSV(await file.slice(0, PREVIEW_BYTES).text(), options);
+    // The slice may end mid-record
+    if (file.size > PREVIEW_BYTES && parsed.rows.length > 1) {
+      parsed.rows.pop();
+      parsed.lines.pop();
+    }
+    return parsed;
+  },
+
+  run: async (file, options, context) => {
+    const sink = createTableSink(options);
+    let skipHeader = options.table!.hasHeader ?? false;
+
+    const parser = createCsvParser(options.table!.delimiter ?? ',', (fields, line) => {
+      if (skipHeader) {
+        skipHeader = false;
+        return;
+      }
+      sink.pushRow(fields, line);
+    });
+
+    await readTextChunks(file, (text) => {
+      parser.push(text);
+      return !sink.failed;
+    }, context, () => sink.count);
+
+    if (!sink.failed) parser.finish();
+    return sink.finish();
+  },
+};
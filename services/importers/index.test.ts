@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import { InvalidValuePolicy } from '../../types';
+import { detectImporter, ImportContext, TableSettings } from './index';
+
+const context: ImportContext = { onProgress: () => {} };
+
+const importFile = async (name: string, content: BlobPart, table?: TableSettings, policy: InvalidValuePolicy = 'drop') => {
+  const file = new File([content], name);
+  const importer = await detectImporter(file);
+  const result = await importer.run(file, { fileName: name, policy, table }, context);
+  return { format: importer.id, ...result! };
+};
+
+const positionsOf = (positions: Float32Array) => Array.from(positions);
+
+// Little-endian bytes written field by field
+const binary = (write: (view: DataView) => void, length: number) => {
+  const bytes = new Uint8Array(length);
+  write(new DataView(bytes.buffer));
+  return bytes;
+};
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    bytes.set(p, offset);
+    offset += p.length;
+  });
+  return bytes;
+};
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+describe('CSV import', () => {
+  const table: TableSettings = {
+    mapping: { x: 0, y: 1, z: 2, label: 3, metadata: 4 },
+    extraColumns: [{ index: 5, name: 'score', numeric: true }, { index: 6, name: 'note', numeric: false }],
+    delimiter: ',',
+    hasHeader: true,
+  };
+  const text = 'x,y,z,kind,id,score,note\n1,2,3,"a, b",p1,0.5,hi\n4,oops,6,c,p2,,\n"7,5",8,9,,p3,2,"x ""y"""\n';
+
+  it('maps columns, keeps extras and reports dropped rows by line', async () => {
+    const { format, dataset, report } = await importFile('points.csv', text, table);
+    expect(format).toBe('csv');
+    expect(dataset.count).toBe(2);
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 7.5, 8, 9]);
+    expect(dataset.labels).toEqual(['a, b', 'Unlabeled']);
+    expect(dataset.metadata).toEqual(['p1', 'p3']);
+    expect(Array.from(dataset.attributes.score as Float32Array)).toEqual([0.5, 2]);
+    expect(dataset.attributes.note).toEqual(['hi', 'x "y"']);
+    expect(report).toMatchObject({ totalRows: 3, valid: 1, repaired: 1, skipped: 1, error: null });
+    expect(report.issues.map(i => [i.line, i.status])).toEqual([[3, 'skipped'], [4, 'repaired']]);
+  });
+
+  it('imputes the column mean for unusable coordinates', async () => {
+    const { dataset, report } = await importFile('points.csv', text, table, 'impute');
+    expect(dataset.count).toBe(3);
+    expect(dataset.positions[4]).toBe(5);
+    expect(report.repaired).toBe(2);
+  });
+
+  it('stops at the first bad row with the fail policy', async () => {
+    const { report } = await importFile('points.csv', text, table, 'fail');
+    expect(report.error).toBe('Line 3: Y: not a number "oops"');
+  });
+});
+
+describe('JSON import', () => {
+  const table: TableSettings = {
+    mapping: { x: 0, y: 1, z: 2, label: 3, metadata: null },
+    extraColumns: [],
+    keys: ['px', 'py', 'pz', 'group'],
+  };
+
+  it('reads objects by key from an array wrapped in an object', async () => {
+    const json = JSON.stringify({ meta: [1], points: [{ px: 1, py: 2, pz: 3, group: 'a' }, { px: 4, py: 5, pz: 6, group: 'b' }] });
+    const { format, dataset } = await importFile('points.json', json, table);
+    expect(format).toBe('json');
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(dataset.labels).toEqual(['a', 'b']);
+    expect(dataset.axisNames).toEqual(['px', 'py', 'pz']);
+  });
+
+  it('rejects a document without records', async () => {
+    await expect(importFile('points.json', '{"a": 1}', table)).rejects.toThrow('does not contain an array of records');
+  });
+
+  it('numbers NDJSON rows by line and skips malformed ones', async () => {
+    const ndjson = '{"px":1,"py":2,"pz":3,"group":"a"}\n{"px":4,"py":5,"pz":6}\nnot json\n\n{"px":7,"py":8,"pz":9,"group":"a"}\n';
+    const { format, dataset, report } = await importFile('points.ndjson', ndjson, table);
+    expect(format).toBe('ndjson');
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    expect(dataset.labels).toEqual(['a', 'Unlabeled']);
+    expect(report.issues.map(i => i.line)).toEqual([3]);
+  });
+});
+
+describe('PLY import', () => {
+  const header = (format: string) => [
+    'ply',
+    `format ${format} 1.0`,
+    'comment made by hand',
+    'element vertex 2',
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'property int label',
+    'element face 1',
+    'property list uchar int vertex_indices',
+    'end_header',
+    '',
+  ].join('\n');
+
+  const expectVertices = (dataset: Awaited<ReturnType<typeof importFile>>['dataset']) => {
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, -1, 0.5, 4]);
+    expect(Array.from(dataset.colors!)).toEqual([1, 0, 0, 0, 1, 51 / 255].map(Math.fround));
+    expect(dataset.labels).toEqual(['7', '2']);
+    expect(Array.from(dataset.attributes.label as Float32Array)).toEqual([7, 2]);
+  };
+
+  it('reads ASCII vertices with colours and labels', async () => {
+    const { format, dataset } = await importFile('mesh.ply', `${header('ascii')}1 2 3 255 0 0 7\n-1 0.5 4 0 255 51 2\n3 0 1 1\n`);
+    expect(format).toBe('ply');
+    expectVertices(dataset);
+  });
+
+  it('reads little- and big-endian binary vertices', async () => {
+    for (const little of [true, false]) {
+      const body = binary(view => {
+        [[1, 2, 3, 255, 0, 0, 7], [-1, 0.5, 4, 0, 255, 51, 2]].forEach((v, i) => {
+          const o = i * 19;
+          [0, 1, 2].forEach(c => view.setFloat32(o + c * 4, v[c], little));
+          [3, 4, 5].forEach(c => view.setUint8(o + 9 + c, v[c]));
+          view.setInt32(o + 15, v[6], little);
+        });
+      }, 38);
+      const face = binary(view => view.setUint8(0, 3), 13);
+      const format = little ? 'binary_little_endian' : 'binary_big_endian';
+      const { dataset } = await importFile('mesh.ply', concat(ascii(header(format)), body, face));
+      expectVertices(dataset);
+    }
+  });
+
+  it('rejects a file without vertex coordinates', async () => {
+    const text = 'ply\nformat ascii 1.0\nelement vertex 1\nproperty float x\nend_header\n1\n';
+    await expect(importFile('mesh.ply', text)).rejects.toThrow('no vertex element with x, y and z');
+  });
+});
+
+describe('PCD import', () => {
+  const header = (data: string, extra = '') => [
+    '# .PCD v0.7',
+    'VERSION 0.7',
+    `FIELDS x y z${extra}`,
+    `SIZE 4 4 4${extra ? ' 4' : ''}`,
+    `TYPE F F F${extra ? ' U' : ''}`,
+    `COUNT 1 1 1${extra ? ' 1' : ''}`,
+    'WIDTH 2',
+    'HEIGHT 1',
+    'POINTS 2',
+    `DATA ${data}`,
+    '',
+  ].join('\n');
+
+  it('reads ASCII points with packed colours', async () => {
+    const { format, dataset } = await importFile('cloud.pcd', `${header('ascii', ' rgb')}1 2 3 16711680\n4 5 6 65280\n`);
+    expect(format).toBe('pcd');
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(Array.from(dataset.colors!)).toEqual([1, 0, 0, 0, 1, 0]);
+    expect(dataset.labels).toEqual(['Unlabeled']);
+  });
+
+  it('reads binary points record by record', async () => {
+    const body = binary(view => [1, 2, 3, 4, 5, 6].forEach((v, i) => view.setFloat32(i * 4, v, true)), 24);
+    const { dataset } = await importFile('cloud.pcd', concat(ascii(header('binary')), body));
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('reads compressed points field by field', async () => {
+    // Column-major x0 x1 y0 y1 z0 z1, stored as one LZF literal run
+    const raw = binary(view => [1, 4, 2, 5, 3, 6].forEach((v, i) => view.setFloat32(i * 4, v, true)), 24);
+    const sizes = binary(view => {
+      view.setUint32(0, raw.length + 1, true);
+      view.setUint32(4, raw.length, true);
+    }, 8);
+    const { dataset } = await importFile('cloud.pcd', concat(ascii(header('binary_compressed')), sizes, Uint8Array.of(raw.length - 1), raw));
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+});
+
+describe('XYZ import', () => {
+  it('reads colours in columns 4-6 and keeps the rest as attributes', async () => {
+    const text = '2\n# a comment\n1 2 3 255 0 0 9\n4,5,6,0,0,255,8\n';
+    const { format, dataset } = await importFile('scan.xyz', text);
+    expect(format).toBe('xyz');
+    expect(positionsOf(dataset.positions)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(Array.from(dataset.colors!)).toEqual([1, 0, 0, 0, 0, 1]);
+    expect(Array.from(dataset.attributes['Column 7'] as Float32Array)).toEqual([9, 8]);
+  });
+});
@@ -0,0 +1,43 @@
+import { csvImporter } from './csv';
+import { jsonImporter, ndjsonImporter } from './json';
+import { plyImporter } from './ply';
+import { pcdImporter } from './pcd';
+import { xyzImporter } from './xyz';
+import { Importer, ImporterId } from './types';
+
+export type { Importer, ImporterId, ImportOptions, ImportResult, ImportContext, TableSettings } from './types';
+
+/**
+ * Every supported format. Sniffers run in this order, so formats with
+ * unambiguous magic bytes come before the looser text formats; CSV is the
+ * fallback when nothing else claims a file.
+ */
+export const IMPORTERS: Importer[] = [
+  plyImporter,
+  pcdImporter,
+  ndjsonImporter,
+  jsonImporter,
+  xyzImporter,
+  csvImporter,
+];
+
+const SNIFF_BYTES = 4096;
+
+export const getImporter = (id: ImporterId): Importer => {
+  const importer = IMPORTERS.find(i => i.id === id);
+  if (!importer) throw new Error(`Unknown import format "${id}"`);
+  return importer;
+};
+
+export const ACCEPTED_EXTENSIONS = IMPORTERS.flatMap(i => i.extensions.map(e => `.${e}`)).join(',');
+
+/** Picks an importer from the file's leading bytes, falling back to its extension. */
+export const detectImporter = async (file: File): Promise<Importer> => {
+  const bytes = new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer());
+  const head = new TextDecoder('latin1').decode(bytes);
+  const sniffed = IMPORTERS.find(i => i.sniff?.(head));
+  if (sniffed) return sniffed;
+
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  return IMPORTERS.find(i => i.extensions.includes(extension)) ?? csvImporter;
+};
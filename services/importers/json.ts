@@ -0,0 +1,188 @@
+import { ParsedCSV } from '../csvParser';
+import { PREVIEW_BYTES } from './csv';
+import { createLineSplitter, createProgressTicker, readTextChunks } from './streams';
+import { createTableSink } from './tabular';
+import { Importer } from './types';
+
+const PREVIEW_RECORDS = 200;
+
+type JsonRecord = Record<string, unknown> | unknown[];
+
+const toCell = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const toFields = (record: unknown, keys: string[] | undefined): string[] => {
+  if (Array.isArray(record)) return record.map(toCell);
+  if (record && typeof record === 'object' && keys) {
+    return keys.map(k => toCell((record as Record<string, unknown>)[k]));
+  }
+  return [toCell(record)];
+};
+
+/** Accepts a top-level array, or an object wrapping its records in an array property. */
+const findRecords = (root: unknown): unknown[] => {
+  if (Array.isArray(root)) return root;
+  if (root && typeof root === 'object') {
+    const arrays = Object.values(root).filter(Array.isArray) as unknown[][];
+    if (arrays.length > 0) return arrays.sort((a, b) => b.length - a.length)[0];
+  }
+  throw new Error('JSON file does not contain an array of records');
+};
+
+/**
+ * Extracts the complete top-level elements of a JSON array from a possibly
+ * truncated prefix of the document, so large files can be previewed cheaply.
+ */
+const extractArrayHead = (text: string, start: number, max: number): unknown[] => {
+  const records: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  for (let i = start + 1; i < text.length && records.length < max; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+      if (depth === 0 && elementStart < 0) elementStart = i;
+    } else if (ch === '{' || ch === '[') {
+      if (depth === 0) elementStart = i;
+      depth++;
+    } else if (ch === '}' || ch === ']') {
+      if (depth === 0) {
+        // End of the outer array
+        if (elementStart >= 0) records.push(JSON.parse(text.slice(elementStart, i)));
+        break;
+      }
+      depth--;
+      if (depth === 0) {
+        records.push(JSON.parse(text.slice(elementStart, i + 1)));
+        elementStart = -1;
+      }
+    } else if (depth === 0 && ch !== ',' && !/\s/.test(ch) && elementStart < 0) {
+      elementStart = i;
+    } else if (depth === 0 && ch === ',' && elementStart >= 0) {
+      records.push(JSON.parse(text.slice(elementStart, i)));
+      elementStart = -1;
+    }
+  }
+  return records;
+};
+
+/** Builds a column preview: object keys in first-seen order, or positions for array records. */
+export const previewRecords = (records: unknown[]): ParsedCSV => {
+  const sample = records.slice(0, PREVIEW_RECORDS) as JsonRecord[];
+  const objects = sample.some(r => r && typeof r === 'object' && !Array.isArray(r));
+
+  let headers: string[];
+  if (objects) {
+    const keys = new Set<string>();
+    sample.forEach(r => {
+      if (r && typeof r === 'object' && !Array.isArray(r)) Object.keys(r).forEach(k => keys.add(k));
+    });
+    headers = [...keys];
+  } else {
+    const width = sample.reduce((max, r) => Math.max(max, Array.isArray(r) ? r.length : 1), 0);
+    headers = Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+  }
+
+  return {
+    delimiter: '',
+    hasHeader: objects,
+    headers,
+    rows: sample.map(r => toFields(r, headers)),
+    lines: sample.map((_, i) => i + 1),
+  };
+};
+
+export const jsonImporter: Importer = {
+  id: 'json',
+  name: 'JSON',
+  extensions: ['json'],
+  sniff: (head) => /^\s*[[{]/.test(head),
+
+  preview: async (file) => {
+    const head = await file.slice(0, PREVIEW_BYTES).text();
+    const start = head.search(/\S/);
+    if (file.size > PREVIEW_BYTES && head[start] === '[') {
+      return previewRecords(extractArrayHead(head, start, PREVIEW_RECORDS));
+    }
+    const text = file.size > PREVIEW_BYTES ? await file.text() : head;
+    return previewRecords(findRecords(JSON.parse(text)));
+  },
+
+  run: async (file, options, context) => {
+    const sink = createTableSink(options);
+    const keys = options.table!.keys;
+    const records = findRecords(JSON.parse(await file.text()));
+    const tick = createProgressTicker(context, file.size);
+
+    for (let i = 0; i < records.length && !sink.failed; i++) {
+      tick(Math.round((i / records.length) * file.size), sink.count);
+      // Record numbers stand in for line numbers in the report
+      sink.pushRow(toFields(records[i], keys), i + 1);
+    }
+    return sink.finish();
+  },
+};
+
+export const ndjsonImporter: Importer = {
+  id: 'ndjson',
+  name: 'NDJSON',
+  extensions: ['ndjson', 'jsonl'],
+  sniff: (head) => {
+    const lines = head.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+    return lines.length > 1 && lines[0].startsWith('{') && lines[0].endsWith('}') && lines[1].startsWith('{');
+  },
+
+  preview: async (file) => {
+    const lines = (await file.slice(0, PREVIEW_BYTES).text()).split(/\r\n|\n|\r/);
+    if (file.size > PREVIEW_BYTES) lines.pop();
+
+    const records: unknown[] = [];
+    for (const line of lines) {
+      if (records.length >= PREVIEW_RECORDS) break;
+      if (line.trim().length === 0) continue;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Malformed lines surface in the import report instead
+      }
+    }
+    return previewRecords(records);
+  },
+
+  run: async (file, options, context) => {
+    const sink = createTableSink(options);
+    const keys = options.table!.keys;
+
+    const splitter = createLineSplitter((line, lineNumber) => {
+      if (sink.failed || line.trim().length === 0) return;
+      let record: unknown;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // An unparseable record has no usable coordinates
+        record = {};
+      }
+      sink.pushRow(toFields(record, keys), lineNumber);
+    });
+
+    await readTextChunks(file, (text) => {
+      splitter.push(text);
+      return !sink.failed;
+    }, context, () => sink.count);
+
+    if (!sink.failed) splitter.finish();
+    return sink.finish();
+  },
+};
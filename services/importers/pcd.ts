@@ -0,0 +1,198 @@
+import { createDatasetBuilder } from '../dataset';
+import { createRowValidator } from '../rowValidation';
+import { createLineSplitter, createProgressTicker, readTextChunks } from './streams';
+import { finishImport } from './tabular';
+import { Importer } from './types';
+
+interface PcdField {
+  name: string;
+  size: number;
+  type: 'I' | 'U' | 'F';
+  count: number;
+}
+
+interface PcdHeader {
+  fields: PcdField[];
+  points: number;
+  data: 'ascii' | 'binary' | 'binary_compressed';
+  headerLines: number;
+  bodyOffset: number;
+}
+
+const HEADER_BYTES = 64 * 1024;
+const LABEL_FIELDS = ['label', 'class', 'classification'];
+
+const parseHeader = async (file: File): Promise<PcdHeader> => {
+  const head = new TextDecoder('latin1').decode(new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer()));
+  const match = /^DATA[ \t]+(\S+)[^\n]*\n/m.exec(head);
+  if (!match) throw new Error('Not a valid PCD file: DATA line not found');
+
+  const entries: Record<string, string[]> = {};
+  const lines = head.slice(0, match.index).split(/\r?\n/);
+  lines.forEach(line => {
+    if (line.startsWith('#')) return;
+    const [key, ...values] = line.trim().split(/\s+/);
+    if (key) entries[key.toUpperCase()] = values;
+  });
+
+  const names = entries.FIELDS ?? [];
+  const fields: PcdField[] = names.map((name, i) => ({
+    name,
+    size: Number(entries.SIZE?.[i] ?? 4),
+    type: (entries.TYPE?.[i] ?? 'F') as PcdField['type'],
+    count: Number(entries.COUNT?.[i] ?? 1),
+  }));
+  if (!['x', 'y', 'z'].every(n => names.includes(n))) throw new Error('PCD file has no x, y and z fields');
+
+  const data = match[1].toLowerCase() as PcdHeader['data'];
+  if (!['ascii', 'binary', 'binary_compressed'].includes(data)) throw new Error(`Unsupported PCD data type "${data}"`);
+
+  const points = Number(entries.POINTS?.[0] ?? Number(entries.WIDTH?.[0] ?? 0) * Number(entries.HEIGHT?.[0] ?? 1));
+  return {
+    fields,
+    points,
+    data,
+    // Includes the DATA line
+    headerLines: lines.length,
+    bodyOffset: match.index + match[0].length,
+  };
+};
+
+/** LZF decompression as used by PCL's binary_compressed encoding. */
+const decompressLZF = (input: Uint8Array, outputLength: number) => {
+  const output = new Uint8Array(outputLength);
+  let ip = 0;
+  let op = 0;
+  while (ip < input.length) {
+    let ctrl = input[ip++];
+    if (ctrl < 32) {
+      ctrl++;
+      output.set(input.subarray(ip, ip + ctrl), op);
+      ip += ctrl;
+      op += ctrl;
+    } else {
+      let length = ctrl >> 5;
+      let ref = op - ((ctrl & 0x1f) << 8) - 1;
+      if (length === 7) length += input[ip++];
+      ref -= input[ip++];
+      length += 2;
+      for (let k = 0; k < length; k++) output[op++] = output[ref++];
+    }
+  }
+  return output;
+};
+
+const readValue = (view: DataView, offset: number, field: PcdField): number => {
+  if (field.type === 'F') return field.size === 8 ? view.getFloat64(offset, true) : view.getFloat32(offset, true);
+  if (field.type === 'U') {
+    return field.size === 1 ? view.getUint8(offset) : field.size === 2 ? view.getUint16(offset, true) : view.getUint32(offset, true);
+  }
+  return field.size === 1 ? view.getInt8(offset) : field.size === 2 ? view.getInt16(offset, true) : view.getInt32(offset, true);
+};
+
+// Packed rgb/rgba fields store 0x00RRGGBB in the bits of a float or uint32
+const packedBits = new DataView(new ArrayBuffer(4));
+const unpackRGB = (value: number, type: PcdField['type']): [number, number, number] => {
+  if (type === 'F') packedBits.setFloat32(0, value);
+  else packedBits.setUint32(0, value >>> 0);
+  const bits = packedBits.getUint32(0);
+  return [((bits >> 16) & 255) / 255, ((bits >> 8) & 255) / 255, (bits & 255) / 255];
+};
+
+export const pcdImporter: Importer = {
+  id: 'pcd',
+  name: 'PCD',
+  extensions: ['pcd'],
+  sniff: (head) => /^(#[^\n]*\n)*\s*VERSION\s/.test(head) && /\nFIELDS\s/.test(head),
+
+  run: async (file, options, context) => {
+    const header = await parseHeader(file);
+    const { fields } = header;
+
+    // Flatten multi-count fields into one column per component
+    const columns = fields.flatMap((f, fieldIndex) => Array.from({ length: f.count }, (_, k) => ({
+      field: f,
+      fieldIndex,
+      component: k,
+      name: f.count > 1 ? `${f.name}_${k}` : f.name,
+    })));
+    const columnOf = (name: string) => columns.findIndex(c => c.name === name);
+    const position = ['x', 'y', 'z'].map(columnOf);
+    const rgb = ['rgb', 'rgba'].map(columnOf).find(i => i >= 0) ?? -1;
+    const label = LABEL_FIELDS.map(columnOf).find(i => i >= 0) ?? -1;
+    const attributes = columns
+      .map((c, i) => ({ name: c.name, column: i }))
+      .filter(({ column }) => !position.includes(column) && column !== rgb && columns[column].name !== '_');
+
+    const validator = createRowValidator({ x: 0, y: 1, z: 2, label: null, metadata: null }, options.policy, options.fileName);
+    const builder = createDatasetBuilder({
+      colors: rgb >= 0,
+      attributes: attributes.map(a => ({ name: a.name, numeric: true })),
+    });
+
+    const store = (values: ArrayLike<number>, record: number) => {
+      const coords = validator.pushValues(values[position[0]], values[position[1]], values[position[2]], record);
+      if (!coords) return;
+      const index = builder.push(coords[0], coords[1], coords[2], label >= 0 ? String(values[label]) : 'Unlabeled', '');
+      if (rgb >= 0) {
+        const [r, g, b] = unpackRGB(values[rgb], columns[rgb].field.type);
+        builder.setColor(index, r, g, b);
+      }
+      attributes.forEach((a, i) => builder.setAttribute(i, index, values[a.column]));
+    };
+
+    if (header.data === 'ascii') {
+      let record = 0;
+      const splitter = createLineSplitter((line, lineNumber) => {
+        if (validator.failed || record >= header.points || line.trim().length === 0) return;
+        const tokens = line.trim().split(/\s+/);
+        // Packed colours are written as the float whose bits hold the rgb
+        const values = columns.map((_, i) => Number(tokens[i]));
+        record++;
+        store(values, lineNumber);
+      }, header.headerLines + 1);
+
+      await readTextChunks(file.slice(header.bodyOffset), (text) => {
+        splitter.push(text);
+        return !validator.failed;
+      }, context, () => builder.count);
+      splitter.finish();
+      return finishImport(builder, validator);
+    }
+
+    let body = new Uint8Array(await file.slice(header.bodyOffset).arrayBuffer());
+    const columnMajor = header.data === 'binary_compressed';
+    if (columnMajor) {
+      const sizes = new DataView(body.buffer, body.byteOffset, 8);
+      const compressed = sizes.getUint32(0, true);
+      const uncompressed = sizes.getUint32(4, true);
+      body = decompressLZF(body.subarray(8, 8 + compressed), uncompressed);
+    }
+
+    const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+    const recordSize = fields.reduce((sum, f) => sum + f.size * f.count, 0);
+    // Byte offset of each field: within a record, or of its block when column-major
+    const fieldOffsets: number[] = [];
+    let running = 0;
+    fields.forEach(f => {
+      fieldOffsets.push(running);
+      running += f.size * f.count * (columnMajor ? header.points : 1);
+    });
+
+    const tick = createProgressTicker(context, file.size);
+    const values = new Float64Array(columns.length);
+    for (let i = 0; i < header.points; i++) {
+      if ((i & 0x3fff) === 0) tick(header.bodyOffset + (i / header.points) * body.byteLength, builder.count);
+      columns.forEach((c, k) => {
+        const { size, count } = c.field;
+        const offset = columnMajor
+          ? fieldOffsets[c.fieldIndex] + (i * count + c.component) * size
+          : i * recordSize + fieldOffsets[c.fieldIndex] + c.component * size;
+        values[k] = readValue(view, offset, c.field);
+      });
+      store(values, i + 1);
+      if (validator.failed) break;
+    }
+    return finishImport(builder, validator);
+  },
+};
@@ -0,0 +1,226 @@
+import { createDatasetBuilder } from '../dataset';
+import { createRowValidator } from '../rowValidation';
+import { createLineSplitter, createProgressTicker, readTextChunks } from './streams';
+import { finishImport } from './tabular';
+import { Importer } from './types';
+
+type ScalarType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+const TYPE_ALIASES: Record<string, ScalarType> = {
+  char: 'int8', int8: 'int8',
+  uchar: 'uint8', uint8: 'uint8',
+  short: 'int16', int16: 'int16',
+  ushort: 'uint16', uint16: 'uint16',
+  int: 'int32', int32: 'int32',
+  uint: 'uint32', uint32: 'uint32',
+  float: 'float32', float32: 'float32',
+  double: 'float64', float64: 'float64',
+};
+
+const TYPE_SIZES: Record<ScalarType, number> = {
+  int8: 1, uint8: 1, int16: 2, uint16: 2, int32: 4, uint32: 4, float32: 4, float64: 8,
+};
+
+// Integer colour channels are normalised by the largest value of their type
+const TYPE_MAX: Partial<Record<ScalarType, number>> = {
+  uint8: 255, int8: 127, uint16: 65535, int16: 32767,
+};
+
+interface PlyProperty {
+  name: string;
+  type: ScalarType;
+  // Set for list properties: the type of the leading item count
+  countType?: ScalarType;
+}
+
+interface PlyElement {
+  name: string;
+  count: number;
+  properties: PlyProperty[];
+}
+
+interface PlyHeader {
+  format: 'ascii' | 'binary_little_endian' | 'binary_big_endian';
+  elements: PlyElement[];
+  headerLines: number;
+  bodyOffset: number;
+}
+
+const HEADER_BYTES = 64 * 1024;
+const LABEL_PROPERTIES = ['label', 'class', 'classification', 'category'];
+const COLOR_PROPERTIES = [
+  ['red', 'green', 'blue'],
+  ['r', 'g', 'b'],
+  ['diffuse_red', 'diffuse_green', 'diffuse_blue'],
+];
+
+const parseHeader = async (file: File): Promise<PlyHeader> => {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const head = new TextDecoder('latin1').decode(bytes);
+  const match = /end_header[^\n]*\n/.exec(head);
+  if (!head.startsWith('ply') || !match) throw new Error('Not a valid PLY file: header not found');
+
+  const lines = head.slice(0, match.index).split(/\r?\n/);
+  const header: PlyHeader = {
+    format: 'ascii',
+    elements: [],
+    // Includes the end_header line
+    headerLines: lines.length,
+    // latin1 decoding maps bytes to chars one to one
+    bodyOffset: match.index + match[0].length,
+  };
+
+  lines.forEach(line => {
+    const parts = line.trim().split(/\s+/);
+    if (parts[0] === 'format') {
+      header.format = parts[1] as PlyHeader['format'];
+    } else if (parts[0] === 'element') {
+      header.elements.push({ name: parts[1], count: parseInt(parts[2], 10), properties: [] });
+    } else if (parts[0] === 'property') {
+      const element = header.elements[header.elements.length - 1];
+      if (!element) return;
+      if (parts[1] === 'list') {
+        element.properties.push({ name: parts[4], countType: TYPE_ALIASES[parts[2]], type: TYPE_ALIASES[parts[3]] });
+      } else {
+        element.properties.push({ name: parts[2], type: TYPE_ALIASES[parts[1]] });
+      }
+    }
+  });
+
+  if (!['ascii', 'binary_little_endian', 'binary_big_endian'].includes(header.format)) {
+    throw new Error(`Unsupported PLY format "${header.format}"`);
+  }
+  const vertex = header.elements.find(e => e.name === 'vertex');
+  if (!vertex || !['x', 'y', 'z'].every(n => vertex.properties.some(p => p.name === n))) {
+    throw new Error('PLY file has no vertex element with x, y and z');
+  }
+  return header;
+};
+
+/**
+ * Works out which vertex properties feed the position, colour, label and
+ * attribute columns. Every other scalar property is kept as an attribute.
+ */
+const planVertex = (vertex: PlyElement) => {
+  const indexOf = (name: string) => vertex.properties.findIndex(p => p.name === name && !p.countType);
+  const colorNames = COLOR_PROPERTIES.find(names => names.every(n => indexOf(n) >= 0));
+  const color = colorNames?.map(indexOf) ?? null;
+  const labelName = LABEL_PROPERTIES.find(n => indexOf(n) >= 0);
+  const label = labelName ? indexOf(labelName) : -1;
+  const position = ['x', 'y', 'z'].map(indexOf);
+  const reserved = new Set([...position, ...(color ?? [])]);
+  const attributes = vertex.properties
+    .map((p, i) => ({ p, i }))
+    .filter(({ p, i }) => !p.countType && !reserved.has(i))
+    .map(({ p, i }) => ({ name: p.name, property: i }));
+  const colorScale = color ? color.map(i => TYPE_MAX[vertex.properties[i].type] ?? 1) : null;
+  return { position, color, colorScale, label, attributes };
+};
+
+const readScalar = (view: DataView, offset: number, type: ScalarType, little: boolean): number => {
+  switch (type) {
+    case 'int8': return view.getInt8(offset);
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, little);
+    case 'uint16': return view.getUint16(offset, little);
+    case 'int32': return view.getInt32(offset, little);
+    case 'uint32': return view.getUint32(offset, little);
+    case 'float32': return view.getFloat32(offset, little);
+    case 'float64': return view.getFloat64(offset, little);
+  }
+};
+
+export const plyImporter: Importer = {
+  id: 'ply',
+  name: 'PLY',
+  extensions: ['ply'],
+  sniff: (head) => /^ply\r?\n/.test(head),
+
+  run: async (file, options, context) => {
+    const header = await parseHeader(file);
+    const vertex = header.elements.find(e => e.name === 'vertex')!;
+    const plan = planVertex(vertex);
+    const validator = createRowValidator({ x: 0, y: 1, z: 2, label: null, metadata: null }, options.policy, options.fileName);
+    const builder = createDatasetBuilder({
+      colors: plan.color !== null,
+      attributes: plan.attributes.map(a => ({ name: a.name, numeric: true })),
+    });
+
+    const store = (values: number[], record: number) => {
+      const [px, py, pz] = plan.position;
+      const coords = validator.pushValues(values[px], values[py], values[pz], record);
+      if (!coords) return;
+      const label = plan.label >= 0 ? String(values[plan.label]) : 'Unlabeled';
+      const index = builder.push(coords[0], coords[1], coords[2], label, '');
+      if (plan.color && plan.colorScale) {
+        const [r, g, b] = plan.color.map((p, c) => values[p] / plan.colorScale![c]);
+        builder.setColor(index, r, g, b);
+      }
+      plan.attributes.forEach((a, i) => builder.setAttribute(i, index, values[a.property]));
+    };
+
+    if (header.format === 'ascii') {
+      // Lines belonging to elements declared before the vertices are skipped
+      const vertexIndex = header.elements.indexOf(vertex);
+      const firstVertexLine = header.headerLines + 1 +
+        header.elements.slice(0, vertexIndex).reduce((sum, e) => sum + e.count, 0);
+      let record = 0;
+
+      const splitter = createLineSplitter((line, lineNumber) => {
+        if (lineNumber < firstVertexLine || record >= vertex.count || validator.failed) return;
+        const tokens = line.trim().split(/\s+/);
+        const values: number[] = [];
+        let t = 0;
+        vertex.properties.forEach(p => {
+          if (p.countType) {
+            const n = Number(tokens[t++]);
+            t += n;
+            values.push(NaN);
+          } else {
+            values.push(Number(tokens[t++]));
+          }
+        });
+        record++;
+        store(values, lineNumber);
+      }, header.headerLines + 1);
+
+      await readTextChunks(file.slice(header.bodyOffset), (text) => {
+        splitter.push(text);
+        return !validator.failed && record < vertex.count;
+      }, context, () => builder.count);
+      splitter.finish();
+      return finishImport(builder, validator);
+    }
+
+    const buffer = await file.slice(header.bodyOffset).arrayBuffer();
+    const view = new DataView(buffer);
+    const little = header.format === 'binary_little_endian';
+    const tick = createProgressTicker(context, file.size);
+    let offset = 0;
+
+    for (const element of header.elements) {
+      const isVertex = element === vertex;
+      const values: number[] = new Array(element.properties.length);
+
+      for (let i = 0; i < element.count; i++) {
+        if ((i & 0x3fff) === 0) tick(header.bodyOffset + offset, builder.count);
+        element.properties.forEach((p, k) => {
+          if (p.countType) {
+            const n = readScalar(view, offset, p.countType, little);
+            offset += TYPE_SIZES[p.countType] + n * TYPE_SIZES[p.type];
+            values[k] = NaN;
+          } else {
+            values[k] = readScalar(view, offset, p.type, little);
+            offset += TYPE_SIZES[p.type];
+          }
+        });
+        if (isVertex) {
+          store(values, i + 1);
+          if (validator.failed) break;
+        }
+      }
+      if (isVertex) break;
+    }
+    return finishImport(builder, validator);
+  },
+};
@@ -0,0 +1,77 @@
+import { ImportContext } from './types';
+
+const PROGRESS_INTERVAL_MS = 100;
+
+/**
+ * Decodes a blob as UTF-8 chunk by chunk. onText may return false to stop
+ * early (e.g. after a fail-policy error).
+ */
+export const readTextChunks = async (
+  blob: Blob,
+  onText: (text: string) => boolean | void,
+  context: ImportContext,
+  rowCount: () => number
+): Promise<void> => {
+  const reader = blob.stream().getReader();
+  const decoder = new TextDecoder();
+  let bytesRead = 0;
+  let lastProgress = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    bytesRead += value.byteLength;
+    if (onText(decoder.decode(value, { stream: true })) === false) {
+      await reader.cancel();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastProgress > PROGRESS_INTERVAL_MS) {
+      lastProgress = now;
+      context.onProgress({ bytesRead, totalBytes: blob.size, rows: rowCount() });
+    }
+  }
+
+  onText(decoder.decode());
+};
+
+/** Splits streamed text into lines, numbering them from firstLine. */
+export const createLineSplitter = (onLine: (line: string, lineNumber: number) => void, firstLine = 1) => {
+  let rest = '';
+  let lineNumber = firstLine;
+  let pendingCR = false;
+
+  const push = (text: string) => {
+    // A chunk ending in CR may be the first half of a CRLF pair
+    if (pendingCR && text.startsWith('\n')) text = text.slice(1);
+    pendingCR = text.endsWith('\r');
+
+    const parts = (rest + text).split(/\r\n|\n|\r/);
+    rest = parts.pop() ?? '';
+    parts.forEach(line => onLine(line, lineNumber++));
+  };
+
+  const finish = () => {
+    if (rest.length > 0) onLine(rest, lineNumber++);
+    rest = '';
+  };
+
+  return { push, finish };
+};
+
+/**
+ * Posts progress for importers that decode an in-memory buffer, at most
+ * every PROGRESS_INTERVAL_MS.
+ */
+export const createProgressTicker = (context: ImportContext, totalBytes: number) => {
+  let last = 0;
+  return (bytesRead: number, rows: number) => {
+    const now = Date.now();
+    if (now - last > PROGRESS_INTERVAL_MS) {
+      last = now;
+      context.onProgress({ bytesRead, totalBytes, rows });
+    }
+  };
+};
@@ -0,0 +1,53 @@
+import { PointDataset } from '../../types';
+import { createDatasetBuilder, DatasetBuilder } from '../dataset';
+import { createNumericParser, createRowValidator, RowValidator } from '../rowValidation';
+import { ImportOptions, ImportResult } from './types';
+
+/** Replaces the NaN placeholders left by the 'impute' policy with column means. */
+export const fillImputed = (dataset: PointDataset, means: [number, number, number]) => {
+  const { positions } = dataset;
+  for (let i = 0; i < positions.length; i++) {
+    if (Number.isNaN(positions[i])) positions[i] = means[i % 3];
+  }
+};
+
+export const finishImport = (builder: DatasetBuilder, validator: RowValidator): ImportResult => {
+  const { report, means } = validator.finish();
+  const dataset = builder.build();
+  if (report.repaired > 0) fillImputed(dataset, means);
+  return { dataset, report };
+};
+
+const axisName = (column: number | null, keys: string[] | undefined, fallback: string) =>
+  (column !== null && keys?.[column]) || fallback;
+
+/**
+ * Shared row handling for tabular formats: each row arrives as string fields
+ * in header order and is validated, mapped and stored with its extra columns.
+ */
+export const createTableSink = (options: ImportOptions) => {
+  const { mapping, extraColumns, keys } = options.table!;
+  const validator = createRowValidator(mapping, options.policy, options.fileName);
+  const builder = createDatasetBuilder({
+    attributes: extraColumns.map(c => ({ name: c.name, numeric: c.numeric })),
+    axisNames: [axisName(mapping.x, keys, 'x'), axisName(mapping.y, keys, 'y'), axisName(mapping.z, keys, 'z')],
+  });
+  const parsers = extraColumns.map(() => createNumericParser());
+
+  const pushRow = (fields: string[], line: number) => {
+    const row = validator.push(fields, line);
+    if (!row) return;
+    const index = builder.push(row.x, row.y, row.z, row.label, row.metadata);
+    extraColumns.forEach((column, a) => {
+      const raw = fields[column.index] ?? '';
+      builder.setAttribute(a, index, column.numeric ? parsers[a](raw).value : raw.trim());
+    });
+  };
+
+  return {
+    pushRow,
+    finish: () => finishImport(builder, validator),
+    get failed() { return validator.failed; },
+    get count() { return builder.count; },
+  };
+};
@@ -0,0 +1,41 @@
+import { ColumnMapping, ExtraColumn, ImportProgress, ImportReport, InvalidValuePolicy, PointDataset } from '../../types';
+import { ParsedCSV } from '../csvParser';
+
+export type ImporterId = 'csv' | 'json' | 'ndjson' | 'ply' | 'pcd' | 'xyz';
+
+export interface TableSettings {
+  mapping: ColumnMapping;
+  extraColumns: ExtraColumn[];
+  // CSV only
+  delimiter?: string;
+  hasHeader?: boolean;
+  // JSON/NDJSON only: the record key behind each column index
+  keys?: string[];
+}
+
+export interface ImportOptions {
+  fileName: string;
+  policy: InvalidValuePolicy;
+  // Present for tabular formats, chosen in the column-mapping step
+  table?: TableSettings;
+}
+
+export interface ImportResult {
+  dataset: PointDataset;
+  report: ImportReport;
+}
+
+export interface ImportContext {
+  onProgress: (progress: ImportProgress) => void;
+}
+
+export interface Importer {
+  id: ImporterId;
+  name: string;
+  extensions: string[];
+  // Recognises the format from the first bytes of the file, decoded as latin1
+  sniff?: (head: string) => boolean;
+  // Tabular formats preview their first rows for the column-mapping step
+  preview?: (file: File, options?: { delimiter?: string; hasHeader?: boolean }) => Promise<ParsedCSV>;
+  run: (file: File, options: ImportOptions, context: ImportContext) => Promise<ImportResult>;
+}
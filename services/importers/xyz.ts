@@ -0,0 +1,61 @@
+import { createDatasetBuilder } from '../dataset';
+import { createRowValidator } from '../rowValidation';
+import { createLineSplitter, readTextChunks } from './streams';
+import { finishImport } from './tabular';
+import { Importer } from './types';
+
+const SEPARATOR = /[\s,;]+/;
+
+const isDataLine = (line: string) => {
+  const t = line.trim();
+  // Comments, blank lines and the point count that opens .pts files
+  return t.length > 0 && !t.startsWith('#') && !t.startsWith('//') && t.split(SEPARATOR).length >= 3;
+};
+
+/**
+ * Plain "x y z [...]" text. With six or more columns, columns 4-6 are read
+ * as rgb (0-255, or 0-1 when the first point's channels are all at most 1);
+ * anything else is kept as numeric attributes.
+ */
+export const xyzImporter: Importer = {
+  id: 'xyz',
+  name: 'XYZ',
+  extensions: ['xyz', 'pts', 'asc'],
+
+  run: async (file, options, context) => {
+    const head = await file.slice(0, 64 * 1024).text();
+    const firstLine = head.split(/\r\n|\n|\r/).find(isDataLine);
+    if (!firstLine) throw new Error('No x y z rows found');
+
+    const first = firstLine.trim().split(SEPARATOR).map(Number);
+    const hasColor = first.length >= 6;
+    const colorScale = hasColor && first.slice(3, 6).every(v => v <= 1) ? 1 : 255;
+    const extraStart = hasColor ? 6 : 3;
+    const extras = Array.from({ length: first.length - extraStart }, (_, i) => extraStart + i);
+
+    const validator = createRowValidator({ x: 0, y: 1, z: 2, label: null, metadata: null }, options.policy, options.fileName);
+    const builder = createDatasetBuilder({
+      colors: hasColor,
+      attributes: extras.map(i => ({ name: `Column ${i + 1}`, numeric: true })),
+    });
+
+    const splitter = createLineSplitter((line, lineNumber) => {
+      if (validator.failed || !isDataLine(line)) return;
+      const tokens = line.trim().split(SEPARATOR);
+      const row = validator.push(tokens, lineNumber);
+      if (!row) return;
+      const index = builder.push(row.x, row.y, row.z, 'Unlabeled', '');
+      if (hasColor) {
+        builder.setColor(index, Number(tokens[3]) / colorScale, Number(tokens[4]) / colorScale, Number(tokens[5]) / colorScale);
+      }
+      extras.forEach((column, a) => builder.setAttribute(a, index, Number(tokens[column] ?? NaN)));
+    });
+
+    await readTextChunks(file, (text) => {
+      splitter.push(text);
+      return !validator.failed;
+    }, context, () => builder.count);
+    splitter.finish();
+    return finishImport(builder, validator);
+  },
+};
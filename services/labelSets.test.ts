@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { LabelSet } from '../types';
+import { NOISE } from './clustering';
+import { MISSING_VALUE_COLOR } from './colormaps';
+import { adjustedRandIndex, contingencyTable, labelSetFromClusters, NOISE_LABEL } from './labelSets';
+
+const labelSet = (labels: string[], indices: number[]): LabelSet =>
+  ({ name: 'Set', labels, labelIndices: Uint32Array.from(indices), categoryStyles: {} });
+
+describe('labelSetFromClusters', () => {
+  it('numbers clusters by size and gives noise a muted category of its own', () => {
+    const set = labelSetFromClusters('Clusters', Int32Array.of(4, 7, 7, NOISE, 7, 4, 2));
+    expect(set.labels).toEqual(['Cluster 1', 'Cluster 2', 'Cluster 3', NOISE_LABEL]);
+    expect(Array.from(set.labelIndices)).toEqual([1, 0, 0, 3, 0, 1, 2]);
+    expect(set.categoryStyles[NOISE_LABEL].color).toBe(MISSING_VALUE_COLOR);
+  });
+});
+
+describe('contingencyTable', () => {
+  it('counts the points of every pair of categories', () => {
+    const table = contingencyTable(labelSet(['a', 'b'], [0, 0, 1, 1]), labelSet(['x', 'y', 'z'], [0, 1, 1, 2]));
+    expect(table).toEqual({ rows: ['a', 'b'], columns: ['x', 'y', 'z'], counts: [[1, 1, 0], [0, 1, 1]], total: 4 });
+  });
+});
+
+describe('adjustedRandIndex', () => {
+  const ari = (a: number[], b: number[]) => {
+    const names = (indices: number[]) => Array.from({ length: Math.max(...indices) + 1 }, (_, i) => `c${i}`);
+    return adjustedRandIndex(contingencyTable(labelSet(names(a), a), labelSet(names(b), b)));
+  };
+
+  it('is 1 for the same partition under other names', () => {
+    expect(ari([0, 0, 1, 1, 2, 2], [2, 2, 0, 0, 1, 1])).toBe(1);
+    expect(ari([0, 0, 0], [0, 0, 0])).toBe(1);
+  });
+
+  it('matches a hand-computed value', () => {
+    // 2 agreeing pairs, 6 · 3 / 15 expected by chance, at most (6 + 3) / 2
+    expect(ari([0, 0, 0, 1, 1, 1], [0, 0, 1, 1, 2, 2])).toBeCloseTo((2 - 1.2) / (4.5 - 1.2), 12);
+  });
+
+  it('is negative when the partitions disagree more than chance', () => {
+    expect(ari([0, 0, 1, 1], [0, 1, 0, 1])).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { CategoryStyle, LabelSet, PointShape, VisualizationState } from '../types';
+import { NOISE } from './clustering';
+import { MISSING_VALUE_COLOR } from './colormaps';
+import { asRecord, isFiniteNumber } from './validation';
+
+export const ORIGINAL_LABEL_SET = 'Original labels';
+export const NOISE_LABEL = 'Noise';
+
+export const CATEGORY_PALETTE = [
+  '#60a5fa', '#f87171', '#34d399', '#fbbf24', '#a78bfa',
+  '#f472b6', '#2dd4bf', '#fb923c', '#818cf8', '#94a3b8'
+];
+
+export const defaultCategoryStyles = (labels: string[]): Record<string, CategoryStyle> => {
+  const styles: Record<string, CategoryStyle> = {};
+  labels.forEach((label, i) => {
+    styles[label] = {
+      color: CATEGORY_PALETTE[i % CATEGORY_PALETTE.length],
+      shape: 'circle',
+      visible: true,
+      size: 1,
+    };
+  });
+  return styles;
+};
+
+export const POINT_SHAPES: PointShape[] = ['circle', 'square', 'diamond', 'cross'];
+
+/** The valid fields of a saved category style; malformed ones are left out. */
+export const parseCategoryStyle = (value: unknown): Partial<CategoryStyle> => {
+  const raw = asRecord(value);
+  const style: Partial<CategoryStyle> = {};
+  if (typeof raw.color === 'string' && /^#[0-9a-f]{6}$/i.test(raw.color)) style.color = raw.color;
+  if (POINT_SHAPES.includes(raw.shape as PointShape)) style.shape = raw.shape as PointShape;
+  if (typeof raw.visible === 'boolean') style.visible = raw.visible;
+  if (isFiniteNumber(raw.size) && raw.size > 0) style.size = raw.size;
+  return style;
+};
+
+/** Saved styles by label, with malformed fields replaced by the defaults. */
+export const readCategoryStyles = (value: unknown): Record<string, CategoryStyle> => {
+  const saved = asRecord(value);
+  const defaults = defaultCategoryStyles(Object.keys(saved));
+  return Object.fromEntries(Object.keys(saved).map(label => [label, { ...defaults[label], ...parseCategoryStyle(saved[label]) }]));
+};
+
+/**
+ * Turns cluster assignments into a label set. Clusters are numbered by
+ * size, largest first, and DBSCAN noise gets its own muted category.
+ */
+export const labelSetFromClusters = (name: string, assignments: Int32Array): LabelSet => {
+  const sizes = new Map<number, number>();
+  assignments.forEach(c => sizes.set(c, (sizes.get(c) ?? 0) + 1));
+  const clusters = [...sizes.keys()].filter(c => c !== NOISE).sort((a, b) => sizes.get(b)! - sizes.get(a)!);
+
+  const labels = clusters.map((_, i) => `Cluster ${i + 1}`);
+  const indexOf = new Map(clusters.map((c, i) => [c, i]));
+  if (sizes.has(NOISE)) {
+    indexOf.set(NOISE, labels.length);
+    labels.push(NOISE_LABEL);
+  }
+
+  const labelIndices = new Uint32Array(assignments.length);
+  for (let i = 0; i < assignments.length; i++) labelIndices[i] = indexOf.get(assignments[i])!;
+
+  const categoryStyles = defaultCategoryStyles(labels);
+  if (sizes.has(NOISE)) categoryStyles[NOISE_LABEL].color = MISSING_VALUE_COLOR;
+  return { name, labels, labelIndices, categoryStyles };
+};
+
+/** Label sets with the active one refreshed from the dataset and current styles. */
+export const syncLabelSets = (state: VisualizationState): LabelSet[] => {
+  const { dataset, labelSets, activeLabelSet, categoryStyles } = state;
+  if (!dataset) return labelSets;
+  return labelSets.map((set, i) => (i === activeLabelSet
+    ? { ...set, labels: dataset.labels, labelIndices: dataset.labelIndices, categoryStyles }
+    : set));
+};
+
+export interface ContingencyTable {
+  rows: string[];
+  columns: string[];
+  // counts[row][column]
+  counts: number[][];
+  total: number;
+}
+
+/** Cross-tabulates two label sets over the same points. */
+export const contingencyTable = (a: LabelSet, b: LabelSet): ContingencyTable => {
+  const counts = a.labels.map(() => new Array(b.labels.length).fill(0));
+  for (let i = 0; i < a.labelIndices.length; i++) counts[a.labelIndices[i]][b.labelIndices[i]]++;
+  return { rows: a.labels, columns: b.labels, counts, total: a.labelIndices.length };
+};
+
+const pairs = (n: number) => (n * (n - 1)) / 2;
+
+/**
+ * Adjusted Rand index: pair-counting agreement between two partitions,
+ * corrected for chance. 1 means identical partitions; around 0 means no
+ * more agreement than random labels.
+ */
+export const adjustedRandIndex = (table: ContingencyTable): number => {
+  let index = 0;
+  const rowSums = table.counts.map(row => row.reduce((s, v) => s + v, 0));
+  const columnSums = table.columns.map((_, j) => table.counts.reduce((s, row) => s + row[j], 0));
+  table.counts.forEach(row => row.forEach(v => { index += pairs(v); }));
+
+  const rowPairs = rowSums.reduce((s, v) => s + pairs(v), 0);
+  const columnPairs = columnSums.reduce((s, v) => s + pairs(v), 0);
+  const expected = (rowPairs * columnPairs) / (pairs(table.total) || 1);
+  const maximum = (rowPairs + columnPairs) / 2;
+  return maximum === expected ? 1 : (index - expected) / (maximum - expected);
+};
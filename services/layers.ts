@@ -0,0 +1,224 @@
+import { DatasetLayer, LayerComparison, LayerDisplay, PointDataset } from '../types';
+import { ID_CATEGORY, ID_METADATA, pointIdReader } from './dataset';
+import { SceneTransform, transformPositions } from './axes';
+import { defaultCategoryStyles } from './labelSets';
+
+export const DEFAULT_LAYER_DISPLAY: LayerDisplay = { visible: true, opacity: 1 };
+
+export const DEFAULT_COMPARISON: LayerComparison = { layerId: null, idColumn: null, showVectors: true };
+
+export const createLayerId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createLayer = (dataset: PointDataset, name: string): DatasetLayer => ({
+  id: createLayerId(),
+  name,
+  dataset,
+  visible: true,
+  opacity: 1,
+  scale: 1,
+  offset: [0, 0, 0],
+  categoryStyles: defaultCategoryStyles(dataset.labels),
+});
+
+/** Centre of the raw bounding box. */
+export const datasetCenter = (dataset: PointDataset): [number, number, number] => {
+  const { positions, count } = dataset;
+  return [0, 1, 2].map(a => {
+    let min = Infinity;
+    let max = -Infinity;
+    for (let i = 0; i < count; i++) {
+      const v = positions[i * 3 + a];
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    return Number.isFinite(min) ? (min + max) / 2 : 0;
+  }) as [number, number, number];
+};
+
+/** The layer's raw coordinates after its scale and offset. */
+export const placeLayer = (layer: DatasetLayer, center = datasetCenter(layer.dataset)): Float32Array => {
+  const { positions, count } = layer.dataset;
+  const out = new Float32Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    for (let a = 0; a < 3; a++) {
+      out[i * 3 + a] = (positions[i * 3 + a] - center[a]) * layer.scale + center[a] + layer.offset[a];
+    }
+  }
+  return out;
+};
+
+/** A layer's placed raw coordinates and where they land on the main dataset's axes. */
+export interface LayerPlacement {
+  dataset: PointDataset;
+  scale: number;
+  offset: [number, number, number];
+  transform: SceneTransform;
+  placed: Float32Array;
+  world: Float32Array;
+}
+
+/**
+ * Placements for every layer, reusing the previous ones whose data, scale,
+ * offset and axes are unchanged, so dragging one layer's opacity or moving
+ * another recomputes nothing else.
+ */
+export const updatePlacements = (
+  previous: Map<string, LayerPlacement>,
+  layers: DatasetLayer[],
+  transform: SceneTransform
+): Map<string, LayerPlacement> => {
+  const next = new Map<string, LayerPlacement>();
+  layers.forEach(layer => {
+    const old = previous.get(layer.id);
+    if (old && old.dataset === layer.dataset && old.scale === layer.scale && old.offset === layer.offset && old.transform === transform) {
+      next.set(layer.id, old);
+      return;
+    }
+    const placed = placeLayer(layer);
+    next.set(layer.id, {
+      dataset: layer.dataset,
+      scale: layer.scale,
+      offset: layer.offset,
+      transform,
+      placed,
+      world: transformPositions({ ...layer.dataset, positions: placed }, transform),
+    });
+  });
+  return next;
+};
+
+/** The offset that puts the layer's centre on the main dataset's. */
+export const centeringOffset = (main: PointDataset, layer: DatasetLayer): [number, number, number] => {
+  const target = datasetCenter(main);
+  const center = datasetCenter(layer.dataset);
+  return target.map((v, a) => v - center[a]) as [number, number, number];
+};
+
+/** Id columns both datasets can be matched by. */
+export const sharedIdColumns = (main: PointDataset, other: PointDataset) => [
+  { id: ID_METADATA, name: 'Metadata' },
+  { id: ID_CATEGORY, name: 'Category' },
+  ...Object.keys(main.attributes).filter(name => name in other.attributes).map(name => ({ id: name, name })),
+];
+
+export interface LayerMatches {
+  // Matched pairs: main[k] and layer[k] share an id
+  main: Uint32Array;
+  layer: Uint32Array;
+  unmatchedMain: number;
+  unmatchedLayer: number;
+  // Points whose id an earlier point of the same dataset already had; only the first is matched
+  duplicates: number;
+}
+
+export const matchLayer = (main: PointDataset, other: PointDataset, idColumn: string): LayerMatches => {
+  const readOther = pointIdReader(other, idColumn);
+  const byId = new Map<string, number>();
+  let duplicates = 0;
+  for (let i = 0; i < other.count; i++) {
+    const id = readOther(i);
+    if (id === null) continue;
+    if (byId.has(id)) duplicates++;
+    else byId.set(id, i);
+  }
+
+  const readMain = pointIdReader(main, idColumn);
+  const seen = new Set<string>();
+  const mainIndices: number[] = [];
+  const layerIndices: number[] = [];
+  for (let i = 0; i < main.count; i++) {
+    const id = readMain(i);
+    if (id === null) continue;
+    if (seen.has(id)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(id);
+    const j = byId.get(id);
+    if (j === undefined) continue;
+    mainIndices.push(i);
+    layerIndices.push(j);
+  }
+
+  return {
+    main: Uint32Array.from(mainIndices),
+    layer: Uint32Array.from(layerIndices),
+    unmatchedMain: main.count - mainIndices.length,
+    unmatchedLayer: other.count - layerIndices.length,
+    duplicates,
+  };
+};
+
+export interface ShiftStats {
+  count: number;
+  mean: number;
+  median: number;
+  p95: number;
+  max: number;
+  rms: number;
+  // Average displacement along each axis
+  meanVector: [number, number, number];
+}
+
+/** Distances from each matched main point to its partner, in raw units. */
+export const shiftStats = (main: Float32Array, placed: Float32Array, matches: LayerMatches): ShiftStats | null => {
+  const count = matches.main.length;
+  if (count === 0) return null;
+  const lengths = new Float64Array(count);
+  const sum: [number, number, number] = [0, 0, 0];
+  let squares = 0;
+  for (let k = 0; k < count; k++) {
+    const i = matches.main[k] * 3;
+    const j = matches.layer[k] * 3;
+    let squared = 0;
+    for (let a = 0; a < 3; a++) {
+      const d = placed[j + a] - main[i + a];
+      sum[a] += d;
+      squared += d * d;
+    }
+    squares += squared;
+    lengths[k] = Math.sqrt(squared);
+  }
+  lengths.sort();
+  const total = lengths.reduce((s, v) => s + v, 0);
+  return {
+    count,
+    mean: total / count,
+    median: count % 2 ? lengths[count >> 1] : (lengths[count / 2 - 1] + lengths[count / 2]) / 2,
+    p95: lengths[Math.min(count - 1, Math.floor(count * 0.95))],
+    max: lengths[count - 1],
+    rms: Math.sqrt(squares / count),
+    meanVector: sum.map(v => v / count) as [number, number, number],
+  };
+};
+
+/**
+ * Scale and offset that best lay the layer's matched points over their
+ * partners without rotating it: the centroids coincide and the spreads
+ * around them agree.
+ */
+export const alignToMatches = (main: PointDataset, layer: DatasetLayer, matches: LayerMatches) => {
+  const count = matches.main.length;
+  if (count === 0) return null;
+  const center = datasetCenter(layer.dataset);
+  const centroid = (positions: Float32Array, indices: Uint32Array) => [0, 1, 2].map(a => {
+    let sum = 0;
+    for (let k = 0; k < count; k++) sum += positions[indices[k] * 3 + a];
+    return sum / count;
+  });
+  const spread = (positions: Float32Array, indices: Uint32Array, c: number[]) => {
+    let sum = 0;
+    for (let k = 0; k < count; k++) {
+      for (let a = 0; a < 3; a++) sum += (positions[indices[k] * 3 + a] - c[a]) ** 2;
+    }
+    return Math.sqrt(sum / count);
+  };
+  const target = centroid(main.positions, matches.main);
+  const source = centroid(layer.dataset.positions, matches.layer);
+  const sourceSpread = spread(layer.dataset.positions, matches.layer, source);
+  const targetSpread = spread(main.positions, matches.main, target);
+  // A single pair, or pairs on one spot, fixes only the offset
+  const scale = sourceSpread > 0 && targetSpread > 0 ? targetSpread / sourceSpread : layer.scale;
+  const offset = target.map((v, a) => v - center[a] - (source[a] - center[a]) * scale) as [number, number, number];
+  return { scale, offset };
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { PointDataset } from '../types';
+import { createSceneTransform, DEFAULT_AXIS_SCALES } from './axes';
+import { defaultCategoryStyles } from './labelSets';
+import { createModelScene, DEFAULT_MODEL_EXPORT, modelPointCount, writeGlb, writePly } from './modelExport';
+
+const sceneFor = (firstMetadata = 'p') => {
+  const dataset: PointDataset = {
+    count: 5,
+    positions: Float32Array.of(0, 0, 0, 1, 1, 1, 2, 0, 1, 3, 3, 3, -1, 2, 0.5),
+    labelIndices: Uint32Array.of(0, 0, 1, 2, 0),
+    labels: ['a', 'b', 'c'],
+    metadata: [firstMetadata, 'q', 'r', 's', 't'],
+    colors: null,
+    attributes: {},
+    axisNames: ['x', 'y', 'z'],
+  };
+  const styles = defaultCategoryStyles(dataset.labels);
+  styles.c.visible = false;
+  // Point 1 is hidden, point 3 sits in a hidden category
+  const hidden = Uint8Array.of(0, 1, 0, 0, 0);
+  return createModelScene(
+    dataset,
+    dataset.positions,
+    createSceneTransform(dataset, DEFAULT_AXIS_SCALES),
+    styles,
+    hidden,
+    Uint32Array.of(0, 2, 3),
+    { ...DEFAULT_MODEL_EXPORT, includeAxes: true, includeSelection: true }
+  );
+};
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Splits a GLB into its chunks the way a loader does, checking lengths and alignment on the way
+const readGlb = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  expect(view.getUint32(0, true)).toBe(0x46546c67);
+  expect(view.getUint32(4, true)).toBe(2);
+  expect(view.getUint32(8, true)).toBe(bytes.length);
+
+  const jsonLength = view.getUint32(12, true);
+  expect(view.getUint32(16, true)).toBe(0x4e4f534a);
+  expect(jsonLength % 4).toBe(0);
+  const json = JSON.parse(new TextDecoder().decode(bytes.subarray(20, 20 + jsonLength)));
+
+  const bin = 20 + jsonLength;
+  const binLength = view.getUint32(bin, true);
+  expect(view.getUint32(bin + 4, true)).toBe(0x004e4942);
+  expect(binLength % 4).toBe(0);
+  expect(bin + 8 + binLength).toBe(bytes.length);
+  return { json, body: bytes.slice(bin + 8) };
+};
+
+describe('writeGlb', () => {
+  // Metadata lengths that need every amount of JSON padding
+  it.each(['p', 'pp', 'ppp', 'pppp'])('writes aligned chunks and buffer views (metadata %s)', async (metadata) => {
+    const { json, body } = readGlb(await bytesOf(writeGlb(sceneFor(metadata))));
+    expect(json.buffers).toEqual([{ byteLength: body.length }]);
+    json.bufferViews.forEach((v: { byteOffset: number; byteLength: number }) => {
+      expect(v.byteOffset % 4).toBe(0);
+      expect(v.byteOffset + v.byteLength).toBeLessThanOrEqual(body.length);
+    });
+  });
+
+  it('writes a node per visible category with its points and lines', async () => {
+    const { json, body } = readGlb(await bytesOf(writeGlb(sceneFor())));
+    const floats = new Float32Array(body.buffer);
+    const names = json.nodes.map((n: { name: string }) => n.name);
+    expect(names).toEqual(['VoxNavigator', 'a', 'b', 'Axes', 'Selection']);
+
+    const a = json.nodes[1];
+    expect(a.extras).toEqual({ label: 'a', metadata: ['p', 't'], indices: [0, 4] });
+    const accessor = json.accessors[json.meshes[a.mesh].primitives[0].attributes.POSITION];
+    expect(accessor).toMatchObject({ count: 2, min: [-1, 0, 0], max: [0, 2, 0.5] });
+    const offset = json.bufferViews[accessor.bufferView].byteOffset / 4;
+    expect(Array.from(floats.subarray(offset, offset + 6))).toEqual([0, 0, 0, -1, 2, 0.5]);
+
+    // Rings only go around selected points that are drawn
+    const selection = json.accessors[json.meshes[json.nodes[4].mesh].primitives[0].attributes.POSITION];
+    expect(selection.count).toBe(2 * 24 * 2);
+  });
+});
+
+describe('writePly', () => {
+  it('declares as many vertices as it writes', async () => {
+    const scene = sceneFor();
+    const bytes = await bytesOf(writePly(scene));
+    const text = new TextDecoder('latin1').decode(bytes);
+    const bodyStart = text.indexOf('end_header\n') + 'end_header\n'.length;
+    const header = text.slice(0, bodyStart).split('\n');
+
+    expect(header).toContain('format binary_little_endian 1.0');
+    expect(header).toContain('comment label 2 c');
+    expect(header).toContain(`element vertex ${modelPointCount(scene)}`);
+    expect(modelPointCount(scene)).toBe(3);
+    // Three floats, three colour bytes and an int label per vertex
+    expect(bytes.length - bodyStart).toBe(3 * 19);
+
+    const view = new DataView(bytes.buffer, bodyStart);
+    expect([view.getFloat32(0, true), view.getFloat32(4, true), view.getFloat32(8, true)]).toEqual([0, 0, 0]);
+    expect(view.getInt32(19 * 2 + 15, true)).toBe(1);
+  });
+});
@@ -0,0 +1,353 @@
+import * as THREE from 'three';
+import { CategoryStyle, ModelExportSettings, ModelFormat, PointDataset } from '../types';
+import { hexToRgb } from './colormaps';
+import { AXIS_COLORS, axisSegments, SceneTransform } from './axes';
+
+export const MODEL_FORMATS: { id: ModelFormat; name: string; extension: string }[] = [
+  { id: 'glb', name: 'glTF binary (.glb)', extension: 'glb' },
+  { id: 'ply', name: 'PLY binary (.ply)', extension: 'ply' },
+  { id: 'obj', name: 'Wavefront (.obj)', extension: 'obj' },
+];
+
+export const DEFAULT_MODEL_EXPORT: ModelExportSettings = {
+  format: 'glb',
+  includeAxes: false,
+  includeSelection: false,
+};
+
+// Each ring is a loop of line segments, so very large selections are capped
+export const MAX_HIGHLIGHT_RINGS = 10_000;
+// Matches the ring drawn around the focused point
+const RING_RADIUS = 0.65;
+const RING_SEGMENTS = 24;
+
+interface PointGroup {
+  label: string;
+  color: string;
+  // Dataset indices of the group's visible points
+  indices: Uint32Array;
+}
+
+interface LineSet {
+  name: string;
+  // Pairs of world positions
+  vertices: Float32Array;
+  // sRGB hex per segment
+  colors: string[];
+}
+
+/** What gets written: visible points grouped by category, plus optional line geometry. */
+export interface ModelScene {
+  dataset: PointDataset;
+  // World-space positions, as drawn
+  positions: Float32Array;
+  groups: PointGroup[];
+  lines: LineSet[];
+}
+
+export const createModelScene = (
+  dataset: PointDataset,
+  positions: Float32Array,
+  sceneTransform: SceneTransform,
+  categoryStyles: Record<string, CategoryStyle>,
+  hiddenMask: Uint8Array | null,
+  selection: Uint32Array,
+  settings: ModelExportSettings
+): ModelScene => {
+  const { labels, labelIndices, count } = dataset;
+  const visibleCategory = labels.map(label => categoryStyles[label]?.visible !== false);
+  const isVisible = (i: number) => visibleCategory[labelIndices[i]] && !hiddenMask?.[i];
+
+  const sizes = new Uint32Array(labels.length);
+  for (let i = 0; i < count; i++) if (isVisible(i)) sizes[labelIndices[i]]++;
+  const members = Array.from(sizes, size => new Uint32Array(size));
+  const filled = new Uint32Array(labels.length);
+  for (let i = 0; i < count; i++) {
+    if (!isVisible(i)) continue;
+    const l = labelIndices[i];
+    members[l][filled[l]++] = i;
+  }
+  const groups = labels
+    .map((label, l) => ({ label, color: categoryStyles[label]?.color ?? '#ffffff', indices: members[l] }))
+    .filter(group => group.indices.length > 0);
+
+  const lines: LineSet[] = [];
+  if (settings.includeAxes) {
+    const segments = axisSegments(sceneTransform);
+    lines.push({ name: 'Axes', vertices: new Float32Array(segments.vertices), colors: segments.axes.map(a => AXIS_COLORS[a]) });
+  }
+  if (settings.includeSelection) {
+    const rings = Array.from(selection).filter(isVisible).slice(0, MAX_HIGHLIGHT_RINGS);
+    const vertices = new Float32Array(rings.length * RING_SEGMENTS * 6);
+    const colors: string[] = [];
+    let o = 0;
+    rings.forEach(i => {
+      const [x, y, z] = [positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]];
+      for (let s = 0; s < RING_SEGMENTS; s++) {
+        // Horizontal, like the on-screen highlight
+        const a0 = (s / RING_SEGMENTS) * Math.PI * 2;
+        const a1 = ((s + 1) / RING_SEGMENTS) * Math.PI * 2;
+        vertices.set([x + Math.cos(a0) * RING_RADIUS, y, z + Math.sin(a0) * RING_RADIUS, x + Math.cos(a1) * RING_RADIUS, y, z + Math.sin(a1) * RING_RADIUS], o);
+        o += 6;
+        colors.push(categoryStyles[labels[labelIndices[i]]]?.color ?? '#ffffff');
+      }
+    });
+    if (rings.length > 0) lines.push({ name: 'Selection', vertices, colors });
+  }
+
+  return { dataset, positions, groups, lines };
+};
+
+/** Number of points a scene writes. */
+export const modelPointCount = (scene: ModelScene) => scene.groups.reduce((sum, g) => sum + g.indices.length, 0);
+
+/**
+ * Binary little-endian PLY with one vertex per visible point. The label
+ * property holds the index of the point's category, and header comments name
+ * each index. PLY has no lines, so axes and highlights are left out.
+ */
+export const writePly = (scene: ModelScene): Blob => {
+  const { dataset, positions, groups } = scene;
+  const total = modelPointCount(scene);
+  const header = [
+    'ply',
+    'format binary_little_endian 1.0',
+    'comment Exported from VoxNavigator 3D',
+    ...dataset.labels.map((label, l) => `comment label ${l} ${label.replace(/[\r\n]+/g, ' ')}`),
+    `element vertex ${total}`,
+    'property float x',
+    'property float y',
+    'property float z',
+    'property uchar red',
+    'property uchar green',
+    'property uchar blue',
+    'property int label',
+    'end_header',
+    '',
+  ].join('\n');
+
+  const stride = 19;
+  const body = new DataView(new ArrayBuffer(total * stride));
+  let o = 0;
+  groups.forEach(group => {
+    const rgb = hexToRgb(group.color).map(c => Math.round(c * 255));
+    const label = dataset.labels.indexOf(group.label);
+    group.indices.forEach(i => {
+      body.setFloat32(o, positions[i * 3], true);
+      body.setFloat32(o + 4, positions[i * 3 + 1], true);
+      body.setFloat32(o + 8, positions[i * 3 + 2], true);
+      body.setUint8(o + 12, rgb[0]);
+      body.setUint8(o + 13, rgb[1]);
+      body.setUint8(o + 14, rgb[2]);
+      body.setInt32(o + 15, label, true);
+      o += stride;
+    });
+  });
+  return new Blob([header, body.buffer], { type: 'application/octet-stream' });
+};
+
+const objName = (name: string) => name.replace(/\s+/g, '_') || '_';
+
+const objNumber = (v: number) => String(Number(v.toFixed(5)));
+
+/**
+ * Wavefront OBJ with an object per category. Vertex colours use the common
+ * `v x y z r g b` extension; points are `p` elements and lines `l` elements.
+ */
+export const writeObj = (scene: ModelScene): Blob => {
+  const { positions, groups, lines } = scene;
+  const parts: string[] = ['# Exported from VoxNavigator 3D'];
+  let next = 1;
+
+  groups.forEach(group => {
+    const [r, g, b] = hexToRgb(group.color).map(objNumber);
+    const chunk = [`o ${objName(group.label)}`];
+    group.indices.forEach(i => {
+      chunk.push(`v ${objNumber(positions[i * 3])} ${objNumber(positions[i * 3 + 1])} ${objNumber(positions[i * 3 + 2])} ${r} ${g} ${b}`);
+    });
+    chunk.push(`p ${Array.from({ length: group.indices.length }, (_, k) => next + k).join(' ')}`);
+    next += group.indices.length;
+    parts.push(chunk.join('\n'));
+  });
+
+  lines.forEach(set => {
+    const chunk = [`o ${set.name}`];
+    set.colors.forEach((color, s) => {
+      const [r, g, b] = hexToRgb(color).map(objNumber);
+      for (let e = 0; e < 2; e++) {
+        const k = (s * 2 + e) * 3;
+        chunk.push(`v ${objNumber(set.vertices[k])} ${objNumber(set.vertices[k + 1])} ${objNumber(set.vertices[k + 2])} ${r} ${g} ${b}`);
+      }
+      chunk.push(`l ${next} ${next + 1}`);
+      next += 2;
+    });
+    parts.push(chunk.join('\n'));
+  });
+
+  return new Blob([parts.join('\n'), '\n'], { type: 'text/plain' });
+};
+
+const GLB_MAGIC = 0x46546c67;
+const CHUNK_JSON = 0x4e4f534a;
+const CHUNK_BIN = 0x004e4942;
+// glTF component type and primitive mode codes
+const FLOAT = 5126;
+const MODE_POINTS = 0;
+const MODE_LINES = 1;
+
+// The parts of the glTF JSON written here
+interface GltfAccessor {
+  bufferView: number;
+  componentType: number;
+  count: number;
+  type: 'VEC3';
+  min?: number[];
+  max?: number[];
+}
+
+interface GltfPrimitive {
+  // Accessor index by attribute name
+  attributes: Record<string, number>;
+  mode: number;
+  material: number;
+}
+
+interface GltfNode {
+  name: string;
+  mesh?: number;
+  children?: number[];
+  extras?: Record<string, unknown>;
+}
+
+interface GltfMaterial {
+  name: string;
+  pbrMetallicRoughness: { baseColorFactor: number[]; metallicFactor: number; roughnessFactor: number };
+  extensions: { KHR_materials_unlit: Record<string, never> };
+}
+
+interface GltfDocument {
+  asset: { version: string; generator: string };
+  extensionsUsed: string[];
+  scene: number;
+  scenes: { name: string; nodes: number[] }[];
+  nodes: GltfNode[];
+  meshes: { name: string; primitives: GltfPrimitive[] }[];
+  materials: GltfMaterial[];
+  accessors: GltfAccessor[];
+  bufferViews: { buffer: number; byteOffset: number; byteLength: number }[];
+  buffers: { byteLength: number }[];
+}
+
+const linear = (hex: string): [number, number, number] => {
+  const color = new THREE.Color(hex);
+  return [color.r, color.g, color.b];
+};
+
+/**
+ * glTF 2.0 binary with a node per category under one root. Each category
+ * node carries its label and its points' metadata and dataset indices in
+ * `extras`, in vertex order, so both survive a round trip through other
+ * tools. Colours are unlit materials; lines use per-vertex colours.
+ */
+export const writeGlb = (scene: ModelScene): Blob => {
+  const { dataset, positions, groups, lines } = scene;
+  const chunks: Float32Array[] = [];
+  let byteLength = 0;
+  // Children of the root node
+  const children: number[] = [];
+  const json: GltfDocument = {
+    asset: { version: '2.0', generator: 'VoxNavigator 3D' },
+    extensionsUsed: ['KHR_materials_unlit'],
+    scene: 0,
+    scenes: [{ name: 'VoxNavigator', nodes: [0] }],
+    nodes: [{ name: 'VoxNavigator', children, extras: { axisNames: dataset.axisNames } }],
+    meshes: [],
+    materials: [],
+    accessors: [],
+    bufferViews: [],
+    buffers: [],
+  };
+
+  // Float data only, so every view already starts on a 4-byte boundary
+  const accessor = (data: Float32Array, withBounds: boolean) => {
+    json.bufferViews.push({ buffer: 0, byteOffset: byteLength, byteLength: data.byteLength });
+    chunks.push(data);
+    byteLength += data.byteLength;
+    const def: GltfAccessor = { bufferView: json.bufferViews.length - 1, componentType: FLOAT, count: data.length / 3, type: 'VEC3' };
+    if (withBounds) {
+      const min = [Infinity, Infinity, Infinity];
+      const max = [-Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < data.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], data[i]);
+        max[i % 3] = Math.max(max[i % 3], data[i]);
+      }
+      def.min = min;
+      def.max = max;
+    }
+    json.accessors.push(def);
+    return json.accessors.length - 1;
+  };
+
+  const material = (name: string, color: [number, number, number]) => {
+    json.materials.push({
+      name,
+      pbrMetallicRoughness: { baseColorFactor: [...color, 1], metallicFactor: 0, roughnessFactor: 1 },
+      extensions: { KHR_materials_unlit: {} },
+    });
+    return json.materials.length - 1;
+  };
+
+  const node = (name: string, primitive: GltfPrimitive, extras?: Record<string, unknown>) => {
+    json.meshes.push({ name, primitives: [primitive] });
+    json.nodes.push({ name, mesh: json.meshes.length - 1, ...(extras ? { extras } : {}) });
+    children.push(json.nodes.length - 1);
+  };
+
+  groups.forEach(group => {
+    const data = new Float32Array(group.indices.length * 3);
+    group.indices.forEach((i, k) => data.set(positions.subarray(i * 3, i * 3 + 3), k * 3));
+    node(group.label, {
+      attributes: { POSITION: accessor(data, true) },
+      mode: MODE_POINTS,
+      material: material(group.label, linear(group.color)),
+    }, {
+      label: group.label,
+      metadata: Array.from(group.indices, i => dataset.metadata[i] ?? ''),
+      indices: Array.from(group.indices),
+    });
+  });
+
+  lines.forEach(set => {
+    const colors = new Float32Array(set.vertices.length);
+    set.colors.forEach((color, s) => {
+      const rgb = linear(color);
+      colors.set(rgb, s * 6);
+      colors.set(rgb, s * 6 + 3);
+    });
+    node(set.name, {
+      attributes: { POSITION: accessor(set.vertices, true), COLOR_0: accessor(colors, false) },
+      mode: MODE_LINES,
+      material: material(set.name, [1, 1, 1]),
+    });
+  });
+
+  json.buffers.push({ byteLength });
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+  const header = new DataView(new ArrayBuffer(20));
+  const binHeader = new DataView(new ArrayBuffer(8));
+  header.setUint32(0, GLB_MAGIC, true);
+  header.setUint32(4, 2, true);
+  header.setUint32(8, 12 + 8 + jsonLength + 8 + byteLength, true);
+  header.setUint32(12, jsonLength, true);
+  header.setUint32(16, CHUNK_JSON, true);
+  binHeader.setUint32(0, byteLength, true);
+  binHeader.setUint32(4, CHUNK_BIN, true);
+  // The JSON chunk is padded with spaces
+  const padding = new Uint8Array(jsonLength - jsonBytes.length).fill(0x20);
+
+  return new Blob([header.buffer, jsonBytes, padding, binHeader.buffer, ...chunks], { type: 'model/gltf-binary' });
+};
+
+export const writeModel = (scene: ModelScene, format: ModelFormat): Blob =>
+  format === 'glb' ? writeGlb(scene) : format === 'ply' ? writePly(scene) : writeObj(scene);
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { DistanceMetric, PointDataset } from '../types';
+import { DEFAULT_NEIGHBOR_QUERY, DISTANCE_METRICS, distanceFunction, findNeighbors } from './neighbors';
+
+const COUNT = 300;
+
+// A fixed linear congruential sequence keeps the points the same on every run
+let seed = 7;
+const random = () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+const positions = new Float32Array(COUNT * 3).map(() => random() * 20 - 10);
+// One point at the origin, which has no direction under the cosine metric
+positions.fill(0, 3, 6);
+
+const dataset: PointDataset = {
+  count: COUNT,
+  positions,
+  labelIndices: Uint32Array.from({ length: COUNT }, (_, i) => i % 3),
+  labels: ['a', 'b', 'c'],
+  metadata: Array.from({ length: COUNT }, () => ''),
+  colors: null,
+  attributes: {},
+  axisNames: ['x', 'y', 'z'],
+};
+
+const point = (i: number) => Array.from(positions.subarray(i * 3, i * 3 + 3));
+
+const reference: Record<DistanceMetric, (a: number[], b: number[]) => number> = {
+  euclidean: (a, b) => Math.sqrt(a.reduce((sum, v, c) => sum + (v - b[c]) ** 2, 0)),
+  manhattan: (a, b) => a.reduce((sum, v, c) => sum + Math.abs(v - b[c]), 0),
+  cosine: (a, b) => {
+    const dot = a.reduce((sum, v, c) => sum + v * b[c], 0);
+    const norms = Math.sqrt(a.reduce((s, v) => s + v * v, 0)) * Math.sqrt(b.reduce((s, v) => s + v * v, 0));
+    return norms > 0 ? 1 - dot / norms : NaN;
+  },
+};
+
+/** Every other point with a defined distance, nearest first and by index among equals. */
+const bruteForce = (origin: number, metric: DistanceMetric, keep: (j: number) => boolean = () => true) =>
+  Array.from({ length: COUNT }, (_, j) => ({ index: j, distance: reference[metric](point(origin), point(j)) }))
+    .filter(n => n.index !== origin && !Number.isNaN(n.distance) && keep(n.index))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index);
+
+const metrics = DISTANCE_METRICS.map(m => m.id);
+
+describe('distanceFunction', () => {
+  const simple = Float32Array.of(0, 0, 0, 3, 4, 0, 1, 0, 0, 0, 2, 0, -2, 0, 0);
+
+  it('measures euclidean, manhattan and cosine distances', () => {
+    expect(distanceFunction('euclidean', simple)(0, 1)).toBe(5);
+    expect(distanceFunction('manhattan', simple)(0, 1)).toBe(7);
+    expect(distanceFunction('cosine', simple)(2, 3)).toBeCloseTo(1);
+    expect(distanceFunction('cosine', simple)(2, 4)).toBeCloseTo(2);
+    expect(distanceFunction('cosine', simple)(0, 1)).toBeNaN();
+  });
+
+  it.each(metrics)('matches a direct computation (%s)', (metric) => {
+    const distance = distanceFunction(metric, positions);
+    for (let j = 0; j < COUNT; j += 7) {
+      const expected = reference[metric](point(5), point(j));
+      expect(distance(5, j)).toBeCloseTo(expected, 9);
+    }
+  });
+});
+
+describe('findNeighbors', () => {
+  it.each(metrics)('finds the same k nearest as a full sort (%s)', (metric) => {
+    // Under the cosine metric the point at the origin has no neighbours at all
+    for (const origin of [0, 1, 150]) {
+      const result = findNeighbors(dataset, origin, { ...DEFAULT_NEIGHBOR_QUERY, metric, k: 12 }, null);
+      const expected = bruteForce(origin, metric).slice(0, 12);
+      expect(Array.from(result.indices)).toEqual(expected.map(n => n.index));
+      expect(result.total).toBe(expected.length);
+      Array.from(result.distances).forEach((d, n) => expect(d).toBeCloseTo(expected[n].distance, 9));
+    }
+  });
+
+  it.each(metrics)('finds every point within the radius (%s)', (metric) => {
+    const radius = metric === 'cosine' ? 0.2 : 6;
+    const result = findNeighbors(dataset, 150, { ...DEFAULT_NEIGHBOR_QUERY, mode: 'radius', metric, radius }, null);
+    const expected = bruteForce(150, metric).filter(n => n.distance <= radius);
+    expect(expected.length).toBeGreaterThan(0);
+    expect(Array.from(result.indices)).toEqual(expected.map(n => n.index));
+    expect(result.total).toBe(expected.length);
+  });
+
+  it('only takes in points of the chosen category that accept lets through', () => {
+    const accept = (j: number) => j < 200;
+    const query = { ...DEFAULT_NEIGHBOR_QUERY, k: 5, category: 'b' };
+    const result = findNeighbors(dataset, 0, query, accept);
+    const expected = bruteForce(0, 'euclidean', j => j % 3 === 1 && accept(j)).slice(0, 5);
+    expect(Array.from(result.indices)).toEqual(expected.map(n => n.index));
+    expect(result.perCategory).toEqual([{ label: 'b', count: 5, meanDistance: expect.closeTo(expected.reduce((s, n) => s + n.distance, 0) / 5, 9) }]);
+    expect(findNeighbors(dataset, 0, { ...query, category: 'gone' }, null).total).toBe(0);
+  });
+});
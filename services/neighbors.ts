@@ -0,0 +1,135 @@
+import { DistanceMetric, NeighborQuery, PointDataset } from '../types';
+import { rowsToCSV } from './selection';
+
+export const DISTANCE_METRICS: { id: DistanceMetric; name: string }[] = [
+  { id: 'euclidean', name: 'Euclidean' },
+  { id: 'manhattan', name: 'Manhattan' },
+  { id: 'cosine', name: 'Cosine' },
+];
+
+export const DEFAULT_NEIGHBOR_QUERY: NeighborQuery = {
+  enabled: false,
+  mode: 'knn',
+  k: 10,
+  radius: 1,
+  metric: 'euclidean',
+  category: null,
+  showLines: true,
+};
+
+// A radius over dense data can take in most of it; only the nearest are listed and drawn
+export const MAX_NEIGHBORS = 5000;
+
+/** Distance between two points of interleaved positions; NaN when it is undefined. */
+export const distanceFunction = (metric: DistanceMetric, positions: Float32Array) => {
+  switch (metric) {
+    case 'manhattan':
+      return (i: number, j: number) =>
+        Math.abs(positions[i * 3] - positions[j * 3]) +
+        Math.abs(positions[i * 3 + 1] - positions[j * 3 + 1]) +
+        Math.abs(positions[i * 3 + 2] - positions[j * 3 + 2]);
+    case 'cosine':
+      // One minus the cosine of the angle between the position vectors; points at the origin have no direction
+      return (i: number, j: number) => {
+        const ax = positions[i * 3], ay = positions[i * 3 + 1], az = positions[i * 3 + 2];
+        const bx = positions[j * 3], by = positions[j * 3 + 1], bz = positions[j * 3 + 2];
+        const norms = Math.sqrt((ax * ax + ay * ay + az * az) * (bx * bx + by * by + bz * bz));
+        return norms > 0 ? 1 - (ax * bx + ay * by + az * bz) / norms : NaN;
+      };
+    default:
+      return (i: number, j: number) => Math.hypot(
+        positions[i * 3] - positions[j * 3],
+        positions[i * 3 + 1] - positions[j * 3 + 1],
+        positions[i * 3 + 2] - positions[j * 3 + 2]
+      );
+  }
+};
+
+export interface NeighborResult {
+  origin: number;
+  // Nearest first, at most MAX_NEIGHBORS
+  indices: Uint32Array;
+  distances: Float64Array;
+  // Points the query matched before the list was cut
+  total: number;
+  perCategory: { label: string; count: number; meanDistance: number }[];
+}
+
+/**
+ * The k nearest points to origin, or those within the radius, among the
+ * points accept lets through. A single scan over the data, which stays fast
+ * enough for one query even at a million points; the origin itself and
+ * points without a defined distance are left out.
+ */
+export const findNeighbors = (
+  dataset: PointDataset,
+  origin: number,
+  query: NeighborQuery,
+  accept: ((index: number) => boolean) | null
+): NeighborResult => {
+  const distance = distanceFunction(query.metric, dataset.positions);
+  const category = query.category === null ? -1 : dataset.labels.indexOf(query.category);
+  const included = (j: number) =>
+    j !== origin && (category < 0 || dataset.labelIndices[j] === category) && (!accept || accept(j));
+
+  let indices: number[] = [];
+  let distances: number[] = [];
+  let total = 0;
+  if (query.category !== null && category < 0) {
+    // A category the current labels do not have matches nothing
+  } else if (query.mode === 'knn') {
+    const k = Math.max(1, Math.min(Math.floor(query.k), MAX_NEIGHBORS));
+    // Current candidates, kept sorted ascending
+    for (let j = 0; j < dataset.count; j++) {
+      if (!included(j)) continue;
+      const d = distance(origin, j);
+      if (Number.isNaN(d) || (distances.length === k && d >= distances[k - 1])) continue;
+      let slot = distances.length;
+      while (slot > 0 && distances[slot - 1] > d) slot--;
+      distances.splice(slot, 0, d);
+      indices.splice(slot, 0, j);
+      if (distances.length > k) {
+        distances.pop();
+        indices.pop();
+      }
+    }
+    total = indices.length;
+  } else {
+    const found: { index: number; distance: number }[] = [];
+    for (let j = 0; j < dataset.count; j++) {
+      if (!included(j)) continue;
+      const d = distance(origin, j);
+      if (d <= query.radius) found.push({ index: j, distance: d });
+    }
+    found.sort((a, b) => a.distance - b.distance || a.index - b.index);
+    total = found.length;
+    const kept = found.slice(0, MAX_NEIGHBORS);
+    indices = kept.map(n => n.index);
+    distances = kept.map(n => n.distance);
+  }
+
+  const counts = new Uint32Array(dataset.labels.length);
+  const sums = new Float64Array(dataset.labels.length);
+  indices.forEach((j, n) => {
+    counts[dataset.labelIndices[j]]++;
+    sums[dataset.labelIndices[j]] += distances[n];
+  });
+  return {
+    origin,
+    indices: Uint32Array.from(indices),
+    distances: Float64Array.from(distances),
+    total,
+    perCategory: dataset.labels
+      .map((label, l) => ({ label, count: counts[l], meanDistance: counts[l] ? sums[l] / counts[l] : 0 }))
+      .filter(c => c.count > 0)
+      .sort((a, b) => b.count - a.count || a.meanDistance - b.meanDistance),
+  };
+};
+
+/** The listed neighbours as CSV, nearest first, with their rank, point number and distance ahead of the point's columns. */
+export const neighborsToCSV = (dataset: PointDataset, result: NeighborResult): string =>
+  rowsToCSV(dataset, result.indices, {
+    rank: result.indices.map((_, n) => n + 1),
+    index: result.indices,
+    distance: result.distances,
+  });
@@ -0,0 +1,82 @@
+import { CategoryStyle } from '../types';
+import { CATEGORY_PALETTE } from './labelSets';
+
+export interface PalettePreset {
+  id: string;
+  name: string;
+  colors: string[];
+}
+
+export const PALETTE_PRESETS: PalettePreset[] = [
+  { id: 'default', name: 'Default', colors: CATEGORY_PALETTE },
+  {
+    id: 'tableau10',
+    name: 'Tableau 10',
+    colors: ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac'],
+  },
+  {
+    id: 'okabe-ito',
+    name: 'Okabe-Ito (colorblind safe)',
+    // The palette's black is swapped for white to stand out against the dark background
+    colors: ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#ffffff'],
+  },
+];
+
+/** Colours the categories in order, repeating the palette when there are more categories than colours. */
+export const applyPalette = (
+  styles: Record<string, CategoryStyle>,
+  order: string[],
+  colors: string[]
+): Record<string, CategoryStyle> => {
+  const next = { ...styles };
+  order.forEach((label, i) => {
+    if (next[label]) next[label] = { ...next[label], color: colors[i % colors.length] };
+  });
+  return next;
+};
+
+const toHex = (v: number) => Math.round(Math.min(Math.max(v, 0), 1) * 255).toString(16).padStart(2, '0');
+
+/** Hue in degrees, saturation and lightness from 0 to 100. */
+export const hslToHex = (h: number, s: number, l: number) => {
+  const saturation = s / 100;
+  const lightness = l / 100;
+  const a = saturation * Math.min(lightness, 1 - lightness);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+  return `#${toHex(channel(0))}${toHex(channel(8))}${toHex(channel(4))}`;
+};
+
+export const hexToHsl = (hex: string): [number, number, number] => {
+  const [r, g, b] = [1, 3, 5].map(k => parseInt(hex.slice(k, k + 2), 16) / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return [0, 0, Math.round(l * 100)];
+  const s = d / (1 - Math.abs(2 * l - 1));
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return [Math.round((h * 60 + 360) % 360), Math.round(s * 100), Math.round(l * 100)];
+};
+
+const HEX = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const HSL = /^hsl\(\s*(-?[\d.]+)(?:deg)?\s*[, ]\s*([\d.]+)%\s*[, ]\s*([\d.]+)%\s*\)$/i;
+
+/** A colour typed as #rgb, #rrggbb or hsl(h, s%, l%), as #rrggbb; null when it is neither. */
+export const parseColor = (text: string): string | null => {
+  const source = text.trim();
+  const hex = source.match(HEX);
+  if (hex) {
+    const digits = hex[1].length === 3 ? [...hex[1]].map(c => c + c).join('') : hex[1];
+    return `#${digits.toLowerCase()}`;
+  }
+  const hsl = source.match(HSL);
+  if (hsl) {
+    const [h, s, l] = hsl.slice(1).map(Number);
+    if (s > 100 || l > 100) return null;
+    return hslToHex(((h % 360) + 360) % 360, s, l);
+  }
+  return null;
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { PointDataset, VisualizationState } from '../types';
+import { DEFAULT_AXIS_SCALES } from './axes';
+import { DEFAULT_CATEGORY_OVERLAYS } from './categoryStats';
+import { DEFAULT_CLUSTERING } from './clustering';
+import { DEFAULT_COLOR_ENCODING } from './colormaps';
+import { EMPTY_FILTERS } from './filters';
+import { createLayer, DEFAULT_COMPARISON, DEFAULT_LAYER_DISPLAY } from './layers';
+import { defaultCategoryStyles } from './labelSets';
+import { DEFAULT_NEIGHBOR_QUERY } from './neighbors';
+import { createProject, migrateProject, parseProjectFile, PROJECT_FORMAT, PROJECT_VERSION, projectFileName, serializeProject, upgradeProject } from './project';
+import { DEFAULT_REDUCTION } from './reduction';
+import { EMPTY_SELECTION } from './selection';
+import { DEFAULT_SIZE_ENCODING } from './sizeScale';
+import { DEFAULT_TIME_SERIES } from './timeSeries';
+
+const dataset: PointDataset = {
+  count: 3,
+  positions: Float32Array.of(0, 1, 2, 3, 4, 5, 6, 7, 8.5),
+  labelIndices: Uint32Array.of(0, 1, 0),
+  labels: ['a', 'b'],
+  metadata: ['p', 'q', 'r'],
+  colors: Float32Array.of(1, 0, 0, 0, 1, 0, 0, 0, 1),
+  attributes: { score: Float32Array.of(1, NaN, 3), kind: ['x', '', 'z'] },
+  axisNames: ['east', 'north', 'up'],
+};
+
+const categoryStyles = { ...defaultCategoryStyles(dataset.labels), b: { color: '#123456', shape: 'diamond' as const, visible: false, size: 2 } };
+
+const state: VisualizationState = {
+  dataset,
+  categories: dataset.labels,
+  categoryStyles,
+  showAxes: false,
+  useSourceColors: false,
+  colorEncoding: { ...DEFAULT_COLOR_ENCODING, attribute: 'score', colormap: 'magma', domainMode: 'manual', manualDomain: [0, 5] },
+  sizeEncoding: { ...DEFAULT_SIZE_ENCODING, scale: 'log' },
+  selection: Uint32Array.of(0, 2),
+  selectedIndex: 2,
+  hiddenPoints: Uint32Array.of(1),
+  filters: { ...EMPTY_FILTERS, ranges: [{ column: 'score', min: 1, max: 2 }], search: 'p', searchMode: 'regex' },
+  axisScales: ['log', 'linear', 'normalized'],
+  reduction: { ...DEFAULT_REDUCTION, method: 'umap', features: ['score'] },
+  reductionProgress: null,
+  reductionError: null,
+  labelSets: [
+    { name: 'Original labels', labels: dataset.labels, labelIndices: dataset.labelIndices, categoryStyles },
+    { name: 'Clusters', labels: ['Cluster 1'], labelIndices: Uint32Array.of(0, 0, 0), categoryStyles: defaultCategoryStyles(['Cluster 1']) },
+  ],
+  activeLabelSet: 0,
+  clustering: { ...DEFAULT_CLUSTERING, method: 'dbscan', linkage: 'average' },
+  clusteringProgress: null,
+  clusteringError: null,
+  timeSeries: DEFAULT_TIME_SERIES,
+  bookmarks: [{ id: 'b1', name: 'Top', pose: { position: [0, 10, 0], target: [0, 0, 0] } }],
+  tour: [{ bookmarkId: 'b1', duration: 2, hold: 0, easing: 'linear' }],
+  mainLayer: { ...DEFAULT_LAYER_DISPLAY, opacity: 0.5 },
+  layers: [{ ...createLayer({ ...dataset, count: 1, positions: Float32Array.of(1, 1, 1), labelIndices: Uint32Array.of(0), labels: ['a'], metadata: ['p'], colors: null, attributes: {} }, 'Other'), offset: [1, 2, 3] }],
+  comparison: DEFAULT_COMPARISON,
+  neighborQuery: { ...DEFAULT_NEIGHBOR_QUERY, enabled: true, metric: 'cosine' },
+  categoryOverlays: { ...DEFAULT_CATEGORY_OVERLAYS, ellipsoids: true, sigma: 2 },
+  isLoading: false,
+  loadProgress: null,
+  error: null,
+  importReport: null,
+};
+
+const camera = { position: [5, 5, 5] as [number, number, number], target: [0, 1, 0] as [number, number, number] };
+
+const minimal = (view: unknown) => ({ format: PROJECT_FORMAT, version: 1, id: 'p', name: 'n', savedAt: 0, count: 3, dataset: null, layers: [], view });
+
+describe('project files', () => {
+  it.each([false, true])('round-trips the data and the whole view (compressed: %s)', async (compress) => {
+    const project = createProject({ id: 'id-1', name: 'Survey' }, state, camera, true);
+    const opened = await parseProjectFile(await serializeProject(project, compress));
+    expect(opened).toEqual(project);
+    expect(opened.dataset!.positions).toBeInstanceOf(Float32Array);
+    expect(Number.isNaN((opened.dataset!.attributes.score as Float32Array)[1])).toBe(true);
+  });
+
+  it('leaves the data out on request', async () => {
+    const project = createProject({ id: 'id-1', name: 'Survey' }, state, null, false);
+    const opened = await parseProjectFile(await serializeProject(project, false));
+    expect(opened.dataset).toBeNull();
+    expect(opened.layers).toEqual([]);
+    expect(opened.count).toBe(3);
+    expect(opened.view.selection).toEqual(Uint32Array.of(0, 2));
+  });
+
+  it('names files after the project', () => {
+    const project = createProject({ id: 'id-1', name: 'a/b: c?' }, state, null, false);
+    expect(projectFileName(project, false)).toBe('a_b_ c_.voxproj');
+    expect(projectFileName(project, true)).toBe('a_b_ c_.voxproj.gz');
+  });
+
+  it('rejects files that are not projects or are damaged', async () => {
+    await expect(parseProjectFile(new Blob(['not json']))).rejects.toThrow('The project file could not be parsed.');
+    await expect(parseProjectFile(new Blob(['{"format":"other"}']))).rejects.toThrow('This is not a VoxNavigator project.');
+    const truncated = JSON.stringify(minimal({ selection: { $typed: 'Uint32Array', data: 'AAE=' } }));
+    await expect(parseProjectFile(new Blob([truncated]))).rejects.toThrow('The Uint32Array data is truncated.');
+    const unknown = JSON.stringify(minimal({ selection: { $typed: 'BigInt64Array', data: '' } }));
+    await expect(parseProjectFile(new Blob([unknown]))).rejects.toThrow('Unknown array type BigInt64Array.');
+  });
+});
+
+describe('migrateProject', () => {
+  it('rejects a missing version and a damaged dataset', () => {
+    expect(() => migrateProject({ format: PROJECT_FORMAT })).toThrow('The project version is missing.');
+    expect(() => migrateProject({ ...minimal({}), dataset: { count: 2 } })).toThrow('The embedded dataset is damaged.');
+  });
+
+  it('replaces malformed view fields with defaults', () => {
+    const { view } = migrateProject(minimal({
+      colorEncoding: { colormap: 'rainbow', percentiles: ['1', 99], manualDomain: [0, 1] },
+      sizeEncoding: 'big',
+      axisScales: ['log', 'cubic'],
+      categoryStyles: { a: { color: 'red', shape: 'square', size: -1 } },
+      selection: [1, 2],
+      selectedIndex: 7,
+      bookmarks: [{ id: 'b1', name: 'Ok', pose: { position: [1, 2, 3], target: [0, 0, 0] } }, { id: 2 }],
+      tour: [{ bookmarkId: 'b1', easing: 'bounce' }, { bookmarkId: 'gone' }],
+      neighborQuery: { mode: 'radius', metric: 'chebyshev' },
+      categoryOverlays: { sigma: 3, hulls: true },
+    }));
+    expect(view.colorEncoding).toEqual({ ...DEFAULT_COLOR_ENCODING, manualDomain: [0, 1] });
+    expect(view.sizeEncoding).toEqual(DEFAULT_SIZE_ENCODING);
+    expect(view.axisScales).toEqual(DEFAULT_AXIS_SCALES);
+    expect(view.categoryStyles.a).toEqual({ ...defaultCategoryStyles(['a']).a, shape: 'square' });
+    expect(view.selection).toEqual(EMPTY_SELECTION);
+    expect(view.selectedIndex).toBeNull();
+    expect(view.bookmarks.map(b => b.name)).toEqual(['Ok']);
+    expect(view.tour).toEqual([{ bookmarkId: 'b1', duration: 3, hold: 1, easing: 'easeInOut' }]);
+    expect(view.neighborQuery).toEqual({ ...DEFAULT_NEIGHBOR_QUERY, mode: 'radius' });
+    expect(view.categoryOverlays).toEqual({ ...DEFAULT_CATEGORY_OVERLAYS, hulls: true });
+  });
+});
+
+describe('upgradeProject', () => {
+  // Stand-ins for future format changes: version 1 named the field `title`, version 2 kept points as `size`
+  const migrations = {
+    1: ({ title, ...rest }: Record<string, unknown>) => ({ ...rest, name: title }),
+    2: ({ size, ...rest }: Record<string, unknown>) => ({ ...rest, count: size }),
+  };
+
+  it('applies each step from the saved version and bumps the version', () => {
+    expect(upgradeProject({ version: 1, title: 'Old', size: 3 }, migrations, 3)).toEqual({ version: 3, name: 'Old', count: 3 });
+    expect(upgradeProject({ version: 2, name: 'Newer', size: 4 }, migrations, 3)).toEqual({ version: 3, name: 'Newer', count: 4 });
+    const current = { version: PROJECT_VERSION, name: 'Current' };
+    expect(upgradeProject(current)).toBe(current);
+  });
+
+  it('rejects versions it cannot bring up to date', () => {
+    expect(() => upgradeProject({ version: 4 }, migrations, 3)).toThrow('The project was saved by a newer version of VoxNavigator (format 4).');
+    expect(() => upgradeProject({ version: 1 }, { 2: migrations[2] }, 3)).toThrow('Projects of format 1 cannot be upgraded.');
+    expect(() => upgradeProject({ version: 0.5 })).toThrow('The project version is missing.');
+  });
+});
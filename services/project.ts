@@ -0,0 +1,413 @@
+import {
+  AxisScale, CameraBookmark, CameraPose, CategoryStyle, ClusteringSettings, ColorEncoding, DatasetLayer, FilterState, LabelSet,
+  CategoryOverlays, LayerComparison, LayerDisplay, NeighborQuery, PointDataset, RangeFilter, ReductionSettings, SizeEncoding, TimeSeriesSettings, TourStop,
+  VisualizationState
+} from '../types';
+import { COLORMAP_OPTIONS, DEFAULT_COLOR_ENCODING } from './colormaps';
+import { DEFAULT_SIZE_ENCODING, SIZE_SCALES } from './sizeScale';
+import { EMPTY_FILTERS } from './filters';
+import { AXIS_SCALES, DEFAULT_AXIS_SCALES } from './axes';
+import { DEFAULT_REDUCTION, REDUCTION_METHODS } from './reduction';
+import { CLUSTERING_METHODS, DEFAULT_CLUSTERING, LINKAGES } from './clustering';
+import { DEFAULT_TIME_SERIES } from './timeSeries';
+import { createTourStop, EASINGS } from './cameraTour';
+import { defaultCategoryStyles, ORIGINAL_LABEL_SET, readCategoryStyles, syncLabelSets } from './labelSets';
+import { EMPTY_SELECTION } from './selection';
+import { createLayer, DEFAULT_COMPARISON, DEFAULT_LAYER_DISPLAY } from './layers';
+import { DEFAULT_NEIGHBOR_QUERY, DISTANCE_METRICS } from './neighbors';
+import { DEFAULT_CATEGORY_OVERLAYS } from './categoryStats';
+import { asArray, asRecord, isFiniteNumber, isRecord, isStringArray, isVector3, RawRecord, readSettings } from './validation';
+
+export const PROJECT_FORMAT = 'voxnavigator-project';
+// Bump together with a new entry in MIGRATIONS when a saved field changes meaning or layout.
+// Added fields need neither: migrateProject falls back to a default for whatever a file lacks.
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.voxproj';
+export const PROJECT_ACCEPT = `${PROJECT_EXTENSION},${PROJECT_EXTENSION}.gz,.json,.gz`;
+
+/** Everything about how the points are shown, independent of the points themselves. */
+export interface ProjectView {
+  categoryStyles: Record<string, CategoryStyle>;
+  showAxes: boolean;
+  useSourceColors: boolean;
+  colorEncoding: ColorEncoding;
+  sizeEncoding: SizeEncoding;
+  filters: FilterState;
+  axisScales: [AxisScale, AxisScale, AxisScale];
+  reduction: ReductionSettings;
+  clustering: ClusteringSettings;
+  timeSeries: TimeSeriesSettings;
+  labelSets: LabelSet[];
+  activeLabelSet: number;
+  selection: Uint32Array;
+  selectedIndex: number | null;
+  hiddenPoints: Uint32Array;
+  camera: CameraPose | null;
+  bookmarks: CameraBookmark[];
+  tour: TourStop[];
+  mainLayer: LayerDisplay;
+  comparison: LayerComparison;
+  neighborQuery: NeighborQuery;
+  categoryOverlays: CategoryOverlays;
+}
+
+export interface Project {
+  // Stable across saves so reopening a file updates its autosave entry
+  id: string;
+  name: string;
+  savedAt: number;
+  // Number of points the view refers to
+  count: number;
+  // Null when the data was left out; the view then applies to a dataset loaded separately
+  dataset: PointDataset | null;
+  // Overlay layers hold data of their own, so they are only kept along with the dataset
+  layers: DatasetLayer[];
+  view: ProjectView;
+}
+
+/** Identifies the project the current dataset belongs to. */
+export interface ProjectInfo {
+  id: string;
+  name: string;
+}
+
+export const createProjectId = () =>
+  typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+/** Project name for a freshly imported file: its name without the extension. */
+export const projectNameFromFile = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || 'Untitled';
+
+export const createProject = (
+  info: ProjectInfo,
+  state: VisualizationState,
+  camera: CameraPose | null,
+  includeData: boolean
+): Project => {
+  const dataset = state.dataset!;
+  return {
+    id: info.id,
+    name: info.name,
+    savedAt: Date.now(),
+    count: dataset.count,
+    dataset: includeData ? dataset : null,
+    layers: includeData ? state.layers : [],
+    view: {
+      categoryStyles: state.categoryStyles,
+      showAxes: state.showAxes,
+      useSourceColors: state.useSourceColors,
+      colorEncoding: state.colorEncoding,
+      sizeEncoding: state.sizeEncoding,
+      filters: state.filters,
+      axisScales: state.axisScales,
+      reduction: state.reduction,
+      clustering: state.clustering,
+      timeSeries: state.timeSeries,
+      labelSets: syncLabelSets(state),
+      activeLabelSet: state.activeLabelSet,
+      selection: state.selection,
+      selectedIndex: state.selectedIndex,
+      hiddenPoints: state.hiddenPoints,
+      camera,
+      bookmarks: state.bookmarks,
+      tour: state.tour,
+      mainLayer: state.mainLayer,
+      comparison: state.comparison,
+      neighborQuery: state.neighborQuery,
+      categoryOverlays: state.categoryOverlays,
+    },
+  };
+};
+
+/**
+ * The parts of the visualization state a project restores. dataset is the
+ * project's own data or, for a project saved without it, the one loaded now.
+ */
+export const projectState = (project: Project, dataset: PointDataset): Partial<VisualizationState> => {
+  const { view } = project;
+  const active = view.labelSets[view.activeLabelSet];
+  const shown = active ? { ...dataset, labels: active.labels, labelIndices: active.labelIndices } : dataset;
+  // Labels the saved styles do not cover, e.g. from a different import of the same file, get the default palette
+  const categoryStyles = { ...defaultCategoryStyles(shown.labels), ...view.categoryStyles };
+  const labelSets = active
+    ? view.labelSets
+    : [{ name: ORIGINAL_LABEL_SET, labels: dataset.labels, labelIndices: dataset.labelIndices, categoryStyles }];
+  return {
+    dataset: shown,
+    categories: [...shown.labels],
+    categoryStyles,
+    showAxes: view.showAxes,
+    useSourceColors: view.useSourceColors,
+    colorEncoding: view.colorEncoding,
+    sizeEncoding: view.sizeEncoding,
+    filters: view.filters,
+    axisScales: view.axisScales,
+    reduction: view.reduction,
+    clustering: view.clustering,
+    timeSeries: view.timeSeries,
+    labelSets,
+    activeLabelSet: active ? view.activeLabelSet : 0,
+    selection: view.selection,
+    selectedIndex: view.selectedIndex,
+    hiddenPoints: view.hiddenPoints,
+    bookmarks: view.bookmarks,
+    tour: view.tour,
+    mainLayer: view.mainLayer,
+    layers: project.layers,
+    comparison: view.comparison,
+    neighborQuery: view.neighborQuery,
+    categoryOverlays: view.categoryOverlays,
+  };
+};
+
+/**
+ * Upgrades a project from the version in its key to the next one. Add an
+ * entry here, rather than changing how older files are read, whenever the
+ * format changes.
+ */
+const MIGRATIONS: Record<number, (project: RawRecord) => RawRecord> = {};
+
+/**
+ * Runs a project through the migrations from its saved version up to
+ * `target`, bumping the version after each step. Takes the migrations as an
+ * argument so the steps can be checked before a real one exists.
+ */
+export const upgradeProject = (project: RawRecord, migrations = MIGRATIONS, target = PROJECT_VERSION): RawRecord => {
+  let version = project.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new Error('The project version is missing.');
+  if (version > target) {
+    throw new Error(`The project was saved by a newer version of VoxNavigator (format ${version}).`);
+  }
+  let upgraded = project;
+  while (version < target) {
+    const step = migrations[version];
+    if (!step) throw new Error(`Projects of format ${version} cannot be upgraded.`);
+    upgraded = { ...step(upgraded), version: ++version };
+  }
+  return upgraded;
+};
+
+const isIndexArray = (value: unknown, count: number): value is Uint32Array =>
+  value instanceof Uint32Array && value.every(i => i < count);
+
+/** A saved dataset, with the fields older files lack filled in; throws when it is damaged. */
+const readDataset = (value: unknown): PointDataset => {
+  const { count, positions, labelIndices, labels, metadata, colors = null, attributes = {}, axisNames = ['x', 'y', 'z'] } = asRecord(value);
+  if (
+    typeof count !== 'number' || !Number.isInteger(count) || count < 0
+    || !(positions instanceof Float32Array) || positions.length !== count * 3
+    || !isStringArray(labels) || !isIndexArray(labelIndices, labels.length) || labelIndices.length !== count
+    || !isStringArray(metadata) || metadata.length !== count
+    || !(colors === null || (colors instanceof Float32Array && colors.length === count * 3))
+    || !isRecord(attributes)
+    || !Object.values(attributes).every(column => (column instanceof Float32Array || isStringArray(column)) && column.length === count)
+    || !isStringArray(axisNames) || axisNames.length !== 3
+  ) {
+    throw new Error('The embedded dataset is damaged.');
+  }
+  return {
+    count,
+    positions,
+    labelIndices,
+    labels,
+    metadata,
+    colors: colors instanceof Float32Array ? colors : null,
+    attributes: attributes as PointDataset['attributes'],
+    axisNames: axisNames as PointDataset['axisNames'],
+  };
+};
+
+const readPose = (value: unknown): CameraPose | null => {
+  const { position, target } = asRecord(value);
+  return isVector3(position) && isVector3(target) ? { position, target } : null;
+};
+
+const readBookmarks = (value: unknown): CameraBookmark[] =>
+  asArray(value).flatMap(entry => {
+    const { id, name, pose } = asRecord(entry);
+    const camera = readPose(pose);
+    return typeof id === 'string' && typeof name === 'string' && camera ? [{ id, name, pose: camera }] : [];
+  });
+
+const readLabelSets = (value: unknown, count: number): LabelSet[] =>
+  asArray(value).flatMap(entry => {
+    const { name, labels, labelIndices, categoryStyles } = asRecord(entry);
+    if (typeof name !== 'string' || !isStringArray(labels)) return [];
+    if (!isIndexArray(labelIndices, labels.length) || labelIndices.length !== count) return [];
+    return [{ name, labels, labelIndices, categoryStyles: { ...defaultCategoryStyles(labels), ...readCategoryStyles(categoryStyles) } }];
+  });
+
+const readLayer = (value: unknown): DatasetLayer => {
+  const layer = asRecord(value);
+  const dataset = readDataset(layer.dataset);
+  const { categoryStyles, ...fresh } = createLayer(dataset, 'Layer');
+  return {
+    ...readSettings(fresh, layer),
+    dataset,
+    categoryStyles: { ...categoryStyles, ...readCategoryStyles(layer.categoryStyles) },
+  };
+};
+
+const readRangeFilters = (value: unknown): RangeFilter[] =>
+  asArray(value).flatMap(entry => {
+    const { column, min, max } = asRecord(entry);
+    return typeof column === 'string' && isFiniteNumber(min) && isFiniteNumber(max) ? [{ column, min, max }] : [];
+  });
+
+const ids = <T>(options: { id: T }[]) => options.map(option => option.id);
+
+/**
+ * Brings a parsed project up to PROJECT_VERSION and checks every field,
+ * replacing missing or malformed ones with defaults, so the rest of the app
+ * only ever sees well-formed current projects.
+ */
+export const migrateProject = (raw: unknown): Project => {
+  if (!isRecord(raw) || raw.format !== PROJECT_FORMAT) throw new Error('This is not a VoxNavigator project.');
+  const project = upgradeProject(raw);
+
+  const dataset = project.dataset ? readDataset(project.dataset) : null;
+  const count = dataset?.count ?? project.count;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count <= 0) throw new Error('The project has no points.');
+
+  const view = asRecord(project.view);
+  const savedStyles = isRecord(view.categoryStyles) ? readCategoryStyles(view.categoryStyles) : null;
+  const labelSets = readLabelSets(view.labelSets, count);
+  if (labelSets.length === 0 && dataset) {
+    labelSets.push({
+      name: ORIGINAL_LABEL_SET,
+      labels: dataset.labels,
+      labelIndices: dataset.labelIndices,
+      categoryStyles: savedStyles ?? defaultCategoryStyles(dataset.labels),
+    });
+  }
+  const { activeLabelSet: savedActive, selectedIndex: savedIndex } = view;
+  const activeLabelSet = typeof savedActive === 'number' && Number.isInteger(savedActive) && savedActive >= 0 && savedActive < labelSets.length
+    ? savedActive
+    : 0;
+  const selectedIndex = typeof savedIndex === 'number' && Number.isInteger(savedIndex) && savedIndex >= 0 && savedIndex < count
+    ? savedIndex
+    : null;
+  const indices = (value: unknown) => (isIndexArray(value, count) ? value : EMPTY_SELECTION);
+  const scaleIds = ids(AXIS_SCALES);
+  const axisScales = Array.isArray(view.axisScales) && view.axisScales.length === 3 && view.axisScales.every(scale => scaleIds.includes(scale))
+    ? view.axisScales as [AxisScale, AxisScale, AxisScale]
+    : DEFAULT_AXIS_SCALES;
+  const bookmarks = readBookmarks(view.bookmarks);
+  const tour = asArray(view.tour)
+    .map(stop => readSettings(createTourStop(''), stop, { easing: ids(EASINGS) }))
+    .filter(stop => bookmarks.some(b => b.id === stop.bookmarkId));
+  const layers = asArray(project.layers).map(readLayer);
+  const comparison = readSettings(DEFAULT_COMPARISON, view.comparison);
+  if (!layers.some(layer => layer.id === comparison.layerId)) comparison.layerId = null;
+
+  return {
+    id: typeof project.id === 'string' && project.id ? project.id : createProjectId(),
+    name: typeof project.name === 'string' && project.name ? project.name : 'Untitled',
+    savedAt: isFiniteNumber(project.savedAt) ? project.savedAt : Date.now(),
+    count,
+    dataset,
+    layers,
+    view: {
+      categoryStyles: savedStyles ?? labelSets[activeLabelSet]?.categoryStyles ?? {},
+      showAxes: typeof view.showAxes === 'boolean' ? view.showAxes : true,
+      useSourceColors: typeof view.useSourceColors === 'boolean' ? view.useSourceColors : true,
+      colorEncoding: readSettings(DEFAULT_COLOR_ENCODING, view.colorEncoding, {
+        colormap: ids(COLORMAP_OPTIONS),
+        domainMode: ['extent', 'percentile', 'manual'],
+      }),
+      sizeEncoding: readSettings(DEFAULT_SIZE_ENCODING, view.sizeEncoding, { scale: ids(SIZE_SCALES) }),
+      filters: {
+        ...readSettings(EMPTY_FILTERS, view.filters, { searchMode: ['text', 'regex'] }),
+        ranges: readRangeFilters(asRecord(view.filters).ranges),
+      },
+      axisScales,
+      reduction: readSettings(DEFAULT_REDUCTION, view.reduction, { method: ids(REDUCTION_METHODS) }),
+      clustering: readSettings(DEFAULT_CLUSTERING, view.clustering, {
+        method: ids(CLUSTERING_METHODS),
+        input: ['coordinates', 'features'],
+        linkage: ids(LINKAGES),
+      }),
+      timeSeries: readSettings(DEFAULT_TIME_SERIES, view.timeSeries),
+      labelSets,
+      activeLabelSet,
+      selection: indices(view.selection),
+      selectedIndex,
+      hiddenPoints: indices(view.hiddenPoints),
+      camera: readPose(view.camera),
+      bookmarks,
+      tour,
+      mainLayer: readSettings(DEFAULT_LAYER_DISPLAY, view.mainLayer),
+      comparison,
+      neighborQuery: readSettings(DEFAULT_NEIGHBOR_QUERY, view.neighborQuery, {
+        mode: ['knn', 'radius'],
+        metric: ids(DISTANCE_METRICS),
+      }),
+      categoryOverlays: readSettings(DEFAULT_CATEGORY_OVERLAYS, view.categoryOverlays, { sigma: [1, 2] }),
+    },
+  };
+};
+
+// Typed arrays are stored as base64 of their bytes, which assumes a little-endian machine like every browser runs on
+const TYPED_ARRAYS = { Float32Array, Uint32Array, Int32Array, Uint8Array };
+type TypedArrayName = keyof typeof TYPED_ARRAYS;
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked so the argument list stays within the engine's limits
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const encodeTypedArrays = (_key: string, value: unknown) => {
+  if (!ArrayBuffer.isView(value)) return value;
+  const name = (Object.keys(TYPED_ARRAYS) as TypedArrayName[]).find(n => value instanceof TYPED_ARRAYS[n]);
+  if (!name) return value;
+  return { $typed: name, data: bytesToBase64(new Uint8Array(value.buffer, value.byteOffset, value.byteLength)) };
+};
+
+const decodeTypedArrays = (_key: string, value: unknown) => {
+  if (!isRecord(value) || typeof value.$typed !== 'string') return value;
+  if (!Object.hasOwn(TYPED_ARRAYS, value.$typed) || typeof value.data !== 'string') throw new Error(`Unknown array type ${value.$typed}.`);
+  const Type = TYPED_ARRAYS[value.$typed as TypedArrayName];
+  const bytes = base64ToBytes(value.data);
+  if (bytes.length % Type.BYTES_PER_ELEMENT !== 0) throw new Error(`The ${value.$typed} data is truncated.`);
+  return new Type(bytes.buffer);
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+/** Project file contents, gzipped when compress is set. */
+export const serializeProject = async (project: Project, compress: boolean): Promise<Blob> => {
+  const json = JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, ...project }, encodeTypedArrays);
+  const blob = new Blob([json], { type: 'application/json' });
+  if (!compress) return blob;
+  return new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+};
+
+/** Reads a plain or gzipped project file and migrates it to the current version. */
+export const parseProjectFile = async (file: Blob): Promise<Project> => {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const gzipped = GZIP_MAGIC.every((b, i) => head[i] === b);
+  const text = gzipped
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await file.text();
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text, decodeTypedArrays);
+  } catch (err) {
+    throw new Error(`The project file could not be parsed. ${err instanceof Error ? err.message : ''}`.trim());
+  }
+  return migrateProject(raw);
+};
+
+export const projectFileName = (project: Project, compress: boolean) =>
+  `${project.name.replace(/[\\/:*?"<>|]+/g, '_')}${PROJECT_EXTENSION}${compress ? '.gz' : ''}`;
@@ -0,0 +1,159 @@
+import { PointDataset } from '../types';
+import { migrateProject, Project, PROJECT_FORMAT, PROJECT_VERSION } from './project';
+import { asArray, asRecord } from './validation';
+
+const DB_NAME = 'voxnavigator';
+const DB_VERSION = 1;
+// Views are small and rewritten on every autosave; datasets are kept apart so they are only written when they change
+const PROJECTS = 'projects';
+const DATASETS = 'datasets';
+
+// The main dataset is stored under the project id, label set indices and layer datasets under keys below it
+const labelSetKey = (id: string, index: number) => `${id}/label-set/${index}`;
+const layerKey = (id: string, layerId: string) => `${id}/layer/${layerId}`;
+const partsOf = (id: string) => IDBKeyRange.bound(`${id}/`, `${id}/\uffff`);
+
+type StoredPart = { id: string; dataset: PointDataset } | { id: string; labelIndices: Uint32Array };
+
+/** Arrays already in the browser store, by key, so an autosave can skip the unchanged ones. */
+export type StoredArrays = Map<string, PointDataset | Uint32Array>;
+
+const partValue = (part: StoredPart) => ('dataset' in part ? part.dataset : part.labelIndices);
+
+export const MAX_RECENT_PROJECTS = 8;
+
+export interface RecentProject {
+  id: string;
+  name: string;
+  savedAt: number;
+  count: number;
+}
+
+const request = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error ?? new Error('The browser storage transaction was aborted.'));
+});
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+      if (!db.objectStoreNames.contains(DATASETS)) db.createObjectStore(DATASETS, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      // Let the next call try again, e.g. after the user allows storage
+      database = null;
+      reject(req.error);
+    };
+  });
+  return database;
+};
+
+/** Recently autosaved projects, newest first. */
+export const listRecentProjects = async (): Promise<RecentProject[]> => {
+  const db = await openDatabase();
+  const records = await request(db.transaction(PROJECTS).objectStore(PROJECTS).getAll());
+  return records
+    .map(({ id, name, savedAt, count }) => ({ id, name, savedAt, count }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
+
+/**
+ * Stores a project for the recent list. The dataset, label set indices and
+ * layer datasets are only written when they differ from the ones in stored,
+ * which is brought up to date once the save succeeds. Projects beyond
+ * MAX_RECENT_PROJECTS are dropped, oldest first.
+ */
+export const saveRecentProject = async (project: Project, stored: StoredArrays) => {
+  const { id, dataset, layers, view } = project;
+  const parts: StoredPart[] = dataset ? [{ id, dataset }] : [];
+  const labelSets = view.labelSets.map((set, index) => {
+    parts.push({ id: labelSetKey(id, index), labelIndices: set.labelIndices });
+    return { ...set, labelIndices: null };
+  });
+  const storedLayers = layers.map(layer => {
+    parts.push({ id: layerKey(id, layer.id), dataset: layer.dataset });
+    return { ...layer, dataset: null };
+  });
+
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, DATASETS], 'readwrite');
+  const projects = tx.objectStore(PROJECTS);
+  const datasets = tx.objectStore(DATASETS);
+
+  projects.put({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    ...project,
+    dataset: null,
+    layers: storedLayers,
+    view: { ...view, labelSets },
+  });
+  parts.forEach(part => {
+    if (stored.get(part.id) !== partValue(part)) datasets.put(part);
+  });
+  // Label sets and layers removed since the last save
+  const keys = await request(datasets.getAllKeys(partsOf(id)));
+  keys.forEach(key => {
+    if (!parts.some(part => part.id === key)) datasets.delete(key);
+  });
+
+  const records: RecentProject[] = await request(projects.getAll());
+  records
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(MAX_RECENT_PROJECTS)
+    .forEach(({ id }) => {
+      projects.delete(id);
+      datasets.delete(id);
+      datasets.delete(partsOf(id));
+    });
+  await completion(tx);
+
+  stored.clear();
+  parts.forEach(part => stored.set(part.id, partValue(part)));
+};
+
+export const loadRecentProject = async (id: string): Promise<Project> => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, DATASETS]);
+  const [record, stored, parts] = await Promise.all([
+    request(tx.objectStore(PROJECTS).get(id)),
+    request(tx.objectStore(DATASETS).get(id)) as Promise<{ dataset: PointDataset } | undefined>,
+    request(tx.objectStore(DATASETS).getAll(partsOf(id))) as Promise<StoredPart[]>,
+  ]);
+  if (!record) throw new Error('The project is no longer stored in this browser.');
+  if (!stored) throw new Error('The data of this project is no longer stored in this browser.');
+
+  // Projects saved before the arrays were stored apart still carry them inline
+  const byKey = new Map(parts.map(part => [part.id, partValue(part)]));
+  const view = asRecord(record.view);
+  const labelSets = asArray(view.labelSets).map((set, index) =>
+    byKey.has(labelSetKey(id, index)) ? { ...asRecord(set), labelIndices: byKey.get(labelSetKey(id, index)) } : set
+  );
+  const layers = asArray(record.layers).map(layer => {
+    const fields = asRecord(layer);
+    const key = layerKey(id, String(fields.id));
+    return byKey.has(key) ? { ...fields, dataset: byKey.get(key) } : layer;
+  });
+  return migrateProject({ ...record, dataset: stored.dataset, layers, view: { ...view, labelSets } });
+};
+
+export const deleteRecentProject = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([PROJECTS, DATASETS], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(DATASETS).delete(id);
+  tx.objectStore(DATASETS).delete(partsOf(id));
+  await completion(tx);
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { PointDataset } from '../types';
+import { compileQuery } from './queryLanguage';
+
+const dataset: PointDataset = {
+  count: 4,
+  positions: Float32Array.of(0, 0, 0, 3, 4, 0, -2, 1, 5, 10, 10, 10),
+  labelIndices: Uint32Array.of(0, 1, 0, 2),
+  labels: ['A', 'B', 'C'],
+  metadata: ['alpha', 'Beta-err', 'gamma', ''],
+  colors: null,
+  attributes: {
+    score: Float32Array.of(0.1, 0.5, NaN, 0.9),
+    'Column 4': Float32Array.of(3, 1, 3, 2),
+    kind: ['cat', 'dog', '', 'cat'],
+  },
+  axisNames: ['x', 'y', 'z'],
+};
+
+const matches = (query: string) => {
+  const test = compileQuery(query, dataset);
+  return Array.from({ length: dataset.count }, (_, i) => i).filter(test);
+};
+
+describe('compileQuery', () => {
+  it('compares coordinates, arithmetic and the point index', () => {
+    expect(matches('x > 2')).toEqual([1, 3]);
+    expect(matches('(x * x + y * y) < 30')).toEqual([0, 1, 2]);
+    expect(matches('-x >= 2')).toEqual([2]);
+    expect(matches('index % 2 == 1')).toEqual([1, 3]);
+    expect(matches('z / 5 == 1 || z == 2e1 / 2')).toEqual([2, 3]);
+  });
+
+  it('combines conditions with symbols or keywords, binding and tighter than or', () => {
+    expect(matches('x > 2 && y < 5 || label == "C"')).toEqual([1, 3]);
+    expect(matches('x > 2 and not (y < 5 or label == "C")')).toEqual([]);
+    expect(matches('!(label == "A")')).toEqual([1, 3]);
+  });
+
+  it('tests membership, including negative numbers', () => {
+    expect(matches('label in ("A", \'C\')')).toEqual([0, 2, 3]);
+    expect(matches('x in (-2, 10)')).toEqual([2, 3]);
+  });
+
+  it('matches regex literals and strings used as patterns', () => {
+    expect(matches('metadata ~ /err$/i')).toEqual([1]);
+    expect(matches('metadata ~ /^[ab]/')).toEqual([0]);
+    expect(matches('metadata ~ "^B"')).toEqual([1]);
+    // A global flag must not carry state from one point to the next
+    expect(matches('kind ~ /cat/g')).toEqual([0, 3]);
+  });
+
+  it('reads attribute columns, with backticks for names with spaces', () => {
+    expect(matches('`Column 4` == 3')).toEqual([0, 2]);
+    expect(matches('kind == "cat"')).toEqual([0, 3]);
+    expect(matches('kind')).toEqual([0, 1, 3]);
+  });
+
+  it('treats comparisons with a missing number as false', () => {
+    expect(matches('score >= 0.5')).toEqual([1, 3]);
+    expect(matches('score < 0.5')).toEqual([0]);
+    expect(matches('score != 0.5')).toEqual([0, 3]);
+    expect(matches('not score >= 0.5')).toEqual([0, 2]);
+  });
+
+  it('reports the column of the first problem', () => {
+    expect(() => compileQuery('x > ', dataset)).toThrow('Unexpected end of query at column 5');
+    expect(() => compileQuery('height > 2', dataset)).toThrow('Unknown column "height" at column 1');
+    expect(() => compileQuery('label == "A', dataset)).toThrow('Unterminated string at column 10');
+    expect(() => compileQuery('label in (x)', dataset)).toThrow('Expected a number or string in the list at column 11');
+    expect(() => compileQuery('metadata ~ /(/', dataset)).toThrow(/^Invalid regex: .* at column 12$/);
+    expect(() => compileQuery('x > 1 y', dataset)).toThrow('Unexpected "y" at column 7');
+    expect(() => compileQuery('x # 1', dataset)).toThrow('Unexpected "#" at column 3');
+  });
+});
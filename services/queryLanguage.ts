@@ -0,0 +1,307 @@
+import { PointDataset } from '../types';
+
+/**
+ * A small filter language evaluated per point, without eval:
+ *
+ *   x > 2 && label in ("A", "B") && metadata ~ /err/i
+ *   not (score >= 0.5 or `Column 4` == 3) && (x * x + y * y) < 100
+ *
+ * Identifiers are x, y, z, label, metadata, index and any attribute column;
+ * names with spaces go in backticks. Operators, loosest first: || (or),
+ * && (and), ! (not), comparisons (== != < <= > >= in ~), + -, * / %.
+ * `~` tests a regex literal or a string used as a pattern. A comparison
+ * involving a missing (NaN) number is false.
+ */
+
+type Value = number | string | boolean;
+type Evaluator = (index: number) => Value;
+
+type TokenType = 'number' | 'string' | 'ident' | 'regex' | 'op' | 'eof';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  // 0-based offset into the query, reported 1-based in errors
+  position: number;
+  value?: number | string | RegExp;
+}
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '!', '~', '(', ')', ',', '+', '-', '*', '/', '%'];
+const KEYWORDS: Record<string, string> = { and: '&&', or: '||', not: '!' };
+
+const fail = (message: string, position: number): never => {
+  throw new Error(`${message} at column ${position + 1}`);
+};
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const c = source[i];
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const start = i;
+
+    // A slash right after ~ opens a regex literal; anywhere else it divides
+    if (c === '/' && tokens[tokens.length - 1]?.text === '~') {
+      let body = '';
+      i++;
+      while (i < source.length && source[i] !== '/') {
+        if (source[i] === '\\' && i + 1 < source.length) body += source[i++];
+        body += source[i++];
+      }
+      if (i >= source.length) fail('Unterminated regex', start);
+      i++;
+      const flags = /^[a-z]*/.exec(source.slice(i))![0];
+      i += flags.length;
+      let regex: RegExp;
+      try {
+        regex = new RegExp(body, flags);
+      } catch (err) {
+        return fail(`Invalid regex: ${err instanceof Error ? err.message : String(err)}`, start);
+      }
+      tokens.push({ type: 'regex', text: source.slice(start, i), position: start, value: regex });
+      continue;
+    }
+
+    if (/[0-9]/.test(c) || (c === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(source.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'number', text: match[0], position: start, value: Number(match[0]) });
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let text = '';
+      i++;
+      while (i < source.length && source[i] !== c) {
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i++];
+      }
+      if (i >= source.length) fail('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', text: source.slice(start, i), position: start, value: text });
+      continue;
+    }
+
+    if (c === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end < 0) fail('Unterminated column name', start);
+      i = end + 1;
+      tokens.push({ type: 'ident', text: source.slice(start, i), position: start, value: source.slice(start + 1, end) });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(c)) {
+      const word = /^[A-Za-z_][A-Za-z0-9_.]*/.exec(source.slice(i))![0];
+      i += word.length;
+      const keyword = KEYWORDS[word.toLowerCase()];
+      if (keyword) tokens.push({ type: 'op', text: keyword, position: start });
+      else tokens.push({ type: 'ident', text: word, position: start, value: word });
+      continue;
+    }
+
+    const op = OPERATORS.find(o => source.startsWith(o, i));
+    if (!op) fail(`Unexpected "${c}"`, start);
+    i += op!.length;
+    tokens.push({ type: 'op', text: op!, position: start });
+  }
+
+  tokens.push({ type: 'eof', text: '', position: source.length });
+  return tokens;
+};
+
+const toNumber = (v: Value) => (typeof v === 'number' ? v : typeof v === 'boolean' ? Number(v) : v.trim() === '' ? NaN : Number(v));
+const toBoolean = (v: Value) => (typeof v === 'number' ? v !== 0 && !Number.isNaN(v) : typeof v === 'string' ? v.length > 0 : v);
+
+// Strings compare as strings unless the other side is a number
+const compare = (a: Value, b: Value): number => {
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (Number.isNaN(x) || Number.isNaN(y)) return NaN;
+  return x - y;
+};
+
+const resolveIdentifier = (name: string, dataset: PointDataset, position: number): Evaluator => {
+  const { positions, labels, labelIndices, metadata } = dataset;
+  switch (name) {
+    case 'x': return (i) => positions[i * 3];
+    case 'y': return (i) => positions[i * 3 + 1];
+    case 'z': return (i) => positions[i * 3 + 2];
+    case 'label': return (i) => labels[labelIndices[i]];
+    case 'metadata': return (i) => metadata[i] ?? '';
+    case 'index': return (i) => i;
+    case 'true': return () => true;
+    case 'false': return () => false;
+  }
+  const column = dataset.attributes[name];
+  if (!column) return fail(`Unknown column "${name}"`, position);
+  return (i) => column[i];
+};
+
+/**
+ * Parses a query against a dataset's columns and returns a predicate over
+ * point indices. Throws an Error naming the column of the first problem.
+ */
+export const compileQuery = (source: string, dataset: PointDataset): ((index: number) => boolean) => {
+  const tokens = tokenize(source);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const accept = (text: string) => {
+    if (peek().type === 'op' && peek().text === text) {
+      pos++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (text: string) => {
+    if (!accept(text)) fail(`Expected "${text}" but found "${peek().text || 'end of query'}"`, peek().position);
+  };
+
+  const parseOr = (): Evaluator => {
+    let left = parseAnd();
+    while (accept('||')) {
+      const a = left;
+      const b = parseAnd();
+      left = (i) => toBoolean(a(i)) || toBoolean(b(i));
+    }
+    return left;
+  };
+
+  const parseAnd = (): Evaluator => {
+    let left = parseNot();
+    while (accept('&&')) {
+      const a = left;
+      const b = parseNot();
+      left = (i) => toBoolean(a(i)) && toBoolean(b(i));
+    }
+    return left;
+  };
+
+  const parseNot = (): Evaluator => {
+    if (accept('!')) {
+      const operand = parseNot();
+      return (i) => !toBoolean(operand(i));
+    }
+    return parseComparison();
+  };
+
+  const parseComparison = (): Evaluator => {
+    const left = parseAdditive();
+    const token = peek();
+
+    if (token.type === 'ident' && token.text.toLowerCase() === 'in') {
+      next();
+      expect('(');
+      const values: Value[] = [];
+      do {
+        const item = next();
+        if (item.type === 'number' || item.type === 'string') values.push(item.value as Value);
+        else if (item.type === 'op' && item.text === '-' && peek().type === 'number') values.push(-(next().value as number));
+        else fail('Expected a number or string in the list', item.position);
+      } while (accept(','));
+      expect(')');
+      return (i) => {
+        const v = left(i);
+        return values.some(candidate => compare(v, candidate) === 0);
+      };
+    }
+
+    if (accept('~')) {
+      const pattern = next();
+      let regex: RegExp;
+      if (pattern.type === 'regex') regex = pattern.value as RegExp;
+      else if (pattern.type === 'string') {
+        try {
+          regex = new RegExp(pattern.value as string, 'i');
+        } catch (err) {
+          return fail(`Invalid regex: ${err instanceof Error ? err.message : String(err)}`, pattern.position);
+        }
+      } else return fail('Expected a /regex/ or string after "~"', pattern.position);
+      // Global and sticky regexes keep state between test() calls
+      const stateless = new RegExp(regex.source, regex.flags.replace(/[gy]/g, ''));
+      return (i) => stateless.test(String(left(i)));
+    }
+
+    const comparisons: Record<string, (c: number) => boolean> = {
+      '==': c => c === 0,
+      '!=': c => c !== 0 && !Number.isNaN(c),
+      '<': c => c < 0,
+      '<=': c => c <= 0,
+      '>': c => c > 0,
+      '>=': c => c >= 0,
+    };
+    if (token.type === 'op' && comparisons[token.text]) {
+      next();
+      const right = parseAdditive();
+      const test = comparisons[token.text];
+      return (i) => test(compare(left(i), right(i)));
+    }
+    return left;
+  };
+
+  const parseAdditive = (): Evaluator => {
+    let left = parseMultiplicative();
+    for (;;) {
+      const op = peek();
+      if (op.type !== 'op' || (op.text !== '+' && op.text !== '-')) return left;
+      next();
+      const a = left;
+      const b = parseMultiplicative();
+      left = op.text === '+' ? (i) => toNumber(a(i)) + toNumber(b(i)) : (i) => toNumber(a(i)) - toNumber(b(i));
+    }
+  };
+
+  const parseMultiplicative = (): Evaluator => {
+    let left = parseUnary();
+    for (;;) {
+      const op = peek();
+      if (op.type !== 'op' || !['*', '/', '%'].includes(op.text)) return left;
+      next();
+      const a = left;
+      const b = parseUnary();
+      if (op.text === '*') left = (i) => toNumber(a(i)) * toNumber(b(i));
+      else if (op.text === '/') left = (i) => toNumber(a(i)) / toNumber(b(i));
+      else left = (i) => toNumber(a(i)) % toNumber(b(i));
+    }
+  };
+
+  const parseUnary = (): Evaluator => {
+    if (accept('-')) {
+      const operand = parseUnary();
+      return (i) => -toNumber(operand(i));
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Evaluator => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+      case 'string': {
+        const value = token.value as Value;
+        return () => value;
+      }
+      case 'ident':
+        return resolveIdentifier(token.value as string, dataset, token.position);
+      case 'op':
+        if (token.text === '(') {
+          const inner = parseOr();
+          expect(')');
+          return inner;
+        }
+        break;
+    }
+    return fail(token.type === 'eof' ? 'Unexpected end of query' : `Unexpected "${token.text}"`, token.position);
+  };
+
+  const root = parseOr();
+  if (peek().type !== 'eof') fail(`Unexpected "${peek().text}"`, peek().position);
+  return (index) => toBoolean(root(index));
+};
@@ -0,0 +1,73 @@
+import { PointDataset } from '../../types';
+import { getNumericAttributes } from '../dataset';
+
+/** Row-major points × features matrix, centred on the column means. */
+export interface FeatureMatrix {
+  data: Float32Array;
+  rows: number;
+  dims: number;
+  names: string[];
+}
+
+/** The requested feature columns that exist in the dataset; an empty request means all numeric columns. */
+export const resolveFeatures = (dataset: PointDataset, requested: string[]): string[] => {
+  const numeric = getNumericAttributes(dataset);
+  if (requested.length === 0) return numeric;
+  const available = new Set(numeric);
+  return requested.filter(name => available.has(name));
+};
+
+/**
+ * Copies the feature columns into one matrix. Missing values take the column
+ * mean, so after centring they sit at zero and pull no point in any direction.
+ * With standardize every column is also divided by its standard deviation;
+ * constant columns are left at zero.
+ */
+export const buildFeatureMatrix = (dataset: PointDataset, names: string[], standardize: boolean): FeatureMatrix => {
+  const rows = dataset.count;
+  const dims = names.length;
+  const data = new Float32Array(rows * dims);
+
+  names.forEach((name, c) => {
+    const column = dataset.attributes[name] as Float32Array;
+    let sum = 0;
+    let n = 0;
+    for (let i = 0; i < rows; i++) {
+      const v = column[i];
+      if (Number.isFinite(v)) {
+        sum += v;
+        n++;
+      }
+    }
+    const mean = n > 0 ? sum / n : 0;
+
+    let squares = 0;
+    for (let i = 0; i < rows; i++) {
+      const v = column[i];
+      const centred = Number.isFinite(v) ? v - mean : 0;
+      data[i * dims + c] = centred;
+      squares += centred * centred;
+    }
+
+    if (standardize) {
+      const std = Math.sqrt(squares / Math.max(1, n - 1));
+      const scale = std > 0 ? 1 / std : 0;
+      for (let i = 0; i < rows; i++) data[i * dims + c] *= scale;
+    }
+  });
+
+  return { data, rows, dims, names };
+};
+
+/** The x/y/z coordinates as a centred matrix, for methods that work in the displayed space. */
+export const coordinateMatrix = (dataset: PointDataset): FeatureMatrix => {
+  const rows = dataset.count;
+  const data = Float32Array.from(dataset.positions);
+  for (let c = 0; c < 3; c++) {
+    let sum = 0;
+    for (let i = 0; i < rows; i++) sum += data[i * 3 + c];
+    const mean = rows > 0 ? sum / rows : 0;
+    for (let i = 0; i < rows; i++) data[i * 3 + c] -= mean;
+  }
+  return { data, rows, dims: 3, names: [...dataset.axisNames] };
+};
@@ -0,0 +1,87 @@
+import { ReductionMethod, ReductionSettings } from '../../types';
+import { FeatureMatrix } from './features';
+import { pca } from './pca';
+import { createRandom } from './random';
+import { tsne } from './tsne';
+import { ReductionContext, ReductionResult } from './types';
+import { umap } from './umap';
+
+export type { ReductionContext, ReductionResult } from './types';
+export type { FeatureMatrix } from './features';
+export { buildFeatureMatrix, coordinateMatrix, resolveFeatures } from './features';
+export { EXACT_NEIGHBOR_ROWS } from './neighbors';
+
+export const REDUCTION_METHODS: { id: ReductionMethod; name: string }[] = [
+  { id: 'pca', name: 'PCA' },
+  { id: 'tsne', name: 't-SNE' },
+  { id: 'umap', name: 'UMAP' },
+];
+
+export const DEFAULT_REDUCTION: ReductionSettings = {
+  method: 'pca',
+  features: [],
+  standardize: true,
+  perplexity: 30,
+  iterations: 1000,
+  neighbors: 15,
+  minDist: 0.1,
+  epochs: 0,
+  seed: 42,
+};
+
+/** Axis titles for a method's components; PCA titles also carry the explained variance. */
+export const componentNames = (method: ReductionMethod): [string, string, string] => {
+  const name = REDUCTION_METHODS.find(m => m.id === method)!.name;
+  return [`${name} 1`, `${name} 2`, `${name} 3`];
+};
+
+// t-SNE and UMAP measure neighbourhoods on at most this many principal components
+const NEIGHBOR_DIMS = 50;
+// Scale of the t-SNE starting layout; larger starts slow down early exaggeration
+const TSNE_INITIAL_STD = 1e-4;
+
+/**
+ * Reduces the feature matrix to three coordinates. Runs synchronously and is
+ * meant for a worker: t-SNE and UMAP report intermediate layouts through
+ * the context as they iterate.
+ */
+export const runReduction = (
+  matrix: FeatureMatrix,
+  settings: ReductionSettings,
+  context: ReductionContext
+): ReductionResult => {
+  const { data, rows, dims } = matrix;
+  const random = createRandom(settings.seed);
+
+  context.onProgress({ stage: 'Principal components', done: 0, total: 1 });
+  // Wide inputs keep enough components for the neighbour search as well
+  const preReduce = settings.method !== 'pca' && dims > NEIGHBOR_DIMS;
+  const width = preReduce ? NEIGHBOR_DIMS : 3;
+  const { scores, explained } = pca(data, rows, dims, width, random);
+  const initial = new Float32Array(rows * 3);
+  for (let i = 0; i < rows; i++) {
+    for (let c = 0; c < 3; c++) initial[i * 3 + c] = scores[i * width + c];
+  }
+
+  if (settings.method === 'pca') {
+    const names = explained.map((share, c) => `PC${c + 1} (${(share * 100).toFixed(1)}%)`);
+    return { positions: initial, axisNames: [names[0], names[1], names[2]] };
+  }
+
+  const reduced = preReduce ? scores : data;
+  const reducedDims = preReduce ? width : dims;
+
+  if (settings.method === 'tsne') {
+    let std = 0;
+    for (let i = 0; i < rows; i++) std += initial[i * 3] ** 2;
+    std = Math.sqrt(std / Math.max(1, rows - 1));
+    const scale = std > 0 ? TSNE_INITIAL_STD / std : 1;
+    for (let i = 0; i < initial.length; i++) initial[i] = initial[i] * scale + random.gaussian() * TSNE_INITIAL_STD * 1e-2;
+
+    const positions = tsne(reduced, rows, reducedDims, initial, settings, context);
+    return { positions, axisNames: componentNames('tsne') };
+  }
+
+  const positions = umap(reduced, rows, reducedDims, initial, settings, random, context);
+  return { positions, axisNames: componentNames('umap') };
+};
@@ -0,0 +1,210 @@
+import { createRandom, Random } from './random';
+
+export interface NeighborGraph {
+  k: number;
+  // rows × k, nearest first
+  indices: Int32Array;
+  // Euclidean distances matching indices
+  distances: Float32Array;
+}
+
+// Above this many rows the quadratic exact search gives way to the approximate one
+export const EXACT_NEIGHBOR_ROWS = 10000;
+// Random projection trees whose leaves are searched for candidates
+const NEIGHBOR_TREES = 8;
+const MIN_LEAF_SIZE = 32;
+// Neighbours of neighbours checked per point in each refinement pass
+const REFINE_FANOUT = 15;
+const REFINE_PASSES = 3;
+
+/**
+ * k nearest neighbours of every row. Exact by brute force up to
+ * EXACT_NEIGHBOR_ROWS rows, approximate above that, where a quadratic scan
+ * over hundreds of thousands of rows would run for hours.
+ */
+export const nearestNeighbors = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  k: number,
+  onProgress: (done: number) => void
+): NeighborGraph => {
+  const candidates = createCandidates(data, rows, dims, k);
+  if (rows <= EXACT_NEIGHBOR_ROWS) {
+    for (let i = 0; i < rows; i++) {
+      candidates.scan(i);
+      if ((i & 255) === 255) onProgress(i + 1);
+    }
+  } else {
+    approximate(candidates, rows, k, createRandom(rows), onProgress);
+  }
+  onProgress(rows);
+  return candidates.graph();
+};
+
+/** Each row's k best candidates so far, as squared distances kept sorted ascending. */
+const createCandidates = (data: Float32Array, rows: number, dims: number, k: number) => {
+  const best = new Float64Array(rows * k).fill(Infinity);
+  const bestIndex = new Int32Array(rows * k).fill(-1);
+
+  const distance = (i: number, j: number) => {
+    const a = i * dims;
+    const b = j * dims;
+    let d = 0;
+    for (let c = 0; c < dims; c++) {
+      const diff = data[a + c] - data[b + c];
+      d += diff * diff;
+    }
+    return d;
+  };
+
+  const offer = (i: number, j: number, d: number) => {
+    const base = i * k;
+    if (d >= best[base + k - 1]) return;
+    for (let n = 0; n < k; n++) if (bestIndex[base + n] === j) return;
+    let slot = k - 1;
+    while (slot > 0 && best[base + slot - 1] > d) {
+      best[base + slot] = best[base + slot - 1];
+      bestIndex[base + slot] = bestIndex[base + slot - 1];
+      slot--;
+    }
+    best[base + slot] = d;
+    bestIndex[base + slot] = j;
+  };
+
+  // Compares the row with every other one
+  const scan = (i: number) => {
+    for (let j = 0; j < rows; j++) if (j !== i) offer(i, j, distance(i, j));
+  };
+
+  const graph = (): NeighborGraph => {
+    const distances = new Float32Array(rows * k);
+    for (let n = 0; n < distances.length; n++) distances[n] = Math.sqrt(best[n]);
+    return { k, indices: bestIndex, distances };
+  };
+
+  return { data, dims, best, bestIndex, distance, offer, scan, graph };
+};
+
+type Candidates = ReturnType<typeof createCandidates>;
+
+/**
+ * Random projection forest: each tree splits the rows by the hyperplane
+ * halfway between two random rows until the leaves are small, and rows
+ * sharing a leaf are compared. A few passes over neighbours of neighbours then
+ * pick up what the trees split apart. Costs O(rows · leaf size · dims) per tree.
+ */
+const approximate = (candidates: Candidates, rows: number, k: number, random: Random, onProgress: (done: number) => void) => {
+  const { data, dims, bestIndex, distance, offer } = candidates;
+  const leafSize = Math.max(MIN_LEAF_SIZE, 2 * k);
+  const order = new Int32Array(rows);
+  const normal = new Float64Array(dims);
+  const side = (i: number) => {
+    let dot = 0;
+    for (let c = 0; c < dims; c++) dot += data[i * dims + c] * normal[c];
+    return dot;
+  };
+
+  for (let tree = 0; tree < NEIGHBOR_TREES; tree++) {
+    for (let i = 0; i < rows; i++) order[i] = i;
+    const stack = [0, rows];
+    while (stack.length > 0) {
+      const end = stack.pop()!;
+      const start = stack.pop()!;
+      if (end - start <= leafSize) {
+        for (let p = start; p < end; p++) {
+          for (let q = p + 1; q < end; q++) {
+            const d = distance(order[p], order[q]);
+            offer(order[p], order[q], d);
+            offer(order[q], order[p], d);
+          }
+        }
+        continue;
+      }
+
+      const a = order[start + random.integer(end - start)] * dims;
+      const b = order[start + random.integer(end - start)] * dims;
+      let offset = 0;
+      for (let c = 0; c < dims; c++) {
+        normal[c] = data[a + c] - data[b + c];
+        offset += normal[c] * (data[a + c] + data[b + c]) / 2;
+      }
+      let lo = start;
+      let hi = end - 1;
+      while (lo <= hi) {
+        const s = side(order[lo]) - offset;
+        if (s > 0 || (s === 0 && random.next() < 0.5)) {
+          const swap = order[lo];
+          order[lo] = order[hi];
+          order[hi--] = swap;
+        } else {
+          lo++;
+        }
+      }
+      // Duplicate rows cannot be split by a plane, so they are halved instead
+      const mid = lo === start || lo === end ? (start + end) >> 1 : lo;
+      stack.push(start, mid, mid, end);
+    }
+    onProgress(Math.floor((rows * (tree + 1)) / (NEIGHBOR_TREES + 1)));
+  }
+
+  const fanout = Math.min(k, REFINE_FANOUT);
+  for (let pass = 0; pass < REFINE_PASSES; pass++) {
+    for (let i = 0; i < rows; i++) {
+      for (let m = 0; m < fanout; m++) {
+        const j = bestIndex[i * k + m];
+        if (j < 0) break;
+        for (let n = 0; n < fanout; n++) {
+          const l = bestIndex[j * k + n];
+          if (l >= 0 && l !== i) offer(i, l, distance(i, l));
+        }
+      }
+    }
+  }
+  // A row whose leaves were too small to fill its list falls back to a full scan
+  for (let i = 0; i < rows; i++) if (bestIndex[i * k + k - 1] < 0) candidates.scan(i);
+};
+
+/** Undirected weighted edges, each pair listed once. */
+export interface EdgeList {
+  heads: Int32Array;
+  tails: Int32Array;
+  weights: Float32Array;
+}
+
+/**
+ * Merges the directed kNN weights i→j and j→i into one undirected edge.
+ * A missing direction counts as weight 0 when combined.
+ */
+export const symmetrize = (
+  graph: NeighborGraph,
+  rows: number,
+  weights: Float32Array,
+  combine: (forward: number, backward: number) => number
+): EdgeList => {
+  const { k, indices } = graph;
+  const reverseWeight = (from: number, to: number) => {
+    for (let n = 0; n < k; n++) if (indices[from * k + n] === to) return weights[from * k + n];
+    return -1;
+  };
+
+  const heads: number[] = [];
+  const tails: number[] = [];
+  const combined: number[] = [];
+  for (let i = 0; i < rows; i++) {
+    for (let n = 0; n < k; n++) {
+      const j = indices[i * k + n];
+      if (j < 0) continue;
+      const backward = reverseWeight(j, i);
+      // Mutual pairs are emitted from their lower index only
+      if (backward >= 0 && j < i) continue;
+      const weight = combine(weights[i * k + n], Math.max(0, backward));
+      if (weight <= 0) continue;
+      heads.push(i);
+      tails.push(j);
+      combined.push(weight);
+    }
+  }
+
+  return { heads: Int32Array.from(heads), tails: Int32Array.from(tails), weights: Float32Array.from(combined) };
+};
@@ -0,0 +1,161 @@
+import { Random } from './random';
+
+// Extra directions sampled beyond the requested components, and subspace
+// iterations; both trade a little time for accuracy on flat spectra
+const OVERSAMPLING = 10;
+const POWER_ITERATIONS = 3;
+
+export interface PCAResult {
+  // rows × components, row-major
+  scores: Float32Array;
+  // Share of the total variance captured by each component
+  explained: number[];
+}
+
+// out (rows × l) = X (rows × dims) · M (dims × l)
+const multiply = (x: Float32Array, rows: number, dims: number, m: Float64Array, l: number) => {
+  const out = new Float64Array(rows * l);
+  for (let i = 0; i < rows; i++) {
+    const o = i * l;
+    for (let j = 0; j < dims; j++) {
+      const v = x[i * dims + j];
+      if (v === 0) continue;
+      const r = j * l;
+      for (let c = 0; c < l; c++) out[o + c] += v * m[r + c];
+    }
+  }
+  return out;
+};
+
+// out (dims × l) = Xᵀ (dims × rows) · Q (rows × l)
+const multiplyTransposed = (x: Float32Array, rows: number, dims: number, q: Float64Array, l: number) => {
+  const out = new Float64Array(dims * l);
+  for (let i = 0; i < rows; i++) {
+    const r = i * l;
+    for (let j = 0; j < dims; j++) {
+      const v = x[i * dims + j];
+      if (v === 0) continue;
+      const o = j * l;
+      for (let c = 0; c < l; c++) out[o + c] += v * q[r + c];
+    }
+  }
+  return out;
+};
+
+/** Modified Gram-Schmidt on the columns of a row-major matrix, in place. */
+const orthonormalize = (m: Float64Array, rows: number, cols: number) => {
+  for (let c = 0; c < cols; c++) {
+    for (let p = 0; p < c; p++) {
+      let dot = 0;
+      for (let i = 0; i < rows; i++) dot += m[i * cols + c] * m[i * cols + p];
+      for (let i = 0; i < rows; i++) m[i * cols + c] -= dot * m[i * cols + p];
+    }
+    let norm = 0;
+    for (let i = 0; i < rows; i++) norm += m[i * cols + c] ** 2;
+    norm = Math.sqrt(norm);
+    // A column that collapsed onto the others is zeroed rather than blown up
+    const scale = norm > 1e-12 ? 1 / norm : 0;
+    for (let i = 0; i < rows; i++) m[i * cols + c] *= scale;
+  }
+};
+
+/** Eigen-decomposition of a small symmetric matrix by cyclic Jacobi rotations. */
+export const symmetricEigen = (matrix: Float64Array, n: number) => {
+  const a = Float64Array.from(matrix);
+  const v = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) v[i * n + i] = 1;
+
+  for (let sweep = 0; sweep < 100; sweep++) {
+    let off = 0;
+    for (let p = 0; p < n; p++) for (let q = p + 1; q < n; q++) off += a[p * n + q] ** 2;
+    if (off < 1e-22) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p * n + q];
+        if (Math.abs(apq) < 1e-300) continue;
+        const theta = (a[q * n + q] - a[p * n + p]) / (2 * apq);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k * n + p];
+          const akq = a[k * n + q];
+          a[k * n + p] = c * akp - s * akq;
+          a[k * n + q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p * n + k];
+          const aqk = a[q * n + k];
+          a[p * n + k] = c * apk - s * aqk;
+          a[q * n + k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k * n + p];
+          const vkq = v[k * n + q];
+          v[k * n + p] = c * vkp - s * vkq;
+          v[k * n + q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  // Largest eigenvalue first; vectors are the columns of v
+  const order = Array.from({ length: n }, (_, i) => i).sort((i, j) => a[j * n + j] - a[i * n + i]);
+  return {
+    values: order.map(i => a[i * n + i]),
+    vectors: order.map(i => Array.from({ length: n }, (_, k) => v[k * n + i])),
+  };
+};
+
+/**
+ * Leading principal components of a centred matrix by randomized subspace
+ * iteration, which costs a few passes over the data instead of a dims × dims
+ * covariance matrix. Components beyond the rank of the data come back as zeros.
+ */
+export const pca = (data: Float32Array, rows: number, dims: number, components: number, random: Random): PCAResult => {
+  const k = Math.min(components, rows, dims);
+  const l = Math.min(k + OVERSAMPLING, rows, dims);
+  const scores = new Float32Array(rows * components);
+
+  let totalVariance = 0;
+  for (let i = 0; i < data.length; i++) totalVariance += data[i] * data[i];
+  if (k === 0 || totalVariance === 0) return { scores, explained: new Array(components).fill(0) };
+
+  const omega = new Float64Array(dims * l);
+  for (let i = 0; i < omega.length; i++) omega[i] = random.gaussian();
+  let q = multiply(data, rows, dims, omega, l);
+  orthonormalize(q, rows, l);
+  for (let iteration = 0; iteration < POWER_ITERATIONS; iteration++) {
+    const z = multiplyTransposed(data, rows, dims, q, l);
+    orthonormalize(z, dims, l);
+    q = multiply(data, rows, dims, z, l);
+    orthonormalize(q, rows, l);
+  }
+
+  // Bᵀ = Xᵀ Q; the eigenvectors of B Bᵀ rotate Q onto the principal axes
+  const bt = multiplyTransposed(data, rows, dims, q, l);
+  const gram = new Float64Array(l * l);
+  for (let j = 0; j < dims; j++) {
+    for (let a = 0; a < l; a++) {
+      const v = bt[j * l + a];
+      if (v === 0) continue;
+      for (let b = 0; b < l; b++) gram[a * l + b] += v * bt[j * l + b];
+    }
+  }
+  const { values, vectors } = symmetricEigen(gram, l);
+
+  // Scores are Q·U·S, where S² are the eigenvalues of B Bᵀ
+  for (let c = 0; c < k; c++) {
+    const s = Math.sqrt(Math.max(0, values[c]));
+    const u = vectors[c];
+    for (let i = 0; i < rows; i++) {
+      let sum = 0;
+      for (let a = 0; a < l; a++) sum += q[i * l + a] * u[a];
+      scores[i * components + c] = sum * s;
+    }
+  }
+
+  const explained = Array.from({ length: components }, (_, c) => (c < k ? Math.max(0, values[c]) / totalVariance : 0));
+  return { scores, explained };
+};
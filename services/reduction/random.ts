@@ -0,0 +1,23 @@
+/** Seeded uniform generator (mulberry32) so layouts are repeatable. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  // Box-Muller
+  const gaussian = () => {
+    const u = next() || Number.EPSILON;
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * next());
+  };
+
+  const integer = (max: number) => Math.floor(next() * max);
+
+  return { next, gaussian, integer };
+};
+
+export type Random = ReturnType<typeof createRandom>;
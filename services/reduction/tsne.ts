@@ -0,0 +1,254 @@
+import { nearestNeighbors, symmetrize } from './neighbors';
+import { ReductionContext } from './types';
+
+export interface TSNEOptions {
+  perplexity: number;
+  iterations: number;
+}
+
+// Early exaggeration pulls clusters apart before the fine structure settles
+const EXAGGERATION = 12;
+const EXAGGERATION_ITERATIONS = 250;
+// Barnes-Hut accuracy: cells narrower than THETA times their distance are summarised
+const THETA = 0.5;
+const MAX_TREE_DEPTH = 24;
+const LAYOUT_EVERY = 10;
+
+/**
+ * Conditional affinities p(j|i) over each point's neighbours, with every
+ * Gaussian's bandwidth found by bisection so its perplexity matches.
+ */
+const conditionalAffinities = (distances: Float32Array, rows: number, k: number, perplexity: number) => {
+  const p = new Float32Array(rows * k);
+  const target = Math.log(perplexity);
+  const row = new Float64Array(k);
+
+  for (let i = 0; i < rows; i++) {
+    const base = i * k;
+    // Shifting by the nearest distance keeps exp() from underflowing on wide data
+    const nearest = distances[base] * distances[base];
+    let beta = 1;
+    let low = 0;
+    let high = Infinity;
+    let sum = 0;
+
+    for (let step = 0; step < 200; step++) {
+      sum = 0;
+      let weighted = 0;
+      for (let n = 0; n < k; n++) {
+        const d = distances[base + n] * distances[base + n] - nearest;
+        row[n] = Math.exp(-beta * d);
+        sum += row[n];
+        weighted += d * row[n];
+      }
+      const entropy = Math.log(sum) + (beta * weighted) / sum;
+      if (Math.abs(entropy - target) < 1e-5) break;
+      if (entropy > target) {
+        low = beta;
+        beta = high === Infinity ? beta * 2 : (beta + high) / 2;
+      } else {
+        high = beta;
+        beta = (beta + low) / 2;
+      }
+    }
+    for (let n = 0; n < k; n++) p[base + n] = row[n] / sum;
+  }
+  return p;
+};
+
+/** Octree over the current embedding, rebuilt every iteration. */
+const buildTree = (y: Float64Array, rows: number) => {
+  const order = new Int32Array(rows);
+  for (let i = 0; i < rows; i++) order[i] = i;
+  const scratch = new Int32Array(rows);
+
+  const comX: number[] = [];
+  const comY: number[] = [];
+  const comZ: number[] = [];
+  const counts: number[] = [];
+  const widths: number[] = [];
+  const childStart: number[] = [];
+  const childCount: number[] = [];
+  const leafStart: number[] = [];
+  const leafEnd: number[] = [];
+  const children: number[] = [];
+
+  const min = [Infinity, Infinity, Infinity];
+  let size = 0;
+  for (let i = 0; i < rows; i++) {
+    for (let a = 0; a < 3; a++) min[a] = Math.min(min[a], y[i * 3 + a]);
+  }
+  for (let i = 0; i < rows; i++) {
+    for (let a = 0; a < 3; a++) size = Math.max(size, y[i * 3 + a] - min[a]);
+  }
+  size = size * (1 + 1e-9) || 1;
+
+  const build = (start: number, end: number, x0: number, y0: number, z0: number, width: number, depth: number): number => {
+    const node = counts.length;
+    let sx = 0, sy = 0, sz = 0;
+    for (let n = start; n < end; n++) {
+      const i = order[n];
+      sx += y[i * 3];
+      sy += y[i * 3 + 1];
+      sz += y[i * 3 + 2];
+    }
+    const count = end - start;
+    comX.push(sx / count);
+    comY.push(sy / count);
+    comZ.push(sz / count);
+    counts.push(count);
+    widths.push(width);
+    childStart.push(0);
+    childCount.push(0);
+    leafStart.push(start);
+    leafEnd.push(end);
+    if (count === 1 || depth >= MAX_TREE_DEPTH) return node;
+
+    const half = width / 2;
+    const octant = (i: number) =>
+      (y[i * 3] >= x0 + half ? 1 : 0) | (y[i * 3 + 1] >= y0 + half ? 2 : 0) | (y[i * 3 + 2] >= z0 + half ? 4 : 0);
+    const sizes = new Int32Array(8);
+    for (let n = start; n < end; n++) sizes[octant(order[n])]++;
+    const offsets = new Int32Array(8);
+    for (let o = 1; o < 8; o++) offsets[o] = offsets[o - 1] + sizes[o - 1];
+    const cursor = Int32Array.from(offsets);
+    for (let n = start; n < end; n++) scratch[start + cursor[octant(order[n])]++] = order[n];
+    order.set(scratch.subarray(start, end), start);
+
+    const built: number[] = [];
+    for (let o = 0; o < 8; o++) {
+      if (sizes[o] === 0) continue;
+      const s = start + offsets[o];
+      built.push(build(s, s + sizes[o], x0 + (o & 1 ? half : 0), y0 + (o & 2 ? half : 0), z0 + (o & 4 ? half : 0), half, depth + 1));
+    }
+    childStart[node] = children.length;
+    childCount[node] = built.length;
+    children.push(...built);
+    return node;
+  };
+  build(0, rows, min[0], min[1], min[2], size, 0);
+
+  // Typed copies for the traversal, which visits every node many times per iteration
+  return {
+    order,
+    comX: Float64Array.from(comX),
+    comY: Float64Array.from(comY),
+    comZ: Float64Array.from(comZ),
+    counts: Int32Array.from(counts),
+    widths: Float64Array.from(widths),
+    childStart: Int32Array.from(childStart),
+    childCount: Int32Array.from(childCount),
+    leafStart: Int32Array.from(leafStart),
+    leafEnd: Int32Array.from(leafEnd),
+    children: Int32Array.from(children),
+  };
+};
+
+/**
+ * Barnes-Hut t-SNE in three dimensions. Input affinities come from the
+ * 3 × perplexity nearest neighbours; repulsion is approximated through an
+ * octree, so an iteration costs O(n log n). initial is the starting layout,
+ * rows × 3, usually scaled-down principal components.
+ */
+export const tsne = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  initial: Float32Array,
+  options: TSNEOptions,
+  context: ReductionContext
+): Float32Array => {
+  const perplexity = Math.max(1, Math.min(options.perplexity, (rows - 1) / 3));
+  const k = Math.min(rows - 1, Math.floor(3 * perplexity));
+
+  const graph = nearestNeighbors(data, rows, dims, k, done =>
+    context.onProgress({ stage: 'Finding neighbours', done, total: rows })
+  );
+  const conditional = conditionalAffinities(graph.distances, rows, k, perplexity);
+  const edges = symmetrize(graph, rows, conditional, (forward, backward) => (forward + backward) / (2 * rows));
+
+  const y = Float64Array.from(initial);
+  const update = new Float64Array(rows * 3);
+  const gains = new Float64Array(rows * 3).fill(1);
+  const attraction = new Float64Array(rows * 3);
+  const repulsion = new Float64Array(rows * 3);
+  const stack = new Int32Array(8 * (MAX_TREE_DEPTH + 1));
+  const learningRate = Math.max(rows / EXAGGERATION / 4, 50);
+  const { iterations } = options;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const exaggeration = iteration < EXAGGERATION_ITERATIONS ? EXAGGERATION : 1;
+    const momentum = iteration < EXAGGERATION_ITERATIONS ? 0.5 : 0.8;
+
+    attraction.fill(0);
+    for (let e = 0; e < edges.weights.length; e++) {
+      const i = edges.heads[e] * 3;
+      const j = edges.tails[e] * 3;
+      const dx = y[i] - y[j], dy = y[i + 1] - y[j + 1], dz = y[i + 2] - y[j + 2];
+      const f = edges.weights[e] / (1 + dx * dx + dy * dy + dz * dz);
+      attraction[i] += f * dx; attraction[i + 1] += f * dy; attraction[i + 2] += f * dz;
+      attraction[j] -= f * dx; attraction[j + 1] -= f * dy; attraction[j + 2] -= f * dz;
+    }
+
+    const tree = buildTree(y, rows);
+    repulsion.fill(0);
+    let z = 0;
+    for (let i = 0; i < rows; i++) {
+      const px = y[i * 3], py = y[i * 3 + 1], pz = y[i * 3 + 2];
+      let rx = 0, ry = 0, rz = 0;
+      let top = 0;
+      stack[top++] = 0;
+      while (top > 0) {
+        const node = stack[--top];
+        const dx = px - tree.comX[node], dy = py - tree.comY[node], dz = pz - tree.comZ[node];
+        const d2 = dx * dx + dy * dy + dz * dz;
+        const leaf = tree.childCount[node] === 0;
+
+        if (!leaf && tree.widths[node] * tree.widths[node] < THETA * THETA * d2) {
+          const q = 1 / (1 + d2);
+          const mass = tree.counts[node] * q;
+          z += mass;
+          rx += mass * q * dx; ry += mass * q * dy; rz += mass * q * dz;
+        } else if (leaf) {
+          for (let n = tree.leafStart[node]; n < tree.leafEnd[node]; n++) {
+            const j = tree.order[n];
+            if (j === i) continue;
+            const ex = px - y[j * 3], ey = py - y[j * 3 + 1], ez = pz - y[j * 3 + 2];
+            const q = 1 / (1 + ex * ex + ey * ey + ez * ez);
+            z += q;
+            rx += q * q * ex; ry += q * q * ey; rz += q * q * ez;
+          }
+        } else {
+          const first = tree.childStart[node];
+          for (let c = 0; c < tree.childCount[node]; c++) stack[top++] = tree.children[first + c];
+        }
+      }
+      repulsion[i * 3] = rx;
+      repulsion[i * 3 + 1] = ry;
+      repulsion[i * 3 + 2] = rz;
+    }
+
+    let cx = 0, cy = 0, cz = 0;
+    for (let c = 0; c < rows * 3; c++) {
+      const gradient = 4 * (exaggeration * attraction[c] - repulsion[c] / z);
+      gains[c] = Math.sign(gradient) !== Math.sign(update[c]) ? gains[c] + 0.2 : Math.max(0.01, gains[c] * 0.8);
+      update[c] = momentum * update[c] - learningRate * gains[c] * gradient;
+      y[c] += update[c];
+    }
+    for (let i = 0; i < rows; i++) {
+      cx += y[i * 3];
+      cy += y[i * 3 + 1];
+      cz += y[i * 3 + 2];
+    }
+    for (let i = 0; i < rows; i++) {
+      y[i * 3] -= cx / rows;
+      y[i * 3 + 1] -= cy / rows;
+      y[i * 3 + 2] -= cz / rows;
+    }
+
+    context.onProgress({ stage: 'Optimising layout', done: iteration + 1, total: iterations });
+    if (iteration % LAYOUT_EVERY === LAYOUT_EVERY - 1) context.onLayout(Float32Array.from(y));
+  }
+
+  return Float32Array.from(y);
+};
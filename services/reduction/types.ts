@@ -0,0 +1,13 @@
+import { TaskProgress } from '../../types';
+
+export interface ReductionContext {
+  onProgress: (progress: TaskProgress) => void;
+  // Intermediate layouts of iterative methods, rows × 3
+  onLayout: (positions: Float32Array) => void;
+}
+
+export interface ReductionResult {
+  // rows × 3
+  positions: Float32Array;
+  axisNames: [string, string, string];
+}
@@ -0,0 +1,196 @@
+import { nearestNeighbors, symmetrize } from './neighbors';
+import { Random } from './random';
+import { ReductionContext } from './types';
+
+export interface UMAPOptions {
+  neighbors: number;
+  minDist: number;
+  // 0 picks a count from the dataset size
+  epochs: number;
+}
+
+const NEGATIVE_SAMPLES = 5;
+const SPREAD = 1;
+const GRADIENT_CLIP = 4;
+// Initial layouts are scaled to this half-width, as in the reference implementation
+const INITIAL_EXTENT = 10;
+const LAYOUT_EVERY = 5;
+
+/**
+ * Fits a and b so 1 / (1 + a·d^2b) follows the target membership curve
+ * for minDist: 1 up to minDist, then exp(-(d - minDist) / spread).
+ */
+export const fitCurve = (minDist: number, spread = SPREAD) => {
+  const xs = Array.from({ length: 300 }, (_, i) => ((i + 1) * 3 * spread) / 300);
+  const ys = xs.map(x => (x < minDist ? 1 : Math.exp(-(x - minDist) / spread)));
+  const error = (a: number, b: number) =>
+    xs.reduce((sum, x, i) => sum + (1 / (1 + a * Math.pow(x, 2 * b)) - ys[i]) ** 2, 0);
+
+  // Coarse grid over log(a) and b, then a shrinking pattern search around the best cell
+  let best = { a: 1, b: 1, error: Infinity };
+  for (let la = -3; la <= 3; la += 0.1) {
+    for (let b = 0.1; b <= 2; b += 0.05) {
+      const e = error(Math.exp(la), b);
+      if (e < best.error) best = { a: Math.exp(la), b, error: e };
+    }
+  }
+  let stepA = 0.1;
+  let stepB = 0.05;
+  for (let round = 0; round < 60; round++) {
+    let moved = false;
+    for (const [da, db] of [[stepA, 0], [-stepA, 0], [0, stepB], [0, -stepB]]) {
+      const a = best.a * Math.exp(da);
+      const b = best.b + db;
+      if (b <= 0) continue;
+      const e = error(a, b);
+      if (e < best.error) {
+        best = { a, b, error: e };
+        moved = true;
+      }
+    }
+    if (!moved) {
+      stepA /= 2;
+      stepB /= 2;
+    }
+  }
+  return { a: best.a, b: best.b };
+};
+
+/**
+ * Membership strengths of each point's neighbours: exp(-(d - rho) / sigma),
+ * where rho is the distance to the nearest neighbour and sigma is chosen by
+ * bisection so the strengths sum to log2(k).
+ */
+const memberships = (distances: Float32Array, rows: number, k: number) => {
+  const weights = new Float32Array(rows * k);
+  const target = Math.log2(k);
+
+  let meanDistance = 0;
+  for (let i = 0; i < distances.length; i++) meanDistance += distances[i];
+  meanDistance /= distances.length || 1;
+
+  for (let i = 0; i < rows; i++) {
+    const base = i * k;
+    let rho = 0;
+    for (let n = 0; n < k; n++) {
+      if (distances[base + n] > 0) {
+        rho = distances[base + n];
+        break;
+      }
+    }
+
+    let low = 0;
+    let high = Infinity;
+    let sigma = 1;
+    for (let step = 0; step < 64; step++) {
+      let sum = 0;
+      for (let n = 0; n < k; n++) sum += Math.exp(-Math.max(0, distances[base + n] - rho) / sigma);
+      if (Math.abs(sum - target) < 1e-5) break;
+      if (sum > target) {
+        high = sigma;
+        sigma = (low + high) / 2;
+      } else {
+        low = sigma;
+        sigma = high === Infinity ? sigma * 2 : (low + high) / 2;
+      }
+    }
+    // Guards against collapsing bandwidths in dense duplicate regions
+    sigma = Math.max(sigma, 1e-3 * meanDistance);
+
+    for (let n = 0; n < k; n++) weights[base + n] = Math.exp(-Math.max(0, distances[base + n] - rho) / sigma);
+  }
+  return weights;
+};
+
+const clip = (v: number) => Math.max(-GRADIENT_CLIP, Math.min(GRADIENT_CLIP, v));
+
+/**
+ * UMAP in three dimensions: a fuzzy kNN graph optimised by stochastic
+ * gradient descent with negative sampling. initial is the starting layout,
+ * rows × 3, rescaled here to the reference extent.
+ */
+export const umap = (
+  data: Float32Array,
+  rows: number,
+  dims: number,
+  initial: Float32Array,
+  options: UMAPOptions,
+  random: Random,
+  context: ReductionContext
+): Float32Array => {
+  const k = Math.max(1, Math.min(options.neighbors, rows - 1));
+  const epochs = options.epochs > 0 ? options.epochs : rows <= 10000 ? 500 : 200;
+
+  const graph = nearestNeighbors(data, rows, dims, k, done =>
+    context.onProgress({ stage: 'Finding neighbours', done, total: rows })
+  );
+  const weights = memberships(graph.distances, rows, k);
+  // Fuzzy union of the two directions, then walked both ways so each end draws its own negative samples
+  const union = symmetrize(graph, rows, weights, (forward, backward) => forward + backward - forward * backward);
+  const edges = {
+    heads: Int32Array.from([...union.heads, ...union.tails]),
+    tails: Int32Array.from([...union.tails, ...union.heads]),
+    weights: Float32Array.from([...union.weights, ...union.weights]),
+  };
+  const { a, b } = fitCurve(options.minDist);
+
+  let maxWeight = 0;
+  for (let e = 0; e < edges.weights.length; e++) maxWeight = Math.max(maxWeight, edges.weights[e]);
+  // Strong edges are sampled every epoch, weaker ones proportionally less often
+  const perSample = new Float64Array(edges.weights.length);
+  for (let e = 0; e < perSample.length; e++) {
+    perSample[e] = edges.weights[e] < maxWeight / epochs ? Infinity : maxWeight / edges.weights[e];
+  }
+  const nextSample = Float64Array.from(perSample);
+  const perNegative = perSample.map(v => v / NEGATIVE_SAMPLES);
+  const nextNegative = Float64Array.from(perNegative);
+
+  let extent = 0;
+  for (let i = 0; i < initial.length; i++) extent = Math.max(extent, Math.abs(initial[i]));
+  const scale = extent > 0 ? INITIAL_EXTENT / extent : 1;
+  const y = new Float64Array(rows * 3);
+  for (let i = 0; i < y.length; i++) y[i] = initial[i] * scale + random.gaussian() * 1e-4;
+
+  for (let epoch = 1; epoch <= epochs; epoch++) {
+    const alpha = 1 - (epoch - 1) / epochs;
+    for (let e = 0; e < perSample.length; e++) {
+      if (nextSample[e] > epoch) continue;
+      const i = edges.heads[e] * 3;
+      const j = edges.tails[e] * 3;
+
+      let dx = y[i] - y[j], dy = y[i + 1] - y[j + 1], dz = y[i + 2] - y[j + 2];
+      let d2 = dx * dx + dy * dy + dz * dz;
+      if (d2 > 0) {
+        const coefficient = (-2 * a * b * Math.pow(d2, b - 1)) / (a * Math.pow(d2, b) + 1);
+        const gx = clip(coefficient * dx) * alpha, gy = clip(coefficient * dy) * alpha, gz = clip(coefficient * dz) * alpha;
+        y[i] += gx; y[i + 1] += gy; y[i + 2] += gz;
+        y[j] -= gx; y[j + 1] -= gy; y[j + 2] -= gz;
+      }
+      nextSample[e] += perSample[e];
+
+      const negatives = Math.floor((epoch - nextNegative[e]) / perNegative[e]);
+      for (let n = 0; n < negatives; n++) {
+        const m = random.integer(rows) * 3;
+        if (m === i) continue;
+        dx = y[i] - y[m]; dy = y[i + 1] - y[m + 1]; dz = y[i + 2] - y[m + 2];
+        d2 = dx * dx + dy * dy + dz * dz;
+        if (d2 > 0) {
+          const coefficient = (2 * b) / ((0.001 + d2) * (a * Math.pow(d2, b) + 1));
+          y[i] += clip(coefficient * dx) * alpha;
+          y[i + 1] += clip(coefficient * dy) * alpha;
+          y[i + 2] += clip(coefficient * dz) * alpha;
+        } else {
+          y[i] += GRADIENT_CLIP * alpha;
+          y[i + 1] += GRADIENT_CLIP * alpha;
+          y[i + 2] += GRADIENT_CLIP * alpha;
+        }
+      }
+      nextNegative[e] += negatives * perNegative[e];
+    }
+
+    context.onProgress({ stage: 'Optimising layout', done: epoch, total: epochs });
+    if (epoch % LAYOUT_EVERY === 0) context.onLayout(Float32Array.from(y));
+  }
+
+  return Float32Array.from(y);
+};
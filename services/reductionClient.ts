@@ -0,0 +1,63 @@
+import { ReductionSettings, TaskProgress } from '../types';
+import { FeatureMatrix, ReductionResult } from './reduction';
+
+export type ReductionWorkerRequest = { matrix: FeatureMatrix; settings: ReductionSettings };
+
+export type ReductionWorkerResponse =
+  | { type: 'progress'; progress: TaskProgress }
+  | { type: 'layout'; positions: Float32Array }
+  | { type: 'done'; result: ReductionResult }
+  | { type: 'error'; message: string };
+
+export interface ReductionTask {
+  // Resolves to null when the reduction was cancelled
+  promise: Promise<ReductionResult | null>;
+  cancel: () => void;
+}
+
+/**
+ * Runs a dimensionality reduction in a dedicated worker. The optimisation
+ * loops never yield, so cancelling terminates the worker outright.
+ */
+export const startReduction = (
+  matrix: FeatureMatrix,
+  settings: ReductionSettings,
+  onProgress: (progress: TaskProgress) => void,
+  onLayout: (positions: Float32Array) => void
+): ReductionTask => {
+  const worker = new Worker(new URL('../workers/reductionWorker.ts', import.meta.url), { type: 'module' });
+  let settle: (result: ReductionResult | null) => void = () => {};
+
+  const promise = new Promise<ReductionResult | null>((resolve, reject) => {
+    settle = resolve;
+    worker.onmessage = (event: MessageEvent<ReductionWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress(message.progress);
+        return;
+      }
+      if (message.type === 'layout') {
+        onLayout(message.positions);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.result);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Reduction worker failed'));
+    };
+  });
+
+  const request: ReductionWorkerRequest = { matrix, settings };
+  worker.postMessage(request, [matrix.data.buffer]);
+
+  return {
+    promise,
+    cancel: () => {
+      worker.terminate();
+      settle(null);
+    },
+  };
+};
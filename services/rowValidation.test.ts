@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMapping } from '../types';
+import { createNumericParser, createRowValidator } from './rowValidation';
+
+// Reads the cells in order as one column
+const column = (...cells: string[]) => {
+  const parse = createNumericParser();
+  return cells.map(cell => {
+    const { value, repair, reason } = parse(cell);
+    return reason ?? (repair ? `${value} (${repair})` : value);
+  });
+};
+
+describe('createNumericParser', () => {
+  it('reads plain numbers as written', () => {
+    expect(column('1.5', ' -2 ', '1e3', '.25', '1.234')).toEqual([1.5, -2, 1000, 0.25, 1.234]);
+  });
+
+  it('rejects blanks, non-finite values and other text', () => {
+    expect(column('', 'NaN', '-inf', 'Infinity', '1e999', '12abc')).toEqual([
+      'blank value',
+      'non-finite value "NaN"',
+      'non-finite value "-inf"',
+      'non-finite value "Infinity"',
+      'not a number "1e999"',
+      'not a number "12abc"',
+    ]);
+  });
+
+  it('repairs decimal commas and thousands separators', () => {
+    expect(column('1,5', '1.234,5')).toEqual([
+      '1.5 (decimal comma in "1,5")',
+      '1234.5 (thousands separators in "1.234,5")',
+    ]);
+    expect(column('1,234.5', '1,234,567')).toEqual([
+      '1234.5 (thousands separators in "1,234.5")',
+      '1234567 (thousands separators in "1,234,567")',
+    ]);
+  });
+
+  it('rejects a cell that reads either way until the column settles it', () => {
+    expect(column('1,234', '12', '1,234.5', '1,234')).toEqual([
+      'ambiguous separators in "1,234"',
+      12,
+      '1234.5 (thousands separators in "1,234.5")',
+      '1234 (thousands separators in "1,234")',
+    ]);
+    expect(column('0,5', '1,234', '1.234')).toEqual([
+      '0.5 (decimal comma in "0,5")',
+      '1.234 (decimal comma in "1,234")',
+      '1234 (thousands separators in "1.234")',
+    ]);
+  });
+
+  it('rejects cells in the other convention once the column is settled', () => {
+    expect(column('2.5', '1,5')).toEqual([2.5, 'separators in "1,5" do not match the rest of the column']);
+    expect(column('1.234,5', '1,234.5', '3')).toEqual([
+      '1234.5 (thousands separators in "1.234,5")',
+      'separators in "1,234.5" do not match the rest of the column',
+      3,
+    ]);
+  });
+});
+
+describe('createRowValidator', () => {
+  it('settles the separator of each coordinate column on its own', () => {
+    const mapping: ColumnMapping = { x: 0, y: 1, z: null, label: null, metadata: null };
+    const validator = createRowValidator(mapping, 'drop', 'points.csv');
+    expect(validator.push(['1,5', '2.5'], 2)).toMatchObject({ x: 1.5, y: 2.5, z: 0 });
+    expect(validator.push(['2,5', '1.25'], 3)).toMatchObject({ x: 2.5, y: 1.25 });
+    expect(validator.push(['3.5', '1'], 4)).toBeNull();
+    const { report } = validator.finish();
+    expect(report).toMatchObject({ totalRows: 3, valid: 0, repaired: 2, skipped: 1 });
+    expect(report.issues.map(i => i.reason)).toEqual([
+      'X: decimal comma in "1,5"',
+      'X: decimal comma in "2,5"',
+      'X: separators in "3.5" do not match the rest of the column',
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import { ColumnMapping, ImportReport, InvalidValuePolicy, RowIssue } from '../types';
+
+export const MAX_REPORTED_ISSUES = 10000;
+
+const AXES = ['x', 'y', 'z'] as const;
+
+interface NumericCell {
+  value: number;
+  // Set when the value had to be normalised before it parsed
+  repair: string | null;
+  // Set when the cell is unusable; value is NaN
+  reason: string | null;
+}
+
+const valid = (value: number, repair: string | null = null): NumericCell => ({ value, repair, reason: null });
+const invalid = (reason: string): NumericCell => ({ value: NaN, repair: null, reason });
+
+// Separated forms Number() does not read: "1,234.5" with decimal points, "1,5" and "1.234,5" with decimal commas
+const COMMA_THOUSANDS = /^[+-]?\d{1,3}(,\d{3})+(\.\d+)?$/;
+const DECIMAL_COMMA = /^[+-]?\d*,\d+$/;
+const DOT_THOUSANDS = /^[+-]?\d{1,3}(\.\d{3})+(,\d+)?$/;
+
+type DecimalSeparator = '.' | ',';
+
+/** The cell read with the given decimal separator, or null when it does not fit that convention. */
+const readWith = (v: string, separator: DecimalSeparator): NumericCell | null => {
+  const n = Number(v);
+  if (separator === '.') {
+    if (Number.isFinite(n)) return valid(n);
+    if (COMMA_THOUSANDS.test(v)) return valid(Number(v.replace(/,/g, '')), `thousands separators in "${v}"`);
+    return null;
+  }
+  if (Number.isFinite(n) && !v.includes('.')) return valid(n);
+  if (DECIMAL_COMMA.test(v)) return valid(Number(v.replace(',', '.')), `decimal comma in "${v}"`);
+  if (DOT_THOUSANDS.test(v)) return valid(Number(v.replace(/\./g, '').replace(',', '.')), `thousands separators in "${v}"`);
+  return null;
+};
+
+/**
+ * Parses the cells of one numeric column. Plain numbers pass through;
+ * European decimal commas ("1,5") and thousands separators ("1.234,5",
+ * "1,234.5") are repaired. The first cell that shows which separator marks
+ * the decimals settles it for the column, so later cells in the other
+ * convention are rejected rather than read differently. Until then, a cell
+ * like "1,234" that reads either way is rejected as ambiguous. Blanks,
+ * NaN/Infinity and anything else are rejected with a reason.
+ */
+export const createNumericParser = () => {
+  let separator: DecimalSeparator | null = null;
+
+  return (raw: string | undefined): NumericCell => {
+    const v = (raw ?? '').trim();
+    if (v.length === 0) return invalid('blank value');
+    if (/^[+-]?(nan|inf(inity)?)$/i.test(v)) return invalid(`non-finite value "${v}"`);
+
+    if (separator !== null) {
+      return readWith(v, separator) ?? invalid(`separators in "${v}" do not match the rest of the column`);
+    }
+    const point = readWith(v, '.');
+    const comma = readWith(v, ',');
+    if (point && comma && point.value !== comma.value) {
+      // Plain numbers read as written
+      if (point.repair !== null) return invalid(`ambiguous separators in "${v}"`);
+      separator = '.';
+      return point;
+    }
+    const cell = point ?? comma;
+    if (!cell) return invalid(`not a number "${v}"`);
+    // A separator that only one convention reads settles the column
+    if (/[.,]/.test(v) && !(point && comma)) separator = point ? '.' : ',';
+    return cell;
+  };
+};
+
+export interface ValidatedRow {
+  // NaN marks a coordinate that is imputed once all rows have been seen
+  x: number;
+  y: number;
+  z: number;
+  label: string;
+  metadata: string;
+}
+
+export interface RowValidator {
+  push: (fields: string[], line: number) => ValidatedRow | null;
+  // For binary sources that decode coordinates directly; line is the record number
+  pushValues: (x: number, y: number, z: number, line: number) => [number, number, number] | null;
+  finish: () => { report: ImportReport; means: [number, number, number] };
+  readonly failed: boolean;
+}
+
+/**
+ * Classifies rows one at a time as valid, repaired or skipped according to
+ * the invalid-value policy. With 'impute', unusable coordinates come back as
+ * NaN and are replaced by the column mean reported from finish().
+ */
+export const createRowValidator = (
+  mapping: ColumnMapping,
+  policy: InvalidValuePolicy,
+  fileName: string
+): RowValidator => {
+  const report: ImportReport = {
+    fileName,
+    policy,
+    totalRows: 0,
+    valid: 0,
+    repaired: 0,
+    skipped: 0,
+    issues: [],
+    error: null,
+  };
+  const sums = [0, 0, 0];
+  const counts = [0, 0, 0];
+
+  const record = (issue: RowIssue) => {
+    if (report.issues.length < MAX_REPORTED_ISSUES) report.issues.push(issue);
+  };
+
+  const accept = (cells: NumericCell[], fields: string[], line: number): [number, number, number] | null => {
+    if (report.error) return null;
+    report.totalRows++;
+
+    const coords: [number, number, number] = [0, 0, 0];
+    const repairs: string[] = [];
+    const problems: string[] = [];
+
+    AXES.forEach((axis, i) => {
+      const cell = cells[i];
+      if (cell.reason === null) {
+        coords[i] = cell.value;
+        sums[i] += cell.value;
+        counts[i]++;
+        if (cell.repair) repairs.push(`${axis.toUpperCase()}: ${cell.repair}`);
+      } else {
+        coords[i] = NaN;
+        problems.push(`${axis.toUpperCase()}: ${cell.reason}`);
+      }
+    });
+
+    if (problems.length > 0) {
+      if (policy === 'fail') {
+        report.skipped++;
+        report.error = `Line ${line}: ${problems.join('; ')}`;
+        record({ line, status: 'skipped', reason: problems.join('; '), fields });
+        return null;
+      }
+      if (policy === 'drop') {
+        report.skipped++;
+        record({ line, status: 'skipped', reason: problems.join('; '), fields });
+        return null;
+      }
+      repairs.push(...problems.map(p => `${p}, imputed column mean`));
+    }
+
+    if (repairs.length > 0) {
+      report.repaired++;
+      record({ line, status: 'repaired', reason: repairs.join('; '), fields });
+    } else {
+      report.valid++;
+    }
+    return coords;
+  };
+
+  const parsers = AXES.map(() => createNumericParser());
+
+  const push = (fields: string[], line: number): ValidatedRow | null => {
+    // Unmapped axes are placeholders until a reduction lays the points out
+    const cells = AXES.map((axis, i) => (mapping[axis] === null ? valid(0) : parsers[i](fields[mapping[axis]!])));
+    const coords = accept(cells, fields, line);
+    if (!coords) return null;
+
+    const cell = (idx: number | null) => (idx === null ? '' : (fields[idx] ?? '').trim());
+    return {
+      x: coords[0],
+      y: coords[1],
+      z: coords[2],
+      label: cell(mapping.label) || 'Unlabeled',
+      metadata: cell(mapping.metadata),
+    };
+  };
+
+  const pushValues = (x: number, y: number, z: number, line: number) => {
+    const cells = [x, y, z].map(v => (Number.isFinite(v) ? valid(v) : invalid(`non-finite value "${v}"`)));
+    return accept(cells, [String(x), String(y), String(z)], line);
+  };
+
+  const finish = () => {
+    const means = sums.map((s, i) => (counts[i] > 0 ? s / counts[i] : 0)) as [number, number, number];
+    return { report, means };
+  };
+
+  return {
+    push,
+    pushValues,
+    finish,
+    get failed() { return report.error !== null; },
+  };
+};
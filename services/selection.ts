@@ -0,0 +1,186 @@
+import { PointDataset, SelectionMode } from '../types';
+import { formatCSVRow } from './csvParser';
+import { rgbToHex } from './dataset';
+
+export const EMPTY_SELECTION = new Uint32Array(0);
+
+/**
+ * Indices of the points whose screen projection falls inside a polygon given
+ * in CSS pixels from the top-left of the viewport. A box is passed as its
+ * four corners. viewProjection is a column-major 4x4 matrix, as in
+ * THREE.Matrix4.elements. Points behind the camera are never selected.
+ */
+export const pointsInPolygon = (
+  positions: Float32Array,
+  count: number,
+  viewProjection: ArrayLike<number>,
+  width: number,
+  height: number,
+  polygon: [number, number][],
+  accept?: (index: number) => boolean
+): Uint32Array => {
+  if (polygon.length < 3) return EMPTY_SELECTION;
+  const m = viewProjection;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  polygon.forEach(([x, y]) => {
+    minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+    minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+  });
+
+  // Even-odd ray casting
+  const contains = (px: number, py: number) => {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+      const [xi, yi] = polygon[i];
+      const [xj, yj] = polygon[j];
+      if ((yi > py) !== (yj > py) && px < ((xj - xi) * (py - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+    return inside;
+  };
+
+  const hits: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+    const w = m[3] * x + m[7] * y + m[11] * z + m[15];
+    if (w <= 0) continue;
+    const sx = ((m[0] * x + m[4] * y + m[8] * z + m[12]) / w + 1) * 0.5 * width;
+    const sy = (1 - (m[1] * x + m[5] * y + m[9] * z + m[13]) / w) * 0.5 * height;
+    if (sx < minX || sx > maxX || sy < minY || sy > maxY) continue;
+    if (!contains(sx, sy)) continue;
+    if (accept && !accept(i)) continue;
+    hits.push(i);
+  }
+  return Uint32Array.from(hits);
+};
+
+/** Merges two sorted index sets. */
+export const combineSelection = (current: Uint32Array, next: Uint32Array, mode: SelectionMode): Uint32Array => {
+  if (mode === 'replace') return next;
+  const out: number[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < current.length || j < next.length) {
+    const a = i < current.length ? current[i] : Infinity;
+    const b = j < next.length ? next[j] : Infinity;
+    if (a === b) {
+      if (mode === 'add') out.push(a);
+      i++;
+      j++;
+    } else if (a < b) {
+      out.push(a);
+      i++;
+    } else {
+      if (mode === 'add') out.push(b);
+      j++;
+    }
+  }
+  return Uint32Array.from(out);
+};
+
+/** Every index in 0..count-1 that is not in the sorted set. */
+export const complementSelection = (selection: Uint32Array, count: number): Uint32Array => {
+  const out = new Uint32Array(count - selection.length);
+  let n = 0;
+  let s = 0;
+  for (let i = 0; i < count; i++) {
+    if (s < selection.length && selection[s] === i) s++;
+    else out[n++] = i;
+  }
+  return out;
+};
+
+/** One byte per point, 1 where the point is in the set. */
+export const selectionMask = (selection: Uint32Array, count: number): Uint8Array => {
+  const mask = new Uint8Array(count);
+  selection.forEach(i => { mask[i] = 1; });
+  return mask;
+};
+
+export interface SelectionSummary {
+  count: number;
+  perCategory: { label: string; count: number }[];
+  centroid: [number, number, number];
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export const summarizeSelection = (dataset: PointDataset, selection: Uint32Array): SelectionSummary => {
+  const counts = new Uint32Array(dataset.labels.length);
+  const sum = [0, 0, 0];
+  const min: [number, number, number] = [Infinity, Infinity, Infinity];
+  const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+  selection.forEach(index => {
+    counts[dataset.labelIndices[index]]++;
+    for (let c = 0; c < 3; c++) {
+      const v = dataset.positions[index * 3 + c];
+      sum[c] += v;
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  });
+
+  const n = selection.length || 1;
+  return {
+    count: selection.length,
+    perCategory: dataset.labels
+      .map((label, l) => ({ label, count: counts[l] }))
+      .filter(c => c.count > 0)
+      .sort((a, b) => b.count - a.count),
+    centroid: [sum[0] / n, sum[1] / n, sum[2] / n],
+    min,
+    max,
+  };
+};
+
+const exportColumns = (dataset: PointDataset) => [
+  'x', 'y', 'z', 'label', 'metadata',
+  ...(dataset.colors ? ['color'] : []),
+  ...Object.keys(dataset.attributes),
+];
+
+const rowValues = (dataset: PointDataset, index: number): (number | string)[] => {
+  const { positions, colors } = dataset;
+  const values: (number | string)[] = [
+    positions[index * 3],
+    positions[index * 3 + 1],
+    positions[index * 3 + 2],
+    dataset.labels[dataset.labelIndices[index]],
+    dataset.metadata[index] ?? '',
+  ];
+  if (colors) values.push(rgbToHex(colors[index * 3], colors[index * 3 + 1], colors[index * 3 + 2]));
+  Object.values(dataset.attributes).forEach(column => values.push(column[index]));
+  return values;
+};
+
+/**
+ * The given rows as CSV with a header line; missing numbers are left empty.
+ * leading adds columns ahead of the point's own, one value per row.
+ */
+export const rowsToCSV = (
+  dataset: PointDataset,
+  indices: ArrayLike<number>,
+  leading: Record<string, ArrayLike<number>> = {}
+): string => {
+  const extra = Object.values(leading);
+  const lines = [formatCSVRow([...Object.keys(leading), ...exportColumns(dataset)])];
+  for (let i = 0; i < indices.length; i++) {
+    const values = [...extra.map(column => column[i]), ...rowValues(dataset, indices[i])];
+    lines.push(formatCSVRow(values.map(v => (typeof v === 'number' && Number.isNaN(v) ? '' : String(v)))));
+  }
+  return lines.join('\r\n');
+};
+
+/** The given rows as a JSON array of objects; missing numbers become null. */
+export const rowsToJSON = (dataset: PointDataset, indices: ArrayLike<number>): string => {
+  const columns = exportColumns(dataset);
+  const records: Record<string, number | string | null>[] = [];
+  for (let i = 0; i < indices.length; i++) {
+    const record: Record<string, number | string | null> = {};
+    rowValues(dataset, indices[i]).forEach((v, c) => {
+      record[columns[c]] = typeof v === 'number' && Number.isNaN(v) ? null : v;
+    });
+    records.push(record);
+  }
+  return JSON.stringify(records, null, 2);
+};
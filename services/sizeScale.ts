@@ -0,0 +1,61 @@
+import { SizeEncoding, SizeScale } from '../types';
+
+export const SIZE_SCALES: { id: SizeScale; name: string }[] = [
+  { id: 'linear', name: 'Linear' },
+  { id: 'sqrt', name: 'Square root' },
+  { id: 'log', name: 'Log' },
+];
+
+export const DEFAULT_SIZE_ENCODING: SizeEncoding = {
+  attribute: null,
+  scale: 'sqrt',
+  minPixels: 2,
+  maxPixels: 14,
+  basePixels: 5,
+  attenuate: true,
+};
+
+// Camera distance at which attenuated markers are drawn at their pixel size:
+// about where the auto-fitted camera sits for a cube-shaped dataset
+export const SIZE_REFERENCE_DISTANCE = 55;
+
+/** Smallest and largest finite value of a column, or null when there are none. */
+export const columnExtent = (column: Float32Array): [number, number] | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < column.length; i++) {
+    const v = column[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+  }
+  return Number.isFinite(min) && Number.isFinite(max) ? [min, max] : null;
+};
+
+/**
+ * Maps attribute values to marker diameters between minPixels and maxPixels.
+ * sqrt makes marker area proportional to the value; log compresses long
+ * tails and falls back to log(1 + v - min) when the extent reaches zero or
+ * below. Missing values get the smallest size.
+ */
+export const createSizeScale = (encoding: SizeEncoding, extent: [number, number]) => {
+  const [min, max] = extent;
+  const { minPixels, maxPixels, scale } = encoding;
+  const positive = min > 0;
+
+  const normalise = (v: number) => {
+    if (max === min) return 1;
+    if (scale === 'log') {
+      return positive
+        ? Math.log(v / min) / Math.log(max / min)
+        : Math.log1p(v - min) / Math.log1p(max - min);
+    }
+    const t = (v - min) / (max - min);
+    return scale === 'sqrt' ? Math.sqrt(Math.max(0, t)) : t;
+  };
+
+  return (v: number) => {
+    if (!Number.isFinite(v)) return minPixels;
+    const t = Math.min(1, Math.max(0, normalise(v)));
+    return minPixels + t * (maxPixels - minPixels);
+  };
+};
@@ -0,0 +1,141 @@
+const LEAF_SIZE = 32;
+const MAX_DEPTH = 16;
+
+interface OctreeNode {
+  cx: number;
+  cy: number;
+  cz: number;
+  // Radius of the sphere around the node's cube
+  radius: number;
+  // Range of the node's points in the index order
+  start: number;
+  end: number;
+  children: OctreeNode[] | null;
+}
+
+export interface RayLike {
+  origin: { x: number; y: number; z: number };
+  // Must be normalised
+  direction: { x: number; y: number; z: number };
+}
+
+/**
+ * How far from the ray a point may be and still count as a hit. The distance
+ * grows with depth so a fixed number of screen pixels can be expressed as
+ * `base + perDistance * t`, where t is the distance along the ray.
+ */
+export interface PickTolerance {
+  base: number;
+  perDistance: number;
+}
+
+export interface PickResult {
+  index: number;
+  // Distance along the ray
+  distance: number;
+}
+
+export interface SpatialIndex {
+  pick: (ray: RayLike, tolerance: PickTolerance, accept?: (index: number) => boolean) => PickResult | null;
+}
+
+/**
+ * Octree over a dataset's interleaved positions, built once per dataset.
+ * Points are reordered in a permutation array so each node owns a
+ * contiguous range of it.
+ */
+export const createSpatialIndex = (positions: Float32Array, count: number): SpatialIndex => {
+  const order = new Uint32Array(count);
+  for (let i = 0; i < count; i++) order[i] = i;
+  const scratch = new Uint32Array(count);
+
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (let i = 0; i < count; i++) {
+    const x = positions[i * 3], y = positions[i * 3 + 1], z = positions[i * 3 + 2];
+    if (x < minX) minX = x; if (x > maxX) maxX = x;
+    if (y < minY) minY = y; if (y > maxY) maxY = y;
+    if (z < minZ) minZ = z; if (z > maxZ) maxZ = z;
+  }
+  const half = count > 0 ? Math.max(maxX - minX, maxY - minY, maxZ - minZ, 1e-6) / 2 : 0;
+
+  const build = (cx: number, cy: number, cz: number, h: number, start: number, end: number, depth: number): OctreeNode => {
+    const node: OctreeNode = { cx, cy, cz, radius: h * Math.sqrt(3), start, end, children: null };
+    if (end - start <= LEAF_SIZE || depth >= MAX_DEPTH) return node;
+
+    // Counting sort of the range into its eight octants
+    const counts = [0, 0, 0, 0, 0, 0, 0, 0];
+    const octantOf = (p: number) =>
+      (positions[p * 3] >= cx ? 1 : 0) | (positions[p * 3 + 1] >= cy ? 2 : 0) | (positions[p * 3 + 2] >= cz ? 4 : 0);
+    for (let i = start; i < end; i++) counts[octantOf(order[i])]++;
+    const offsets = [start];
+    for (let o = 1; o < 8; o++) offsets.push(offsets[o - 1] + counts[o - 1]);
+    const fill = [...offsets];
+    for (let i = start; i < end; i++) scratch[fill[octantOf(order[i])]++] = order[i];
+    order.set(scratch.subarray(start, end), start);
+
+    const q = h / 2;
+    node.children = [];
+    for (let o = 0; o < 8; o++) {
+      if (counts[o] === 0) continue;
+      node.children.push(build(
+        cx + (o & 1 ? q : -q),
+        cy + (o & 2 ? q : -q),
+        cz + (o & 4 ? q : -q),
+        q,
+        offsets[o],
+        offsets[o] + counts[o],
+        depth + 1
+      ));
+    }
+    return node;
+  };
+
+  const root = build((minX + maxX) / 2, (minY + maxY) / 2, (minZ + maxZ) / 2, half, 0, count, 0);
+
+  const pick: SpatialIndex['pick'] = (ray, tolerance, accept) => {
+    const { x: ox, y: oy, z: oz } = ray.origin;
+    const { x: dx, y: dy, z: dz } = ray.direction;
+    let best: PickResult | null = null;
+
+    // Distance along the ray and squared distance from it for a position
+    const project = (x: number, y: number, z: number) => {
+      const vx = x - ox, vy = y - oy, vz = z - oz;
+      const t = vx * dx + vy * dy + vz * dz;
+      return { t, d2: vx * vx + vy * vy + vz * vz - t * t };
+    };
+
+    const visit = (node: OctreeNode) => {
+      const { t, d2 } = project(node.cx, node.cy, node.cz);
+      const far = t + node.radius;
+      if (far < 0) return;
+      // The nearest hit so far is in front of everything this node holds
+      if (best && t - node.radius > best.distance) return;
+      const reach = node.radius + tolerance.base + tolerance.perDistance * Math.max(far, 0);
+      if (d2 > reach * reach) return;
+
+      if (node.children) {
+        const ordered = node.children
+          .map(child => ({ child, t: project(child.cx, child.cy, child.cz).t }))
+          .sort((a, b) => a.t - b.t);
+        ordered.forEach(({ child }) => visit(child));
+        return;
+      }
+
+      for (let i = node.start; i < node.end; i++) {
+        const p = order[i];
+        const hit = project(positions[p * 3], positions[p * 3 + 1], positions[p * 3 + 2]);
+        if (hit.t < 0 || (best && hit.t >= best.distance)) continue;
+        const limit = tolerance.base + tolerance.perDistance * hit.t;
+        if (hit.d2 > limit * limit) continue;
+        if (accept && !accept(p)) continue;
+        best = { index: p, distance: hit.t };
+      }
+    };
+
+    if (count > 0) visit(root);
+    return best;
+  };
+
+  return { pick };
+};
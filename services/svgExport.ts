@@ -0,0 +1,208 @@
+import * as THREE from 'three';
+import { CategoryStyle, ColorEncoding, ImageExportSettings, PointDataset, PointShape, SizeEncoding } from '../types';
+import { createColormapLUT, getColormapStops, hexToRgb, MISSING_VALUE_COLOR } from './colormaps';
+import { createSizeScale, SIZE_REFERENCE_DISTANCE } from './sizeScale';
+import { rgbToHex } from './dataset';
+import {
+  AXIS_COLORS, AXIS_LABEL_OFFSET, AXIS_NAME_FONT, AXIS_OUTWARD, AXIS_TICK_FONT, axisSegments, formatNumber, SCALE_SUFFIX,
+  SceneTransform, worldTicks
+} from './axes';
+import { BACKGROUND_COLOR, exportCamera, Legend, legendLayout } from './imageExport';
+
+export interface SvgScene {
+  dataset: PointDataset;
+  // World-space positions, as drawn
+  positions: Float32Array;
+  sceneTransform: SceneTransform;
+  categoryStyles: Record<string, CategoryStyle>;
+  useSourceColors: boolean;
+  colorEncoding: ColorEncoding;
+  colorDomain: [number, number] | null;
+  sizeEncoding: SizeEncoding;
+  sizeExtent: [number, number] | null;
+  hiddenMask: Uint8Array | null;
+  selectedMask: Uint8Array | null;
+  legend: Legend | null;
+}
+
+// Above this many points the file gets large enough to strain vector editors
+export const LARGE_SVG_POINTS = 200_000;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const f = (v: number) => v.toFixed(2);
+
+// Same proportions as the point shader and the PNG legend
+const marker = (shape: PointShape, x: number, y: number, half: number, fill: string) => {
+  const e = half * 0.75;
+  const t = half * 0.25;
+  if (shape === 'circle') return `<circle cx="${f(x)}" cy="${f(y)}" r="${f(half * 0.875)}" fill="${fill}"/>`;
+  if (shape === 'square') return `<rect x="${f(x - e)}" y="${f(y - e)}" width="${f(e * 2)}" height="${f(e * 2)}" fill="${fill}"/>`;
+  if (shape === 'diamond') {
+    return `<path d="M${f(x)} ${f(y - e)}L${f(x + e)} ${f(y)}L${f(x)} ${f(y + e)}L${f(x - e)} ${f(y)}Z" fill="${fill}"/>`;
+  }
+  return `<path d="M${f(x - e)} ${f(y - t)}H${f(x - t)}V${f(y - e)}H${f(x + t)}V${f(y - t)}H${f(x + e)}V${f(y + t)}`
+    + `H${f(x + t)}V${f(y + e)}H${f(x - t)}V${f(y + t)}H${f(x - e)}Z" fill="${fill}"/>`;
+};
+
+const toLinear = (c: number) => (c < 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+const toSrgb = (c: number) => (c < 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055);
+
+/**
+ * Point colours as sRGB hex, following the same precedence as PointCloud:
+ * colormap, then the file's colours, then the category.
+ */
+const pointColors = (scene: SvgScene): ((index: number) => string) => {
+  const { dataset, categoryStyles, useSourceColors, colorEncoding, colorDomain } = scene;
+  const column = colorEncoding.attribute ? dataset.attributes[colorEncoding.attribute] : undefined;
+  if (column instanceof Float32Array && colorDomain) {
+    const lut = createColormapLUT(getColormapStops(colorEncoding));
+    const entries = lut.length / 3;
+    const hexes = Array.from({ length: entries }, (_, i) => rgbToHex(lut[i * 3], lut[i * 3 + 1], lut[i * 3 + 2]));
+    const [low, high] = colorDomain;
+    const span = high - low || 1;
+    return (i) => {
+      const v = column[i];
+      return Number.isFinite(v) ? hexes[Math.round(Math.min(1, Math.max(0, (v - low) / span)) * (entries - 1))] : MISSING_VALUE_COLOR;
+    };
+  }
+  const source = useSourceColors ? dataset.colors : null;
+  if (source) return (i) => rgbToHex(source[i * 3], source[i * 3 + 1], source[i * 3 + 2]);
+  const byCategory = dataset.labels.map(label => categoryStyles[label]?.color ?? '#ffffff');
+  return (i) => byCategory[dataset.labelIndices[i]];
+};
+
+// While a selection exists the shader fades unselected points towards the background, in linear light
+const dimmed = (hex: string) => {
+  const background = hexToRgb(BACKGROUND_COLOR).map(toLinear);
+  const [r, g, b] = hexToRgb(hex).map((c, k) => toSrgb(toLinear(c) * 0.25 + background[k] * 0.75));
+  return rgbToHex(r, g, b);
+};
+
+const legendSvg = (legend: Legend, width: number, height: number) => {
+  const { unit, font, padding, row, boxWidth, boxHeight, x, y } = legendLayout(legend, width, height);
+  const parts = [
+    `<g font-family="Inter, -apple-system, 'Segoe UI', Roboto, sans-serif" font-size="${f(font)}" dominant-baseline="central">`,
+    `<rect x="${f(x)}" y="${f(y)}" width="${f(boxWidth)}" height="${f(boxHeight)}" rx="${f(10 * unit)}" fill="#0f172a" fill-opacity="0.8"/>`,
+  ];
+  if (legend.kind === 'categories') {
+    legend.items.forEach((item, i) => {
+      const cy = y + padding + row * (i + 0.5);
+      parts.push(marker(item.shape, x + padding + 8 * unit, cy, 9 * unit, item.color));
+      parts.push(`<text x="${f(x + padding + 24 * unit)}" y="${f(cy)}" fill="#e2e8f0">${escapeXml(item.label)}</text>`);
+    });
+    if (legend.more > 0) {
+      const cy = y + padding + row * (legend.items.length + 0.5);
+      parts.push(`<text x="${f(x + padding)}" y="${f(cy)}" fill="#64748b">+${legend.more} more</text>`);
+    }
+  } else {
+    const barWidth = boxWidth - padding * 2;
+    const stops = legend.stops.map((stop, i) => `<stop offset="${i / Math.max(1, legend.stops.length - 1)}" stop-color="${stop}"/>`);
+    parts.push(`<defs><linearGradient id="legend-gradient">${stops.join('')}</linearGradient></defs>`);
+    parts.push(`<text x="${f(x + padding)}" y="${f(y + padding + row * 0.5)}" fill="#e2e8f0">${escapeXml(legend.title)}</text>`);
+    parts.push(`<rect x="${f(x + padding)}" y="${f(y + padding + row * 1.2)}" width="${f(barWidth)}" height="${f(row * 0.6)}" fill="url(#legend-gradient)"/>`);
+    parts.push(`<text x="${f(x + padding)}" y="${f(y + padding + row * 2.5)}" fill="#94a3b8">${formatNumber(legend.domain[0])}</text>`);
+    parts.push(`<text x="${f(x + padding + barWidth)}" y="${f(y + padding + row * 2.5)}" fill="#94a3b8" text-anchor="end">${formatNumber(legend.domain[1])}</text>`);
+  }
+  parts.push('</g>');
+  return parts.join('\n');
+};
+
+/**
+ * The current projection as an SVG document: every visible point as a vector
+ * marker in its category's shape, drawn far to near, plus the axes and legend
+ * when enabled. The star field and grid are raster effects and are left out.
+ */
+export const buildSvg = (
+  scene: SvgScene,
+  camera: THREE.Camera,
+  viewportHeight: number,
+  settings: ImageExportSettings,
+  [width, height]: [number, number]
+): string => {
+  const { dataset, positions, categoryStyles, sizeEncoding, sizeExtent, hiddenMask, selectedMask, sceneTransform } = scene;
+  const view = exportCamera(camera, width, height);
+  const v = view.matrixWorldInverse.elements;
+  const p = view.projectionMatrix.elements;
+  const scale = height / Math.max(1, viewportHeight);
+  const fov = view instanceof THREE.PerspectiveCamera ? view.fov : 45;
+  const focal = height / (2 * Math.tan(THREE.MathUtils.degToRad(fov) / 2));
+
+  // Screen position and distance in front of the camera, or null when behind it or off screen
+  const project = (x: number, y: number, z: number) => {
+    const vx = v[0] * x + v[4] * y + v[8] * z + v[12];
+    const vy = v[1] * x + v[5] * y + v[9] * z + v[13];
+    const vz = v[2] * x + v[6] * y + v[10] * z + v[14];
+    const cx = p[0] * vx + p[4] * vy + p[8] * vz + p[12];
+    const cy = p[1] * vx + p[5] * vy + p[9] * vz + p[13];
+    const cw = p[3] * vx + p[7] * vy + p[11] * vz + p[15];
+    if (cw <= 0) return null;
+    return { x: ((cx / cw + 1) / 2) * width, y: ((1 - cy / cw) / 2) * height, depth: -vz };
+  };
+
+  const colorOf = pointColors(scene);
+  const visibleCategory = dataset.labels.map(label => categoryStyles[label]?.visible !== false);
+  const shapes = dataset.labels.map(label => categoryStyles[label]?.shape ?? 'circle');
+  const multipliers = dataset.labels.map(label => categoryStyles[label]?.size ?? 1);
+  const sizeColumn = sizeEncoding.attribute ? dataset.attributes[sizeEncoding.attribute] : undefined;
+  const sizeScale = sizeColumn instanceof Float32Array && sizeExtent ? createSizeScale(sizeEncoding, sizeExtent) : null;
+  const anySelected = selectedMask?.some(s => s === 1) ?? false;
+
+  const drawn: { index: number; x: number; y: number; depth: number }[] = [];
+  for (let i = 0; i < dataset.count; i++) {
+    if (!visibleCategory[dataset.labelIndices[i]] || hiddenMask?.[i]) continue;
+    const point = project(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]);
+    if (point && point.x >= -50 && point.x <= width + 50 && point.y >= -50 && point.y <= height + 50) drawn.push({ index: i, ...point });
+  }
+  drawn.sort((a, b) => b.depth - a.depth);
+
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+  ];
+  if (!settings.transparent) parts.push(`<rect width="100%" height="100%" fill="${BACKGROUND_COLOR}"/>`);
+
+  parts.push('<g id="points">');
+  drawn.forEach(({ index, x, y, depth }) => {
+    const l = dataset.labelIndices[index];
+    const selected = selectedMask?.[index] === 1;
+    const pixels = (sizeScale ? sizeScale((sizeColumn as Float32Array)[index]) : sizeEncoding.basePixels) * multipliers[l];
+    const attenuation = sizeEncoding.attenuate ? SIZE_REFERENCE_DISTANCE / depth : 1;
+    const half = (pixels * attenuation * scale * (selected ? 1.3 : 1)) / 2;
+    const color = colorOf(index);
+    parts.push(marker(shapes[l], x, y, half, anySelected && !selected ? dimmed(color) : color));
+  });
+  parts.push('</g>');
+
+  if (settings.showAxes) {
+    const { min, max, axes } = sceneTransform;
+    const ticks = worldTicks(sceneTransform);
+    const segments = axisSegments(sceneTransform, ticks);
+    const text = (position: number[], label: string, worldSize: number, color: string) => {
+      const at = project(position[0], position[1], position[2]);
+      if (!at) return;
+      parts.push(`<text x="${f(at.x)}" y="${f(at.y)}" font-size="${f((worldSize * focal) / at.depth)}" fill="${color}">${escapeXml(label)}</text>`);
+    };
+
+    parts.push(`<g id="axes" font-family="Inter, -apple-system, 'Segoe UI', Roboto, sans-serif" text-anchor="middle" dominant-baseline="central">`);
+    const { vertices } = segments;
+    segments.axes.forEach((a, i) => {
+      const s = project(vertices[i * 6], vertices[i * 6 + 1], vertices[i * 6 + 2]);
+      const e = project(vertices[i * 6 + 3], vertices[i * 6 + 4], vertices[i * 6 + 5]);
+      if (s && e) parts.push(`<line x1="${f(s.x)}" y1="${f(s.y)}" x2="${f(e.x)}" y2="${f(e.y)}" stroke="${AXIS_COLORS[a]}" stroke-width="${f(scale)}"/>`);
+    });
+    axes.forEach((axis, a) => {
+      ticks[a].forEach(({ value, position }) => {
+        text(position.map((c, k) => c + AXIS_OUTWARD[a][k] * AXIS_LABEL_OFFSET), formatNumber(value), AXIS_TICK_FONT, '#94a3b8');
+      });
+      const namePosition = [...min];
+      namePosition[a] = max[a] + AXIS_LABEL_OFFSET * 2;
+      text(namePosition, dataset.axisNames[a] + SCALE_SUFFIX[axis.scale], AXIS_NAME_FONT, AXIS_COLORS[a]);
+    });
+    parts.push('</g>');
+  }
+
+  if (settings.showLegend && scene.legend) parts.push(legendSvg(scene.legend, width, height));
+  parts.push('</svg>');
+  return parts.join('\n');
+};
@@ -0,0 +1,167 @@
+import { PointDataset, TimeSeriesSettings } from '../types';
+import { pointIdReader } from './dataset';
+
+export const PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4];
+// Seconds the full time range takes at 1×
+export const PLAYBACK_SECONDS = 20;
+
+export const DEFAULT_TIME_SERIES: TimeSeriesSettings = {
+  idColumn: null,
+  timeColumn: null,
+  speed: 1,
+  loop: true,
+  trails: true,
+  trailLength: 10,
+};
+
+/**
+ * Points grouped into entities, each entity's observations sorted by time.
+ * Points without an id or a finite time belong to no entity.
+ */
+export interface Trajectories {
+  entityCount: number;
+  // Point indices, entity by entity
+  order: Uint32Array;
+  // Offset of each entity's run in order, plus the end of the last one
+  starts: Uint32Array;
+  // Time of each entry in order
+  times: Float64Array;
+  range: [number, number];
+}
+
+/** The points as they stand at one moment of playback. */
+export interface PlaybackFrame {
+  time: number;
+  // World positions; only entries of shown points are meaningful
+  positions: Float32Array;
+  // 0 for the observation standing in for its entity at this time, 1 for every other point
+  hidden: Uint8Array;
+}
+
+export const createTrajectories = (dataset: PointDataset, settings: TimeSeriesSettings): Trajectories | null => {
+  const { idColumn, timeColumn } = settings;
+  const timeValues = timeColumn ? dataset.attributes[timeColumn] : undefined;
+  if (!idColumn || !(timeValues instanceof Float32Array)) return null;
+
+  const readId = pointIdReader(dataset, idColumn);
+  const entityOf = new Int32Array(dataset.count).fill(-1);
+  const ids = new Map<string, number>();
+  const sizes: number[] = [];
+  for (let i = 0; i < dataset.count; i++) {
+    const id = readId(i);
+    if (id === null || !Number.isFinite(timeValues[i])) continue;
+    let entity = ids.get(id);
+    if (entity === undefined) {
+      entity = sizes.length;
+      ids.set(id, entity);
+      sizes.push(0);
+    }
+    entityOf[i] = entity;
+    sizes[entity]++;
+  }
+  if (sizes.length === 0) return null;
+
+  const starts = new Uint32Array(sizes.length + 1);
+  sizes.forEach((size, e) => { starts[e + 1] = starts[e] + size; });
+  const order = new Uint32Array(starts[sizes.length]);
+  const filled = starts.slice(0, sizes.length);
+  for (let i = 0; i < dataset.count; i++) {
+    if (entityOf[i] >= 0) order[filled[entityOf[i]]++] = i;
+  }
+
+  const times = new Float64Array(order.length);
+  let min = Infinity;
+  let max = -Infinity;
+  for (let e = 0; e < sizes.length; e++) {
+    const run = order.subarray(starts[e], starts[e + 1]);
+    run.sort((a, b) => timeValues[a] - timeValues[b]);
+    for (let k = starts[e]; k < starts[e + 1]; k++) {
+      const t = timeValues[order[k]];
+      times[k] = t;
+      if (t < min) min = t;
+      if (t > max) max = t;
+    }
+  }
+
+  return { entityCount: sizes.length, order, starts, times, range: [min, max] };
+};
+
+// Position in times of the last observation at or before t within [start, end), or start - 1
+const lastAtOrBefore = (times: Float64Array, start: number, end: number, t: number) => {
+  let low = start;
+  let high = end;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (times[mid] <= t) low = mid + 1;
+    else high = mid;
+  }
+  return low - 1;
+};
+
+/**
+ * Every entity between its first and last observation, moved linearly from
+ * the observation before `time` towards the one after it. The earlier
+ * observation stands in for the entity, so it keeps that point's style.
+ */
+export const playbackFrame = (trajectories: Trajectories, positions: Float32Array, count: number, time: number): PlaybackFrame => {
+  const { entityCount, order, starts, times } = trajectories;
+  const out = new Float32Array(count * 3);
+  const hidden = new Uint8Array(count).fill(1);
+  for (let e = 0; e < entityCount; e++) {
+    const start = starts[e];
+    const end = starts[e + 1];
+    const k = lastAtOrBefore(times, start, end, time);
+    if (k < start || (k === end - 1 && times[k] < time)) continue;
+    const p = order[k];
+    hidden[p] = 0;
+    const next = k + 1 < end ? order[k + 1] : p;
+    const span = k + 1 < end ? times[k + 1] - times[k] : 0;
+    const f = span > 0 ? (time - times[k]) / span : 0;
+    for (let c = 0; c < 3; c++) out[p * 3 + c] = positions[p * 3 + c] * (1 - f) + positions[next * 3 + c] * f;
+  }
+  return { time, positions: out, hidden };
+};
+
+/**
+ * Line segments through each shown entity's last `length` observations up
+ * to where it is now. fades runs from 0 at the newest vertex to 1 at the
+ * oldest; owners holds the point whose style each segment takes.
+ */
+export const trailSegments = (
+  trajectories: Trajectories,
+  positions: Float32Array,
+  frame: PlaybackFrame,
+  length: number,
+  accept: (index: number) => boolean
+) => {
+  const { entityCount, order, starts, times } = trajectories;
+  const vertices: number[] = [];
+  const fades: number[] = [];
+  const owners: number[] = [];
+  for (let e = 0; e < entityCount; e++) {
+    const start = starts[e];
+    const k = lastAtOrBefore(times, start, starts[e + 1], frame.time);
+    const head = order[Math.max(k, start)];
+    if (k < start || frame.hidden[head] || !accept(head)) continue;
+
+    const first = Math.max(start, k - length + 1);
+    let x = frame.positions[head * 3];
+    let y = frame.positions[head * 3 + 1];
+    let z = frame.positions[head * 3 + 2];
+    for (let j = k; j >= first; j--) {
+      const p = order[j];
+      const px = positions[p * 3];
+      const py = positions[p * 3 + 1];
+      const pz = positions[p * 3 + 2];
+      if (px !== x || py !== y || pz !== z) {
+        vertices.push(x, y, z, px, py, pz);
+        fades.push((k - j) / length, (k - j + 1) / length);
+        owners.push(head);
+      }
+      x = px;
+      y = py;
+      z = pz;
+    }
+  }
+  return { vertices: new Float32Array(vertices), fades: new Float32Array(fades), owners };
+};
@@ -0,0 +1,53 @@
+export type RawRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Treats anything that is not a plain object as an empty one
+export const asRecord = (value: unknown): RawRecord => (isRecord(value) ? value : {});
+
+export const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string');
+
+export const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every(isFiniteNumber);
+
+// Primitives must match the default's type, arrays their element type, and null stands for an optional name
+const matchesDefault = (value: unknown, fallback: unknown): boolean => {
+  if (fallback === null) return value === null || typeof value === 'string';
+  if (Array.isArray(fallback)) {
+    if (!Array.isArray(value)) return false;
+    if (fallback.length === 0) return isStringArray(value);
+    // Numeric defaults are tuples such as ranges and offsets
+    if (typeof fallback[0] === 'number') return value.length === fallback.length && value.every(isFiniteNumber);
+    return value.every(v => typeof v === typeof fallback[0]);
+  }
+  if (typeof fallback === 'number') return isFiniteNumber(value);
+  return typeof fallback !== 'object' && typeof value === typeof fallback;
+};
+
+/**
+ * A settings object from saved fields that have the same type as the
+ * defaults', falling back to the default for missing or malformed ones.
+ * choices lists the values an enumerated field may take.
+ */
+export const readSettings = <T extends object>(
+  defaults: T,
+  saved: unknown,
+  choices: { [K in keyof T]?: readonly T[K][] } = {}
+): T => {
+  const source = asRecord(saved);
+  const result = { ...defaults };
+  (Object.keys(defaults) as (keyof T & string)[]).forEach(key => {
+    const value = source[key];
+    const allowed = choices[key];
+    if (allowed ? allowed.includes(value as T[typeof key]) : matchesDefault(value, defaults[key])) {
+      result[key] = value as T[typeof key];
+    }
+  });
+  return result;
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { PointDataset } from '../types';
+import { bytesToBase64 } from './project';
+import {
+  datasetFingerprint, decodeLinkData, decodeLinkView, encodeLinkData, encodeLinkView, formatLinkHash, LinkView,
+  MAX_LINK_DATA_CHARS, readLinkHash,
+} from './viewLink';
+
+const dataset: PointDataset = {
+  count: 3,
+  positions: Float32Array.of(0, 0, 0, 1, 1, 1, 2, 2, 2),
+  labelIndices: Uint32Array.of(0, 0, 1),
+  labels: ['a', 'b'],
+  metadata: ['p', 'q', 'r'],
+  colors: null,
+  attributes: { score: Float32Array.of(1, 2, 3) },
+  axisNames: ['x', 'y', 'z'],
+};
+
+const view: LinkView = {
+  count: 3,
+  fingerprint: datasetFingerprint(dataset),
+  camera: { position: [1.23456, 2, 3], target: [0, -0.5, 0] },
+  categoryStyles: {
+    a: { color: '#ff0000', shape: 'square', visible: true, size: 1.5 },
+    'b, c': { color: '#00ff00', shape: 'cross', visible: false, size: 1 },
+  },
+  axisScales: ['log', 'normalized', 'linear'],
+  showAxes: false,
+  selectedIndex: 2,
+};
+
+// Encodes an arbitrary compact view the way encodeLinkView does
+const encodeCompact = async (compact: unknown) => {
+  const stream = new Blob([JSON.stringify(compact)]).stream().pipeThrough(new CompressionStream('deflate'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+describe('view links', () => {
+  it('round-trips a view through URL-safe text, rounding the camera to three decimals', async () => {
+    const text = await encodeLinkView(view);
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    const decoded = await decodeLinkView(text);
+    expect(decoded).toEqual({ ...view, camera: { position: [1.235, 2, 3], target: [0, -0.5, 0] } });
+  });
+
+  it('keeps a view without camera or selection', async () => {
+    const bare = { ...view, camera: null, selectedIndex: null, categoryStyles: {} };
+    expect(await decodeLinkView(await encodeLinkView(bare))).toEqual(bare);
+  });
+
+  it('rejects damaged links and links from another version', async () => {
+    await expect(decodeLinkView('not-a-link')).rejects.toThrow('The link is damaged.');
+    await expect(decodeLinkView(await encodeCompact({ v: 2 }))).rejects.toThrow('different version');
+    await expect(decodeLinkView(await encodeCompact([1]))).rejects.toThrow('different version');
+  });
+
+  it('falls back to defaults for malformed fields', async () => {
+    const decoded = await decodeLinkView(await encodeCompact({
+      v: 1,
+      n: '3',
+      f: 42,
+      c: [1, 2, 3],
+      s: [['a', '#ff0000', 9, 0, -1], ['b', 5], 'c', ['d', '#0000ff', 1]],
+      a: ['log', 'cubic'],
+      p: 1.5,
+    }));
+    expect(decoded).toEqual({
+      count: 0,
+      fingerprint: '',
+      camera: null,
+      categoryStyles: {
+        a: { color: '#ff0000', shape: 'circle', visible: false, size: 1 },
+        d: { color: '#0000ff', shape: 'square', visible: true, size: 1 },
+      },
+      axisScales: ['log', 'linear', 'linear'],
+      showAxes: true,
+      selectedIndex: null,
+    });
+  });
+});
+
+describe('datasetFingerprint', () => {
+  it('ignores positions but not the attributes or metadata', () => {
+    const fingerprint = datasetFingerprint(dataset);
+    expect(fingerprint).toMatch(/^[0-9a-f]{8}$/);
+    expect(datasetFingerprint({ ...dataset, positions: new Float32Array(9) })).toBe(fingerprint);
+    expect(datasetFingerprint({ ...dataset, attributes: {} })).not.toBe(fingerprint);
+    expect(datasetFingerprint({ ...dataset, metadata: ['p', 'q', 's'] })).not.toBe(fingerprint);
+  });
+});
+
+describe('link data', () => {
+  it('round-trips a small file and refuses one over the limit', async () => {
+    const file = new Blob([Uint8Array.of(0, 255, 62, 63, 10)]);
+    const text = await encodeLinkData(file);
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(new Uint8Array(await decodeLinkData(text!).arrayBuffer())).toEqual(Uint8Array.of(0, 255, 62, 63, 10));
+    expect(await encodeLinkData(new Blob([new Uint8Array(MAX_LINK_DATA_CHARS)]))).toBeNull();
+  });
+});
+
+describe('link hashes', () => {
+  it('reads and writes the view and data parameters', () => {
+    expect(readLinkHash('#view=abc&data=d-_e')).toEqual({ view: 'abc', data: 'd-_e' });
+    expect(readLinkHash('')).toEqual({ view: null, data: null });
+    expect(formatLinkHash({ view: 'abc', data: null })).toBe('#view=abc');
+    expect(formatLinkHash({ view: 'abc', data: 'xyz' })).toBe('#view=abc&data=xyz');
+    expect(formatLinkHash({ view: null, data: null })).toBe('');
+  });
+});
@@ -0,0 +1,135 @@
+import { AxisScale, CameraPose, CategoryStyle, PointDataset } from '../types';
+import { AXIS_SCALES } from './axes';
+import { POINT_SHAPES } from './labelSets';
+import { base64ToBytes, bytesToBase64 } from './project';
+import { asArray, asRecord, isFiniteNumber } from './validation';
+
+const LINK_VERSION = 1;
+// Datasets are only embedded when small enough that the link still pastes into chat
+export const MAX_LINK_POINTS = 5000;
+export const MAX_LINK_DATA_CHARS = 48_000;
+
+/** The part of a view that travels in a link. */
+export interface LinkView {
+  // count and fingerprint identify the dataset the view belongs to
+  count: number;
+  fingerprint: string;
+  camera: CameraPose | null;
+  categoryStyles: Record<string, CategoryStyle>;
+  axisScales: [AxisScale, AxisScale, AxisScale];
+  showAxes: boolean;
+  selectedIndex: number | null;
+}
+
+export interface LinkHash {
+  view: string | null;
+  // A compressed project file with its data, see encodeLinkData
+  data: string | null;
+}
+
+/**
+ * Cheap identity of a dataset: its size, attribute names and a sample of its
+ * metadata. Positions are left out so a reduced layout still matches a fresh
+ * import of the same file.
+ */
+export const datasetFingerprint = (dataset: PointDataset): string => {
+  let hash = 0x811c9dc5;
+  const mix = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+  mix(String(dataset.count));
+  Object.keys(dataset.attributes).forEach(mix);
+  const step = Math.max(1, Math.floor(dataset.count / 1000));
+  for (let i = 0; i < dataset.count; i += step) mix(dataset.metadata[i] ?? '');
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+const toBase64Url = (bytes: Uint8Array) => bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => base64ToBytes(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+const transform = async (bytes: Uint8Array, stream: TransformStream<Uint8Array, Uint8Array>) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+export const encodeLinkView = async (view: LinkView): Promise<string> => {
+  const compact = {
+    v: LINK_VERSION,
+    n: view.count,
+    f: view.fingerprint,
+    c: view.camera ? [...view.camera.position, ...view.camera.target].map(round) : null,
+    s: Object.entries(view.categoryStyles).map(([label, style]) =>
+      [label, style.color, POINT_SHAPES.indexOf(style.shape), style.visible ? 1 : 0, round(style.size)]),
+    a: view.axisScales,
+    x: view.showAxes ? 1 : 0,
+    p: view.selectedIndex,
+  };
+  const json = new TextEncoder().encode(JSON.stringify(compact));
+  return toBase64Url(await transform(json, new CompressionStream('deflate')));
+};
+
+export const decodeLinkView = async (text: string): Promise<LinkView> => {
+  let parsed: unknown;
+  try {
+    const json = await transform(fromBase64Url(text), new DecompressionStream('deflate'));
+    parsed = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new Error('The link is damaged.');
+  }
+  const compact = asRecord(parsed);
+  if (compact.v !== LINK_VERSION) throw new Error('The link was made by a different version of VoxNavigator.');
+
+  const categoryStyles: Record<string, CategoryStyle> = {};
+  asArray(compact.s).forEach(entry => {
+    const [label, color, shape, visible, size] = asArray(entry);
+    if (typeof label !== 'string' || typeof color !== 'string') return;
+    categoryStyles[label] = {
+      color,
+      shape: (typeof shape === 'number' && POINT_SHAPES[shape]) || 'circle',
+      visible: visible !== 0,
+      size: isFiniteNumber(size) && size > 0 ? size : 1,
+    };
+  });
+  const scales: unknown[] = AXIS_SCALES.map(s => s.id);
+  const savedScales = asArray(compact.a);
+  const camera = asArray(compact.c);
+  const count = isFiniteNumber(compact.n) ? compact.n : 0;
+  const selected = compact.p;
+
+  return {
+    count,
+    fingerprint: typeof compact.f === 'string' ? compact.f : '',
+    camera: camera.length === 6 && camera.every(isFiniteNumber)
+      ? { position: [camera[0], camera[1], camera[2]], target: [camera[3], camera[4], camera[5]] }
+      : null,
+    categoryStyles,
+    axisScales: [0, 1, 2].map(a => (scales.includes(savedScales[a]) ? savedScales[a] : 'linear')) as [AxisScale, AxisScale, AxisScale],
+    showAxes: compact.x !== 0,
+    selectedIndex: isFiniteNumber(selected) && Number.isInteger(selected) && selected >= 0 && selected < count ? selected : null,
+  };
+};
+
+/** Link form of a project file, or null when it is over the size limit. */
+export const encodeLinkData = async (projectFile: Blob): Promise<string | null> => {
+  // Base64 grows the bytes by a third
+  if ((projectFile.size * 4) / 3 > MAX_LINK_DATA_CHARS) return null;
+  return toBase64Url(new Uint8Array(await projectFile.arrayBuffer()));
+};
+
+export const decodeLinkData = (text: string): Blob => new Blob([fromBase64Url(text)]);
+
+export const readLinkHash = (hash: string): LinkHash => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return { view: params.get('view'), data: params.get('data') };
+};
+
+export const formatLinkHash = (link: LinkHash): string => {
+  const parts = [];
+  if (link.view) parts.push(`view=${link.view}`);
+  if (link.data) parts.push(`data=${link.data}`);
+  return parts.length > 0 ? `#${parts.join('&')}` : '';
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+interface ReadEntry {
+  name: string;
+  crc: number;
+  data: Uint8Array;
+}
+
+// Walks the central directory the way an unzip tool does, checking the local headers agree
+const readZip = (bytes: Uint8Array): ReadEntry[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+  const count = view.getUint16(end + 10, true);
+  let record = view.getUint32(end + 16, true);
+  expect(record + view.getUint32(end + 12, true)).toBe(end);
+
+  const decoder = new TextDecoder();
+  return Array.from({ length: count }, () => {
+    expect(view.getUint32(record, true)).toBe(0x02014b50);
+    const crc = view.getUint32(record + 16, true);
+    const size = view.getUint32(record + 20, true);
+    const nameLength = view.getUint16(record + 28, true);
+    const name = decoder.decode(bytes.subarray(record + 46, record + 46 + nameLength));
+    const local = view.getUint32(record + 42, true);
+    record += 46 + nameLength;
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50);
+    expect(view.getUint16(local + 8, true)).toBe(0);
+    expect(view.getUint32(local + 14, true)).toBe(crc);
+    const start = local + 30 + view.getUint16(local + 26, true);
+    return { name, crc, data: bytes.subarray(start, start + size) };
+  });
+};
+
+describe('createZip', () => {
+  it('stores each entry with its CRC-32 and a UTF-8 name', async () => {
+    const encoder = new TextEncoder();
+    const zip = createZip([
+      { name: 'check.txt', data: encoder.encode('123456789') },
+      { name: 'frames/bild-ä.png', data: Uint8Array.of(137, 80, 78, 71) },
+      { name: 'empty', data: new Uint8Array(0) },
+    ]);
+    const entries = readZip(new Uint8Array(await zip.arrayBuffer()));
+
+    expect(entries.map(e => e.name)).toEqual(['check.txt', 'frames/bild-ä.png', 'empty']);
+    // The standard CRC-32 check value
+    expect(entries[0].crc).toBe(0xcbf43926);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('123456789');
+    expect(Array.from(entries[1].data)).toEqual([137, 80, 78, 71]);
+    expect(entries[2]).toEqual({ name: 'empty', crc: 0, data: new Uint8Array(0) });
+  });
+
+  it('writes a valid empty archive', async () => {
+    expect(readZip(new Uint8Array(await createZip([]).arrayBuffer()))).toEqual([]);
+  });
+});
@@ -5,22 +5,350 @@ export interface CategoryStyle {
   color: string;
   shape: PointShape;
   visible: boolean;
+  // Multiplies the marker size of every point in the category
+  size: number;
+}
+
+/** Shapes drawn over each visible category to show where its points lie. */
+export interface CategoryOverlays {
+  centroids: boolean;
+  // Covariance ellipsoids reaching `sigma` standard deviations
+  ellipsoids: boolean;
+  sigma: 1 | 2;
+  hulls: boolean;
 }
 
 export interface DataPoint {
+  // Position of the point in its PointDataset
+  index: number;
   x: number;
   y: number;
   z: number;
   label: string;
   metadata: string;
+  // Colour from the source file as hex, empty when the file has none
   color: string;
+  attributes: Record<string, number | string>;
+}
+
+/** Columnar point storage; DataPoint objects are only materialised on demand. */
+export interface PointDataset {
+  count: number;
+  // x, y, z interleaved
+  positions: Float32Array;
+  // Index into labels for every point
+  labelIndices: Uint32Array;
+  // Distinct labels in first-seen order
+  labels: string[];
+  metadata: string[];
+  // Per-point rgb in 0..1, present when the source file carries colours
+  colors: Float32Array | null;
+  // Columns beyond x/y/z/label/metadata; numeric ones use NaN for missing values
+  attributes: Record<string, Float32Array | string[]>;
+  // Source column names of x, y and z, used as axis titles
+  axisNames: [string, string, string];
+}
+
+export interface ImportProgress {
+  bytesRead: number;
+  totalBytes: number;
+  rows: number;
+}
+
+export interface ColumnMapping {
+  // null for all three when the coordinates are computed from numeric features after import
+  x: number | null;
+  y: number | null;
+  z: number | null;
+  label: number | null;
+  metadata: number | null;
+}
+
+export interface ExtraColumn {
+  index: number;
+  name: string;
+  numeric: boolean;
+}
+
+export type InvalidValuePolicy = 'drop' | 'fail' | 'impute';
+
+export interface RowIssue {
+  line: number;
+  status: 'repaired' | 'skipped';
+  reason: string;
+  fields: string[];
+}
+
+export interface ImportReport {
+  fileName: string;
+  policy: InvalidValuePolicy;
+  totalRows: number;
+  valid: number;
+  repaired: number;
+  skipped: number;
+  // Only the first MAX_REPORTED_ISSUES issues are kept; counts above are exact
+  issues: RowIssue[];
+  error: string | null;
+}
+
+export type ColormapName = 'viridis' | 'magma' | 'turbo' | 'rdbu' | 'custom';
+
+export type ColorDomainMode = 'extent' | 'percentile' | 'manual';
+
+/** Colours points by a numeric attribute instead of their category. */
+export interface ColorEncoding {
+  // Numeric attribute column, or null to colour by category
+  attribute: string | null;
+  colormap: ColormapName;
+  // Hex stops of the custom gradient, low to high
+  customStops: string[];
+  domainMode: ColorDomainMode;
+  // Lower and upper percentile, 0-100, used by the percentile mode
+  percentiles: [number, number];
+  manualDomain: [number, number];
 }
 
+export type SizeScale = 'linear' | 'sqrt' | 'log';
+
+/** Marker size, optionally driven by a numeric attribute. Sizes are diameters in CSS pixels. */
+export interface SizeEncoding {
+  // Numeric attribute column, or null for one size for every point
+  attribute: string | null;
+  scale: SizeScale;
+  // Sizes for the smallest and largest value of the attribute
+  minPixels: number;
+  maxPixels: number;
+  // Size used when no attribute is bound
+  basePixels: number;
+  // Shrink markers with distance; the pixel sizes then hold at the default camera distance
+  attenuate: boolean;
+}
+
+/** Keeps points whose value in a numeric column lies within [min, max]. */
+export interface RangeFilter {
+  // x, y, z or a numeric attribute
+  column: string;
+  min: number;
+  max: number;
+}
+
+export interface FilterState {
+  ranges: RangeFilter[];
+  // Matched against metadata; empty matches everything
+  search: string;
+  searchMode: 'text' | 'regex';
+  // Query language expression, empty for none
+  expression: string;
+}
+
+export type AxisScale = 'linear' | 'log' | 'normalized';
+
+export type ReductionMethod = 'pca' | 'tsne' | 'umap';
+
+/** Computes x/y/z from numeric attribute columns. */
+export interface ReductionSettings {
+  method: ReductionMethod;
+  // Numeric attribute columns used as features; empty uses all of them
+  features: string[];
+  // Scale every feature to unit variance before reducing
+  standardize: boolean;
+  // t-SNE
+  perplexity: number;
+  iterations: number;
+  // UMAP; 0 epochs picks a count from the dataset size
+  neighbors: number;
+  minDist: number;
+  epochs: number;
+  // Seeds the random initialisation and sampling so runs are repeatable
+  seed: number;
+}
+
+/** Progress of a long computation running in a worker. */
+export interface TaskProgress {
+  stage: string;
+  done: number;
+  total: number;
+}
+
+export type ClusteringMethod = 'kmeans' | 'dbscan' | 'hierarchical';
+
+export type Linkage = 'ward' | 'average' | 'complete' | 'single';
+
+export interface ClusteringSettings {
+  method: ClusteringMethod;
+  // Cluster the displayed coordinates or numeric attribute columns
+  input: 'coordinates' | 'features';
+  // Numeric attribute columns for the 'features' input; empty uses all of them
+  features: string[];
+  standardize: boolean;
+  // Number of clusters for k-means and hierarchical clustering
+  k: number;
+  // DBSCAN neighbourhood radius, 0 to estimate it from the data
+  eps: number;
+  minPoints: number;
+  linkage: Linkage;
+  seed: number;
+}
+
+/** One way of assigning categories to the points; the active set lives in the dataset. */
+export interface LabelSet {
+  name: string;
+  labels: string[];
+  labelIndices: Uint32Array;
+  categoryStyles: Record<string, CategoryStyle>;
+}
+
+/** Plays points back over a time column, one moving point per entity. */
+export interface TimeSeriesSettings {
+  // Column naming the entity a point observes: an attribute, ID_CATEGORY or ID_METADATA; null turns playback off
+  idColumn: string | null;
+  // Numeric attribute column
+  timeColumn: string | null;
+  // Multiple of the default pace, which crosses the whole range in PLAYBACK_SECONDS
+  speed: number;
+  loop: boolean;
+  trails: boolean;
+  // Observations of history each trail reaches back
+  trailLength: number;
+}
+
+/** How a layer of points is drawn. */
+export interface LayerDisplay {
+  visible: boolean;
+  // 0 to 1
+  opacity: number;
+}
+
+/**
+ * A further dataset drawn with the main one, e.g. another run to compare
+ * against it. It shares the main dataset's axes; selection, filters and the
+ * analysis tools keep working on the main dataset only.
+ */
+export interface DatasetLayer extends LayerDisplay {
+  id: string;
+  name: string;
+  dataset: PointDataset;
+  // Applied to the raw coordinates: scaled about the layer's own centre, then moved by offset
+  scale: number;
+  offset: [number, number, number];
+  categoryStyles: Record<string, CategoryStyle>;
+}
+
+/** Matches the main dataset's points to a layer's by a shared id. */
+export interface LayerComparison {
+  // Null turns comparison off
+  layerId: string | null;
+  // An attribute both datasets have, ID_CATEGORY or ID_METADATA
+  idColumn: string | null;
+  showVectors: boolean;
+}
+
+export type DistanceMetric = 'euclidean' | 'manhattan' | 'cosine';
+
+/** Finds the points near the one in the details panel, by raw coordinates. */
+export interface NeighborQuery {
+  enabled: boolean;
+  mode: 'knn' | 'radius';
+  k: number;
+  // In the metric's units; cosine distances run from 0 to 2
+  radius: number;
+  metric: DistanceMetric;
+  // Only points of this category are searched; null searches every category
+  category: string | null;
+  showLines: boolean;
+}
+
+/** Where the camera sits and the point it orbits, in world units. */
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+/** A named camera pose kept with the session. */
+export interface CameraBookmark {
+  id: string;
+  name: string;
+  pose: CameraPose;
+}
+
+export type Easing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut';
+
+/** One leg of a fly-through: the flight to a bookmark and the pause there. */
+export interface TourStop {
+  bookmarkId: string;
+  // Seconds the flight from the previous pose takes
+  duration: number;
+  // Seconds spent at the bookmark before moving on
+  hold: number;
+  easing: Easing;
+}
+
+/** Options for PNG and SVG exports rendered independently of the on-screen canvas. */
+export interface ImageExportSettings {
+  // Output height in pixels; the width follows from the aspect ratio
+  height: number;
+  // Width over height, or null to keep the viewport's
+  aspect: number | null;
+  transparent: boolean;
+  showStars: boolean;
+  showGrid: boolean;
+  showAxes: boolean;
+  showLegend: boolean;
+}
+
+export type ModelFormat = 'glb' | 'ply' | 'obj';
+
+/** Options for exporting the visible points as a 3D file. */
+export interface ModelExportSettings {
+  format: ModelFormat;
+  // Axis lines and tick marks as line geometry; labels are left out
+  includeAxes: boolean;
+  // A ring around every selected point
+  includeSelection: boolean;
+}
+
+// How a new pick combines with the current selection
+export type SelectionMode = 'replace' | 'add' | 'subtract';
+
 export interface VisualizationState {
-  points: DataPoint[];
+  dataset: PointDataset | null;
   categories: string[];
   categoryStyles: Record<string, CategoryStyle>;
   showAxes: boolean;
+  // Colour points by the colours stored in the file instead of their category
+  useSourceColors: boolean;
+  colorEncoding: ColorEncoding;
+  sizeEncoding: SizeEncoding;
+  // Sorted indices of the selected points
+  selection: Uint32Array;
+  // Point shown in the details panel
+  selectedIndex: number | null;
+  // Sorted indices of points hidden by hide or isolate
+  hiddenPoints: Uint32Array;
+  filters: FilterState;
+  // Scaling of the x, y and z axes
+  axisScales: [AxisScale, AxisScale, AxisScale];
+  reduction: ReductionSettings;
+  // Set while a reduction runs in the background
+  reductionProgress: TaskProgress | null;
+  reductionError: string | null;
+  // Snapshots of every label set; the active one may be stale, the dataset and categoryStyles hold its current state
+  labelSets: LabelSet[];
+  activeLabelSet: number;
+  clustering: ClusteringSettings;
+  clusteringProgress: TaskProgress | null;
+  clusteringError: string | null;
+  timeSeries: TimeSeriesSettings;
+  bookmarks: CameraBookmark[];
+  // Bookmarks a fly-through visits, in order
+  tour: TourStop[];
+  mainLayer: LayerDisplay;
+  layers: DatasetLayer[];
+  comparison: LayerComparison;
+  neighborQuery: NeighborQuery;
+  categoryOverlays: CategoryOverlays;
   isLoading: boolean;
+  loadProgress: ImportProgress | null;
   error: string | null;
+  importReport: ImportReport | null;
 }
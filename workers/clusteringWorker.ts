@@ -0,0 +1,25 @@
+import { runClustering } from '../services/clustering';
+import { ClusteringWorkerRequest, ClusteringWorkerResponse } from '../services/clusteringClient';
+
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: ClusteringWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<ClusteringWorkerRequest>) => {
+  const { matrix, settings } = event.data;
+  let lastProgress = 0;
+
+  try {
+    const result = runClustering(matrix, settings, (progress) => {
+      const now = performance.now();
+      if (now - lastProgress < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+      lastProgress = now;
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'done', result }, [result.assignments.buffer]);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,20 @@
+import { getImporter } from '../services/importers';
+import { ImportWorkerRequest, ImportWorkerResponse } from '../services/importClient';
+import { datasetTransferables } from '../services/dataset';
+
+const post = (message: ImportWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = async (event: MessageEvent<ImportWorkerRequest>) => {
+  const { file, format, options } = event.data;
+
+  try {
+    const result = await getImporter(format).run(file, options, {
+      onProgress: (progress) => post({ type: 'progress', progress }),
+    });
+    post({ type: 'done', result }, datasetTransferables(result.dataset));
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
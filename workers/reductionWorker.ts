@@ -0,0 +1,36 @@
+import { runReduction } from '../services/reduction';
+import { ReductionWorkerRequest, ReductionWorkerResponse } from '../services/reductionClient';
+
+// Intermediate layouts are posted at most this often
+const LAYOUT_INTERVAL_MS = 200;
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: ReductionWorkerResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (event: MessageEvent<ReductionWorkerRequest>) => {
+  const { matrix, settings } = event.data;
+  let lastLayout = 0;
+  let lastProgress = 0;
+
+  try {
+    const result = runReduction(matrix, settings, {
+      onProgress: (progress) => {
+        const now = performance.now();
+        if (now - lastProgress < PROGRESS_INTERVAL_MS && progress.done < progress.total) return;
+        lastProgress = now;
+        post({ type: 'progress', progress });
+      },
+      onLayout: (positions) => {
+        const now = performance.now();
+        if (now - lastLayout < LAYOUT_INTERVAL_MS) return;
+        lastLayout = now;
+        post({ type: 'layout', positions }, [positions.buffer]);
+      },
+    });
+    post({ type: 'done', result }, [result.positions.buffer]);
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};